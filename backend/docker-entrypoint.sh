@@ -15,6 +15,9 @@ echo "✅ Database is ready"
 # Run database migrations
 echo "🔄 Running database migrations..."
 npx prisma migrate deploy
+npm run db:message-search
+npm run db:direct-conversations
+npm run db:coin-opening-balances
 
 # Generate Prisma Client (in case it's not generated)
 echo "🔨 Generating Prisma Client..."
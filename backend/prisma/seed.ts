@@ -242,6 +242,70 @@ async function main() {
         threshold: 100,
       },
     }),
+    prisma.badge.create({
+      data: {
+        name: 'Community Regular',
+        description: 'Check in at 5 community events',
+        icon: '🎟️',
+        criteria: 'EVENTS_ATTENDED',
+        threshold: 5,
+      },
+    }),
+    // Rule badges; triggers are the domain events that re-evaluate them
+    prisma.badge.create({
+      data: {
+        name: 'Polymath Teacher',
+        description: 'Teach skills from 3 different categories',
+        icon: '🧭',
+        rule: {
+          metric: 'SWAPS_COMPLETED',
+          aggregation: 'distinct',
+          field: 'taughtCategory',
+          operator: 'gte',
+          value: 3,
+        },
+        triggers: ['SWAP_COMPLETED'],
+      },
+    }),
+    prisma.badge.create({
+      data: {
+        name: 'On a Roll',
+        description: 'Complete 5 swaps within 30 days',
+        icon: '🔥',
+        rule: {
+          metric: 'SWAPS_COMPLETED',
+          aggregation: 'count',
+          windowDays: 30,
+          operator: 'gte',
+          value: 5,
+        },
+        triggers: ['SWAP_COMPLETED'],
+      },
+    }),
+    prisma.badge.create({
+      data: {
+        name: 'Organizer',
+        description: 'Publish your first community event',
+        icon: '📣',
+        rule: { metric: 'EVENTS_ORGANIZED', aggregation: 'count', operator: 'gte', value: 1 },
+        triggers: ['EVENT_PUBLISHED'],
+      },
+    }),
+    prisma.badge.create({
+      data: {
+        name: 'Trusted Reviewer',
+        description: 'Write 10 reviews that others found helpful',
+        icon: '💡',
+        rule: {
+          metric: 'HELPFUL_VOTES',
+          aggregation: 'distinct',
+          field: 'review',
+          operator: 'gte',
+          value: 10,
+        },
+        triggers: ['REVIEW_VOTED'],
+      },
+    }),
   ]);
 
   console.log('✅ Badges created successfully');
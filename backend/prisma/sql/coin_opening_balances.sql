@@ -0,0 +1,32 @@
+-- Give every wallet whose balance predates the coin ledger an opening SYSTEM
+-- entry, so its transaction history adds up to the current balance. The
+-- entry covers whatever the existing entries do not explain and is dated
+-- before the first of them.
+--
+-- Run it as a deploy step:
+--   npm run db:coin-opening-balances
+-- Each user gets at most one opening entry, so running it again is a no-op.
+
+INSERT INTO coin_transactions (id, "userId", amount, "balanceAfter", reason, "sourceType", metadata, "createdAt")
+SELECT
+  gen_random_uuid(),
+  u.id,
+  u.coins - COALESCE(ledger.total, 0),
+  u.coins - COALESCE(ledger.total, 0),
+  'Opening balance',
+  'SYSTEM',
+  '{"openingBalance": true}'::jsonb,
+  LEAST(u."createdAt", COALESCE(ledger.first_at, u."createdAt"))
+FROM users u
+LEFT JOIN (
+  SELECT "userId", SUM(amount) AS total, MIN("createdAt") - INTERVAL '1 second' AS first_at
+  FROM coin_transactions
+  GROUP BY "userId"
+) ledger ON ledger."userId" = u.id
+WHERE u.coins - COALESCE(ledger.total, 0) <> 0
+  AND NOT EXISTS (
+    SELECT 1
+    FROM coin_transactions ct
+    WHERE ct."userId" = u.id
+      AND ct.metadata @> '{"openingBalance": true}'::jsonb
+  );
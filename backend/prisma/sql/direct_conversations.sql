@@ -0,0 +1,24 @@
+-- Give 1:1 chats whose messages predate the conversations table their
+-- Conversation row and both participants. New chats get theirs when the
+-- first message is sent.
+--
+-- Run it as a deploy step:
+--   npm run db:direct-conversations
+-- It only inserts what is missing, so running it again is a no-op.
+
+INSERT INTO conversations (id, type, "lastMessageAt", "createdAt", "updatedAt")
+SELECT m."conversationId", 'DIRECT', MAX(m."createdAt"), MIN(m."createdAt"), NOW()
+FROM messages m
+WHERE m."receiverId" IS NOT NULL
+GROUP BY m."conversationId"
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO conversation_participants (id, "conversationId", "userId")
+SELECT gen_random_uuid(), pair."conversationId", pair."userId"
+FROM (
+  SELECT "conversationId", "senderId" AS "userId" FROM messages WHERE "receiverId" IS NOT NULL
+  UNION
+  SELECT "conversationId", "receiverId" FROM messages WHERE "receiverId" IS NOT NULL
+) pair
+JOIN users u ON u.id = pair."userId"
+ON CONFLICT ("conversationId", "userId") DO NOTHING;
@@ -0,0 +1,34 @@
+-- Make messages.search_vector a generated column over content and file names,
+-- with its GIN index. Prisma cannot describe generated columns, so db push
+-- leaves a plain tsvector column; this converts it once.
+--
+-- Converting rewrites the messages table under an ACCESS EXCLUSIVE lock, so
+-- run it as a deploy step, not on server startup:
+--   npm run db:message-search
+-- It is a no-op once the column is generated. The advisory lock keeps
+-- instances deploying together from converting it twice.
+
+DO $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('messages.search_vector'));
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = 'messages'
+      AND column_name = 'search_vector'
+      AND is_generated = 'ALWAYS'
+  ) THEN
+    RETURN;
+  END IF;
+
+  ALTER TABLE messages DROP COLUMN IF EXISTS search_vector;
+  ALTER TABLE messages ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(content, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("fileName", '')), 'B')
+  ) STORED;
+  CREATE INDEX IF NOT EXISTS messages_search_vector_idx ON messages USING GIN (search_vector);
+
+  RAISE NOTICE 'Message search column created';
+END
+$$;
@@ -23,6 +23,9 @@ fi
 run_migrations() {
     echo -e "${YELLOW}Running database migrations...${NC}"
     npx prisma migrate deploy
+    npm run db:message-search
+    npm run db:direct-conversations
+    npm run db:coin-opening-balances
     echo -e "${GREEN}✓ Migrations completed successfully${NC}"
 }
 
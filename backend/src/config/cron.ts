@@ -73,6 +73,115 @@ export function initializeCronJobs() {
     }
   });
 
+  // Cleanup expired and used verification tokens - runs daily at 3 AM
+  cron.schedule('0 3 * * *', async () => {
+    logger.info('Running verification token cleanup cron job');
+    try {
+      const { otpService } = await import('../services/otp.service');
+      const deleted = await otpService.cleanupExpiredTokens(1); // 1 day old
+      logger.info(`Cleaned up ${deleted} verification tokens`);
+    } catch (error) {
+      logger.error('Verification token cleanup cron job failed:', error);
+    }
+  });
+
+  // Cleanup expired and revoked sessions - runs daily at 3:30 AM
+  cron.schedule('30 3 * * *', async () => {
+    logger.info('Running session cleanup cron job');
+    try {
+      const { sessionService } = await import('../services/session.service');
+      const deleted = await sessionService.cleanupExpiredSessions(30); // 30 days old
+      logger.info(`Cleaned up ${deleted} sessions`);
+    } catch (error) {
+      logger.error('Session cleanup cron job failed:', error);
+    }
+  });
+
+  // Mark event no-shows once check-in has closed - runs every hour at minute 15
+  cron.schedule('15 * * * *', async () => {
+    logger.info('Running event no-show cron job');
+    try {
+      const { eventCheckinService } = await import('../services/event-checkin.service');
+      const marked = await eventCheckinService.markNoShows();
+      logger.info(`Marked ${marked} event registrations as no-shows`);
+    } catch (error) {
+      logger.error('Event no-show cron job failed:', error);
+    }
+  });
+
+  // Purge soft-deleted chat messages past the retention period - runs daily at 4 AM
+  cron.schedule('0 4 * * *', async () => {
+    logger.info('Running chat message retention cron job');
+    try {
+      const { chatService } = await import('../services/chat.service');
+      const purged = await chatService.purgeDeletedMessages();
+      logger.info(`Purged ${purged} deleted chat messages`);
+    } catch (error) {
+      logger.error('Chat message retention cron job failed:', error);
+    }
+  });
+
+  // Reveal swap reviews whose review window has closed - runs every hour at minute 30
+  cron.schedule('30 * * * *', async () => {
+    logger.info('Running review reveal cron job');
+    try {
+      const { reviewService } = await import('../services/review.service');
+      const revealed = await reviewService.revealExpiredReviews();
+      logger.info(`Revealed ${revealed} swap reviews`);
+    } catch (error) {
+      logger.error('Review reveal cron job failed:', error);
+    }
+  });
+
+  // Recalculate reputation scores as reviews age - runs daily at 5 AM
+  cron.schedule('0 5 * * *', async () => {
+    logger.info('Running rating recalculation cron job');
+    try {
+      const { recalculateAllRatings } = await import('../services/rating.service');
+      const updated = await recalculateAllRatings();
+      logger.info(`Recalculated ratings for ${updated} users`);
+    } catch (error) {
+      logger.error('Rating recalculation cron job failed:', error);
+    }
+  });
+
+  // Refresh the all-time leaderboard sorted sets - runs every 10 minutes
+  cron.schedule('*/10 * * * *', async () => {
+    try {
+      const { leaderboardService } = await import('../services/leaderboard.service');
+      const synced = await leaderboardService.syncAllTime();
+      logger.info(`Synced all-time leaderboards for ${synced} users`);
+    } catch (error) {
+      logger.error('All-time leaderboard sync cron job failed:', error);
+    }
+  });
+
+  // Rebuild the current weekly, monthly and season leaderboards from the
+  // database to correct any drift - runs daily at 4:15 AM
+  cron.schedule('15 4 * * *', async () => {
+    logger.info('Running leaderboard rebuild cron job');
+    try {
+      const { leaderboardService } = await import('../services/leaderboard.service');
+      await leaderboardService.rebuildCurrentWindows();
+      logger.info('Rebuilt current leaderboards');
+    } catch (error) {
+      logger.error('Leaderboard rebuild cron job failed:', error);
+    }
+  });
+
+  // Archive standings and pay rewards for seasons that ended - runs hourly
+  cron.schedule('5 * * * *', async () => {
+    try {
+      const { seasonService } = await import('../services/season.service');
+      const finalized = await seasonService.finalizeEndedSeasons();
+      if (finalized > 0) {
+        logger.info(`Finalized ${finalized} seasons`);
+      }
+    } catch (error) {
+      logger.error('Season finalization cron job failed:', error);
+    }
+  });
+
   logger.info('Cron jobs initialized successfully');
 }
 
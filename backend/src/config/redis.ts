@@ -172,6 +172,26 @@ class RedisClient {
     }
   }
 
+  /**
+   * List keys matching a pattern without blocking the server
+   */
+  async scanKeys(pattern: string): Promise<string[]> {
+    if (!this.isReady()) {
+      return [];
+    }
+
+    try {
+      const keys: string[] = [];
+      for await (const key of this.client!.scanIterator({ MATCH: pattern, COUNT: 500 })) {
+        keys.push(key);
+      }
+      return keys;
+    } catch (error) {
+      logger.error(`Redis SCAN error for ${pattern}:`, error);
+      return [];
+    }
+  }
+
   /**
    * Check if key exists
    */
@@ -254,6 +274,278 @@ class RedisClient {
     }
   }
 
+  /**
+   * Add or update a member of a sorted set
+   */
+  async zAdd(key: string, member: string, score: number): Promise<boolean> {
+    if (!this.isReady()) {
+      return false;
+    }
+
+    try {
+      await this.client!.zAdd(key, { score, value: member });
+      return true;
+    } catch (error) {
+      logger.error(`Redis ZADD error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a member from a sorted set
+   */
+  async zRem(key: string, member: string): Promise<boolean> {
+    if (!this.isReady()) {
+      return false;
+    }
+
+    try {
+      await this.client!.zRem(key, member);
+      return true;
+    } catch (error) {
+      logger.error(`Redis ZREM error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Count sorted set members with a score of at least min
+   */
+  async zCountFrom(key: string, min: number): Promise<number> {
+    if (!this.isReady()) {
+      return 0;
+    }
+
+    try {
+      return await this.client!.zCount(key, min, '+inf');
+    } catch (error) {
+      logger.error(`Redis ZCOUNT error for key ${key}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get sorted set members and scores with a score of at least min
+   */
+  async zRangeFrom(key: string, min: number): Promise<Array<{ value: string; score: number }>> {
+    if (!this.isReady()) {
+      return [];
+    }
+
+    try {
+      return await this.client!.zRangeByScoreWithScores(key, min, '+inf');
+    } catch (error) {
+      logger.error(`Redis ZRANGEBYSCORE error for key ${key}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove sorted set members with a score below max
+   */
+  async zRemBelow(key: string, max: number): Promise<number> {
+    if (!this.isReady()) {
+      return 0;
+    }
+
+    try {
+      return await this.client!.zRemRangeByScore(key, '-inf', `(${max}`);
+    } catch (error) {
+      logger.error(`Redis ZREMRANGEBYSCORE error for key ${key}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Add or update many members of a sorted set at once
+   */
+  async zAddMany(key: string, members: Array<{ value: string; score: number }>): Promise<boolean> {
+    if (!this.isReady() || members.length === 0) {
+      return false;
+    }
+
+    try {
+      await this.client!.zAdd(key, members);
+      return true;
+    } catch (error) {
+      logger.error(`Redis ZADD error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Add a sorted set member only if it is not in the set yet. Returns
+   * whether it was added.
+   */
+  async zAddNew(key: string, member: string, score: number): Promise<boolean> {
+    if (!this.isReady()) {
+      return false;
+    }
+
+    try {
+      return (await this.client!.zAdd(key, { score, value: member }, { NX: true })) === 1;
+    } catch (error) {
+      logger.error(`Redis ZADD NX error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Increment the score of a sorted set member
+   */
+  async zIncrBy(key: string, member: string, increment: number): Promise<number | null> {
+    if (!this.isReady()) {
+      return null;
+    }
+
+    try {
+      return await this.client!.zIncrBy(key, increment, member);
+    } catch (error) {
+      logger.error(`Redis ZINCRBY error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the score of a sorted set member, or null if it is not in the set
+   */
+  async zScore(key: string, member: string): Promise<number | null> {
+    if (!this.isReady()) {
+      return null;
+    }
+
+    try {
+      return await this.client!.zScore(key, member);
+    } catch (error) {
+      logger.error(`Redis ZSCORE error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Count sorted set members with a score strictly above min
+   */
+  async zCountAbove(key: string, min: number): Promise<number> {
+    if (!this.isReady()) {
+      return 0;
+    }
+
+    try {
+      return await this.client!.zCount(key, `(${min}`, '+inf');
+    } catch (error) {
+      logger.error(`Redis ZCOUNT error for key ${key}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get sorted set members and scores from the highest score down, by
+   * zero-based position
+   */
+  async zRevRangeWithScores(
+    key: string,
+    start: number,
+    stop: number
+  ): Promise<Array<{ value: string; score: number }>> {
+    if (!this.isReady()) {
+      return [];
+    }
+
+    try {
+      return await this.client!.zRangeWithScores(key, start, stop, { REV: true });
+    } catch (error) {
+      logger.error(`Redis ZRANGE error for key ${key}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Rename a key, replacing any key already at the new name
+   */
+  async rename(key: string, newKey: string): Promise<boolean> {
+    if (!this.isReady()) {
+      return false;
+    }
+
+    try {
+      await this.client!.rename(key, newKey);
+      return true;
+    } catch (error) {
+      logger.error(`Redis RENAME error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Set a field of a hash
+   */
+  async hSet(key: string, field: string, value: string): Promise<boolean> {
+    if (!this.isReady()) {
+      return false;
+    }
+
+    try {
+      await this.client!.hSet(key, field, value);
+      return true;
+    } catch (error) {
+      logger.error(`Redis HSET error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Get a field of a hash
+   */
+  async hGet(key: string, field: string): Promise<string | null> {
+    if (!this.isReady()) {
+      return null;
+    }
+
+    try {
+      return (await this.client!.hGet(key, field)) ?? null;
+    } catch (error) {
+      logger.error(`Redis HGET error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Run a Lua script atomically. Returns null when Redis is unavailable or
+   * the script fails.
+   */
+  async evalScript(script: string, keys: string[], args: string[]): Promise<unknown> {
+    if (!this.isReady()) {
+      return null;
+    }
+
+    try {
+      return await this.client!.eval(script, { keys, arguments: args });
+    } catch (error) {
+      logger.error('Redis EVAL error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Open an extra connection with the same settings. Pub/sub needs
+   * dedicated connections because a subscribed client cannot run commands.
+   */
+  async duplicate(): Promise<RedisClientType | null> {
+    if (!this.isReady()) {
+      return null;
+    }
+
+    try {
+      const client = this.client!.duplicate() as RedisClientType;
+      client.on('error', (err) => logger.error('Redis Client Error:', err));
+      await client.connect();
+      return client;
+    } catch (error) {
+      logger.error('Redis DUPLICATE error:', error);
+      return null;
+    }
+  }
+
   /**
    * Flush all keys (use with caution!)
    */
@@ -0,0 +1,29 @@
+/**
+ * Socket.IO Redis Adapter
+ * Fans room emits out to every backend instance over Redis pub/sub so a
+ * user's sockets are reachable whichever node they are connected to
+ */
+
+import { Server } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { redis } from './redis';
+import { logger } from '../utils/logger';
+
+/**
+ * Switch the server to the Redis adapter. Without Redis the default
+ * in-memory adapter stays in place, which is fine for a single instance.
+ */
+export async function attachRedisAdapter(io: Server): Promise<boolean> {
+  const pubClient = await redis.duplicate();
+  const subClient = await redis.duplicate();
+
+  if (!pubClient || !subClient) {
+    await pubClient?.quit();
+    logger.warn('Socket.IO: Redis unavailable, using the in-memory adapter');
+    return false;
+  }
+
+  io.adapter(createAdapter(pubClient, subClient));
+  logger.info('Socket.IO: Redis adapter enabled');
+  return true;
+}
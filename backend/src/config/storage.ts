@@ -0,0 +1,163 @@
+/**
+ * Storage Configuration
+ * Pluggable object storage for user uploads
+ *
+ * STORAGE_DRIVER=local (default) keeps files on disk under UPLOAD_DIR and
+ * serves them through signed API URLs. STORAGE_DRIVER=s3 talks to any
+ * S3-compatible store, e.g. AWS S3 or a local MinIO (S3_FORCE_PATH_STYLE=true).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { logger } from '../utils/logger';
+
+export interface SignedUrlOptions {
+  expiresInSeconds: number;
+  // Base URL of this API, used by drivers that serve files themselves
+  baseUrl: string;
+}
+
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
+
+/**
+ * Local disk driver for development and tests
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private readonly root: string;
+  private readonly secret: string;
+
+  constructor(root: string = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads')) {
+    this.root = path.resolve(root);
+    this.secret = process.env.UPLOAD_SIGNING_SECRET || process.env.JWT_SECRET || '';
+
+    if (!this.secret) {
+      throw new Error(
+        'Local storage requires UPLOAD_SIGNING_SECRET or JWT_SECRET to sign file URLs'
+      );
+    }
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + options.expiresInSeconds;
+    const params = new URLSearchParams({
+      expires: String(expires),
+      signature: this.sign(key, expires),
+    });
+
+    return `${options.baseUrl}/api/v1/uploads/files/${key}?${params.toString()}`;
+  }
+
+  /**
+   * Check a signed URL produced by getSignedUrl
+   */
+  verifySignature(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  createReadStream(key: string): Readable {
+    return fs.createReadStream(this.resolvePath(key));
+  }
+
+  private sign(key: string, expires: number): string {
+    return crypto.createHmac('sha256', this.secret).update(`${key}:${expires}`).digest('base64url');
+  }
+
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+}
+
+/**
+ * S3-compatible driver backed by the AWS SDK
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor() {
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID || '';
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || '';
+
+    this.bucket = process.env.S3_BUCKET || '';
+
+    if (!this.bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+
+    this.client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: { accessKeyId, secretAccessKey },
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: contentType })
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 treats deleting a missing key as success
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucket, Key: key }), {
+      expiresIn: options.expiresInSeconds,
+    });
+  }
+}
+
+const createStorageDriver = (): StorageDriver => {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  if (driver === 's3') {
+    return new S3StorageDriver();
+  }
+
+  if (driver !== 'local') {
+    logger.warn(`Unknown STORAGE_DRIVER "${driver}", falling back to local disk`);
+  }
+
+  return new LocalStorageDriver();
+};
+
+export const storage: StorageDriver = createStorageDriver();
@@ -147,6 +147,52 @@ export async function deleteUser(req: Request, res: Response) {
   }
 }
 
+/**
+ * Get user sessions
+ * GET /api/v1/admin/users/:id/sessions
+ */
+export async function getUserSessions(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const sessions = await adminService.getUserSessions(id);
+
+    return res.status(200).json({
+      success: true,
+      data: sessions,
+    });
+  } catch (error: any) {
+    return res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to fetch user sessions',
+    });
+  }
+}
+
+/**
+ * Revoke user sessions (all, or one when sessionId is given)
+ * DELETE /api/v1/admin/users/:id/sessions/:sessionId?
+ */
+export async function revokeUserSessions(req: Request, res: Response) {
+  try {
+    const { id, sessionId } = req.params;
+    const adminId = (req as any).user.userId;
+
+    const result = await adminService.revokeUserSessions(id, adminId, sessionId);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Sessions revoked successfully',
+    });
+  } catch (error: any) {
+    return res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to revoke sessions',
+    });
+  }
+}
+
 /**
  * Create staff user (Admin/Moderator)
  * POST /api/v1/admin/staff
@@ -1,46 +1,27 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import prisma from '../config/database';
 import { emailService } from '../services/email.service';
 import { otpService } from '../services/otp.service';
+import { sessionService } from '../services/session.service';
+import { gamificationService } from '../services/gamification.service';
 import { logger } from '../utils/logger';
 import { authLimiter } from '../middleware/rateLimiter';
-import { authenticate } from '../middleware/auth';
+import { authenticate, extractBearerToken, revokeAccessToken } from '../middleware/auth';
 import { Request, Response, NextFunction } from 'express';
 
 
 const router = Router();
 
+const WELCOME_BONUS_COINS = 50;
 
-interface JWTPayload {
-  userId: string;
-  email: string;
-  role: string;
-}
 
-
-// Helper to generate tokens
-const generateTokens = (userId: string, email: string, role: string) => {
-  // @ts-ignore - Known typing issue with jsonwebtoken
-  const accessToken = jwt.sign(
-    { userId, email, role },
-    process.env.JWT_SECRET!,
-    { expiresIn: process.env.JWT_EXPIRES_IN || '15m' }
-  );
-
-
-  // @ts-ignore - Known typing issue with jsonwebtoken
-  const refreshToken = jwt.sign(
-    { userId, email, role },
-    process.env.JWT_REFRESH_SECRET!,
-    { expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d' }
-  );
-
-
-  return { accessToken, refreshToken };
-};
+// Device details recorded on the session
+const getSessionClient = (req: Request) => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
 
 
 /**
@@ -82,29 +63,39 @@ router.post(
       const passwordHash = await bcrypt.hash(password, 12);
 
 
-      // Create user
-      const user = await prisma.user.create({
-        data: {
-          email,
-          password: passwordHash,
-          name,
-          phone: phone || null,
-          coins: 50, // Welcome bonus
-        },
-        select: {
-          userId: true,
-          email: true,
-          name: true,
-          coins: true,
-          role: true,
-          createdAt: true,
-        },
+      // Create user; the welcome bonus is recorded on the coin ledger
+      const user = await prisma.$transaction(async (tx) => {
+        const created = await tx.user.create({
+          data: {
+            email,
+            password: passwordHash,
+            name,
+            phone: phone || null,
+            coins: 0,
+          },
+          select: {
+            userId: true,
+            email: true,
+            name: true,
+            coins: true,
+            role: true,
+            createdAt: true,
+          },
+        });
+
+        const bonus = await gamificationService.awardCoins(
+          created.userId,
+          WELCOME_BONUS_COINS,
+          'Welcome bonus',
+          { tx }
+        );
+
+        return { ...created, coins: bonus.balance };
       });
 
 
       // Generate OTP for email verification
-      const otp = otpService.generateOTP();
-      otpService.storeOTP(email, otp);
+      const otp = await otpService.issueOTP(email, 'EMAIL_VERIFY', { userId: user.userId });
 
 
       // Send welcome email with OTP
@@ -146,13 +137,19 @@ router.post(
 
 
       // Verify OTP
-      const isValid = otpService.verifyOTP(email, otp);
+      const result = await otpService.verifyOTP(email, 'EMAIL_VERIFY', otp);
 
 
-      if (!isValid) {
-        return res.status(400).json({
+      if (!result.valid) {
+        return res.status(result.reason === 'LOCKED' ? 429 : 400).json({
           success: false,
-          message: 'Invalid or expired OTP',
+          message:
+            result.reason === 'LOCKED'
+              ? 'Too many incorrect attempts. Please request a new OTP.'
+              : 'Invalid or expired OTP',
+          ...(result.attemptsRemaining !== undefined && {
+            attemptsRemaining: result.attemptsRemaining,
+          }),
         });
       }
 
@@ -171,8 +168,11 @@ router.post(
       });
 
 
-      // Generate tokens
-      const { accessToken, refreshToken } = generateTokens(user.userId, user.email, user.role);
+      // Start a session for this device
+      const { accessToken, refreshToken } = await sessionService.createSession(
+        user,
+        getSessionClient(req)
+      );
 
 
       logger.info(`Email verified: ${email}`);
@@ -210,7 +210,7 @@ router.post(
       // Check if user exists
       const user = await prisma.user.findUnique({
         where: { email },
-        select: { email: true, name: true, emailVerified: true },
+        select: { userId: true, email: true, name: true, emailVerified: true },
       });
 
 
@@ -230,9 +230,8 @@ router.post(
       }
 
 
-      // Generate and send new OTP
-      const otp = otpService.generateOTP();
-      otpService.storeOTP(email, otp);
+      // Generate and send new OTP (replaces any outstanding one)
+      const otp = await otpService.issueOTP(email, 'EMAIL_VERIFY', { userId: user.userId });
       await emailService.sendOTPEmail(email, otp);
 
 
@@ -323,8 +322,11 @@ router.post(
       });
 
 
-      // Generate tokens
-      const { accessToken, refreshToken } = generateTokens(user.userId, user.email, user.role);
+      // Start a session for this device
+      const { accessToken, refreshToken } = await sessionService.createSession(
+        user,
+        getSessionClient(req)
+      );
 
 
       // Remove password from response
@@ -367,45 +369,18 @@ router.post('/refresh', async (req: Request, res: Response, next: NextFunction)
     }
 
 
-    // Verify refresh token
-    const decoded = jwt.verify(refreshToken, process.env.JWT_REFRESH_SECRET!) as JWTPayload;
-
-
-    // Verify user still exists and is active
-    const user = await prisma.user.findUnique({
-      where: { userId: decoded.userId },
-      select: { userId: true, email: true, role: true, status: true },
-    });
-
-
-    if (!user || user.status !== 'ACTIVE') {
-      return res.status(401).json({
-        success: false,
-        message: 'Invalid refresh token',
-      });
-    }
-
-
-    // Generate new access token
-    // @ts-ignore - Known typing issue with jsonwebtoken
-    const accessToken = jwt.sign(
-      { userId: user.userId, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '15m' }
-    );
+    // Rotate the refresh token; a reused token revokes the whole session
+    const tokens = await sessionService.rotateRefreshToken(refreshToken, getSessionClient(req));
 
 
     res.json({
       success: true,
-      data: { accessToken },
+      data: {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+      },
     });
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      return res.status(401).json({
-        success: false,
-        message: 'Invalid refresh token',
-      });
-    }
     next(error);
   }
 });
@@ -439,14 +414,10 @@ router.post(
       }
 
 
-      // Generate reset token
-      const resetToken = otpService.generateResetToken();
-      const resetTokenExpiry = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
-
-
-      // Store reset token in database (you need to add these fields to User model)
-      // For now, we'll use OTP service
-      otpService.storeOTP(`reset_${email}`, resetToken);
+      // Generate and store a hashed, single-use reset token
+      const resetToken = await otpService.issueLinkToken(email, 'PASSWORD_RESET', {
+        userId: user.userId,
+      });
 
 
       // Send reset email
@@ -482,14 +453,14 @@ router.post(
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { token, password, email } = req.body;
+      const { token, password } = req.body;
 
 
-      // Verify reset token
-      const isValid = otpService.verifyOTP(`reset_${email}`, token);
+      // Verify and consume reset token
+      const result = await otpService.consumeLinkToken('PASSWORD_RESET', token);
 
 
-      if (!isValid) {
+      if (!result.valid || !result.token) {
         return res.status(400).json({
           success: false,
           message: 'Invalid or expired reset token',
@@ -497,17 +468,25 @@ router.post(
       }
 
 
+      const email = result.token.identifier;
+
+
       // Hash new password
       const passwordHash = await bcrypt.hash(password, 12);
 
 
       // Update password
-      await prisma.user.update({
+      const user = await prisma.user.update({
         where: { email },
         data: { password: passwordHash },
+        select: { userId: true },
       });
 
 
+      // Sign out every device that used the old password
+      await sessionService.revokeAllSessions(user.userId, 'PASSWORD_RESET');
+
+
       logger.info(`Password reset successful: ${email}`);
 
 
@@ -524,15 +503,24 @@ router.post(
 
 /**
  * POST /api/v1/auth/logout
- * Logout (client-side token removal, optional server-side token blacklist)
+ * Logout and revoke the current session
  */
 router.post('/logout', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const userId = req.user!.userId;
+    const { userId, sessionId } = req.user!;
 
 
-    // Optional: Blacklist the token (requires Redis implementation)
-    // For now, we rely on client-side token removal
+    // Revoke the session so its refresh token stops working
+    if (sessionId) {
+      await sessionService.revokeSession(sessionId, 'LOGOUT', userId);
+    }
+
+
+    // Revoke the access token so it can no longer be used (HTTP or socket)
+    const token = extractBearerToken(req.headers.authorization);
+    if (token) {
+      await revokeAccessToken(token);
+    }
 
 
     logger.info(`User logged out: ${userId}`);
@@ -548,6 +536,91 @@ router.post('/logout', authenticate, async (req: Request, res: Response, next: N
 });
 
 
+/**
+ * GET /api/v1/auth/sessions
+ * List active sessions (signed-in devices)
+ */
+router.get('/sessions', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId, sessionId } = req.user!;
+
+
+    const sessions = await sessionService.listSessions(userId, sessionId);
+
+
+    res.json({
+      success: true,
+      data: { sessions },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+
+/**
+ * DELETE /api/v1/auth/sessions/:sessionId
+ * Revoke a single session
+ */
+router.delete(
+  '/sessions/:sessionId',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const revoked = await sessionService.revokeSession(
+        req.params.sessionId,
+        'USER_REVOKED',
+        req.user!.userId
+      );
+
+
+      if (!revoked) {
+        return res.status(404).json({
+          success: false,
+          message: 'Session not found',
+        });
+      }
+
+
+      res.json({
+        success: true,
+        message: 'Session revoked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+
+/**
+ * DELETE /api/v1/auth/sessions
+ * Revoke all sessions. Pass ?keepCurrent=true to stay signed in on this device.
+ */
+router.delete('/sessions', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId, sessionId } = req.user!;
+    const keepCurrent = req.query.keepCurrent === 'true';
+
+
+    const count = await sessionService.revokeAllSessions(
+      userId,
+      'USER_REVOKED',
+      keepCurrent ? sessionId : undefined
+    );
+
+
+    res.json({
+      success: true,
+      message: `${count} session(s) revoked`,
+      data: { revoked: count },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+
 /**
  * GET /api/v1/auth/me
  * Get current user info
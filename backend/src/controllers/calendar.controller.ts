@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { calendarService } from '../services/calendar.service';
+import { logger } from '../utils/logger';
+import { authenticate } from '../middleware/auth';
+import { Request, Response, NextFunction } from 'express';
+
+const router = Router();
+
+// Public feed URL for calendar apps (e.g. webcal://.../calendar/feed/<token>.ics)
+const buildFeedUrl = (req: Request, token: string) => {
+  const baseUrl = process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+  return `${baseUrl}${req.baseUrl}/feed/${token}.ics`;
+};
+
+/**
+ * GET /api/v1/calendar/feed
+ * Get the current user's private calendar feed URL
+ */
+router.get('/feed', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = await calendarService.getFeedToken(req.user!.userId);
+
+    res.json({
+      success: true,
+      data: { url: buildFeedUrl(req, token) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/calendar/feed/reset
+ * Issue a new feed URL; the old one stops working
+ */
+router.post('/feed/reset', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = await calendarService.resetFeedToken(req.user!.userId);
+
+    logger.info(`Calendar feed token reset for user ${req.user!.userId}`);
+
+    res.json({
+      success: true,
+      message: 'Calendar feed URL reset. Re-subscribe with the new URL.',
+      data: { url: buildFeedUrl(req, token) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/calendar/feed/:token.ics
+ * iCalendar feed of upcoming swaps and events (authenticated by the token)
+ */
+router.get('/feed/:token.ics', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const calendar = await calendarService.buildUserFeed(req.params.token);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(calendar);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -6,6 +6,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { chatService } from '../services/chat.service';
 import { MessageType } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
 
 interface AuthRequest extends Request {
   user?: {
@@ -28,19 +29,18 @@ export async function sendMessage(
     const userId = req.user?.userId;
     const {
       receiverId,
+      conversationId,
       content,
       messageType,
       imageUrl,
       fileUrl,
-      fileName,
-      fileSize,
       replyToId,
     } = req.body;
 
     // Validation
-    if (!receiverId || !content) {
+    if ((!receiverId && !conversationId) || !content) {
       return res.status(400).json({
-        error: 'receiverId and content are required',
+        error: 'receiverId or conversationId, and content are required',
       });
     }
 
@@ -54,22 +54,26 @@ export async function sendMessage(
     const message = await chatService.sendMessage({
       senderId: userId!,
       receiverId,
+      conversationId: receiverId ? undefined : conversationId,
       content,
       messageType: messageType as MessageType,
       imageUrl,
       fileUrl,
-      fileName,
-      fileSize,
       replyToId,
     });
 
     // Get Socket.IO instance from app
     const io = req.app.get('io');
 
-    // Emit real-time event to receiver
-    chatService.emitToUser(io, receiverId, 'message:new', {
-      message,
-    });
+    // Emit real-time event to the receiver, or everyone else in the group
+    const participantIds = await chatService.getMessageParticipantIds(message);
+    for (const participantId of participantIds) {
+      if (participantId !== userId) {
+        chatService.emitToUser(io, participantId, 'message:new', {
+          message,
+        });
+      }
+    }
 
     // Also emit delivery confirmation to sender
     chatService.emitToUser(io, userId!, 'message:sent', {
@@ -82,6 +86,9 @@ export async function sendMessage(
       data: message,
     });
   } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Send message error:', error);
     res.status(500).json({ error: 'Failed to send message' });
   }
@@ -89,7 +96,7 @@ export async function sendMessage(
 
 /**
  * GET /api/v1/chat/conversations
- * Get user's conversations list
+ * Get user's conversations list (?archived=true for archived ones)
  */
 export async function getConversations(
   req: AuthRequest,
@@ -98,12 +105,16 @@ export async function getConversations(
 ) {
   try {
     const userId = req.user?.userId;
+    const archived = req.query.archived === 'true';
 
-    const conversations = await chatService.getUserConversations(userId!);
+    const [conversations, totalUnread] = await Promise.all([
+      chatService.getUserConversations(userId!, archived),
+      chatService.getUnreadMessageCount(userId!),
+    ]);
 
     res.json({
       conversations,
-      totalUnread: conversations.reduce((sum, conv) => sum + conv.unreadCount, 0),
+      totalUnread,
     });
   } catch (error: any) {
     console.error('Get conversations error:', error);
@@ -125,16 +136,20 @@ export async function getConversationMessages(
     const { userId: otherUserId } = req.params;
     const { limit = '50', offset = '0' } = req.query;
 
-    const messages = await chatService.getConversationMessages(
-      userId!,
-      otherUserId,
-      parseInt(limit as string),
-      parseInt(offset as string)
-    );
+    const [messages, presence] = await Promise.all([
+      chatService.getConversationMessages(
+        userId!,
+        otherUserId,
+        parseInt(limit as string),
+        parseInt(offset as string)
+      ),
+      chatService.getConversationPresence(userId!, otherUserId),
+    ]);
 
     res.json({
       messages,
       conversationId: chatService.getConversationId(userId!, otherUserId),
+      presence,
     });
   } catch (error: any) {
     console.error('Get conversation messages error:', error);
@@ -155,7 +170,7 @@ export async function markConversationAsRead(
     const userId = req.user?.userId;
     const { userId: otherUserId } = req.params;
 
-    const count = await chatService.markMessagesAsRead(userId!, otherUserId);
+    const { count, messageIds, readAt } = await chatService.markMessagesAsRead(userId!, otherUserId);
 
     // Get Socket.IO instance
     const io = req.app.get('io');
@@ -164,8 +179,9 @@ export async function markConversationAsRead(
     chatService.emitToUser(io, otherUserId, 'messages:read', {
       conversationId: chatService.getConversationId(userId!, otherUserId),
       readBy: userId,
-      readAt: new Date(),
+      readAt,
       count,
+      messageIds,
     });
 
     res.json({
@@ -208,35 +224,42 @@ export async function deleteMessage(
 
 /**
  * GET /api/v1/chat/search
- * Search messages in a conversation
+ * Full-text search across your conversations
  */
-export async function searchMessages(
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-) {
+export async function searchMessages(req: AuthRequest, res: Response) {
   try {
     const userId = req.user?.userId;
-    const { otherUserId, query, limit = '20' } = req.query;
+    const { query, otherUserId, conversationId, from, to, messageType, limit = '20', offset = '0' } =
+      req.query;
 
-    if (!otherUserId || !query) {
-      return res.status(400).json({
-        error: 'otherUserId and query are required',
-      });
+    if (!query) {
+      return res.status(400).json({ error: 'query is required' });
     }
 
-    const messages = await chatService.searchMessages(
-      userId!,
-      otherUserId as string,
-      query as string,
-      parseInt(limit as string)
-    );
+    const fromDate = from ? new Date(from as string) : undefined;
+    const toDate = to ? new Date(to as string) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
+
+    const { results, total } = await chatService.searchMessages(userId!, query as string, {
+      otherUserId: otherUserId as string | undefined,
+      conversationId: conversationId as string | undefined,
+      from: fromDate,
+      to: toDate,
+      messageType: messageType as MessageType | undefined,
+      limit: parseInt(limit as string) || undefined,
+      offset: parseInt(offset as string) || 0,
+    });
 
     res.json({
-      messages,
-      total: messages.length,
+      messages: results,
+      total,
     });
   } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Search messages error:', error);
     res.status(500).json({ error: 'Failed to search messages' });
   }
@@ -273,12 +296,13 @@ export async function getOnlineUsers(
   next: NextFunction
 ) {
   try {
-    const onlineUsers = chatService.getOnlineUsers();
+    const onlineUsers = await chatService.getOnlineUsers();
 
     res.json({
       onlineUsers: onlineUsers.map((u) => ({
         userId: u.userId,
         lastSeen: u.lastSeen,
+        connections: u.socketIds.length,
       })),
       total: onlineUsers.length,
     });
@@ -298,9 +322,18 @@ export async function markMessageDelivered(
   next: NextFunction
 ) {
   try {
+    const userId = req.user?.userId;
     const { messageId } = req.params;
 
-    await chatService.markMessageAsDelivered(messageId);
+    const receipt = await chatService.markMessageAsDelivered(messageId, userId!);
+
+    if (receipt) {
+      chatService.emitToUser(req.app.get('io'), receipt.senderId, 'message:delivered', {
+        messageId,
+        conversationId: receipt.conversationId,
+        deliveredAt: receipt.deliveredAt,
+      });
+    }
 
     res.json({ message: 'Message marked as delivered' });
   } catch (error: any) {
@@ -308,3 +341,152 @@ export async function markMessageDelivered(
     res.status(500).json({ error: 'Failed to mark message as delivered' });
   }
 }
+
+/**
+ * POST /api/v1/chat/messages/:messageId/read
+ * Mark a single message as read
+ */
+export async function markMessageRead(
+  req: AuthRequest,
+  res: Response
+) {
+  try {
+    const userId = req.user?.userId;
+    const { messageId } = req.params;
+
+    const receipt = await chatService.markMessageAsRead(messageId, userId!);
+
+    if (receipt) {
+      chatService.emitToUser(req.app.get('io'), receipt.senderId, 'message:read', {
+        messageId,
+        conversationId: receipt.conversationId,
+        readBy: userId,
+        readAt: receipt.readAt,
+      });
+    }
+
+    res.json({ message: 'Message marked as read' });
+  } catch (error: any) {
+    console.error('Mark read error:', error);
+    res.status(500).json({ error: 'Failed to mark message as read' });
+  }
+}
+
+/**
+ * PUT /api/v1/chat/messages/:messageId
+ * Edit a message
+ */
+export async function editMessage(
+  req: AuthRequest,
+  res: Response
+) {
+  try {
+    const userId = req.user?.userId;
+    const { messageId } = req.params;
+
+    const message = await chatService.editMessage(messageId, userId!, req.body.content);
+
+    // Everyone in the conversation sees the new content and edited marker
+    const io = req.app.get('io');
+    for (const participantId of await chatService.getMessageParticipantIds(message)) {
+      chatService.emitToUser(io, participantId, 'message:edited', { message });
+    }
+
+    res.json({
+      message: 'Message updated successfully',
+      data: message,
+    });
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Edit message error:', error);
+    res.status(500).json({ error: 'Failed to edit message' });
+  }
+}
+
+/**
+ * GET /api/v1/chat/messages/:messageId/edits
+ * Get the edit history of a message
+ */
+export async function getMessageEdits(
+  req: AuthRequest,
+  res: Response
+) {
+  try {
+    const userId = req.user?.userId;
+    const { messageId } = req.params;
+
+    const edits = await chatService.getMessageEdits(messageId, userId!);
+
+    res.json({ edits });
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Get message edits error:', error);
+    res.status(500).json({ error: 'Failed to fetch edit history' });
+  }
+}
+
+/**
+ * POST /api/v1/chat/messages/:messageId/reactions
+ * React to a message with an emoji
+ */
+export async function addReaction(
+  req: AuthRequest,
+  res: Response
+) {
+  try {
+    const userId = req.user?.userId;
+    const { messageId } = req.params;
+
+    const update = await chatService.addReaction(messageId, userId!, req.body.emoji);
+    emitReactionUpdate(req, update);
+
+    res.status(201).json({ reactions: update.reactions });
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Add reaction error:', error);
+    res.status(500).json({ error: 'Failed to add reaction' });
+  }
+}
+
+/**
+ * DELETE /api/v1/chat/messages/:messageId/reactions/:emoji
+ * Remove your emoji reaction
+ */
+export async function removeReaction(
+  req: AuthRequest,
+  res: Response
+) {
+  try {
+    const userId = req.user?.userId;
+    const { messageId, emoji } = req.params;
+
+    const update = await chatService.removeReaction(messageId, userId!, emoji);
+    emitReactionUpdate(req, update);
+
+    res.json({ reactions: update.reactions });
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Remove reaction error:', error);
+    res.status(500).json({ error: 'Failed to remove reaction' });
+  }
+}
+
+function emitReactionUpdate(
+  req: AuthRequest,
+  update: Awaited<ReturnType<typeof chatService.addReaction>>
+) {
+  const io = req.app.get('io');
+  const { participantIds, ...event } = update;
+
+  for (const participantId of participantIds) {
+    chatService.emitToUser(io, participantId, 'message:reaction', event);
+  }
+}
@@ -263,3 +263,195 @@ export async function searchUsers(req: Request, res: Response) {
     });
   }
 }
+
+/**
+ * Send a connection request
+ * POST /api/v1/connections/requests/:userId
+ */
+export async function sendConnectionRequest(req: Request, res: Response) {
+  try {
+    const currentUserId = (req as any).user.userId;
+    const { userId: targetUserId } = req.params;
+
+    const request = await connectionService.sendRequest(
+      currentUserId,
+      targetUserId,
+      req.body?.message
+    );
+
+    return res.status(201).json({
+      success: true,
+      message:
+        request.status === 'ACCEPTED' ? 'You are now connected' : 'Connection request sent',
+      data: request,
+    });
+  } catch (error: any) {
+    logger.error('Send connection request error:', error);
+    return res.status(error.statusCode || 400).json({
+      success: false,
+      message: error.message || 'Failed to send connection request',
+    });
+  }
+}
+
+/**
+ * Get pending connection requests sent to the current user
+ * GET /api/v1/connections/requests
+ */
+export async function getIncomingRequests(req: Request, res: Response) {
+  try {
+    const currentUserId = (req as any).user.userId;
+
+    const requests = await connectionService.getIncomingRequests(currentUserId);
+
+    return res.status(200).json({
+      success: true,
+      data: requests,
+    });
+  } catch (error: any) {
+    logger.error('Get connection requests error:', error);
+    return res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to get connection requests',
+    });
+  }
+}
+
+/**
+ * Get pending connection requests the current user has sent
+ * GET /api/v1/connections/requests/sent
+ */
+export async function getSentRequests(req: Request, res: Response) {
+  try {
+    const currentUserId = (req as any).user.userId;
+
+    const requests = await connectionService.getSentRequests(currentUserId);
+
+    return res.status(200).json({
+      success: true,
+      data: requests,
+    });
+  } catch (error: any) {
+    logger.error('Get sent connection requests error:', error);
+    return res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to get sent connection requests',
+    });
+  }
+}
+
+/**
+ * Accept a connection request
+ * POST /api/v1/connections/requests/:requestId/accept
+ */
+export async function acceptConnectionRequest(req: Request, res: Response) {
+  try {
+    const currentUserId = (req as any).user.userId;
+
+    const request = await connectionService.acceptRequest(req.params.requestId, currentUserId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Connection request accepted',
+      data: request,
+    });
+  } catch (error: any) {
+    logger.error('Accept connection request error:', error);
+    return res.status(error.statusCode || 400).json({
+      success: false,
+      message: error.message || 'Failed to accept connection request',
+    });
+  }
+}
+
+/**
+ * Decline a connection request
+ * POST /api/v1/connections/requests/:requestId/decline
+ */
+export async function declineConnectionRequest(req: Request, res: Response) {
+  try {
+    const currentUserId = (req as any).user.userId;
+
+    await connectionService.declineRequest(req.params.requestId, currentUserId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Connection request declined',
+    });
+  } catch (error: any) {
+    logger.error('Decline connection request error:', error);
+    return res.status(error.statusCode || 400).json({
+      success: false,
+      message: error.message || 'Failed to decline connection request',
+    });
+  }
+}
+
+/**
+ * Cancel a connection request you sent
+ * DELETE /api/v1/connections/requests/:requestId
+ */
+export async function cancelConnectionRequest(req: Request, res: Response) {
+  try {
+    const currentUserId = (req as any).user.userId;
+
+    await connectionService.cancelRequest(req.params.requestId, currentUserId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Connection request cancelled',
+    });
+  } catch (error: any) {
+    logger.error('Cancel connection request error:', error);
+    return res.status(error.statusCode || 400).json({
+      success: false,
+      message: error.message || 'Failed to cancel connection request',
+    });
+  }
+}
+
+/**
+ * Get the current user's accepted connections
+ * GET /api/v1/connections/accepted
+ */
+export async function getAcceptedConnections(req: Request, res: Response) {
+  try {
+    const currentUserId = (req as any).user.userId;
+
+    const connections = await connectionService.getAcceptedConnections(currentUserId);
+
+    return res.status(200).json({
+      success: true,
+      data: connections,
+    });
+  } catch (error: any) {
+    logger.error('Get accepted connections error:', error);
+    return res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to get connections',
+    });
+  }
+}
+
+/**
+ * Remove an accepted connection
+ * DELETE /api/v1/connections/accepted/:userId
+ */
+export async function removeAcceptedConnection(req: Request, res: Response) {
+  try {
+    const currentUserId = (req as any).user.userId;
+
+    await connectionService.removeAcceptedConnection(currentUserId, req.params.userId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Connection removed',
+    });
+  } catch (error: any) {
+    logger.error('Remove accepted connection error:', error);
+    return res.status(error.statusCode || 400).json({
+      success: false,
+      message: error.message || 'Failed to remove connection',
+    });
+  }
+}
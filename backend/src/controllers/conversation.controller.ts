@@ -0,0 +1,401 @@
+/**
+ * Conversation Controller
+ * REST operations for group and event conversations
+ */
+
+import { Request, Response } from 'express';
+import { pipeline, Readable } from 'stream';
+import { Server as SocketIOServer } from 'socket.io';
+import { chatService } from '../services/chat.service';
+import { conversationService } from '../services/conversation.service';
+import { AppError } from '../middleware/errorHandler';
+import { renderHtmlExport, renderJsonExport } from '../utils/chat-export';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: string;
+  };
+}
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+/**
+ * Tell everyone in a conversation that its details or members changed
+ */
+async function emitConversationUpdated(io: SocketIOServer, conversationId: string) {
+  for (const participantId of await conversationService.getParticipantIds(conversationId)) {
+    chatService.emitToUser(io, participantId, 'conversation:updated', { conversationId });
+  }
+}
+
+/**
+ * POST /api/v1/chat/groups
+ * Create a group conversation and invite people to it
+ */
+export async function createGroup(req: AuthRequest, res: Response) {
+  try {
+    const userId = req.user?.userId;
+    const { name, description, inviteeIds } = req.body;
+
+    const conversation = await conversationService.createGroup(userId!, {
+      name,
+      description,
+      inviteeIds: Array.isArray(inviteeIds) ? inviteeIds : [],
+    });
+
+    res.status(201).json({
+      message: 'Group created successfully',
+      data: conversation,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to create group');
+  }
+}
+
+/**
+ * GET /api/v1/chat/groups/:conversationId
+ * Get a group with its participants
+ */
+export async function getGroup(req: AuthRequest, res: Response) {
+  try {
+    const conversation = await conversationService.getConversationDetails(
+      req.params.conversationId,
+      req.user!.userId
+    );
+
+    res.json({ data: conversation });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to fetch group');
+  }
+}
+
+/**
+ * PUT /api/v1/chat/groups/:conversationId
+ * Rename a group or change its description
+ */
+export async function updateGroup(req: AuthRequest, res: Response) {
+  try {
+    const { conversationId } = req.params;
+    const { name, description } = req.body;
+
+    const conversation = await conversationService.updateGroup(conversationId, req.user!.userId, {
+      name,
+      description,
+    });
+
+    await emitConversationUpdated(req.app.get('io'), conversationId);
+
+    res.json({
+      message: 'Group updated successfully',
+      data: conversation,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update group');
+  }
+}
+
+/**
+ * GET /api/v1/chat/groups/:conversationId/messages
+ * Get messages of a group
+ */
+export async function getGroupMessages(req: AuthRequest, res: Response) {
+  try {
+    const { conversationId } = req.params;
+    const { limit = '50', offset = '0' } = req.query;
+
+    const messages = await chatService.getGroupMessages(
+      conversationId,
+      req.user!.userId,
+      parseInt(limit as string),
+      parseInt(offset as string)
+    );
+
+    res.json({ messages, conversationId });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to fetch messages');
+  }
+}
+
+/**
+ * PUT /api/v1/chat/groups/:conversationId/read
+ * Reset your unread count for a group
+ */
+export async function markGroupAsRead(req: AuthRequest, res: Response) {
+  try {
+    const userId = req.user!.userId;
+    const { conversationId } = req.params;
+
+    const { count, readAt } = await chatService.markGroupAsRead(conversationId, userId);
+
+    const io = req.app.get('io');
+    for (const participantId of await conversationService.getParticipantIds(conversationId)) {
+      if (participantId !== userId) {
+        chatService.emitToUser(io, participantId, 'conversation:read', {
+          conversationId,
+          readBy: userId,
+          readAt,
+        });
+      }
+    }
+
+    res.json({
+      message: `${count} messages marked as read`,
+      count,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to mark messages as read');
+  }
+}
+
+/**
+ * POST /api/v1/chat/groups/:conversationId/invites
+ * Invite a user to a group
+ */
+export async function inviteToGroup(req: AuthRequest, res: Response) {
+  try {
+    const { conversationId } = req.params;
+    const { userId: inviteeId } = req.body;
+
+    if (!inviteeId) {
+      return res.status(400).json({ error: 'userId is required' });
+    }
+
+    const invite = await conversationService.inviteUser(conversationId, req.user!.userId, inviteeId);
+
+    chatService.emitToUser(req.app.get('io'), inviteeId, 'conversation:invite', {
+      conversationId,
+      inviteId: invite.inviteId,
+    });
+
+    res.status(201).json({
+      message: 'Invite sent',
+      data: invite,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to send invite');
+  }
+}
+
+/**
+ * POST /api/v1/chat/groups/:conversationId/leave
+ * Leave a group
+ */
+export async function leaveGroup(req: AuthRequest, res: Response) {
+  try {
+    const { conversationId } = req.params;
+
+    await conversationService.leaveConversation(conversationId, req.user!.userId);
+    await emitConversationUpdated(req.app.get('io'), conversationId);
+
+    res.json({ message: 'You left the group' });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to leave group');
+  }
+}
+
+/**
+ * DELETE /api/v1/chat/groups/:conversationId/participants/:userId
+ * Remove someone from a group
+ */
+export async function removeParticipant(req: AuthRequest, res: Response) {
+  try {
+    const { conversationId, userId: targetId } = req.params;
+
+    await conversationService.removeParticipant(conversationId, req.user!.userId, targetId);
+
+    const io = req.app.get('io');
+    chatService.emitToUser(io, targetId, 'conversation:removed', { conversationId });
+    await emitConversationUpdated(io, conversationId);
+
+    res.json({ message: 'Participant removed' });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to remove participant');
+  }
+}
+
+/**
+ * PUT /api/v1/chat/groups/:conversationId/participants/:userId
+ * Change a participant's role
+ */
+export async function updateParticipantRole(req: AuthRequest, res: Response) {
+  try {
+    const { conversationId, userId: targetId } = req.params;
+
+    const conversation = await conversationService.updateParticipantRole(
+      conversationId,
+      req.user!.userId,
+      targetId,
+      req.body.role
+    );
+
+    await emitConversationUpdated(req.app.get('io'), conversationId);
+
+    res.json({
+      message: 'Role updated',
+      data: conversation,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update role');
+  }
+}
+
+/**
+ * GET /api/v1/chat/invites
+ * Get your pending group invites
+ */
+export async function getInvites(req: AuthRequest, res: Response) {
+  try {
+    const invites = await conversationService.getPendingInvites(req.user!.userId);
+
+    res.json({ invites });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to fetch invites');
+  }
+}
+
+/**
+ * POST /api/v1/chat/invites/:inviteId/accept
+ * Join a group you were invited to
+ */
+export async function acceptInvite(req: AuthRequest, res: Response) {
+  try {
+    const result = await conversationService.respondToInvite(
+      req.params.inviteId,
+      req.user!.userId,
+      true
+    );
+
+    await emitConversationUpdated(req.app.get('io'), result.conversationId);
+
+    res.json({
+      message: 'Invite accepted',
+      data: result,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to accept invite');
+  }
+}
+
+/**
+ * POST /api/v1/chat/invites/:inviteId/decline
+ * Decline a group invite
+ */
+export async function declineInvite(req: AuthRequest, res: Response) {
+  try {
+    const result = await conversationService.respondToInvite(
+      req.params.inviteId,
+      req.user!.userId,
+      false
+    );
+
+    res.json({
+      message: 'Invite declined',
+      data: result,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to decline invite');
+  }
+}
+
+/**
+ * PUT /api/v1/chat/conversations/:conversationId/preferences
+ * Archive, pin or mute a conversation for yourself
+ */
+export async function updatePreferences(req: AuthRequest, res: Response) {
+  try {
+    const userId = req.user!.userId;
+    const { conversationId } = req.params;
+    const { archived, pinned, muted, mutedUntil } = req.body;
+
+    for (const [field, value] of Object.entries({ archived, pinned, muted })) {
+      if (value !== undefined && typeof value !== 'boolean') {
+        return res.status(400).json({ error: `${field} must be a boolean` });
+      }
+    }
+
+    const mutedUntilDate = mutedUntil ? new Date(mutedUntil) : null;
+    if (mutedUntilDate && isNaN(mutedUntilDate.getTime())) {
+      return res.status(400).json({ error: 'mutedUntil must be a valid date' });
+    }
+
+    const preferences = await conversationService.updatePreferences(conversationId, userId, {
+      archived,
+      pinned,
+      muted,
+      mutedUntil: mutedUntilDate,
+    });
+
+    // Keep the user's other devices in step
+    chatService.emitToUser(req.app.get('io'), userId, 'conversation:updated', { conversationId });
+
+    res.json({
+      message: 'Preferences updated',
+      data: preferences,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update preferences');
+  }
+}
+
+/**
+ * GET /api/v1/chat/conversations/:conversationId/export
+ * Download a conversation as JSON (default) or printable HTML (?format=html)
+ */
+export async function exportConversation(req: AuthRequest, res: Response) {
+  try {
+    const { conversationId } = req.params;
+    const format = (req.query.format as string) || 'json';
+
+    if (format !== 'json' && format !== 'html') {
+      return res.status(400).json({ error: 'format must be json or html' });
+    }
+
+    const data = await chatService.exportConversation(conversationId, req.user!.userId);
+    const filename = `conversation-${data.exportedAt.toISOString().slice(0, 10)}.${format}`;
+
+    if (format === 'html') {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    } else {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    }
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.status(200);
+
+    // Streamed in batches; once the first chunk is out a failure can only
+    // end the download early
+    pipeline(
+      Readable.from(format === 'html' ? renderHtmlExport(data) : renderJsonExport(data)),
+      res,
+      (error) => {
+        if (error) console.error('Failed to export conversation:', error);
+      }
+    );
+  } catch (error: any) {
+    sendError(res, error, 'Failed to export conversation');
+  }
+}
+
+/**
+ * GET /api/v1/chat/events/:eventId
+ * Get the chat of an event you organize or are registered for
+ */
+export async function getEventChat(req: AuthRequest, res: Response) {
+  try {
+    const conversation = await conversationService.getEventConversation(
+      req.params.eventId,
+      req.user!.userId
+    );
+
+    res.json({ data: conversation });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to fetch event chat');
+  }
+}
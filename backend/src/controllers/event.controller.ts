@@ -5,6 +5,8 @@
 
 import { Request, Response } from 'express';
 import { eventService } from '../services/event.service';
+import { calendarService } from '../services/calendar.service';
+import { eventCheckinService } from '../services/event-checkin.service';
 import { logger } from '../utils/logger';
 import { EventType, EventStatus } from '@prisma/client';
 
@@ -215,11 +217,16 @@ export async function getEventById(req: Request, res: Response) {
 
     const event = await eventService.getEventById(eventId);
 
-    // Check if user is registered (if authenticated)
+    // Check if user is registered or waitlisted (if authenticated)
     let isRegistered = false;
+    let waitlistPosition: number | null = null;
+    let attendanceStatus: string | null = null;
     if ((req as any).user) {
       const userId = (req as any).user.userId;
-      isRegistered = await eventService.isUserRegistered(eventId, userId);
+      const registration = await eventService.getRegistration(eventId, userId);
+      isRegistered = !!registration && registration.status !== 'WAITLISTED';
+      waitlistPosition = registration?.waitlistPosition ?? null;
+      attendanceStatus = registration?.status ?? null;
     }
 
     return res.status(200).json({
@@ -227,6 +234,8 @@ export async function getEventById(req: Request, res: Response) {
       data: {
         ...event,
         isRegistered,
+        waitlistPosition,
+        attendanceStatus,
       },
     });
   } catch (error: any) {
@@ -238,6 +247,28 @@ export async function getEventById(req: Request, res: Response) {
   }
 }
 
+/**
+ * Download event as iCalendar
+ * GET /api/v1/events/:eventId/ics
+ */
+export async function getEventCalendar(req: Request, res: Response) {
+  try {
+    const { eventId } = req.params;
+
+    const calendar = await calendarService.buildEventCalendar(eventId);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="event-${eventId}.ics"`);
+    return res.status(200).send(calendar);
+  } catch (error: any) {
+    logger.error('Get event calendar error:', error);
+    return res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to export event',
+    });
+  }
+}
+
 /**
  * Get events with filters
  * GET /api/v1/events
@@ -371,7 +402,10 @@ export async function registerForEvent(req: Request, res: Response) {
 
     return res.status(200).json({
       success: true,
-      message: 'Successfully registered for event',
+      message:
+        attendance.status === 'WAITLISTED'
+          ? `Event is full. You are #${attendance.waitlistPosition} on the waitlist`
+          : 'Successfully registered for event',
       data: attendance,
     });
   } catch (error: any) {
@@ -429,3 +463,161 @@ export async function getEventAttendees(req: Request, res: Response) {
     });
   }
 }
+
+/**
+ * Get event waitlist (organizer only)
+ * GET /api/v1/events/:eventId/waitlist
+ */
+export async function getEventWaitlist(req: Request, res: Response) {
+  try {
+    const userId = (req as any).user.userId;
+    const { eventId } = req.params;
+
+    const waitlist = await eventService.getWaitlist(eventId, userId);
+
+    return res.status(200).json({
+      success: true,
+      data: waitlist,
+    });
+  } catch (error: any) {
+    logger.error('Get event waitlist error:', error);
+    return res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to get event waitlist',
+    });
+  }
+}
+
+/**
+ * Move a user within the waitlist (organizer only)
+ * PUT /api/v1/events/:eventId/waitlist/:userId
+ */
+export async function moveWaitlistEntry(req: Request, res: Response) {
+  try {
+    const organizerId = (req as any).user.userId;
+    const { eventId, userId } = req.params;
+    const position = parseInt(req.body.position);
+
+    const waitlist = await eventService.moveWaitlistEntry(eventId, organizerId, userId, position);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Waitlist updated successfully',
+      data: waitlist,
+    });
+  } catch (error: any) {
+    logger.error('Reorder event waitlist error:', error);
+    return res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to update waitlist',
+    });
+  }
+}
+
+/**
+ * Get the current user's check-in code and QR code
+ * GET /api/v1/events/:eventId/check-in-code
+ */
+export async function getCheckInCode(req: Request, res: Response) {
+  try {
+    const userId = (req as any).user.userId;
+    const { eventId } = req.params;
+
+    const checkIn = await eventCheckinService.getCheckInCode(eventId, userId);
+
+    return res.status(200).json({
+      success: true,
+      data: checkIn,
+    });
+  } catch (error: any) {
+    logger.error('Get check-in code error:', error);
+    return res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to get check-in code',
+    });
+  }
+}
+
+/**
+ * Check an attendee in with their code (organizer only)
+ * POST /api/v1/events/:eventId/check-in
+ */
+export async function checkInAttendee(req: Request, res: Response) {
+  try {
+    const organizerId = (req as any).user.userId;
+    const { eventId } = req.params;
+    const { code } = req.body;
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Check-in code is required',
+      });
+    }
+
+    const attendee = await eventCheckinService.checkInWithCode(eventId, organizerId, code);
+
+    return res.status(200).json({
+      success: true,
+      message: attendee.alreadyCheckedIn
+        ? `${attendee.name} is already checked in`
+        : `${attendee.name} checked in successfully`,
+      data: attendee,
+    });
+  } catch (error: any) {
+    logger.error('Check in attendee error:', error);
+    return res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to check in attendee',
+    });
+  }
+}
+
+/**
+ * Check yourself in when joining an online event
+ * POST /api/v1/events/:eventId/self-check-in
+ */
+export async function selfCheckIn(req: Request, res: Response) {
+  try {
+    const userId = (req as any).user.userId;
+    const { eventId } = req.params;
+
+    const result = await eventCheckinService.selfCheckIn(eventId, userId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Checked in successfully',
+      data: result,
+    });
+  } catch (error: any) {
+    logger.error('Self check-in error:', error);
+    return res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to check in',
+    });
+  }
+}
+
+/**
+ * Get the attendance sheet (organizer only)
+ * GET /api/v1/events/:eventId/check-ins
+ */
+export async function getEventCheckIns(req: Request, res: Response) {
+  try {
+    const userId = (req as any).user.userId;
+    const { eventId } = req.params;
+
+    const checkIns = await eventCheckinService.getCheckIns(eventId, userId);
+
+    return res.status(200).json({
+      success: true,
+      data: checkIns,
+    });
+  } catch (error: any) {
+    logger.error('Get event check-ins error:', error);
+    return res.status(400).json({
+      success: false,
+      message: error.message || 'Failed to get check-ins',
+    });
+  }
+}
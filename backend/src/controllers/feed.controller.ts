@@ -0,0 +1,97 @@
+/**
+ * Feed Controller
+ * Handles HTTP requests for the activity feed and activity privacy settings
+ */
+
+import { Request, Response } from 'express';
+import { ActivityType } from '@prisma/client';
+import { activityService } from '../services/activity.service';
+import { logger } from '../utils/logger';
+
+const VISIBILITY_VALUES = ['FOLLOWERS', 'CONNECTIONS', 'NOBODY'];
+
+/**
+ * Get activities of the users you follow
+ * GET /api/v1/feed?cursor=&limit=&type=
+ */
+export async function getFeed(req: Request, res: Response) {
+  try {
+    const userId = (req as any).user.userId;
+    const { cursor, limit, type } = req.query;
+
+    const feed = await activityService.getFeed(userId, {
+      cursor: cursor ? String(cursor) : undefined,
+      limit: limit ? parseInt(limit as string, 10) || undefined : undefined,
+      type: type ? (String(type) as ActivityType) : undefined,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: feed,
+    });
+  } catch (error: any) {
+    logger.error('Get feed error:', error);
+    return res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to get feed',
+    });
+  }
+}
+
+/**
+ * Get who can see each kind of your activity
+ * GET /api/v1/feed/settings
+ */
+export async function getSettings(req: Request, res: Response) {
+  try {
+    const userId = (req as any).user.userId;
+
+    const settings = await activityService.getSettings(userId);
+
+    return res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error: any) {
+    logger.error('Get activity settings error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Failed to get activity settings',
+    });
+  }
+}
+
+/**
+ * Change who can see each kind of your activity
+ * PUT /api/v1/feed/settings
+ */
+export async function updateSettings(req: Request, res: Response) {
+  try {
+    const userId = (req as any).user.userId;
+    const { skills, swaps, badges, events, reviews } = req.body;
+    const updates = { skills, swaps, badges, events, reviews };
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value !== undefined && !VISIBILITY_VALUES.includes(value)) {
+        return res.status(400).json({
+          success: false,
+          message: `${key} must be one of ${VISIBILITY_VALUES.join(', ')}`,
+        });
+      }
+    }
+
+    const settings = await activityService.updateSettings(userId, updates);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Activity settings updated',
+      data: settings,
+    });
+  } catch (error: any) {
+    logger.error('Update activity settings error:', error);
+    return res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to update activity settings',
+    });
+  }
+}
@@ -4,7 +4,19 @@
  */
 
 import { Request, Response } from 'express';
+import { CoinTransactionSource } from '@prisma/client';
 import { gamificationService } from '../services/gamification.service';
+import { badgeRuleService } from '../services/badge-rule.service';
+import {
+  leaderboardService,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  WINDOWED_METRICS,
+  WindowedMetric,
+} from '../services/leaderboard.service';
+import { seasonService } from '../services/season.service';
+import { privacyService, privacySelect } from '../services/privacy.service';
+import prisma from '../config/database';
 import { logger } from '../utils/logger';
 
 /**
@@ -57,11 +69,6 @@ export async function awardXPToUser(req: Request, res: Response) {
 
     const result = await gamificationService.awardXP(userId, amount, reason);
 
-    // Check for new badges after XP award
-    if (result.leveledUp) {
-      await gamificationService.checkAndAwardBadges(userId);
-    }
-
     return res.status(200).json({
       success: true,
       data: result,
@@ -98,10 +105,10 @@ export async function awardCoinsToUser(req: Request, res: Response) {
       });
     }
 
-    const result = await gamificationService.awardCoins(userId, amount, reason);
-
-    // Check for coin-based badges
-    await gamificationService.checkAndAwardBadges(userId);
+    const result = await gamificationService.awardCoins(userId, amount, reason, {
+      sourceType: 'ADMIN',
+      actorId: (req as any).user?.userId,
+    });
 
     return res.status(200).json({
       success: true,
@@ -137,7 +144,10 @@ export async function deductCoinsFromUser(req: Request, res: Response) {
       });
     }
 
-    const result = await gamificationService.deductCoins(userId, amount, reason);
+    const result = await gamificationService.deductCoins(userId, amount, reason, {
+      sourceType: 'ADMIN',
+      actorId: (req as any).user?.userId,
+    });
 
     return res.status(200).json({
       success: true,
@@ -191,30 +201,43 @@ export async function checkUserBadges(req: Request, res: Response) {
   }
 }
 
+const VALID_METRICS: LeaderboardMetric[] = ['level', 'coins', 'rating', 'swaps', 'hoursTaught'];
+const VALID_PERIODS: LeaderboardPeriod[] = ['all', 'week', 'month', 'season'];
+
+/**
+ * Check a metric and period pair. Returns an error message or null.
+ */
+function leaderboardParamsError(metric: string, period: string): string | null {
+  if (!VALID_METRICS.includes(metric as LeaderboardMetric)) {
+    return `Invalid metric. Must be one of: ${VALID_METRICS.join(', ')}`;
+  }
+  if (!VALID_PERIODS.includes(period as LeaderboardPeriod)) {
+    return `Invalid period. Must be one of: ${VALID_PERIODS.join(', ')}`;
+  }
+  if (period !== 'all' && !WINDOWED_METRICS.includes(metric as WindowedMetric)) {
+    return `Weekly, monthly and season leaderboards rank: ${WINDOWED_METRICS.join(', ')}`;
+  }
+  return null;
+}
+
 /**
  * Get leaderboard
- * GET /api/v1/gamification/leaderboard/:metric?limit=10
- * Metrics: level, coins, rating, swaps, hoursTaught
+ * GET /api/v1/gamification/leaderboard/:metric?limit=10&period=all&city=&state=&categoryId=&seasonId=
+ * Metrics: level, coins, rating, swaps, hoursTaught (week, month and season: swaps, hoursTaught)
  */
 export async function getLeaderboard(req: Request, res: Response) {
   try {
-    const metric = req.params.metric as
-      | 'level'
-      | 'coins'
-      | 'rating'
-      | 'swaps'
-      | 'hoursTaught';
+    const metric = req.params.metric as LeaderboardMetric;
+    const period = ((req.query.period as string) || 'all') as LeaderboardPeriod;
     const limit = parseInt(req.query.limit as string) || 10;
 
     if (!metric) {
       return res.status(400).json({ error: 'Metric is required' });
     }
 
-    const validMetrics = ['level', 'coins', 'rating', 'swaps', 'hoursTaught'];
-    if (!validMetrics.includes(metric)) {
-      return res.status(400).json({
-        error: `Invalid metric. Must be one of: ${validMetrics.join(', ')}`,
-      });
+    const paramsError = leaderboardParamsError(metric, period);
+    if (paramsError) {
+      return res.status(400).json({ error: paramsError });
     }
 
     if (limit < 1 || limit > 100) {
@@ -223,19 +246,54 @@ export async function getLeaderboard(req: Request, res: Response) {
       });
     }
 
-    const leaderboard = await gamificationService.getLeaderboard(metric, limit);
+    const scope = leaderboardService.validateScope({
+      city: req.query.city as string,
+      state: req.query.state as string,
+      categoryId: req.query.categoryId as string,
+    });
+
+    if (period === 'all') {
+      if (scope.categoryId) {
+        return res.status(400).json({
+          error: 'Category leaderboards are weekly, monthly or per season',
+        });
+      }
+
+      const leaderboard = await gamificationService.getLeaderboard(metric, limit, scope);
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          metric,
+          period,
+          limit,
+          leaderboard,
+        },
+      });
+    }
+
+    const { window, leaderboard } = await leaderboardService.getLeaderboard({
+      metric: metric as WindowedMetric,
+      period,
+      scope,
+      seasonId: req.query.seasonId as string | undefined,
+      limit,
+    });
 
     return res.status(200).json({
       success: true,
       data: {
         metric,
+        period,
         limit,
+        windowStart: window.start,
+        windowEnd: window.end,
         leaderboard,
       },
     });
   } catch (error: any) {
     logger.error('Get leaderboard error:', error);
-    return res.status(500).json({
+    return res.status(error.statusCode || 500).json({
       error: error.message || 'Failed to fetch leaderboard',
     });
   }
@@ -243,17 +301,15 @@ export async function getLeaderboard(req: Request, res: Response) {
 
 /**
  * Get user's rank in a specific leaderboard
- * GET /api/v1/gamification/rank/:metric/:userId?
+ * GET /api/v1/gamification/rank/:metric/:userId?period=all&scope=global&categoryId=&seasonId=
  * Metrics: level, coins, rating, swaps, hoursTaught
+ * Scopes: global, state, city (the user's own), category (weekly, monthly and season only)
  */
 export async function getUserRank(req: Request, res: Response) {
   try {
-    const metric = req.params.metric as
-      | 'level'
-      | 'coins'
-      | 'rating'
-      | 'swaps'
-      | 'hoursTaught';
+    const metric = req.params.metric as LeaderboardMetric;
+    const period = ((req.query.period as string) || 'all') as LeaderboardPeriod;
+    const scope = (req.query.scope as string) || 'global';
     const userId = req.params.userId || (req as any).user?.userId;
 
     if (!userId) {
@@ -264,14 +320,62 @@ export async function getUserRank(req: Request, res: Response) {
       return res.status(400).json({ error: 'Metric is required' });
     }
 
-    const validMetrics = ['level', 'coins', 'rating', 'swaps', 'hoursTaught'];
-    if (!validMetrics.includes(metric)) {
+    const paramsError = leaderboardParamsError(metric, period);
+    if (paramsError) {
+      return res.status(400).json({ error: paramsError });
+    }
+
+    if (!['global', 'state', 'city', 'category'].includes(scope)) {
+      return res.status(400).json({
+        error: 'Invalid scope. Must be one of: global, state, city, category',
+      });
+    }
+
+    if (period !== 'all') {
+      const rankData = await leaderboardService.getUserRank(userId, {
+        metric: metric as WindowedMetric,
+        period,
+        scope: scope as 'global' | 'state' | 'city' | 'category',
+        categoryId: req.query.categoryId as string | undefined,
+        seasonId: req.query.seasonId as string | undefined,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: rankData,
+      });
+    }
+
+    if (scope === 'category') {
       return res.status(400).json({
-        error: `Invalid metric. Must be one of: ${validMetrics.join(', ')}`,
+        error: 'Category leaderboards are weekly, monthly or per season',
       });
     }
 
-    const rankData = await gamificationService.getUserRank(userId, metric);
+    let location = {};
+    if (scope !== 'global') {
+      const user = await prisma.user.findUnique({
+        where: { userId },
+        select: { city: true, state: true, privacySettings: privacySelect },
+      });
+      const masked = user
+        ? privacyService.maskLocation(
+            { city: user.city, state: user.state },
+            user.privacySettings?.locationPrecision
+          )
+        : null;
+
+      if (!masked?.state || (scope === 'city' && !masked.city)) {
+        return res.status(200).json({
+          success: true,
+          data: { rank: null, metricValue: 0, metric },
+        });
+      }
+      location =
+        scope === 'city' ? { state: masked.state, city: masked.city! } : { state: masked.state };
+    }
+
+    const rankData = await gamificationService.getUserRank(userId, metric, location);
 
     return res.status(200).json({
       success: true,
@@ -279,7 +383,7 @@ export async function getUserRank(req: Request, res: Response) {
     });
   } catch (error: any) {
     logger.error('Get user rank error:', error);
-    return res.status(500).json({
+    return res.status(error.statusCode || 500).json({
       error: error.message || 'Failed to fetch user rank',
     });
   }
@@ -322,27 +426,57 @@ export async function getLevelsInfo(req: Request, res: Response) {
 }
 
 /**
- * Get user's transaction history (coins awarded/deducted)
- * This would require a new CoinTransaction model to track history
- * For now, returning a placeholder
+ * Get user's coin transaction history from the ledger
  * GET /api/v1/gamification/transactions/:userId?
+ * Query: page, limit, type (earned|spent), sourceType, startDate, endDate
  */
 export async function getCoinTransactions(req: Request, res: Response) {
   try {
-    const userId = req.params.userId || (req as any).user?.userId;
+    const requester = req.user!;
+    const userId = req.params.userId || requester.userId;
 
-    if (!userId) {
-      return res.status(400).json({ error: 'User ID is required' });
+    // Only the owner and staff can see a wallet's history
+    if (userId !== requester.userId && !['ADMIN', 'MODERATOR'].includes(requester.role)) {
+      return res.status(403).json({
+        error: 'You can only view your own transactions',
+      });
+    }
+
+    const { type, sourceType, startDate, endDate } = req.query;
+
+    if (type && !['earned', 'spent'].includes(type as string)) {
+      return res.status(400).json({
+        error: 'Invalid type. Must be one of: earned, spent',
+      });
     }
 
-    // TODO: Implement coin transaction history when model is added
-    // For now, return empty array
+    const validSources = Object.values(CoinTransactionSource) as string[];
+    if (sourceType && !validSources.includes(sourceType as string)) {
+      return res.status(400).json({
+        error: `Invalid sourceType. Must be one of: ${validSources.join(', ')}`,
+      });
+    }
+
+    const start = startDate ? new Date(startDate as string) : undefined;
+    const end = endDate ? new Date(endDate as string) : undefined;
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+      return res.status(400).json({
+        error: 'startDate and endDate must be valid dates',
+      });
+    }
+
+    const result = await gamificationService.getCoinTransactions(userId, {
+      type: type as 'earned' | 'spent' | undefined,
+      sourceType: sourceType as CoinTransactionSource | undefined,
+      startDate: start,
+      endDate: end,
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+    });
+
     return res.status(200).json({
       success: true,
-      data: {
-        transactions: [],
-        message: 'Transaction history coming soon',
-      },
+      data: result,
     });
   } catch (error: any) {
     logger.error('Get coin transactions error:', error);
@@ -351,3 +485,236 @@ export async function getCoinTransactions(req: Request, res: Response) {
     });
   }
 }
+
+/**
+ * List all badges with their rules (Admin only)
+ * GET /api/v1/admin/badges
+ */
+export async function getBadges(req: Request, res: Response) {
+  try {
+    const badges = await gamificationService.getBadges();
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        badges,
+        metrics: badgeRuleService.getMetricCatalog(),
+      },
+    });
+  } catch (error: any) {
+    logger.error('Get badges error:', error);
+    return res.status(500).json({
+      error: error.message || 'Failed to fetch badges',
+    });
+  }
+}
+
+/**
+ * Create a badge from a rule, or without one for granted badges (Admin only)
+ * POST /api/v1/admin/badges
+ * Body: { name, description, icon, rule?, isActive? }
+ */
+export async function createBadge(req: Request, res: Response) {
+  try {
+    const { name, description, icon, rule, isActive } = req.body;
+
+    if (!name || !description || !icon) {
+      return res.status(400).json({
+        error: 'name, description, and icon are required',
+      });
+    }
+
+    const badge = await gamificationService.createBadge((req as any).user.userId, {
+      name,
+      description,
+      icon,
+      rule,
+      isActive,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: badge,
+      message: 'Badge created',
+    });
+  } catch (error: any) {
+    logger.error('Create badge error:', error);
+
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'A badge with this name already exists' });
+    }
+
+    return res.status(error.statusCode || 500).json({
+      error: error.message || 'Failed to create badge',
+    });
+  }
+}
+
+/**
+ * Update a badge's details, rule or active state (Admin only)
+ * PUT /api/v1/admin/badges/:id
+ * Body: { name?, description?, icon?, rule?, isActive? }
+ */
+export async function updateBadge(req: Request, res: Response) {
+  try {
+    const { name, description, icon, rule, isActive } = req.body;
+
+    const badge = await gamificationService.updateBadge(req.params.id, (req as any).user.userId, {
+      name,
+      description,
+      icon,
+      rule,
+      isActive,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: badge,
+      message: 'Badge updated',
+    });
+  } catch (error: any) {
+    logger.error('Update badge error:', error);
+
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'A badge with this name already exists' });
+    }
+
+    return res.status(error.statusCode || 500).json({
+      error: error.message || 'Failed to update badge',
+    });
+  }
+}
+
+/**
+ * Count how many active users a rule would award, without awarding (Admin only)
+ * POST /api/v1/admin/badges/dry-run
+ * Body: { rule }
+ */
+export async function dryRunBadgeRule(req: Request, res: Response) {
+  try {
+    const rule = badgeRuleService.validate(req.body.rule);
+    const result = await badgeRuleService.dryRun(rule);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    logger.error('Badge rule dry run error:', error);
+    return res.status(error.statusCode || 500).json({
+      error: error.message || 'Failed to evaluate badge rule',
+    });
+  }
+}
+
+/**
+ * List seasons with their status
+ * GET /api/v1/gamification/seasons
+ */
+export async function getSeasons(req: Request, res: Response) {
+  try {
+    const seasons = await seasonService.getSeasons();
+
+    return res.status(200).json({
+      success: true,
+      data: seasons,
+    });
+  } catch (error: any) {
+    logger.error('Get seasons error:', error);
+    return res.status(500).json({
+      error: error.message || 'Failed to fetch seasons',
+    });
+  }
+}
+
+/**
+ * Archived final standings of a season
+ * GET /api/v1/gamification/seasons/:id/standings?limit=50&offset=0
+ */
+export async function getSeasonStandings(req: Request, res: Response) {
+  try {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    if (limit < 1 || limit > 100 || offset < 0) {
+      return res.status(400).json({
+        error: 'Limit must be between 1 and 100 and offset at least 0',
+      });
+    }
+
+    const result = await seasonService.getStandings(req.params.id, { limit, offset });
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    logger.error('Get season standings error:', error);
+    return res.status(error.statusCode || 500).json({
+      error: error.message || 'Failed to fetch season standings',
+    });
+  }
+}
+
+/**
+ * Create a season (Admin only)
+ * POST /api/v1/admin/seasons
+ * Body: { name, metric, startsAt, endsAt, rewards? }
+ */
+export async function createSeason(req: Request, res: Response) {
+  try {
+    const { name, metric, startsAt, endsAt, rewards } = req.body;
+
+    if (!name || !metric || !startsAt || !endsAt) {
+      return res.status(400).json({
+        error: 'name, metric, startsAt, and endsAt are required',
+      });
+    }
+
+    const season = await seasonService.createSeason((req as any).user.userId, {
+      name,
+      metric,
+      startsAt: new Date(startsAt),
+      endsAt: new Date(endsAt),
+      rewards,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: season,
+      message: 'Season created',
+    });
+  } catch (error: any) {
+    logger.error('Create season error:', error);
+    return res.status(error.statusCode || 500).json({
+      error: error.message || 'Failed to create season',
+    });
+  }
+}
+
+/**
+ * Rename a season or change its rewards before it ends (Admin only)
+ * PUT /api/v1/admin/seasons/:id
+ * Body: { name?, rewards? }
+ */
+export async function updateSeason(req: Request, res: Response) {
+  try {
+    const { name, rewards } = req.body;
+
+    const season = await seasonService.updateSeason(req.params.id, (req as any).user.userId, {
+      name,
+      rewards,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: season,
+      message: 'Season updated',
+    });
+  } catch (error: any) {
+    logger.error('Update season error:', error);
+    return res.status(error.statusCode || 500).json({
+      error: error.message || 'Failed to update season',
+    });
+  }
+}
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { query } from 'express-validator';
-import { matchingService } from '../services/matching.service';
+import { matchingService, MatchSort } from '../services/matching.service';
 import { logger } from '../utils/logger';
 import { authenticate } from '../middleware/auth';
 import { Request, Response, NextFunction } from 'express';
@@ -21,6 +21,11 @@ router.get(
     query('city').optional().trim().isLength({ max: 100 }),
     query('state').optional().trim().isLength({ max: 100 }),
     query('minRating').optional().isFloat({ min: 0, max: 5 }).withMessage('Rating must be 0-5'),
+    query('maxDistanceKm')
+      .optional()
+      .isFloat({ min: 1, max: 20000 })
+      .withMessage('Distance must be 1-20000 km'),
+    query('sortBy').optional().isIn(['score', 'distance']).withMessage('Sort must be score or distance'),
     query('remoteOnly').optional().isBoolean(),
     query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50'),
   ],
@@ -32,6 +37,8 @@ router.get(
         city,
         state,
         minRating,
+        maxDistanceKm,
+        sortBy,
         remoteOnly = false,
         limit = 20,
       } = req.query;
@@ -43,7 +50,9 @@ router.get(
           city: city as string | undefined,
           state: state as string | undefined,
           minRating: minRating ? parseFloat(minRating as string) : undefined,
-         remoteOnly: remoteOnly === 'true' || remoteOnly === '1',
+          maxDistanceKm: maxDistanceKm !== undefined ? Number(maxDistanceKm) : undefined,
+          sortBy: sortBy as MatchSort | undefined,
+          remoteOnly: remoteOnly === 'true' || remoteOnly === '1',
         },
         parseInt(limit as string)
       );
@@ -138,6 +138,43 @@ export async function executeAction(req: Request, res: Response) {
   }
 }
 
+/**
+ * Resolve a review dispute
+ * POST /api/v1/moderation/disputes/:id/resolve
+ */
+export async function resolveReviewDispute(req: Request, res: Response) {
+  try {
+    const moderatorId = (req as any).user.userId;
+    const { id } = req.params;
+    const { outcome, notes } = req.body;
+
+    if (!['UPHOLD', 'HIDE', 'REMOVE'].includes(outcome)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Outcome must be UPHOLD, HIDE or REMOVE',
+      });
+    }
+
+    const action = await moderationService.resolveReviewDispute({
+      reportId: id,
+      moderatorId,
+      outcome,
+      notes,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: action,
+      message: 'Review dispute resolved',
+    });
+  } catch (error: any) {
+    return res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to resolve review dispute',
+    });
+  }
+}
+
 /**
  * Get moderation statistics
  * GET /api/v1/moderation/stats
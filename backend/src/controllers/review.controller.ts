@@ -12,9 +12,16 @@ import {
   getMostCommonTags,
 } from '../services/rating.service';
 import { notificationService } from '../services/notification.service';
+import { gamificationService } from '../services/gamification.service';
+import { activityService } from '../services/activity.service';
+import { privacyService } from '../services/privacy.service';
+import { reviewService, REVIEW_WINDOW_DAYS } from '../services/review.service';
+import { moderationService } from '../services/moderation.service';
 
 const prisma = new PrismaClient();
 
+const MAX_REPLY_LENGTH = 1000;
+
 interface AuthRequest extends Request {
   user?: {
     userId: string;
@@ -23,9 +30,19 @@ interface AuthRequest extends Request {
   };
 }
 
+// The skill a review is about
+const reviewedSkillInclude = {
+  select: {
+    userSkillId: true,
+    skill: { select: { skillId: true, name: true } },
+  },
+};
+
 /**
  * POST /api/v1/reviews
- * Submit a review for a completed swap
+ * Submit a review of the other party for the skill they taught in a
+ * completed swap. It stays hidden until they review back or the review
+ * window closes.
  */
 export async function submitReview(
   req: AuthRequest,
@@ -47,9 +64,9 @@ export async function submitReview(
     } = req.body;
 
     // Validation
-    if (!swapId || !teacherId || !rating) {
+    if (!swapId || !rating) {
       return res.status(400).json({
-        error: 'swapId, teacherId, and rating are required',
+        error: 'swapId and rating are required',
       });
     }
 
@@ -104,16 +121,22 @@ export async function submitReview(
       });
     }
 
-    // Verify teacherId is the other party in the swap
+    // Verify teacherId, if given, is the other party in the swap
     const otherPartyId =
       swap.initiatorId === userId ? swap.receiverId : swap.initiatorId;
 
-    if (teacherId !== otherPartyId) {
+    if (teacherId && teacherId !== otherPartyId) {
       return res.status(400).json({
         error: 'You can only review the other party in the swap',
       });
     }
 
+    if (swap.completedAt && new Date() > reviewService.getRevealDeadline(swap.completedAt)) {
+      return res.status(400).json({
+        error: `Reviews must be submitted within ${REVIEW_WINDOW_DAYS} days of the swap completing`,
+      });
+    }
+
     // Check if review already exists
     const existingReview = await prisma.review.findUnique({
       where: {
@@ -130,12 +153,13 @@ export async function submitReview(
       });
     }
 
-    // Create review
+    // Create review, hidden until the other party reviews too
     const review = await prisma.review.create({
       data: {
         swapId,
         studentId: userId!,
-        teacherId,
+        teacherId: otherPartyId,
+        userSkillId: await reviewService.getTaughtUserSkillId(swap, otherPartyId),
         rating,
         comment,
         teachingQuality,
@@ -143,6 +167,7 @@ export async function submitReview(
         punctuality,
         tags: tags || [],
         isPublic: isPublic !== undefined ? isPublic : true,
+        isRevealed: false,
       },
       include: {
         student: {
@@ -159,36 +184,55 @@ export async function submitReview(
             avatar: true,
           },
         },
+        userSkill: reviewedSkillInclude,
       },
     });
 
-    // Update teacher's rating
-    await updateUserRating(teacherId);
-
-    // Send notification to teacher
-    await notificationService.createNotification({
-      userId: teacherId,
-      type: 'SYSTEM',
-      title: 'New Review Received',
-      message: `${swap.initiatorId === userId ? swap.initiator.name : swap.receiver.name} left you a ${rating}-star review`,
-      data: { reviewId: review.reviewId, swapId, rating },
+    // Reveal both reviews once the other party has reviewed as well;
+    // until then, nudge them to review without giving away the rating
+    const otherReview = await prisma.review.findUnique({
+      where: {
+        swapId_studentId: {
+          swapId,
+          studentId: otherPartyId,
+        },
+      },
     });
 
+    const isRevealed = otherReview
+      ? (await reviewService.revealSwapReviews(swapId)) > 0
+      : false;
+
+    if (!otherReview) {
+      await notificationService.createNotification({
+        userId: otherPartyId,
+        type: 'SYSTEM',
+        title: 'Review Your Swap Partner',
+        message: `${swap.initiatorId === userId ? swap.initiator.name : swap.receiver.name} reviewed your swap. Leave your review to see theirs - both are revealed together, or after ${REVIEW_WINDOW_DAYS} days.`,
+        data: { swapId },
+      });
+    }
+
     // Award coins and XP for leaving a review (gamification)
     if (rating >= 4) {
       // Only for positive reviews
       await prisma.user.update({
         where: { userId: userId! },
         data: {
-          coins: { increment: 5 }, // 5 coins for leaving a review
           experiencePoints: { increment: 10 }, // 10 XP
         },
       });
+      await gamificationService.awardCoins(userId!, 5, 'Review submitted', {
+        sourceType: 'REVIEW',
+        sourceId: review.reviewId,
+      });
     }
 
     res.status(201).json({
-      message: 'Review submitted successfully',
-      review,
+      message: isRevealed
+        ? 'Review submitted and revealed'
+        : 'Review submitted. It will be revealed once the other party reviews you or the review window closes',
+      review: { ...review, isRevealed },
     });
   } catch (error: any) {
     console.error('Submit review error:', error);
@@ -207,17 +251,37 @@ export async function getUserReviews(
 ) {
   try {
     const { userId } = req.params;
-    const { limit = '20', offset = '0', minRating } = req.query;
+    const { limit = '20', offset = '0', minRating, userSkillId } = req.query;
+
+    // Users can limit who sees their reviews, and the profile itself
+    const [privacy, relation] = await Promise.all([
+      privacyService.getSettings(userId),
+      privacyService.getViewerRelation((req as AuthRequest).user?.userId, userId),
+    ]);
+
+    if (
+      !privacyService.canViewProfile(privacy.profileVisibility, relation) ||
+      !privacyService.canSeeField(privacy.reviewsVisibility, relation)
+    ) {
+      return res.status(403).json({
+        error: "This user's reviews are not visible to you",
+      });
+    }
 
     const where: any = {
       teacherId: userId,
       isPublic: true,
+      isRevealed: true,
     };
 
     if (minRating) {
       where.rating = { gte: parseInt(minRating as string) };
     }
 
+    if (userSkillId) {
+      where.userSkillId = userSkillId as string;
+    }
+
     const reviews = await prisma.review.findMany({
       where,
       include: {
@@ -235,6 +299,7 @@ export async function getUserReviews(
             completedAt: true,
           },
         },
+        userSkill: reviewedSkillInclude,
       },
       orderBy: {
         createdAt: 'desc',
@@ -269,18 +334,22 @@ export async function getUserReviews(
 
 /**
  * GET /api/v1/reviews/swap/:swapId
- * Get reviews for a specific swap
+ * Get revealed reviews for a specific swap, plus the viewer's own
  */
 export async function getSwapReviews(
-  req: Request,
+  req: AuthRequest,
   res: Response,
   next: NextFunction
 ) {
   try {
     const { swapId } = req.params;
+    const viewerId = req.user?.userId;
 
     const reviews = await prisma.review.findMany({
-      where: { swapId },
+      where: {
+        swapId,
+        OR: [{ isRevealed: true }, ...(viewerId ? [{ studentId: viewerId }] : [])],
+      },
       include: {
         student: {
           select: {
@@ -296,6 +365,7 @@ export async function getSwapReviews(
             avatar: true,
           },
         },
+        userSkill: reviewedSkillInclude,
       },
     });
 
@@ -311,7 +381,7 @@ export async function getSwapReviews(
  * Get a specific review by ID
  */
 export async function getReviewById(
-  req: Request,
+  req: AuthRequest,
   res: Response,
   next: NextFunction
 ) {
@@ -343,6 +413,7 @@ export async function getReviewById(
             completedAt: true,
           },
         },
+        userSkill: reviewedSkillInclude,
         votes: {
           select: {
             voteId: true,
@@ -353,7 +424,8 @@ export async function getReviewById(
       },
     });
 
-    if (!review) {
+    // Hidden reviews are only visible to their author
+    if (!review || (!review.isRevealed && review.studentId !== req.user?.userId)) {
       return res.status(404).json({ error: 'Review not found' });
     }
 
@@ -366,7 +438,7 @@ export async function getReviewById(
 
 /**
  * PUT /api/v1/reviews/:id
- * Edit a review (within 24 hours)
+ * Edit a review (within 24 hours, while still hidden)
  */
 export async function editReview(
   req: AuthRequest,
@@ -402,6 +474,13 @@ export async function editReview(
       });
     }
 
+    // Revealed reviews are final, so neither side can answer the other's review
+    if (existingReview.isRevealed) {
+      return res.status(403).json({
+        error: 'Reviews cannot be edited once they are revealed',
+      });
+    }
+
     // Check if within 24-hour edit window
     if (!canEditReview(existingReview.createdAt)) {
       return res.status(403).json({
@@ -444,13 +523,11 @@ export async function editReview(
             avatar: true,
           },
         },
+        userSkill: reviewedSkillInclude,
       },
     });
 
-    // Recalculate teacher's rating if rating changed
-    if (rating) {
-      await updateUserRating(existingReview.teacherId);
-    }
+    // Ratings and the feed pick the review up when it is revealed
 
     res.json({
       message: 'Review updated successfully',
@@ -496,6 +573,7 @@ export async function deleteReview(
     await prisma.review.delete({
       where: { reviewId: id },
     });
+    await activityService.remove('REVIEW_POSTED', id);
 
     // Recalculate teacher's rating
     await updateUserRating(teacherId);
@@ -571,6 +649,10 @@ export async function voteOnReview(
         data: { helpfulCount },
       });
 
+      if (isHelpful) {
+        await gamificationService.awardBadgesForEvent(review.studentId, 'REVIEW_VOTED');
+      }
+
       return res.json({
         message: 'Vote updated successfully',
         vote: updatedVote,
@@ -599,6 +681,10 @@ export async function voteOnReview(
       data: { helpfulCount },
     });
 
+    if (isHelpful) {
+      await gamificationService.awardBadgesForEvent(review.studentId, 'REVIEW_VOTED');
+    }
+
     res.status(201).json({
       message: 'Vote recorded successfully',
       vote,
@@ -609,6 +695,159 @@ export async function voteOnReview(
   }
 }
 
+/**
+ * PUT /api/v1/reviews/:id/reply
+ * Add or change the reviewed user's public reply
+ */
+export async function replyToReview(req: AuthRequest, res: Response) {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    const reply = typeof req.body.reply === 'string' ? req.body.reply.trim() : '';
+
+    if (!reply) {
+      return res.status(400).json({ error: 'Reply is required' });
+    }
+
+    if (reply.length > MAX_REPLY_LENGTH) {
+      return res.status(400).json({
+        error: `Reply must be at most ${MAX_REPLY_LENGTH} characters`,
+      });
+    }
+
+    const review = await prisma.review.findUnique({
+      where: { reviewId: id },
+      include: {
+        teacher: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    });
+
+    if (!review || !review.isRevealed) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    if (review.teacherId !== userId) {
+      return res.status(403).json({
+        error: 'Only the reviewed user can reply to a review',
+      });
+    }
+
+    const updatedReview = await prisma.review.update({
+      where: { reviewId: id },
+      data: {
+        reply,
+        repliedAt: new Date(),
+      },
+    });
+
+    // Let the reviewer know the first time
+    if (!review.reply) {
+      await notificationService.createNotification({
+        userId: review.studentId,
+        type: 'SYSTEM',
+        title: 'Reply to Your Review',
+        message: `${review.teacher.name} replied to your review`,
+        data: { reviewId: id, swapId: review.swapId },
+      });
+    }
+
+    res.json({
+      message: 'Reply saved successfully',
+      review: updatedReview,
+    });
+  } catch (error: any) {
+    console.error('Reply to review error:', error);
+    res.status(500).json({ error: 'Failed to reply to review' });
+  }
+}
+
+/**
+ * DELETE /api/v1/reviews/:id/reply
+ * Remove the reviewed user's reply
+ */
+export async function deleteReviewReply(req: AuthRequest, res: Response) {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    const review = await prisma.review.findUnique({
+      where: { reviewId: id },
+    });
+
+    if (!review || !review.reply) {
+      return res.status(404).json({ error: 'Reply not found' });
+    }
+
+    if (review.teacherId !== userId) {
+      return res.status(403).json({
+        error: 'You can only delete your own reply',
+      });
+    }
+
+    await prisma.review.update({
+      where: { reviewId: id },
+      data: {
+        reply: null,
+        repliedAt: null,
+      },
+    });
+
+    res.json({ message: 'Reply deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete review reply error:', error);
+    res.status(500).json({ error: 'Failed to delete reply' });
+  }
+}
+
+/**
+ * POST /api/v1/reviews/:id/dispute
+ * Dispute a review about you; it goes to the moderation queue
+ */
+export async function disputeReview(req: AuthRequest, res: Response) {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    const { reason, description, evidence } = req.body;
+
+    if (!reason || typeof reason !== 'string') {
+      return res.status(400).json({ error: 'A reason is required' });
+    }
+
+    if (evidence !== undefined && !Array.isArray(evidence)) {
+      return res.status(400).json({
+        error: 'Evidence must be a list of URLs',
+      });
+    }
+
+    const dispute = await moderationService.createReviewDispute({
+      teacherId: userId!,
+      reviewId: id,
+      reason,
+      description,
+      evidence,
+    });
+
+    res.status(201).json({
+      message: 'Dispute submitted. A moderator will review it',
+      dispute: {
+        reportId: dispute.reportId,
+        status: dispute.status,
+        reason: dispute.reason,
+        createdAt: dispute.createdAt,
+      },
+    });
+  } catch (error: any) {
+    console.error('Dispute review error:', error);
+    res.status(error.statusCode || 500).json({
+      error: error.statusCode ? error.message : 'Failed to dispute review',
+    });
+  }
+}
+
 /**
  * GET /api/v1/reviews/stats/:userId
  * Get detailed rating statistics for a user
@@ -629,6 +868,7 @@ export async function getUserStats(
       where: {
         teacherId: userId,
         isPublic: true,
+        isRevealed: true,
       },
       include: {
         student: {
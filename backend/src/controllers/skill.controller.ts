@@ -3,6 +3,7 @@ import { body, param } from 'express-validator';
 import prisma from '../config/database';
 import { logger } from '../utils/logger';
 import { authenticate } from '../middleware/auth';
+import { activityService } from '../services/activity.service';
 import { Request, Response, NextFunction } from 'express';
 
 const router = Router();
@@ -202,6 +203,13 @@ router.post(
         },
       });
 
+      await activityService.record(userId, 'SKILL_ADDED', userSkill.userSkillId, {
+        skillId,
+        skillName: userSkill.skill.name,
+        skillType,
+        proficiencyLevel: userSkill.proficiencyLevel,
+      });
+
       logger.info(`User ${userId} added skill ${skillId} as ${skillType}`);
 
       res.status(201).json({
@@ -320,6 +328,7 @@ router.delete('/user/:userSkillId', authenticate, async (req: Request, res: Resp
     await prisma.userSkill.delete({
       where: { userSkillId },
     });
+    await activityService.remove('SKILL_ADDED', userSkillId);
 
     logger.info(`User ${userId} removed skill ${userSkillId}`);
 
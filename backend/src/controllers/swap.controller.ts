@@ -3,7 +3,15 @@ import { body, param, query } from 'express-validator';
 import prisma from '../config/database';
 import { logger } from '../utils/logger';
 import { authenticate } from '../middleware/auth';
-import { SwapStatus } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { Prisma, SwapStatus } from '@prisma/client';
+import { swapEscrowService } from '../services/swap-escrow.service';
+import { schedulingService, DEFAULT_SESSION_MINUTES } from '../services/scheduling.service';
+import { calendarService } from '../services/calendar.service';
+import { blockService } from '../services/block.service';
+import { activityService } from '../services/activity.service';
+import { gamificationService } from '../services/gamification.service';
+import { leaderboardService } from '../services/leaderboard.service';
 import { Request, Response, NextFunction } from 'express';
 
 const router = Router();
@@ -11,6 +19,23 @@ const router = Router();
 // All swap routes require authentication
 router.use(authenticate);
 
+/**
+ * Move a swap on from the status it was read in. Fails with 409 when another
+ * request changed it first, so status side effects run once.
+ */
+async function claimSwapStatus(
+  tx: Prisma.TransactionClient,
+  swapId: string,
+  from: SwapStatus,
+  data: Prisma.SwapUpdateManyMutationInput
+): Promise<void> {
+  const { count } = await tx.swap.updateMany({ where: { swapId, status: from }, data });
+
+  if (count === 0) {
+    throw new AppError('This swap was changed by another request. Refresh and try again.', 409);
+  }
+}
+
 /**
  * POST /api/v1/swaps
  * Create a new swap request
@@ -23,11 +48,13 @@ router.post(
     body('receiverSkillId').isUUID().withMessage('Valid receiver skill ID required'),
     body('message').optional().trim().isLength({ max: 500 }).withMessage('Message must be under 500 characters'),
     body('scheduledAt').optional().isISO8601().withMessage('Valid date required'),
+    body('stakeAmount').optional().isInt({ min: 0 }).withMessage('Stake must be a whole number of coins'),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const initiatorId = req.user!.userId;
       const { receiverId, initiatorSkillId, receiverSkillId, message, scheduledAt } = req.body;
+      const stakeAmount = parseInt(req.body.stakeAmount ?? '0', 10) || 0;
 
       // Validate initiator and receiver are different
       if (initiatorId === receiverId) {
@@ -37,6 +64,13 @@ router.post(
         });
       }
 
+      if (await blockService.isBlockedBetween(initiatorId, receiverId)) {
+        return res.status(403).json({
+          success: false,
+          message: 'You cannot send a swap request to this user',
+        });
+      }
+
       // Validate initiator owns the initiator skill
       const initiatorSkill = await prisma.userSkill.findFirst({
         where: {
@@ -87,6 +121,9 @@ router.post(
         });
       }
 
+      // Optional coin stake, locked from both parties on accept
+      await swapEscrowService.validateStake(stakeAmount, initiatorId);
+
       // Create swap request
       const swap = await prisma.swap.create({
         data: {
@@ -96,6 +133,7 @@ router.post(
           receiverSkillId,
           message: message || null,
           scheduledAt: scheduledAt ? new Date(scheduledAt) : null,
+          stakeAmount,
           status: 'PENDING',
         },
         include: {
@@ -250,6 +288,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
         sessions: {
           orderBy: { startTime: 'desc' },
         },
+        escrows: true,
       },
     });
 
@@ -277,6 +316,22 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
+/**
+ * GET /api/v1/swaps/:id/ics
+ * Download the swap's scheduled time and sessions as iCalendar
+ */
+router.get('/:id/ics', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const calendar = await calendarService.buildSwapCalendar(req.params.id, req.user!.userId);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="swap-${req.params.id}.ics"`);
+    res.send(calendar);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * PUT /api/v1/swaps/:id/accept
  * Accept a swap request
@@ -313,25 +368,50 @@ router.put('/:id/accept', async (req: Request, res: Response, next: NextFunction
       });
     }
 
-    // Update swap status
-    const updatedSwap = await prisma.swap.update({
-      where: { swapId: id },
-      data: { status: 'ACCEPTED' },
-      include: {
-        initiator: {
-          select: {
-            userId: true,
-            name: true,
-            email: true,
-          },
+    // A pre-agreed time must not clash with either party's other commitments
+    if (swap.scheduledAt) {
+      await schedulingService.assertNoConflicts(
+        {
+          startTime: swap.scheduledAt,
+          endTime: new Date(
+            swap.scheduledAt.getTime() + (swap.duration ?? DEFAULT_SESSION_MINUTES) * 60 * 1000
+          ),
         },
-        receiver: {
-          select: {
-            userId: true,
-            name: true,
+        [
+          { userId: swap.receiverId, isCurrentUser: true },
+          { userId: swap.initiatorId, isCurrentUser: false },
+        ],
+        swap.swapId
+      );
+    }
+
+    // Update swap status and lock both parties' stakes together
+    const updatedSwap = await prisma.$transaction(async (tx) => {
+      // Only the request that moves the swap out of PENDING goes on
+      await claimSwapStatus(tx, id, 'PENDING', { status: 'ACCEPTED' });
+
+      const accepted = await tx.swap.findUniqueOrThrow({
+        where: { swapId: id },
+        include: {
+          initiator: {
+            select: {
+              userId: true,
+              name: true,
+              email: true,
+            },
+          },
+          receiver: {
+            select: {
+              userId: true,
+              name: true,
+            },
           },
         },
-      },
+      });
+
+      await swapEscrowService.lockStakes(swap, tx);
+
+      return accepted;
     });
 
     // TODO: Create notification for initiator
@@ -386,9 +466,9 @@ router.put('/:id/reject', async (req: Request, res: Response, next: NextFunction
     }
 
     // Update swap status
-    const updatedSwap = await prisma.swap.update({
-      where: { swapId: id },
-      data: { status: 'REJECTED' },
+    const updatedSwap = await prisma.$transaction(async (tx) => {
+      await claimSwapStatus(tx, id, 'PENDING', { status: 'REJECTED' });
+      return tx.swap.findUniqueOrThrow({ where: { swapId: id } });
     });
 
     logger.info(`Swap rejected: ${id} by user ${userId}`);
@@ -443,14 +523,22 @@ router.put(
         });
       }
 
-      // Update swap status
-      const updatedSwap = await prisma.swap.update({
-        where: { swapId: id },
-        data: {
+      // Update swap status and settle any locked stakes
+      const { updatedSwap, stakePolicy } = await prisma.$transaction(async (tx) => {
+        // The swap must still be as read above, so stakes are settled for that state only once
+        await claimSwapStatus(tx, id, swap.status, {
           status: 'CANCELLED',
           cancelledAt: new Date(),
           cancellationReason: reason || null,
-        },
+          cancelledById: userId,
+          calendarSequence: { increment: 1 },
+        });
+
+        const cancelled = await tx.swap.findUniqueOrThrow({ where: { swapId: id } });
+
+        const policy = await swapEscrowService.settleCancellation(swap, userId, tx);
+
+        return { updatedSwap: cancelled, stakePolicy: policy };
       });
 
       logger.info(`Swap cancelled: ${id} by user ${userId}`);
@@ -458,7 +546,7 @@ router.put(
       res.json({
         success: true,
         message: 'Swap cancelled',
-        data: { swap: updatedSwap },
+        data: { swap: updatedSwap, stakePolicy },
       });
     } catch (error) {
       next(error);
@@ -520,16 +608,15 @@ router.put('/:id/complete', async (req: Request, res: Response, next: NextFuncti
 
     // Update swap and user statistics
     const updatedSwap = await prisma.$transaction(async (tx) => {
-      // Mark swap as completed
-      const completed = await tx.swap.update({
-        where: { swapId: id },
-        data: {
-          status: 'COMPLETED',
-          completedAt: new Date(),
-          duration: totalDuration,
-        },
+      // Mark swap as completed; a second completion or a racing cancel stops here
+      await claimSwapStatus(tx, id, 'ACCEPTED', {
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        duration: totalDuration,
       });
 
+      const completed = await tx.swap.findUniqueOrThrow({ where: { swapId: id } });
+
       // Update both users' statistics
       const hoursSpent = totalDuration / 60;
 
@@ -551,18 +638,33 @@ router.put('/:id/complete', async (req: Request, res: Response, next: NextFuncti
         },
       });
 
-      return completed;
+      // Return locked stakes plus the completion bonus
+      const bonus = await swapEscrowService.releaseStakes(swap, tx);
+
+      return { ...completed, stakeBonus: bonus };
     });
 
-    // TODO: Check for badge achievements
+    await activityService.recordSwapCompleted(id);
+    await leaderboardService.recordSwapCompleted(id);
+
+    await Promise.all([
+      gamificationService.awardBadgesForEvent(swap.initiatorId, 'SWAP_COMPLETED'),
+      gamificationService.awardBadgesForEvent(swap.receiverId, 'SWAP_COMPLETED'),
+    ]);
+
     // TODO: Send completion notifications
 
     logger.info(`Swap completed: ${id}`);
 
+    const { stakeBonus, ...completedSwap } = updatedSwap;
+
     res.json({
       success: true,
-      message: 'Swap marked as completed! You earned 50 XP!',
-      data: { swap: updatedSwap },
+      message:
+        swap.stakeAmount > 0
+          ? `Swap marked as completed! You earned 50 XP, your ${swap.stakeAmount} coin stake back and a ${stakeBonus} coin bonus!`
+          : 'Swap marked as completed! You earned 50 XP!',
+      data: { swap: completedSwap },
     });
   } catch (error) {
     next(error);
@@ -586,6 +688,17 @@ router.post(
       const { id } = req.params;
       const { startTime, endTime, notes } = req.body;
 
+      const start = new Date(startTime);
+      const end = endTime
+        ? new Date(endTime)
+        : new Date(start.getTime() + DEFAULT_SESSION_MINUTES * 60 * 1000);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+        return res.status(400).json({
+          success: false,
+          message: 'Sessions need a valid start time and must end after they start',
+        });
+      }
+
       const swap = await prisma.swap.findUnique({
         where: { swapId: id },
       });
@@ -613,19 +726,27 @@ router.post(
         });
       }
 
-      // Calculate duration if endTime provided
-      let duration = null;
-      if (endTime) {
-        const start = new Date(startTime);
-        const end = new Date(endTime);
-        duration = Math.floor((end.getTime() - start.getTime()) / 1000 / 60); // minutes
-      }
+      // Duration is only known once an end time is given
+      const duration = endTime ? Math.floor((end.getTime() - start.getTime()) / 1000 / 60) : null;
+
+      // Reject sessions that overlap either party's other swaps or events
+      await schedulingService.assertNoConflicts(
+        { startTime: start, endTime: end },
+        [
+          { userId, isCurrentUser: true },
+          {
+            userId: swap.initiatorId === userId ? swap.receiverId : swap.initiatorId,
+            isCurrentUser: false,
+          },
+        ],
+        swap.swapId
+      );
 
       const session = await prisma.swapSession.create({
         data: {
           swapId: id,
-          startTime: new Date(startTime),
-          endTime: endTime ? new Date(endTime) : null,
+          startTime: start,
+          endTime: endTime ? end : null,
           duration,
           notes: notes || null,
         },
@@ -692,17 +813,31 @@ router.put(
       const updateData: any = {};
       if (notes !== undefined) updateData.notes = notes;
       if (endTime) {
-        updateData.endTime = new Date(endTime);
-        // Calculate duration
         const start = new Date(session.startTime);
         const end = new Date(endTime);
+        if (isNaN(end.getTime()) || end <= start) {
+          return res.status(400).json({
+            success: false,
+            message: 'Sessions must end after they start',
+          });
+        }
+
+        updateData.endTime = end;
+        // Calculate duration
         updateData.duration = Math.floor((end.getTime() - start.getTime()) / 1000 / 60);
       }
 
-      const updatedSession = await prisma.swapSession.update({
-        where: { sessionId },
-        data: updateData,
-      });
+      const [updatedSession] = await prisma.$transaction([
+        prisma.swapSession.update({
+          where: { sessionId },
+          data: updateData,
+        }),
+        // Calendar feeds pick up the changed session times
+        prisma.swap.update({
+          where: { swapId: id },
+          data: { calendarSequence: { increment: 1 } },
+        }),
+      ]);
 
       res.json({
         success: true,
@@ -715,6 +850,288 @@ router.put(
   }
 );
 
+/**
+ * GET /api/v1/swaps/:id/suggested-times
+ * Suggest slots that are free for both parties
+ */
+router.get(
+  '/:id/suggested-times',
+  [
+    query('duration').optional().isInt({ min: 15, max: 480 }).withMessage('Duration must be 15-480 minutes'),
+    query('days').optional().isInt({ min: 1, max: 60 }).withMessage('Days must be 1-60'),
+    query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('Limit must be 1-20'),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+      const { id } = req.params;
+
+      const swap = await prisma.swap.findUnique({
+        where: { swapId: id },
+      });
+
+      if (!swap) {
+        return res.status(404).json({
+          success: false,
+          message: 'Swap not found',
+        });
+      }
+
+      if (swap.initiatorId !== userId && swap.receiverId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have access to this swap',
+        });
+      }
+
+      const result = await schedulingService.suggestSlots([swap.initiatorId, swap.receiverId], {
+        durationMinutes: parseInt(req.query.duration as string) || swap.duration || undefined,
+        days: parseInt(req.query.days as string) || undefined,
+        limit: parseInt(req.query.limit as string) || undefined,
+        excludeSwapId: swap.swapId,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/swaps/:id/propose-times
+ * Propose times to the other party. Without explicit times the best mutually
+ * free suggestions are proposed. Replaces earlier pending proposals.
+ */
+router.post(
+  '/:id/propose-times',
+  [
+    body('times').optional().isArray({ min: 1, max: 5 }).withMessage('Propose 1-5 times'),
+    body('times.*.startTime').isISO8601().withMessage('Valid start time required'),
+    body('times.*.endTime').isISO8601().withMessage('Valid end time required'),
+    body('duration').optional().isInt({ min: 15, max: 480 }).withMessage('Duration must be 15-480 minutes'),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+      const { id } = req.params;
+
+      const swap = await prisma.swap.findUnique({
+        where: { swapId: id },
+      });
+
+      if (!swap) {
+        return res.status(404).json({
+          success: false,
+          message: 'Swap not found',
+        });
+      }
+
+      if (swap.initiatorId !== userId && swap.receiverId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have access to this swap',
+        });
+      }
+
+      if (swap.status !== 'PENDING' && swap.status !== 'ACCEPTED') {
+        return res.status(400).json({
+          success: false,
+          message: `Cannot schedule swap with status: ${swap.status}`,
+        });
+      }
+
+      let times: Array<{ startTime: Date; endTime: Date }>;
+
+      if (req.body.times) {
+        if (!Array.isArray(req.body.times) || req.body.times.length === 0 || req.body.times.length > 5) {
+          return res.status(400).json({
+            success: false,
+            message: 'Propose 1-5 times',
+          });
+        }
+
+        times = req.body.times.map((t: { startTime: string; endTime: string }) => ({
+          startTime: new Date(t.startTime),
+          endTime: new Date(t.endTime),
+        }));
+
+        for (const time of times) {
+          if (
+            isNaN(time.startTime.getTime()) ||
+            isNaN(time.endTime.getTime()) ||
+            time.endTime <= time.startTime ||
+            time.startTime <= new Date()
+          ) {
+            return res.status(400).json({
+              success: false,
+              message: 'Proposed times must be in the future and end after they start',
+            });
+          }
+
+          await schedulingService.assertNoConflicts(
+            time,
+            [{ userId, isCurrentUser: true }],
+            swap.swapId
+          );
+        }
+      } else {
+        const { slots, missingAvailability } = await schedulingService.suggestSlots(
+          [swap.initiatorId, swap.receiverId],
+          {
+            durationMinutes: parseInt(req.body.duration) || swap.duration || undefined,
+            limit: 3,
+            excludeSwapId: swap.swapId,
+          }
+        );
+
+        if (slots.length === 0) {
+          return res.status(400).json({
+            success: false,
+            message: missingAvailability.length
+              ? 'Both users need to set their availability before times can be suggested'
+              : 'No mutually free times found. Propose times manually.',
+          });
+        }
+
+        times = slots;
+      }
+
+      const proposals = await prisma.$transaction(async (tx) => {
+        await tx.swapTimeProposal.updateMany({
+          where: { swapId: id, status: 'PENDING' },
+          data: { status: 'SUPERSEDED', respondedAt: new Date() },
+        });
+
+        return Promise.all(
+          times.map((time) =>
+            tx.swapTimeProposal.create({
+              data: {
+                swapId: id,
+                proposedById: userId,
+                startTime: time.startTime,
+                endTime: time.endTime,
+              },
+            })
+          )
+        );
+      });
+
+      logger.info(`${proposals.length} time(s) proposed for swap ${id} by user ${userId}`);
+
+      res.status(201).json({
+        success: true,
+        message: 'Times proposed successfully',
+        data: { proposals },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/swaps/:id/accept-time
+ * Accept one of the other party's proposed times and schedule the swap
+ */
+router.post(
+  '/:id/accept-time',
+  [body('proposalId').isUUID().withMessage('Valid proposal ID required')],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+      const { id } = req.params;
+      const { proposalId } = req.body;
+
+      const proposal = await prisma.swapTimeProposal.findUnique({
+        where: { proposalId },
+        include: { swap: true },
+      });
+
+      if (!proposal || proposal.swapId !== id) {
+        return res.status(404).json({
+          success: false,
+          message: 'Proposal not found',
+        });
+      }
+
+      const { swap } = proposal;
+
+      if (swap.initiatorId !== userId && swap.receiverId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have access to this swap',
+        });
+      }
+
+      if (proposal.proposedById === userId) {
+        return res.status(400).json({
+          success: false,
+          message: 'You cannot accept your own proposal',
+        });
+      }
+
+      if (proposal.status !== 'PENDING' || proposal.startTime <= new Date()) {
+        return res.status(400).json({
+          success: false,
+          message: 'This proposal is no longer available',
+        });
+      }
+
+      if (swap.status !== 'PENDING' && swap.status !== 'ACCEPTED') {
+        return res.status(400).json({
+          success: false,
+          message: `Cannot schedule swap with status: ${swap.status}`,
+        });
+      }
+
+      // Commitments may have changed since the time was proposed
+      await schedulingService.assertNoConflicts(
+        proposal,
+        [
+          { userId, isCurrentUser: true },
+          { userId: proposal.proposedById, isCurrentUser: false },
+        ],
+        swap.swapId
+      );
+
+      const duration = Math.round(
+        (proposal.endTime.getTime() - proposal.startTime.getTime()) / 1000 / 60
+      );
+
+      const updatedSwap = await prisma.$transaction(async (tx) => {
+        await tx.swapTimeProposal.update({
+          where: { proposalId },
+          data: { status: 'ACCEPTED', respondedAt: new Date() },
+        });
+
+        await tx.swapTimeProposal.updateMany({
+          where: { swapId: id, status: 'PENDING' },
+          data: { status: 'DECLINED', respondedAt: new Date() },
+        });
+
+        return tx.swap.update({
+          where: { swapId: id },
+          data: { scheduledAt: proposal.startTime, duration, calendarSequence: { increment: 1 } },
+        });
+      });
+
+      logger.info(`Swap ${id} scheduled for ${proposal.startTime.toISOString()} by user ${userId}`);
+
+      res.json({
+        success: true,
+        message: 'Swap scheduled successfully',
+        data: { swap: updatedSwap },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * GET /api/v1/swaps/stats
  * Get user's swap statistics
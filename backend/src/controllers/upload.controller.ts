@@ -0,0 +1,173 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { UploadPurpose } from '@prisma/client';
+import { uploadService } from '../services/upload.service';
+import { storage, LocalStorageDriver } from '../config/storage';
+import { authenticate, optionalAuthenticate } from '../middleware/auth';
+import { uploadRateLimit } from '../middleware/advancedRateLimit';
+import { AppError } from '../middleware/errorHandler';
+import { isImageType } from '../utils/mime-sniff';
+import { Request, Response, NextFunction } from 'express';
+
+const router = Router();
+
+const getBaseUrl = (req: Request) =>
+  process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+
+const getVariant = (req: Request) => (req.query.variant === 'thumbnail' ? 'thumbnail' : 'original');
+
+/**
+ * Parse a single multipart 'file' field in memory, capped at the user's plan limit
+ */
+const parseFile = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const maxBytes = await uploadService.getMaxUploadBytes(req.user!.userId);
+
+    multer({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: maxBytes, files: 1 },
+    }).single('file')(req, res, (error: any) => {
+      if (error?.code === 'LIMIT_FILE_SIZE') {
+        return next(new AppError(`File exceeds the ${Math.floor(maxBytes / (1024 * 1024))} MB limit`, 413));
+      }
+      if (error) {
+        return next(new AppError(error.message || 'Invalid upload', 400));
+      }
+      next();
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/v1/uploads
+ * Upload a file (multipart/form-data with 'file' and 'purpose')
+ */
+router.post('/', authenticate, uploadRateLimit, parseFile, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.file) {
+      throw new AppError('No file provided', 400);
+    }
+
+    const purpose = req.body.purpose as UploadPurpose;
+    const upload = await uploadService.createUpload({
+      ownerId: req.user!.userId,
+      purpose,
+      buffer: req.file.buffer,
+      originalName: req.file.originalname,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'File uploaded successfully',
+      data: {
+        uploadId: upload.uploadId,
+        url: uploadService.getPublicUrl(upload.uploadId),
+        purpose: upload.purpose,
+        mimeType: upload.mimeType,
+        originalName: upload.originalName,
+        size: upload.size,
+        hasThumbnail: upload.thumbnailKey !== null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/uploads/files/*
+ * Serve a file from the local storage driver (authenticated by the URL signature)
+ */
+router.get('/files/*', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!(storage instanceof LocalStorageDriver)) {
+      throw new AppError('Not found', 404);
+    }
+
+    const key = req.params[0];
+    const expires = parseInt(req.query.expires as string);
+    const signature = req.query.signature as string;
+
+    if (!signature || !storage.verifySignature(key, expires, signature)) {
+      throw new AppError('Invalid or expired link', 403);
+    }
+
+    const upload = await uploadService.findByStorageKey(key);
+    if (!upload) {
+      throw new AppError('Not found', 404);
+    }
+
+    const mimeType = key === upload.thumbnailKey ? 'image/webp' : upload.mimeType;
+    const disposition = isImageType(mimeType) ? 'inline' : 'attachment';
+
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader(
+      'Content-Disposition',
+      `${disposition}; filename*=UTF-8''${encodeURIComponent(upload.originalName)}`
+    );
+    res.setHeader('Cache-Control', 'private, max-age=300');
+
+    storage
+      .createReadStream(key)
+      .on('error', (error) => next(error))
+      .pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/uploads/:uploadId/url
+ * Get a short-lived signed download URL
+ */
+router.get('/:uploadId/url', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const upload = await uploadService.getAccessibleUpload(req.params.uploadId, req.user!.userId);
+    const signed = await uploadService.getSignedUrl(upload, getBaseUrl(req), getVariant(req));
+
+    res.json({
+      success: true,
+      data: signed,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/uploads/:uploadId
+ * Redirect to a signed download URL (?variant=thumbnail for images)
+ */
+router.get('/:uploadId', optionalAuthenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const upload = await uploadService.getAccessibleUpload(req.params.uploadId, req.user?.userId);
+    const signed = await uploadService.getSignedUrl(upload, getBaseUrl(req), getVariant(req));
+
+    res.setHeader('Cache-Control', 'private, max-age=60');
+    res.redirect(302, signed.url);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/uploads/:uploadId
+ * Delete one of your uploads
+ */
+router.delete('/:uploadId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await uploadService.deleteUpload(req.params.uploadId, req.user!.userId);
+
+    res.json({
+      success: true,
+      message: 'Upload deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -2,12 +2,158 @@ import { Router } from 'express';
 import { body } from 'express-validator';
 import prisma from '../config/database';
 import { logger } from '../utils/logger';
-import { authenticate } from '../middleware/auth';
+import { authenticate, optionalAuthenticate } from '../middleware/auth';
+import { schedulingService } from '../services/scheduling.service';
+import { uploadService } from '../services/upload.service';
+import { blockService } from '../services/block.service';
+import { connectionService } from '../services/connection.service';
+import { privacyService, privacySelect } from '../services/privacy.service';
 import { Request, Response, NextFunction } from 'express';
 
 const router = Router();
 
-// All user routes require authentication
+/**
+ * GET /api/v1/users/:id
+ * Get the profile of any user, as far as their privacy settings allow.
+ * Registered before the authentication middleware so public profiles can be
+ * viewed signed out; the id pattern keeps it from shadowing the routes below.
+ */
+router.get('/:id([0-9a-fA-F-]{36})', optionalAuthenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const viewerId = req.user?.userId;
+
+    const user = await prisma.user.findUnique({
+      where: { userId: id },
+      select: {
+        userId: true,
+        name: true,
+        avatar: true,
+        bio: true,
+        city: true,
+        state: true,
+        level: true,
+        rating: true,
+        completedSwaps: true,
+        totalHoursTaught: true,
+        totalHoursLearned: true,
+        createdAt: true,
+        email: true,
+        phone: true,
+        dateOfBirth: true,
+        messagePermission: true,
+        contactVisibility: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const [privacy, relation] = await Promise.all([
+      privacyService.getSettings(id),
+      privacyService.getViewerRelation(viewerId, id),
+    ]);
+
+    if (!privacyService.canViewProfile(privacy.profileVisibility, relation)) {
+      if (!viewerId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Sign in to view this profile',
+        });
+      }
+
+      // Enough to recognise the user and ask to connect
+      return res.json({
+        success: true,
+        data: {
+          user: { userId: user.userId, name: user.name, avatar: user.avatar },
+          restricted: true,
+          connection: await connectionService.getConnectionStatus(viewerId, id),
+        },
+      });
+    }
+
+    const showReviews = privacyService.canSeeField(privacy.reviewsVisibility, relation);
+
+    // Get user's skills
+    const skills = await prisma.userSkill.findMany({
+      where: { userId: id },
+      include: {
+        skill: true,
+      },
+    });
+
+    // Get user's badges
+    const badges = await prisma.userBadge.findMany({
+      where: { userId: id },
+      include: {
+        badge: true,
+      },
+      orderBy: { earnedAt: 'desc' },
+      take: 10,
+    });
+
+    // Get recent public reviews (as teacher)
+    const reviews = showReviews
+      ? await prisma.review.findMany({
+          where: { teacherId: id, isPublic: true, isRevealed: true },
+          include: {
+            student: {
+              select: {
+                userId: true,
+                name: true,
+                avatar: true,
+              },
+            },
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 5,
+        })
+      : null;
+
+    // Whether the viewer has blocked this user (drives the block/unblock button)
+    const block = viewerId
+      ? await prisma.userBlock.findUnique({
+          where: { blockerId_blockedId: { blockerId: viewerId, blockedId: id } },
+          select: { blockId: true },
+        })
+      : null;
+
+    const { email, phone, dateOfBirth, contactVisibility, ...profile } = user;
+    const showAge = privacyService.canSeeField(privacy.ageVisibility, relation);
+
+    res.json({
+      success: true,
+      data: {
+        user: {
+          ...privacyService.maskLocation(profile, relation.isSelf ? 'EXACT' : privacy.locationPrecision),
+          age: showAge ? privacyService.getAge(dateOfBirth) : null,
+        },
+        contact: privacyService.getVisibleContact(
+          { email, phone },
+          { contact: contactVisibility, phone: privacy.phoneVisibility },
+          relation
+        ),
+        connection: viewerId ? await connectionService.getConnectionStatus(viewerId, id) : null,
+        isBlocked: block !== null,
+        skills: {
+          teaching: skills.filter((s) => s.skillType === 'TEACH'),
+          learning: skills.filter((s) => s.skillType === 'LEARN'),
+        },
+        badges: badges.map((b) => b.badge),
+        reviews,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// All other user routes require authentication
 router.use(authenticate);
 
 /**
@@ -40,6 +186,8 @@ router.get('/profile', async (req: Request, res: Response, next: NextFunction) =
         totalHoursLearned: true,
         emailVerified: true,
         phoneVerified: true,
+        messagePermission: true,
+        contactVisibility: true,
         createdAt: true,
         lastActive: true,
       },
@@ -79,11 +227,20 @@ router.put(
     body('bio').optional().trim().isLength({ max: 500 }).withMessage('Bio must be under 500 characters'),
     body('city').optional().trim().isLength({ max: 100 }).withMessage('City must be under 100 characters'),
     body('state').optional().trim().isLength({ max: 100 }).withMessage('State must be under 100 characters'),
+    body('avatar').optional({ nullable: true }).isString().withMessage('Avatar must be an upload reference'),
+    body('messagePermission')
+      .optional()
+      .isIn(['EVERYONE', 'CONNECTIONS'])
+      .withMessage('messagePermission must be EVERYONE or CONNECTIONS'),
+    body('contactVisibility')
+      .optional()
+      .isIn(['NOBODY', 'CONNECTIONS', 'EVERYONE'])
+      .withMessage('contactVisibility must be NOBODY, CONNECTIONS or EVERYONE'),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const userId = req.user!.userId;
-      const { name, phone, bio, city, state } = req.body;
+      const { name, phone, bio, city, state, avatar, messagePermission, contactVisibility } = req.body;
 
       // Build update data object (only include provided fields)
       const updateData: any = {};
@@ -92,6 +249,15 @@ router.put(
       if (bio !== undefined) updateData.bio = bio;
       if (city !== undefined) updateData.city = city;
       if (state !== undefined) updateData.state = state;
+      if (messagePermission !== undefined) updateData.messagePermission = messagePermission;
+      if (contactVisibility !== undefined) updateData.contactVisibility = contactVisibility;
+      if (avatar === null || avatar === '') {
+        updateData.avatar = null;
+      } else if (avatar !== undefined) {
+        // Only avatars uploaded through the uploads API are accepted
+        const upload = await uploadService.resolveReference(avatar, userId, 'AVATAR');
+        updateData.avatar = uploadService.getPublicUrl(upload.uploadId);
+      }
 
       // Update user
       const user = await prisma.user.update({
@@ -111,6 +277,8 @@ router.put(
           level: true,
           emailVerified: true,
           phoneVerified: true,
+          messagePermission: true,
+          contactVisibility: true,
           updatedAt: true,
         },
       });
@@ -129,83 +297,197 @@ router.put(
 );
 
 /**
- * GET /api/v1/users/:id
- * Get public profile of any user
+ * GET /api/v1/users/availability
+ * Get current user's weekly availability
  */
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/availability', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { id } = req.params;
+    const availability = await schedulingService.getAvailability(req.user!.userId);
 
-    const user = await prisma.user.findUnique({
-      where: { userId: id },
-      select: {
-        userId: true,
-        name: true,
-        avatar: true,
-        bio: true,
-        city: true,
-        state: true,
-        level: true,
-        rating: true,
-        completedSwaps: true,
-        totalHoursTaught: true,
-        totalHoursLearned: true,
-        createdAt: true,
-      },
+    res.json({
+      success: true,
+      data: availability,
     });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        message: 'User not found',
+/**
+ * PUT /api/v1/users/availability
+ * Replace current user's weekly availability
+ */
+router.put(
+  '/availability',
+  [
+    body('timezone').isString().withMessage('Timezone required'),
+    body('windows').isArray().withMessage('Windows must be an array'),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { timezone, windows } = req.body;
+
+      if (typeof timezone !== 'string' || !Array.isArray(windows)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Timezone and windows are required',
+        });
+      }
+
+      const availability = await schedulingService.setAvailability(
+        req.user!.userId,
+        timezone,
+        windows
+      );
+
+      logger.info(`Availability updated for user ${req.user!.userId}`);
+
+      res.json({
+        success: true,
+        message: 'Availability updated successfully',
+        data: availability,
       });
+    } catch (error) {
+      next(error);
     }
+  }
+);
 
-    // Get user's skills
-    const skills = await prisma.userSkill.findMany({
-      where: { userId: id },
-      include: {
-        skill: true,
-      },
+/**
+ * GET /api/v1/users/blocked
+ * List users the current user has blocked
+ */
+router.get('/blocked', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const blocks = await blockService.getBlockedUsers(req.user!.userId);
+
+    res.json({
+      success: true,
+      data: blocks,
     });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // Get user's badges
-    const badges = await prisma.userBadge.findMany({
-      where: { userId: id },
-      include: {
-        badge: true,
-      },
-      orderBy: { earnedAt: 'desc' },
-      take: 10,
+/**
+ * GET /api/v1/users/privacy
+ * Get current user's privacy settings
+ */
+router.get('/privacy', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const settings = await privacyService.getSettings(req.user!.userId);
+
+    res.json({
+      success: true,
+      data: settings,
     });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // Get recent reviews (as teacher)
-    const reviews = await prisma.review.findMany({
-      where: { teacherId: id },
-      include: {
-        student: {
-          select: {
-            userId: true,
-            name: true,
-            avatar: true,
-          },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-      take: 5,
+/**
+ * PUT /api/v1/users/privacy
+ * Update current user's privacy settings
+ */
+router.put(
+  '/privacy',
+  [
+    body('profileVisibility')
+      .optional()
+      .isIn(['PUBLIC', 'LOGGED_IN', 'CONNECTIONS'])
+      .withMessage('profileVisibility must be PUBLIC, LOGGED_IN or CONNECTIONS'),
+    body('locationPrecision')
+      .optional()
+      .isIn(['EXACT', 'CITY', 'STATE', 'HIDDEN'])
+      .withMessage('locationPrecision must be EXACT, CITY, STATE or HIDDEN'),
+    body(['ageVisibility', 'phoneVisibility', 'reviewsVisibility'])
+      .optional()
+      .isIn(['EVERYONE', 'CONNECTIONS', 'NOBODY'])
+      .withMessage('Field visibility must be EVERYONE, CONNECTIONS or NOBODY'),
+    body('hideFromSearch').optional().isBoolean().withMessage('hideFromSearch must be a boolean'),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+      const {
+        profileVisibility,
+        locationPrecision,
+        ageVisibility,
+        phoneVisibility,
+        reviewsVisibility,
+        hideFromSearch,
+      } = req.body;
+
+      const settings = await privacyService.updateSettings(userId, {
+        profileVisibility,
+        locationPrecision,
+        ageVisibility,
+        phoneVisibility,
+        reviewsVisibility,
+        hideFromSearch,
+      });
+
+      logger.info(`Privacy settings updated: ${userId}`);
+
+      res.json({
+        success: true,
+        message: 'Privacy settings updated',
+        data: settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/users/:id/block
+ * Block a user
+ */
+router.post('/:id/block', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const block = await blockService.blockUser(req.user!.userId, req.params.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'User blocked',
+      data: block,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/users/:id/block
+ * Unblock a user
+ */
+router.delete('/:id/block', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await blockService.unblockUser(req.user!.userId, req.params.id);
+
+    res.json({
+      success: true,
+      message: 'User unblocked',
     });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/users/:id/availability
+ * Get another user's weekly availability (for planning swaps)
+ */
+router.get('/:id/availability', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const availability = await schedulingService.getAvailability(req.params.id);
 
     res.json({
       success: true,
-      data: {
-        user,
-        skills: {
-          teaching: skills.filter((s) => s.skillType === 'TEACH'),
-          learning: skills.filter((s) => s.skillType === 'LEARN'),
-        },
-        badges: badges.map((b) => b.badge),
-        reviews,
-      },
+      data: availability,
     });
   } catch (error) {
     next(error);
@@ -220,9 +502,11 @@ router.get('/search', async (req: Request, res: Response, next: NextFunction) =>
   try {
     const { query, city, state, limit = 20, offset = 0 } = req.query;
 
+    // Users who hide from search, or whose profile the viewer may not see, are left out
     const where: any = {
       status: 'ACTIVE',
       emailVerified: true,
+      AND: [await privacyService.discoverableWhere(req.user!.userId)],
     };
 
     // Search by name or bio
@@ -233,12 +517,14 @@ router.get('/search', async (req: Request, res: Response, next: NextFunction) =>
       ];
     }
 
-    // Filter by location
+    // Filter by location, only matching users who show that part of it
     if (city) {
       where.city = { contains: city as string, mode: 'insensitive' };
+      where.AND.push(privacyService.locationFilterableWhere('city'));
     }
     if (state) {
       where.state = { contains: state as string, mode: 'insensitive' };
+      where.AND.push(privacyService.locationFilterableWhere('state'));
     }
 
     const users = await prisma.user.findMany({
@@ -253,6 +539,7 @@ router.get('/search', async (req: Request, res: Response, next: NextFunction) =>
         level: true,
         rating: true,
         completedSwaps: true,
+        privacySettings: privacySelect,
       },
       take: Number(limit),
       skip: Number(offset),
@@ -266,7 +553,7 @@ router.get('/search', async (req: Request, res: Response, next: NextFunction) =>
     res.json({
       success: true,
       data: {
-        users,
+        users: privacyService.maskLocations(users),
         pagination: {
           total,
           limit: Number(limit),
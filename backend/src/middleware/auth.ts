@@ -1,14 +1,96 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { AppError } from './errorHandler';
 import prisma from '../config/database';
+import { redis } from '../config/redis';
+import { sessionService } from '../services/session.service';
 
-interface JwtPayload {
+export interface JwtPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string;
 }
 
+const REVOKED_TOKEN_PREFIX = 'auth:revoked:';
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Revoke an access token until it would have expired anyway
+ */
+export const revokeAccessToken = async (token: string): Promise<void> => {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  const ttl = decoded?.exp ? decoded.exp - Math.floor(Date.now() / 1000) : 0;
+
+  if (ttl > 0) {
+    await redis.set(`${REVOKED_TOKEN_PREFIX}${hashToken(token)}`, '1', ttl);
+  }
+};
+
+/**
+ * Verify an access token and resolve the active user it belongs to.
+ * Shared by the HTTP middleware and the Socket.IO handshake.
+ */
+export const verifyAccessToken = async (token: string): Promise<JwtPayload> => {
+  const secret = process.env.JWT_SECRET;
+
+  if (!secret) {
+    throw new AppError('JWT secret not configured', 500);
+  }
+
+  let decoded: JwtPayload;
+  try {
+    decoded = jwt.verify(token, secret) as JwtPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new AppError('Token expired', 401);
+    }
+    throw new AppError('Invalid token', 401);
+  }
+
+  if (await redis.exists(`${REVOKED_TOKEN_PREFIX}${hashToken(token)}`)) {
+    throw new AppError('Token has been revoked', 401);
+  }
+
+  if (decoded.sessionId && !(await sessionService.isSessionActive(decoded.sessionId, decoded.userId))) {
+    throw new AppError('Session has been revoked', 401);
+  }
+
+  // Verify user still exists and is active
+  const user = await prisma.user.findUnique({
+    where: { userId: decoded.userId },
+    select: { userId: true, email: true, role: true, status: true },
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 401);
+  }
+
+  if (user.status !== 'ACTIVE') {
+    throw new AppError('Account is not active', 403);
+  }
+
+  return {
+    userId: user.userId,
+    email: user.email,
+    role: user.role,
+    sessionId: decoded.sessionId,
+  };
+};
+
+/**
+ * Extract the bearer token from an Authorization header value
+ */
+export const extractBearerToken = (authHeader?: string): string | null => {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.split(' ')[1];
+};
+
 declare global {
   namespace Express {
     interface Request {
@@ -23,50 +105,17 @@ export const authenticate = async (
   next: NextFunction
 ) => {
   try {
-    const authHeader = req.headers.authorization;
+    const token = extractBearerToken(req.headers.authorization);
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
       throw new AppError('No token provided', 401);
     }
 
-    const token = authHeader.split(' ')[1];
-    const secret = process.env.JWT_SECRET;
-
-    if (!secret) {
-      throw new AppError('JWT secret not configured', 500);
-    }
-
-    const decoded = jwt.verify(token, secret) as JwtPayload;
-
-    // Verify user still exists and is active
-    const user = await prisma.user.findUnique({
-      where: { userId: decoded.userId },
-      select: { userId: true, email: true, role: true, status: true },
-    });
-
-    if (!user) {
-      throw new AppError('User not found', 401);
-    }
-
-    if (user.status !== 'ACTIVE') {
-      throw new AppError('Account is not active', 403);
-    }
-
-    req.user = {
-      userId: user.userId,
-      email: user.email,
-      role: user.role,
-    };
+    req.user = await verifyAccessToken(token);
 
     next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      next(new AppError('Invalid token', 401));
-    } else if (error instanceof jwt.TokenExpiredError) {
-      next(new AppError('Token expired', 401));
-    } else {
-      next(error);
-    }
+    next(error);
   }
 };
 
@@ -75,45 +124,20 @@ export const optionalAuthenticate = async (
   res: Response,
   next: NextFunction
 ) => {
-  try {
-    const authHeader = req.headers.authorization;
-
-    // If no token provided, just continue without setting user
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return next();
-    }
-
-    const token = authHeader.split(' ')[1];
-    const secret = process.env.JWT_SECRET;
-
-    if (!secret) {
-      return next();
-    }
+  const token = extractBearerToken(req.headers.authorization);
 
-    try {
-      const decoded = jwt.verify(token, secret) as JwtPayload;
-
-      // Verify user still exists and is active
-      const user = await prisma.user.findUnique({
-        where: { userId: decoded.userId },
-        select: { userId: true, email: true, role: true, status: true },
-      });
-
-      if (user && user.status === 'ACTIVE') {
-        req.user = {
-          userId: user.userId,
-          email: user.email,
-          role: user.role,
-        };
-      }
-    } catch (error) {
-      // Ignore token errors in optional auth
-    }
+  // If no token provided, just continue without setting user
+  if (!token) {
+    return next();
+  }
 
-    next();
+  try {
+    req.user = await verifyAccessToken(token);
   } catch (error) {
-    next(error);
+    // Ignore token errors in optional auth
   }
+
+  next();
 };
 
 export const authorize = (...roles: string[]) => {
@@ -0,0 +1,57 @@
+/**
+ * Socket.IO Authentication
+ * Verifies the client's access token during the handshake and binds the
+ * authenticated user to the socket, so event handlers never trust a
+ * client-supplied userId.
+ */
+
+import { Socket } from 'socket.io';
+import { verifyAccessToken, extractBearerToken, JwtPayload } from './auth';
+import { logger } from '../utils/logger';
+
+export interface AuthenticatedSocketData {
+  user: JwtPayload;
+}
+
+/**
+ * Read the token from `auth.token` (socket.io-client) or fall back to an
+ * Authorization header for non-browser clients
+ */
+const getHandshakeToken = (socket: Socket): string | null => {
+  const authToken = socket.handshake.auth?.token;
+  if (typeof authToken === 'string' && authToken.length > 0) {
+    return authToken.startsWith('Bearer ') ? authToken.slice(7) : authToken;
+  }
+
+  return extractBearerToken(socket.handshake.headers.authorization);
+};
+
+/**
+ * Socket.IO middleware - rejects the connection unless the token is valid,
+ * unexpired, unrevoked and belongs to an active user
+ */
+export const authenticateSocket = async (
+  socket: Socket,
+  next: (err?: Error) => void
+) => {
+  const token = getHandshakeToken(socket);
+
+  if (!token) {
+    return next(new Error('No token provided'));
+  }
+
+  try {
+    socket.data.user = await verifyAccessToken(token);
+    next();
+  } catch (error: any) {
+    logger.warn(`Socket ${socket.id} rejected: ${error.message}`);
+    next(new Error(error.message || 'Authentication failed'));
+  }
+};
+
+/**
+ * Get the user bound to a socket by authenticateSocket
+ */
+export const getSocketUser = (socket: Socket): JwtPayload => {
+  return (socket.data as AuthenticatedSocketData).user;
+};
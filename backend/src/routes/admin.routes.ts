@@ -6,6 +6,7 @@
 import express from 'express';
 import * as adminController from '../controllers/admin.controller';
 import * as analyticsController from '../controllers/analytics.controller';
+import * as gamificationController from '../controllers/gamification.controller';
 import { authenticate } from '../middleware/auth';
 import { requireAdmin } from '../middleware/admin';
 
@@ -23,6 +24,9 @@ router.get('/users', adminController.searchUsers);
 router.get('/users/:id', adminController.getUserDetails);
 router.put('/users/:id', adminController.updateUser);
 router.delete('/users/:id', adminController.deleteUser);
+router.get('/users/:id/sessions', adminController.getUserSessions);
+router.delete('/users/:id/sessions', adminController.revokeUserSessions);
+router.delete('/users/:id/sessions/:sessionId', adminController.revokeUserSessions);
 router.post('/staff', adminController.createStaffUser);
 
 // Subscription Management
@@ -33,6 +37,16 @@ router.put('/subscriptions/:userId', adminController.manageSubscription);
 router.get('/settings', adminController.getSettings);
 router.put('/settings/:key', adminController.updateSetting);
 
+// Badges
+router.get('/badges', gamificationController.getBadges);
+router.post('/badges', gamificationController.createBadge);
+router.post('/badges/dry-run', gamificationController.dryRunBadgeRule);
+router.put('/badges/:id', gamificationController.updateBadge);
+
+// Seasons
+router.post('/seasons', gamificationController.createSeason);
+router.put('/seasons/:id', gamificationController.updateSeason);
+
 // Audit Logs
 router.get('/audit-logs', adminController.getAuditLogs);
 
@@ -0,0 +1,3 @@
+import calendarController from '../controllers/calendar.controller';
+
+export default calendarController;
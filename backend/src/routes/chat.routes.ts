@@ -15,7 +15,29 @@ import {
   getUnreadCount,
   getOnlineUsers,
   markMessageDelivered,
+  markMessageRead,
+  editMessage,
+  getMessageEdits,
+  addReaction,
+  removeReaction,
 } from '../controllers/chat.controller';
+import {
+  createGroup,
+  getGroup,
+  updateGroup,
+  getGroupMessages,
+  markGroupAsRead,
+  inviteToGroup,
+  leaveGroup,
+  removeParticipant,
+  updateParticipantRole,
+  getInvites,
+  acceptInvite,
+  declineInvite,
+  getEventChat,
+  updatePreferences,
+  exportConversation,
+} from '../controllers/conversation.controller';
 
 const router = Router();
 
@@ -30,6 +52,7 @@ router.post('/messages', authenticate, sendMessage);
  * @route   GET /api/v1/chat/conversations
  * @desc    Get user's conversations list
  * @access  Private
+ * @query   archived
  */
 router.get('/conversations', authenticate, getConversations);
 
@@ -48,11 +71,27 @@ router.get('/conversations/:userId', authenticate, getConversationMessages);
  */
 router.put('/conversations/:userId/read', authenticate, markConversationAsRead);
 
+/**
+ * @route   PUT /api/v1/chat/conversations/:conversationId/preferences
+ * @desc    Archive, pin or mute a conversation for yourself
+ * @access  Private
+ * @body    archived, pinned, muted, mutedUntil
+ */
+router.put('/conversations/:conversationId/preferences', authenticate, updatePreferences);
+
+/**
+ * @route   GET /api/v1/chat/conversations/:conversationId/export
+ * @desc    Download a conversation as JSON or printable HTML
+ * @access  Private
+ * @query   format (json/html)
+ */
+router.get('/conversations/:conversationId/export', authenticate, exportConversation);
+
 /**
  * @route   GET /api/v1/chat/search
- * @desc    Search messages in a conversation
+ * @desc    Full-text search across your conversations, ranked with highlighted snippets
  * @access  Private
- * @query   otherUserId, query, limit
+ * @query   query, otherUserId, conversationId, from, to, messageType (TEXT/IMAGE/FILE), limit, offset
  */
 router.get('/search', authenticate, searchMessages);
 
@@ -84,4 +123,130 @@ router.delete('/messages/:messageId', authenticate, deleteMessage);
  */
 router.post('/messages/:messageId/delivered', authenticate, markMessageDelivered);
 
+/**
+ * @route   POST /api/v1/chat/messages/:messageId/read
+ * @desc    Mark a single message as read
+ * @access  Private
+ */
+router.post('/messages/:messageId/read', authenticate, markMessageRead);
+
+/**
+ * @route   PUT /api/v1/chat/messages/:messageId
+ * @desc    Edit a message (sender only, shortly after sending)
+ * @access  Private
+ */
+router.put('/messages/:messageId', authenticate, editMessage);
+
+/**
+ * @route   GET /api/v1/chat/messages/:messageId/edits
+ * @desc    Get the edit history of a message
+ * @access  Private
+ */
+router.get('/messages/:messageId/edits', authenticate, getMessageEdits);
+
+/**
+ * @route   POST /api/v1/chat/messages/:messageId/reactions
+ * @desc    React to a message with an emoji
+ * @access  Private
+ */
+router.post('/messages/:messageId/reactions', authenticate, addReaction);
+
+/**
+ * @route   DELETE /api/v1/chat/messages/:messageId/reactions/:emoji
+ * @desc    Remove your emoji reaction
+ * @access  Private
+ */
+router.delete('/messages/:messageId/reactions/:emoji', authenticate, removeReaction);
+
+/**
+ * @route   POST /api/v1/chat/groups
+ * @desc    Create a group conversation and invite people
+ * @access  Private
+ */
+router.post('/groups', authenticate, createGroup);
+
+/**
+ * @route   GET /api/v1/chat/groups/:conversationId
+ * @desc    Get a group with its participants
+ * @access  Private
+ */
+router.get('/groups/:conversationId', authenticate, getGroup);
+
+/**
+ * @route   PUT /api/v1/chat/groups/:conversationId
+ * @desc    Rename a group or change its description (owner/admins)
+ * @access  Private
+ */
+router.put('/groups/:conversationId', authenticate, updateGroup);
+
+/**
+ * @route   GET /api/v1/chat/groups/:conversationId/messages
+ * @desc    Get messages of a group
+ * @access  Private
+ */
+router.get('/groups/:conversationId/messages', authenticate, getGroupMessages);
+
+/**
+ * @route   PUT /api/v1/chat/groups/:conversationId/read
+ * @desc    Mark a group as read
+ * @access  Private
+ */
+router.put('/groups/:conversationId/read', authenticate, markGroupAsRead);
+
+/**
+ * @route   POST /api/v1/chat/groups/:conversationId/invites
+ * @desc    Invite a user to a group (owner/admins)
+ * @access  Private
+ */
+router.post('/groups/:conversationId/invites', authenticate, inviteToGroup);
+
+/**
+ * @route   POST /api/v1/chat/groups/:conversationId/leave
+ * @desc    Leave a group
+ * @access  Private
+ */
+router.post('/groups/:conversationId/leave', authenticate, leaveGroup);
+
+/**
+ * @route   PUT /api/v1/chat/groups/:conversationId/participants/:userId
+ * @desc    Change a participant's role (owner only)
+ * @access  Private
+ */
+router.put('/groups/:conversationId/participants/:userId', authenticate, updateParticipantRole);
+
+/**
+ * @route   DELETE /api/v1/chat/groups/:conversationId/participants/:userId
+ * @desc    Remove someone from a group (owner/admins)
+ * @access  Private
+ */
+router.delete('/groups/:conversationId/participants/:userId', authenticate, removeParticipant);
+
+/**
+ * @route   GET /api/v1/chat/invites
+ * @desc    Get your pending group invites
+ * @access  Private
+ */
+router.get('/invites', authenticate, getInvites);
+
+/**
+ * @route   POST /api/v1/chat/invites/:inviteId/accept
+ * @desc    Accept a group invite
+ * @access  Private
+ */
+router.post('/invites/:inviteId/accept', authenticate, acceptInvite);
+
+/**
+ * @route   POST /api/v1/chat/invites/:inviteId/decline
+ * @desc    Decline a group invite
+ * @access  Private
+ */
+router.post('/invites/:inviteId/decline', authenticate, declineInvite);
+
+/**
+ * @route   GET /api/v1/chat/events/:eventId
+ * @desc    Get the chat of an event you organize or attend
+ * @access  Private
+ */
+router.get('/events/:eventId', authenticate, getEventChat);
+
 export default router;
@@ -21,6 +21,34 @@ const connectionLimiter = rateLimit({
 router.use(connectionLimiter);
 router.use(authenticate);
 
+/**
+ * Connection request routes (two-way connections the receiver approves)
+ */
+
+// Get pending requests sent to you
+router.get('/requests', connectionController.getIncomingRequests);
+
+// Get pending requests you have sent
+router.get('/requests/sent', connectionController.getSentRequests);
+
+// Send a connection request
+router.post('/requests/:userId', connectionController.sendConnectionRequest);
+
+// Accept a connection request
+router.post('/requests/:requestId/accept', connectionController.acceptConnectionRequest);
+
+// Decline a connection request
+router.post('/requests/:requestId/decline', connectionController.declineConnectionRequest);
+
+// Cancel a connection request you sent
+router.delete('/requests/:requestId', connectionController.cancelConnectionRequest);
+
+// Get your accepted connections
+router.get('/accepted', connectionController.getAcceptedConnections);
+
+// Remove an accepted connection
+router.delete('/accepted/:userId', connectionController.removeAcceptedConnection);
+
 /**
  * Connection management routes
  */
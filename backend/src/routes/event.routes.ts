@@ -37,6 +37,9 @@ router.get('/:eventId', optionalAuthenticate, eventController.getEventById);
 // Get event attendees (public)
 router.get('/:eventId/attendees', eventController.getEventAttendees);
 
+// Download event as .ics (public)
+router.get('/:eventId/ics', eventController.getEventCalendar);
+
 /**
  * Protected routes (authentication required)
  */
@@ -68,4 +71,16 @@ router.post('/:eventId/register', authenticate, eventController.registerForEvent
 // Unregister from an event
 router.delete('/:eventId/register', authenticate, eventController.unregisterFromEvent);
 
+// View and reorder the waitlist (organizer)
+router.get('/:eventId/waitlist', authenticate, eventController.getEventWaitlist);
+router.put('/:eventId/waitlist/:userId', authenticate, eventController.moveWaitlistEntry);
+
+// Attendee check-in code, and join-time check-in for online events
+router.get('/:eventId/check-in-code', authenticate, eventController.getCheckInCode);
+router.post('/:eventId/self-check-in', authenticate, eventController.selfCheckIn);
+
+// Check attendees in and view the attendance sheet (organizer)
+router.post('/:eventId/check-in', authenticate, eventController.checkInAttendee);
+router.get('/:eventId/check-ins', authenticate, eventController.getEventCheckIns);
+
 export default router;
@@ -0,0 +1,21 @@
+/**
+ * Feed Routes
+ * API endpoints for the activity feed of followed users
+ */
+
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import * as feedController from '../controllers/feed.controller';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+// Activities of the users you follow, cursor-paginated
+router.get('/', feedController.getFeed);
+
+// Who can see each kind of your activity
+router.get('/settings', feedController.getSettings);
+router.put('/settings', feedController.updateSettings);
+
+export default router;
@@ -30,6 +30,10 @@ router.get('/levels', gamificationController.getLevelsInfo);
 // Get leaderboard by metric
 router.get('/leaderboard/:metric', gamificationController.getLeaderboard);
 
+// Seasons and their archived final standings
+router.get('/seasons', gamificationController.getSeasons);
+router.get('/seasons/:id/standings', gamificationController.getSeasonStandings);
+
 /**
  * Protected Routes (Require Authentication)
  */
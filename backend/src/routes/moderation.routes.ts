@@ -21,6 +21,7 @@ router.get('/reports', requireModerator, moderationController.getReports);
 router.get('/reports/:id', requireModerator, moderationController.getReport);
 router.put('/reports/:id/status', requireModerator, moderationController.updateReportStatus);
 router.post('/actions', requireModerator, moderationController.executeAction);
+router.post('/disputes/:id/resolve', requireModerator, moderationController.resolveReviewDispute);
 router.get('/stats', requireModerator, moderationController.getModerationStats);
 router.get('/moderators/:id/activity', requireModerator, moderationController.getModeratorActivity);
 
@@ -4,7 +4,7 @@
  */
 
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth';
+import { authenticate, optionalAuthenticate } from '../middleware/auth';
 import {
   submitReview,
   getUserReviews,
@@ -13,6 +13,9 @@ import {
   editReview,
   deleteReview,
   voteOnReview,
+  replyToReview,
+  deleteReviewReply,
+  disputeReview,
   getUserStats,
 } from '../controllers/review.controller';
 
@@ -20,25 +23,25 @@ const router = Router();
 
 /**
  * @route   POST /api/v1/reviews
- * @desc    Submit a review for a completed swap
- * @access  Private (authenticated users)
+ * @desc    Review the other party of a completed swap; hidden until both review or the window closes
+ * @access  Private (swap participants)
  */
 router.post('/', authenticate, submitReview);
 
 /**
  * @route   GET /api/v1/reviews/user/:userId
- * @desc    Get all reviews for a user (as teacher)
- * @access  Public
- * @query   limit, offset, minRating
+ * @desc    Get all revealed reviews for a user (as teacher)
+ * @access  Public, subject to the user's privacy settings
+ * @query   limit, offset, minRating, userSkillId
  */
-router.get('/user/:userId', getUserReviews);
+router.get('/user/:userId', optionalAuthenticate, getUserReviews);
 
 /**
  * @route   GET /api/v1/reviews/swap/:swapId
- * @desc    Get reviews for a specific swap
+ * @desc    Get revealed reviews for a specific swap, plus the viewer's own
  * @access  Public
  */
-router.get('/swap/:swapId', getSwapReviews);
+router.get('/swap/:swapId', optionalAuthenticate, getSwapReviews);
 
 /**
  * @route   GET /api/v1/reviews/stats/:userId
@@ -49,14 +52,14 @@ router.get('/stats/:userId', getUserStats);
 
 /**
  * @route   GET /api/v1/reviews/:id
- * @desc    Get a specific review by ID
+ * @desc    Get a specific review by ID (hidden reviews only for their author)
  * @access  Public
  */
-router.get('/:id', getReviewById);
+router.get('/:id', optionalAuthenticate, getReviewById);
 
 /**
  * @route   PUT /api/v1/reviews/:id
- * @desc    Edit a review (within 24 hours)
+ * @desc    Edit a review (within 24 hours, until it is revealed)
  * @access  Private (review author only)
  */
 router.put('/:id', authenticate, editReview);
@@ -75,4 +78,25 @@ router.delete('/:id', authenticate, deleteReview);
  */
 router.post('/:id/vote', authenticate, voteOnReview);
 
+/**
+ * @route   PUT /api/v1/reviews/:id/reply
+ * @desc    Add or change the public reply to a review
+ * @access  Private (reviewed user only)
+ */
+router.put('/:id/reply', authenticate, replyToReview);
+
+/**
+ * @route   DELETE /api/v1/reviews/:id/reply
+ * @desc    Remove the reply to a review
+ * @access  Private (reviewed user only)
+ */
+router.delete('/:id/reply', authenticate, deleteReviewReply);
+
+/**
+ * @route   POST /api/v1/reviews/:id/dispute
+ * @desc    Dispute a review; it goes to the moderation queue with the swap's sessions attached
+ * @access  Private (reviewed user only, once per review)
+ */
+router.post('/:id/dispute', authenticate, disputeReview);
+
 export default router;
@@ -0,0 +1,3 @@
+import uploadController from '../controllers/upload.controller';
+
+export default uploadController;
@@ -15,7 +15,9 @@ import { corsOptions } from './config/cors';
 import { rateLimiter } from './middleware/rateLimiter';
 import { errorHandler } from './middleware/errorHandler';
 import { redis } from './config/redis';
+import { attachRedisAdapter } from './config/socket-adapter';
 import { performanceMiddleware } from './middleware/performance';
+import { authenticateSocket, getSocketUser } from './middleware/socketAuth';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
@@ -34,9 +36,13 @@ import webhookRoutes from './routes/webhook.routes';
 import adminRoutes from './routes/admin.routes';
 import moderationRoutes from './routes/moderation.routes';
 import performanceRoutes from './routes/performance.routes';
+import calendarRoutes from './routes/calendar.routes';
+import uploadRoutes from './routes/upload.routes';
+import feedRoutes from './routes/feed.routes';
 
 // Import services
 import { chatService } from './services/chat.service';
+import { presenceService } from './services/presence.service';
 
 const app: Application = express();
 const httpServer = createServer(app);
@@ -89,23 +95,30 @@ app.use(`/api/${API_VERSION}/webhooks`, webhookRoutes);
 app.use(`/api/${API_VERSION}/admin`, adminRoutes);
 app.use(`/api/${API_VERSION}/moderation`, moderationRoutes);
 app.use(`/api/${API_VERSION}/performance`, performanceRoutes);
+app.use(`/api/${API_VERSION}/calendar`, calendarRoutes);
+app.use(`/api/${API_VERSION}/uploads`, uploadRoutes);
+app.use(`/api/${API_VERSION}/feed`, feedRoutes);
+
+// Socket.IO authentication - verify the JWT during the handshake
+io.use(authenticateSocket);
 
 // Socket.IO connection handling with Chat support
 io.on('connection', (socket) => {
-  console.log('New client connected:', socket.id);
+  const currentUserId = getSocketUser(socket).userId;
+  console.log(`New client connected: ${socket.id} (user ${currentUserId})`);
 
-  let currentUserId: string | undefined;
+  chatService.handleUserConnect(socket, currentUserId).catch((error) => {
+    console.error('Error recording presence:', error);
+  });
+  socket.emit('auth:identified', { userId: currentUserId });
 
-  // User authentication for socket
-  socket.on('auth:identify', (data: { userId: string }) => {
-    currentUserId = data.userId;
-    chatService.handleUserConnect(socket, data.userId);
-    socket.emit('auth:identified', { userId: data.userId });
+  // Kept for older clients - the identity always comes from the handshake token
+  socket.on('auth:identify', () => {
+    socket.emit('auth:identified', { userId: currentUserId });
   });
 
   // Join a conversation room
   socket.on('conversation:join', (data: { otherUserId: string }) => {
-    if (!currentUserId) return;
     const conversationId = chatService.getConversationId(
       currentUserId,
       data.otherUserId
@@ -116,7 +129,6 @@ io.on('connection', (socket) => {
 
   // Leave a conversation room
   socket.on('conversation:leave', (data: { otherUserId: string }) => {
-    if (!currentUserId) return;
     const conversationId = chatService.getConversationId(
       currentUserId,
       data.otherUserId
@@ -126,28 +138,62 @@ io.on('connection', (socket) => {
   });
 
   // Typing indicator - start typing
-  socket.on('typing:start', (data: { receiverId: string }) => {
-    if (!currentUserId) return;
-    chatService.handleTyping(socket, currentUserId, data.receiverId, true);
+  socket.on('typing:start', async (data: { receiverId: string }) => {
+    try {
+      await chatService.handleTyping(socket, currentUserId, data.receiverId, true);
+    } catch (error) {
+      console.error('Error updating typing state:', error);
+    }
   });
 
   // Typing indicator - stop typing
-  socket.on('typing:stop', (data: { receiverId: string }) => {
-    if (!currentUserId) return;
-    chatService.handleTyping(socket, currentUserId, data.receiverId, false);
+  socket.on('typing:stop', async (data: { receiverId: string }) => {
+    try {
+      await chatService.handleTyping(socket, currentUserId, data.receiverId, false);
+    } catch (error) {
+      console.error('Error updating typing state:', error);
+    }
   });
 
-  // Message delivered acknowledgment
+  // Message delivered acknowledgment - the sender gets a receipt
   socket.on('message:delivered', async (data: { messageId: string }) => {
     try {
-      await chatService.markMessageAsDelivered(data.messageId);
+      const receipt = await chatService.markMessageAsDelivered(data.messageId, currentUserId);
+      if (receipt) {
+        chatService.emitToUser(io, receipt.senderId, 'message:delivered', {
+          messageId: receipt.messageId,
+          conversationId: receipt.conversationId,
+          deliveredAt: receipt.deliveredAt,
+        });
+      }
     } catch (error) {
       console.error('Error marking message as delivered:', error);
     }
   });
 
+  // Message read acknowledgment - the sender gets a receipt
+  socket.on('message:read', async (data: { messageId: string }) => {
+    try {
+      const receipt = await chatService.markMessageAsRead(data.messageId, currentUserId);
+      if (receipt) {
+        chatService.emitToUser(io, receipt.senderId, 'message:read', {
+          messageId: receipt.messageId,
+          conversationId: receipt.conversationId,
+          readBy: currentUserId,
+          readAt: receipt.readAt,
+        });
+      }
+    } catch (error) {
+      console.error('Error marking message as read:', error);
+    }
+  });
+
   // Generic room join/leave (for backward compatibility)
   socket.on('join-room', (roomId: string) => {
+    if (!chatService.canJoinRoom(currentUserId, roomId)) {
+      console.warn(`Socket ${socket.id} denied access to room ${roomId}`);
+      return;
+    }
     socket.join(roomId);
     console.log(`Socket ${socket.id} joined room ${roomId}`);
   });
@@ -158,10 +204,12 @@ io.on('connection', (socket) => {
   });
 
   // Handle disconnection
-  socket.on('disconnect', () => {
+  socket.on('disconnect', async () => {
     console.log('Client disconnected:', socket.id);
-    if (currentUserId) {
-      chatService.handleUserDisconnect(socket, currentUserId);
+    try {
+      await chatService.handleUserDisconnect(socket, currentUserId);
+    } catch (error) {
+      console.error('Error clearing presence:', error);
     }
   });
 });
@@ -184,11 +232,15 @@ const port = process.env.port || 3000;
 const host = '0.0.0.0';
 
 
-// Initialize Redis connection
-redis.connect().catch((error) => {
-  console.error('Failed to connect to Redis:', error.message);
-  console.warn('Server will continue without Redis caching');
-});
+// Initialize Redis connection, then share Socket.IO rooms and presence across instances
+redis
+  .connect()
+  .then(() => attachRedisAdapter(io))
+  .then(() => presenceService.startHeartbeat(io))
+  .catch((error) => {
+    console.error('Failed to connect to Redis:', error.message);
+    console.warn('Server will continue without Redis caching');
+  });
 
 httpServer.listen(port, () => {
   const env = (process.env.NODE_ENV || 'development').padEnd(28);
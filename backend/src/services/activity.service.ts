@@ -0,0 +1,271 @@
+/**
+ * Activity Service
+ * Records what users do (new skills, completed swaps, badges, published
+ * events, public reviews) and builds the feed of people a user follows.
+ * Each user chooses who sees each kind of activity.
+ */
+
+import { ActivityType, ActivityVisibility, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { buildCursorPagination } from '../utils/queryOptimizer';
+import { blockService } from './block.service';
+
+export const ACTIVITY_TYPES: ActivityType[] = [
+  'SKILL_ADDED',
+  'SWAP_COMPLETED',
+  'BADGE_EARNED',
+  'EVENT_PUBLISHED',
+  'REVIEW_POSTED',
+];
+
+export interface ActivityVisibilitySettings {
+  skills: ActivityVisibility;
+  swaps: ActivityVisibility;
+  badges: ActivityVisibility;
+  events: ActivityVisibility;
+  reviews: ActivityVisibility;
+}
+
+export interface FeedParams {
+  cursor?: string;
+  limit?: number;
+  type?: ActivityType;
+}
+
+// The settings field that controls each activity type
+const SETTING_BY_TYPE: Record<ActivityType, keyof ActivityVisibilitySettings> = {
+  SKILL_ADDED: 'skills',
+  SWAP_COMPLETED: 'swaps',
+  BADGE_EARNED: 'badges',
+  EVENT_PUBLISHED: 'events',
+  REVIEW_POSTED: 'reviews',
+};
+
+const DEFAULT_SETTINGS: ActivityVisibilitySettings = {
+  skills: 'FOLLOWERS',
+  swaps: 'FOLLOWERS',
+  badges: 'FOLLOWERS',
+  events: 'FOLLOWERS',
+  reviews: 'FOLLOWERS',
+};
+
+const MAX_FEED_PAGE_SIZE = 50;
+
+class ActivityService {
+  /**
+   * Record an activity, or refresh its snapshot if it was already recorded.
+   * Failures are logged rather than thrown so the action that triggered it
+   * still succeeds.
+   */
+  async record(
+    actorId: string,
+    type: ActivityType,
+    entityId: string,
+    data?: Prisma.InputJsonValue
+  ) {
+    try {
+      await prisma.activity.upsert({
+        where: { actorId_type_entityId: { actorId, type, entityId } },
+        create: { actorId, type, entityId, data },
+        update: { data },
+      });
+    } catch (error) {
+      logger.error(`Failed to record ${type} activity for ${actorId}:`, error);
+    }
+  }
+
+  /**
+   * Remove activities for something that was deleted or hidden
+   */
+  async remove(type: ActivityType, entityId: string) {
+    try {
+      await prisma.activity.deleteMany({ where: { type, entityId } });
+    } catch (error) {
+      logger.error(`Failed to remove ${type} activity for ${entityId}:`, error);
+    }
+  }
+
+  /**
+   * Record a completed swap for both participants
+   */
+  async recordSwapCompleted(swapId: string) {
+    const swap = await prisma.swap.findUnique({
+      where: { swapId },
+      include: {
+        initiator: { select: { userId: true, name: true } },
+        receiver: { select: { userId: true, name: true } },
+      },
+    });
+
+    if (!swap) return;
+
+    const skills = await prisma.skill.findMany({
+      where: { skillId: { in: [swap.initiatorSkillId, swap.receiverSkillId] } },
+      select: { skillId: true, name: true },
+    });
+    const skillName = (skillId: string) => skills.find((s) => s.skillId === skillId)?.name ?? null;
+
+    await Promise.all([
+      this.record(swap.initiatorId, 'SWAP_COMPLETED', swapId, {
+        partnerId: swap.receiverId,
+        partnerName: swap.receiver.name,
+        taughtSkill: skillName(swap.initiatorSkillId),
+        learnedSkill: skillName(swap.receiverSkillId),
+      }),
+      this.record(swap.receiverId, 'SWAP_COMPLETED', swapId, {
+        partnerId: swap.initiatorId,
+        partnerName: swap.initiator.name,
+        taughtSkill: skillName(swap.receiverSkillId),
+        learnedSkill: skillName(swap.initiatorSkillId),
+      }),
+    ]);
+  }
+
+  /**
+   * A user's visibility settings, with defaults when they never changed them
+   */
+  async getSettings(userId: string): Promise<ActivityVisibilitySettings> {
+    const settings = await prisma.activitySettings.findUnique({ where: { userId } });
+
+    if (!settings) {
+      return { ...DEFAULT_SETTINGS };
+    }
+
+    const { skills, swaps, badges, events, reviews } = settings;
+    return { skills, swaps, badges, events, reviews };
+  }
+
+  /**
+   * Change who sees some kinds of activity
+   */
+  async updateSettings(
+    userId: string,
+    updates: Partial<ActivityVisibilitySettings>
+  ): Promise<ActivityVisibilitySettings> {
+    const data: Partial<ActivityVisibilitySettings> = {};
+    for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof ActivityVisibilitySettings)[]) {
+      if (updates[key] !== undefined) {
+        data[key] = updates[key];
+      }
+    }
+
+    const settings = await prisma.activitySettings.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    const { skills, swaps, badges, events, reviews } = settings;
+    return { skills, swaps, badges, events, reviews };
+  }
+
+  /**
+   * Activities of the users someone follows, newest first. Pass the
+   * returned nextCursor to get the following page.
+   */
+  async getFeed(userId: string, params: FeedParams = {}) {
+    if (params.type && !ACTIVITY_TYPES.includes(params.type)) {
+      throw new AppError('Invalid activity type', 400);
+    }
+
+    const where = await this.buildFeedWhere(userId, params.type);
+    if (!where) {
+      return { activities: [], nextCursor: null };
+    }
+
+    const pagination = buildCursorPagination({
+      cursor: params.cursor,
+      limit: Math.min(params.limit || 20, MAX_FEED_PAGE_SIZE),
+    });
+
+    const activities = await prisma.activity.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { activityId: 'desc' }],
+      take: pagination.take,
+      skip: pagination.skip,
+      cursor: pagination.cursor ? { activityId: pagination.cursor.id } : undefined,
+      include: {
+        actor: { select: { userId: true, name: true, avatar: true } },
+      },
+    });
+
+    const nextCursor =
+      activities.length === pagination.take ? activities[activities.length - 1].activityId : null;
+
+    return { activities, nextCursor };
+  }
+
+  /**
+   * Which activity types of which followed users the viewer may see. Users
+   * with the same visible types are grouped into one condition. Returns null
+   * when nothing is visible.
+   */
+  private async buildFeedWhere(
+    userId: string,
+    type?: ActivityType
+  ): Promise<Prisma.ActivityWhereInput | null> {
+    const [follows, blockedIds] = await Promise.all([
+      prisma.connection.findMany({
+        where: { userId },
+        select: { connectedUserId: true },
+      }),
+      blockService.getBlockedUserIds(userId),
+    ]);
+
+    const blocked = new Set(blockedIds);
+    const followedIds = follows.map((f) => f.connectedUserId).filter((id) => !blocked.has(id));
+
+    if (followedIds.length === 0) {
+      return null;
+    }
+
+    const [settings, accepted] = await Promise.all([
+      prisma.activitySettings.findMany({ where: { userId: { in: followedIds } } }),
+      prisma.connectionRequest.findMany({
+        where: {
+          status: 'ACCEPTED',
+          OR: [
+            { senderId: userId, receiverId: { in: followedIds } },
+            { receiverId: userId, senderId: { in: followedIds } },
+          ],
+        },
+        select: { senderId: true, receiverId: true },
+      }),
+    ]);
+
+    const settingsByUser = new Map(settings.map((s) => [s.userId, s]));
+    const connected = new Set(accepted.map((r) => (r.senderId === userId ? r.receiverId : r.senderId)));
+    const candidateTypes = type ? [type] : ACTIVITY_TYPES;
+    const groups = new Map<string, { types: ActivityType[]; actorIds: string[] }>();
+
+    for (const actorId of followedIds) {
+      const actorSettings = settingsByUser.get(actorId) ?? DEFAULT_SETTINGS;
+      const visibleTypes = candidateTypes.filter((t) => {
+        const visibility = actorSettings[SETTING_BY_TYPE[t]];
+        return visibility === 'FOLLOWERS' || (visibility === 'CONNECTIONS' && connected.has(actorId));
+      });
+
+      if (visibleTypes.length === 0) continue;
+
+      const key = visibleTypes.join(',');
+      const group = groups.get(key) ?? { types: visibleTypes, actorIds: [] };
+      group.actorIds.push(actorId);
+      groups.set(key, group);
+    }
+
+    if (groups.size === 0) {
+      return null;
+    }
+
+    return {
+      OR: [...groups.values()].map((g) => ({
+        actorId: { in: g.actorIds },
+        type: { in: g.types },
+      })),
+    };
+  }
+}
+
+export const activityService = new ActivityService();
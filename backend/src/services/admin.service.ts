@@ -7,6 +7,8 @@ import prisma from '../config/database';
 import { UserRole, UserStatus, SubscriptionTier, SubscriptionStatus } from '@prisma/client';
 import { AppError } from '../middleware/errorHandler';
 import { notificationService } from './notification.service';
+import { gamificationService } from './gamification.service';
+import { sessionService } from './session.service';
 import bcrypt from 'bcryptjs';
 
 export interface UserSearchParams {
@@ -236,23 +238,60 @@ class AdminService {
       }
     }
 
-    const updated = await prisma.user.update({
-      where: { userId },
-      data: updates,
-    });
+    const { coins, ...fieldUpdates } = updates;
+    if (coins !== undefined && coins < 0) {
+      throw new AppError('Coin balance cannot be negative', 400);
+    }
 
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        userId: adminId,
-        action: 'UPDATE_USER',
-        entity: 'USER',
-        entityId: userId,
-        metadata: JSON.stringify({ updates }),
-        ipAddress: '0.0.0.0', // Should be passed from request
-      },
+    // The balance change, its ledger entry and the audit log commit together
+    let coinsRaised = false;
+    const updated = await prisma.$transaction(async (tx) => {
+      // Coin balance changes go through the ledger as an admin adjustment
+      if (coins !== undefined) {
+        const { coins: balance } = await tx.user.findUniqueOrThrow({
+          where: { userId },
+          select: { coins: true },
+        });
+
+        const delta = coins - balance;
+        const options = { sourceType: 'ADMIN' as const, actorId: adminId, tx };
+        if (delta > 0) {
+          await gamificationService.awardCoins(userId, delta, 'Admin balance adjustment', options);
+          coinsRaised = true;
+        } else if (delta < 0) {
+          await gamificationService.deductCoins(userId, -delta, 'Admin balance adjustment', options);
+        }
+      }
+
+      const result = await tx.user.update({
+        where: { userId },
+        data: fieldUpdates,
+      });
+
+      // Create audit log
+      await tx.auditLog.create({
+        data: {
+          userId: adminId,
+          action: 'UPDATE_USER',
+          entity: 'USER',
+          entityId: userId,
+          metadata: JSON.stringify({ updates }),
+          ipAddress: '0.0.0.0', // Should be passed from request
+        },
+      });
+
+      return result;
     });
 
+    if (coinsRaised) {
+      await gamificationService.awardBadgesForEvent(userId, 'COINS_EARNED');
+    }
+
+    // Disabling an account signs it out everywhere
+    if (updates.status && updates.status !== 'ACTIVE') {
+      await sessionService.revokeAllSessions(userId, 'ACCOUNT_DISABLED');
+    }
+
     // Notify user of significant changes
     if (updates.status || updates.role) {
       await notificationService.createNotification({
@@ -291,6 +330,8 @@ class AdminService {
       data: { status: 'BANNED' },
     });
 
+    await sessionService.revokeAllSessions(userId, 'ACCOUNT_DISABLED');
+
     // Create audit log
     await prisma.auditLog.create({
       data: {
@@ -314,6 +355,53 @@ class AdminService {
     return { success: true, message: 'User deleted successfully' };
   }
 
+  /**
+   * List a user's active sessions
+   */
+  async getUserSessions(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { userId },
+      select: { userId: true },
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    return sessionService.listSessions(userId);
+  }
+
+  /**
+   * Revoke one or all of a user's sessions
+   */
+  async revokeUserSessions(userId: string, adminId: string, sessionId?: string) {
+    let revoked: number;
+
+    if (sessionId) {
+      const found = await sessionService.revokeSession(sessionId, 'ADMIN_REVOKED', userId);
+      if (!found) {
+        throw new AppError('Session not found', 404);
+      }
+      revoked = 1;
+    } else {
+      revoked = await sessionService.revokeAllSessions(userId, 'ADMIN_REVOKED');
+    }
+
+    // Create audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: adminId,
+        action: 'REVOKE_SESSIONS',
+        entity: 'USER',
+        entityId: userId,
+        metadata: JSON.stringify({ sessionId, revoked }),
+        ipAddress: '0.0.0.0',
+      },
+    });
+
+    return { revoked };
+  }
+
   /**
    * Create admin/moderator user
    */
@@ -476,6 +564,25 @@ class AdminService {
     }));
   }
 
+  /**
+   * Get a single setting's parsed value, falling back to a default when unset
+   */
+  async getSettingValue<T>(key: string, defaultValue: T): Promise<T> {
+    const setting = await prisma.adminSettings.findUnique({
+      where: { key },
+    });
+
+    if (!setting || !setting.value) {
+      return defaultValue;
+    }
+
+    try {
+      return JSON.parse(setting.value) as T;
+    } catch {
+      return defaultValue;
+    }
+  }
+
   /**
    * Update platform setting
    */
@@ -531,6 +638,8 @@ class AdminService {
     if (key.startsWith('moderation_')) return 'moderation';
     if (key.startsWith('feature_')) return 'features';
     if (key.startsWith('email_')) return 'email';
+    if (key.startsWith('swap_')) return 'swaps';
+    if (key.startsWith('chat_')) return 'chat';
     return 'general';
   }
 
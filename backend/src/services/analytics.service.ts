@@ -302,6 +302,7 @@ class AnalyticsService {
       prisma.swap.count({ where: { status: 'COMPLETED' } }),
       prisma.swap.count({ where: { status: 'CANCELLED' } }),
       prisma.review.aggregate({
+        where: { isRevealed: true },
         _avg: { rating: true },
       }),
     ]);
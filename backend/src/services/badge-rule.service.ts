@@ -0,0 +1,574 @@
+/**
+ * Badge Rule Service
+ * Badge criteria written as JSON rules: a metric aggregated over a user's
+ * history, optionally within a time window, compared against a value, with
+ * conditions combined by AND/OR. Each metric names the domain events that can
+ * change it, so an event only re-evaluates the badges whose rules read it.
+ *
+ * Example, "5 swaps in a month":
+ *   { "metric": "SWAPS_COMPLETED", "aggregation": "count", "windowDays": 30,
+ *     "operator": "gte", "value": 5 }
+ */
+
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+
+export const BADGE_EVENTS = [
+  'SWAP_COMPLETED',
+  'REVIEW_RECEIVED',
+  'REVIEW_VOTED',
+  'EVENT_PUBLISHED',
+  'EVENT_ATTENDED',
+  'LEVEL_UP',
+  'COINS_EARNED',
+] as const;
+
+export type BadgeEvent = (typeof BADGE_EVENTS)[number];
+
+export type BadgeMetric =
+  | 'SWAPS_COMPLETED'
+  | 'REVIEWS_RECEIVED'
+  | 'HELPFUL_VOTES'
+  | 'EVENTS_ORGANIZED'
+  | 'EVENTS_ATTENDED'
+  | 'RATING'
+  | 'LEVEL'
+  | 'COINS'
+  | 'HOURS_TAUGHT'
+  | 'HOURS_LEARNED';
+
+export type BadgeAggregation = 'count' | 'distinct' | 'sum' | 'avg' | 'value';
+
+export type BadgeOperator = 'gte' | 'gt' | 'eq' | 'lte' | 'lt';
+
+export interface BadgeCondition {
+  metric: BadgeMetric;
+  aggregation: BadgeAggregation;
+  field?: string; // What 'distinct' counts, e.g. "taughtCategory"
+  windowDays?: number; // Best run of this many days instead of all time
+  operator: BadgeOperator;
+  value: number;
+}
+
+export interface BadgeRuleGroup {
+  combinator: 'AND' | 'OR';
+  conditions: BadgeRule[];
+}
+
+export type BadgeRule = BadgeCondition | BadgeRuleGroup;
+
+// One thing that happened to a user; amount is what sum and avg add up
+interface BadgeFact {
+  at: Date;
+  amount: number;
+  fields: Record<string, string | null>;
+}
+
+type FactsByUser = Map<string, BadgeFact[]>;
+
+interface MetricDefinition {
+  description: string;
+  events: readonly BadgeEvent[];
+  aggregations: readonly BadgeAggregation[];
+  fields: readonly string[];
+  load(userIds: string[]): Promise<FactsByUser>;
+}
+
+const MAX_RULE_DEPTH = 3;
+const MAX_RULE_CONDITIONS = 10;
+const DRY_RUN_BATCH_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPERATORS: BadgeOperator[] = ['gte', 'gt', 'eq', 'lte', 'lt'];
+const WINDOWED_AGGREGATIONS: BadgeAggregation[] = ['count', 'distinct', 'sum'];
+
+function groupFacts(userIds: string[], entries: [string, BadgeFact][]): FactsByUser {
+  const facts: FactsByUser = new Map(userIds.map((id) => [id, []]));
+  for (const [userId, fact] of entries) {
+    facts.get(userId)?.push(fact);
+  }
+  return facts;
+}
+
+/**
+ * A current value from the user row, as a single fact
+ */
+function profileMetric(
+  description: string,
+  events: readonly BadgeEvent[],
+  read: (user: {
+    rating: number;
+    level: number;
+    coins: number;
+    totalHoursTaught: number;
+    totalHoursLearned: number;
+  }) => number
+): MetricDefinition {
+  return {
+    description,
+    events,
+    aggregations: ['value'],
+    fields: [],
+    async load(userIds) {
+      const users = await prisma.user.findMany({
+        where: { userId: { in: userIds } },
+        select: {
+          userId: true,
+          rating: true,
+          level: true,
+          coins: true,
+          totalHoursTaught: true,
+          totalHoursLearned: true,
+        },
+      });
+      const now = new Date();
+      return groupFacts(
+        userIds,
+        users.map((user) => [user.userId, { at: now, amount: read(user), fields: {} }])
+      );
+    },
+  };
+}
+
+const METRICS: Record<BadgeMetric, MetricDefinition> = {
+  SWAPS_COMPLETED: {
+    description: 'Completed swaps; sum and avg use the swap duration in minutes',
+    events: ['SWAP_COMPLETED'],
+    aggregations: ['count', 'distinct', 'sum', 'avg'],
+    fields: ['partner', 'taughtSkill', 'taughtCategory', 'learnedSkill', 'learnedCategory'],
+    async load(userIds) {
+      const swaps = await prisma.swap.findMany({
+        where: {
+          status: 'COMPLETED',
+          OR: [{ initiatorId: { in: userIds } }, { receiverId: { in: userIds } }],
+        },
+        select: {
+          initiatorId: true,
+          receiverId: true,
+          initiatorSkillId: true,
+          receiverSkillId: true,
+          duration: true,
+          completedAt: true,
+          updatedAt: true,
+        },
+      });
+
+      const skillIds = [...new Set(swaps.flatMap((s) => [s.initiatorSkillId, s.receiverSkillId]))];
+      const skills = await prisma.skill.findMany({
+        where: { skillId: { in: skillIds } },
+        select: { skillId: true, categoryId: true },
+      });
+      const categoryOf = new Map(skills.map((s) => [s.skillId, s.categoryId]));
+
+      const entries: [string, BadgeFact][] = [];
+      for (const swap of swaps) {
+        // The initiator teaches their own skill and learns the receiver's
+        const sides = [
+          [swap.initiatorId, swap.receiverId, swap.initiatorSkillId, swap.receiverSkillId],
+          [swap.receiverId, swap.initiatorId, swap.receiverSkillId, swap.initiatorSkillId],
+        ];
+        for (const [userId, partner, taughtSkill, learnedSkill] of sides) {
+          entries.push([
+            userId,
+            {
+              at: swap.completedAt ?? swap.updatedAt,
+              amount: swap.duration ?? 0,
+              fields: {
+                partner,
+                taughtSkill,
+                taughtCategory: categoryOf.get(taughtSkill) ?? null,
+                learnedSkill,
+                learnedCategory: categoryOf.get(learnedSkill) ?? null,
+              },
+            },
+          ]);
+        }
+      }
+      return groupFacts(userIds, entries);
+    },
+  },
+
+  REVIEWS_RECEIVED: {
+    description: 'Revealed public reviews received; sum and avg use the star rating',
+    events: ['REVIEW_RECEIVED'],
+    aggregations: ['count', 'distinct', 'sum', 'avg'],
+    fields: ['reviewer', 'userSkill'],
+    async load(userIds) {
+      const reviews = await prisma.review.findMany({
+        where: { teacherId: { in: userIds }, isPublic: true, isRevealed: true },
+        select: { teacherId: true, studentId: true, userSkillId: true, rating: true, createdAt: true },
+      });
+      return groupFacts(
+        userIds,
+        reviews.map((r) => [
+          r.teacherId,
+          {
+            at: r.createdAt,
+            amount: r.rating,
+            fields: { reviewer: r.studentId, userSkill: r.userSkillId },
+          },
+        ])
+      );
+    },
+  },
+
+  HELPFUL_VOTES: {
+    description: 'Helpful votes on reviews the user wrote; distinct "review" counts helpful reviews',
+    events: ['REVIEW_VOTED'],
+    aggregations: ['count', 'distinct'],
+    fields: ['review', 'voter'],
+    async load(userIds) {
+      const votes = await prisma.reviewVote.findMany({
+        where: { isHelpful: true, review: { studentId: { in: userIds } } },
+        select: { reviewId: true, userId: true, createdAt: true, review: { select: { studentId: true } } },
+      });
+      return groupFacts(
+        userIds,
+        votes.map((v) => [
+          v.review.studentId,
+          { at: v.createdAt, amount: 1, fields: { review: v.reviewId, voter: v.userId } },
+        ])
+      );
+    },
+  },
+
+  EVENTS_ORGANIZED: {
+    description: 'Published events the user organized',
+    events: ['EVENT_PUBLISHED'],
+    aggregations: ['count', 'distinct'],
+    fields: ['eventType'],
+    async load(userIds) {
+      const events = await prisma.event.findMany({
+        where: {
+          organizerId: { in: userIds },
+          status: { in: ['PUBLISHED', 'ONGOING', 'COMPLETED'] },
+        },
+        select: { organizerId: true, eventType: true, createdAt: true },
+      });
+      return groupFacts(
+        userIds,
+        events.map((e) => [
+          e.organizerId,
+          { at: e.createdAt, amount: 1, fields: { eventType: e.eventType } },
+        ])
+      );
+    },
+  },
+
+  EVENTS_ATTENDED: {
+    description: 'Events the user checked in at',
+    events: ['EVENT_ATTENDED'],
+    aggregations: ['count', 'distinct'],
+    fields: ['eventType', 'organizer'],
+    async load(userIds) {
+      const attendances = await prisma.eventAttendance.findMany({
+        where: { userId: { in: userIds }, status: 'ATTENDED' },
+        select: {
+          userId: true,
+          registeredAt: true,
+          checkedInAt: true,
+          event: { select: { eventType: true, organizerId: true } },
+        },
+      });
+      return groupFacts(
+        userIds,
+        attendances.map((a) => [
+          a.userId,
+          {
+            at: a.checkedInAt ?? a.registeredAt,
+            amount: 1,
+            fields: { eventType: a.event.eventType, organizer: a.event.organizerId },
+          },
+        ])
+      );
+    },
+  },
+
+  RATING: profileMetric('Current reputation score', ['REVIEW_RECEIVED'], (u) => u.rating),
+  LEVEL: profileMetric('Current level', ['LEVEL_UP'], (u) => u.level),
+  COINS: profileMetric('Current coin balance', ['COINS_EARNED', 'SWAP_COMPLETED'], (u) => u.coins),
+  HOURS_TAUGHT: profileMetric('Total hours taught', ['SWAP_COMPLETED'], (u) => u.totalHoursTaught),
+  HOURS_LEARNED: profileMetric('Total hours learned', ['SWAP_COMPLETED'], (u) => u.totalHoursLearned),
+};
+
+// Legacy Badge.criteria values and the metric each one reads
+const LEGACY_CRITERIA: Record<string, { metric: BadgeMetric; aggregation: BadgeAggregation }> = {
+  SWAP_COUNT: { metric: 'SWAPS_COMPLETED', aggregation: 'count' },
+  RATING: { metric: 'RATING', aggregation: 'value' },
+  HOURS_TAUGHT: { metric: 'HOURS_TAUGHT', aggregation: 'value' },
+  HOURS_LEARNED: { metric: 'HOURS_LEARNED', aggregation: 'value' },
+  LEVEL: { metric: 'LEVEL', aggregation: 'value' },
+  COINS: { metric: 'COINS', aggregation: 'value' },
+  EVENTS_ATTENDED: { metric: 'EVENTS_ATTENDED', aggregation: 'count' },
+};
+
+function isGroup(rule: BadgeRule): rule is BadgeRuleGroup {
+  return 'combinator' in rule;
+}
+
+class BadgeRuleService {
+  /**
+   * Metrics that rules can use, for the admin rule editor
+   */
+  getMetricCatalog() {
+    return Object.entries(METRICS).map(([metric, def]) => ({
+      metric,
+      description: def.description,
+      aggregations: def.aggregations,
+      fields: def.fields,
+      events: def.events,
+    }));
+  }
+
+  /**
+   * Check an admin-authored rule and return it typed. Throws a 400 naming the
+   * offending part of the rule.
+   */
+  validate(rule: unknown): BadgeRule {
+    let conditionCount = 0;
+
+    const check = (node: any, path: string, depth: number): BadgeRule => {
+      if (!node || typeof node !== 'object' || Array.isArray(node)) {
+        throw new AppError(`${path} must be a condition or a group`, 400);
+      }
+
+      if ('combinator' in node) {
+        if (node.combinator !== 'AND' && node.combinator !== 'OR') {
+          throw new AppError(`${path}.combinator must be AND or OR`, 400);
+        }
+        if (depth >= MAX_RULE_DEPTH) {
+          throw new AppError(`Rules can nest at most ${MAX_RULE_DEPTH} groups deep`, 400);
+        }
+        if (!Array.isArray(node.conditions) || node.conditions.length === 0) {
+          throw new AppError(`${path}.conditions must be a non-empty list`, 400);
+        }
+        return {
+          combinator: node.combinator,
+          conditions: node.conditions.map((child: unknown, i: number) =>
+            check(child, `${path}.conditions[${i}]`, depth + 1)
+          ),
+        };
+      }
+
+      if (++conditionCount > MAX_RULE_CONDITIONS) {
+        throw new AppError(`Rules can have at most ${MAX_RULE_CONDITIONS} conditions`, 400);
+      }
+
+      const def: MetricDefinition | undefined = METRICS[node.metric as BadgeMetric];
+      if (!def) {
+        throw new AppError(`${path}.metric must be one of ${Object.keys(METRICS).join(', ')}`, 400);
+      }
+      if (!def.aggregations.includes(node.aggregation)) {
+        throw new AppError(
+          `${path}.aggregation for ${node.metric} must be one of ${def.aggregations.join(', ')}`,
+          400
+        );
+      }
+      if (node.aggregation === 'distinct' && !def.fields.includes(node.field)) {
+        throw new AppError(
+          `${path}.field for ${node.metric} must be one of ${def.fields.join(', ')}`,
+          400
+        );
+      }
+      if (!OPERATORS.includes(node.operator)) {
+        throw new AppError(`${path}.operator must be one of ${OPERATORS.join(', ')}`, 400);
+      }
+      if (typeof node.value !== 'number' || !Number.isFinite(node.value)) {
+        throw new AppError(`${path}.value must be a number`, 400);
+      }
+
+      const condition: BadgeCondition = {
+        metric: node.metric,
+        aggregation: node.aggregation,
+        operator: node.operator,
+        value: node.value,
+      };
+      if (node.aggregation === 'distinct') {
+        condition.field = node.field;
+      }
+
+      if (node.windowDays !== undefined) {
+        if (!Number.isInteger(node.windowDays) || node.windowDays < 1 || node.windowDays > 3650) {
+          throw new AppError(`${path}.windowDays must be a whole number of days from 1 to 3650`, 400);
+        }
+        // A window takes the user's best run, which only reads as "at least"
+        if (
+          !WINDOWED_AGGREGATIONS.includes(node.aggregation) ||
+          (node.operator !== 'gte' && node.operator !== 'gt')
+        ) {
+          throw new AppError(
+            `${path}.windowDays only works with count, distinct or sum and gte or gt`,
+            400
+          );
+        }
+        condition.windowDays = node.windowDays;
+      }
+
+      return condition;
+    };
+
+    return check(rule, 'rule', 0);
+  }
+
+  /**
+   * Domain events that can change the rule's outcome
+   */
+  getTriggers(rule: BadgeRule): BadgeEvent[] {
+    const events = new Set<BadgeEvent>();
+    for (const metric of this.getMetrics(rule)) {
+      METRICS[metric].events.forEach((event) => events.add(event));
+    }
+    return [...events];
+  }
+
+  /**
+   * The rule of a badge, translating legacy criteria/threshold badges. Null
+   * for legacy criteria that cannot be evaluated.
+   */
+  getBadgeRule(badge: { rule: unknown; criteria: string; threshold: number }): BadgeRule | null {
+    if (badge.rule) {
+      return badge.rule as BadgeRule;
+    }
+
+    const legacy = LEGACY_CRITERIA[badge.criteria];
+    return legacy ? { ...legacy, operator: 'gte', value: badge.threshold } : null;
+  }
+
+  /**
+   * Whether a user currently satisfies the rule
+   */
+  async evaluate(rule: BadgeRule, userId: string, now: Date = new Date()): Promise<boolean> {
+    const qualifying = await this.findQualifyingUsers(rule, [userId], now);
+    return qualifying.length > 0;
+  }
+
+  /**
+   * Which of the given users satisfy the rule, loading each metric once for
+   * the whole batch
+   */
+  async findQualifyingUsers(
+    rule: BadgeRule,
+    userIds: string[],
+    now: Date = new Date()
+  ): Promise<string[]> {
+    if (userIds.length === 0) return [];
+
+    const facts = new Map<BadgeMetric, FactsByUser>();
+    for (const metric of this.getMetrics(rule)) {
+      facts.set(metric, await METRICS[metric].load(userIds));
+    }
+
+    return userIds.filter((userId) =>
+      this.matches(rule, (metric) => facts.get(metric)?.get(userId) ?? [], now)
+    );
+  }
+
+  /**
+   * How many active users would qualify for the rule right now
+   */
+  async dryRun(rule: BadgeRule, now: Date = new Date()) {
+    let evaluated = 0;
+    let qualifying = 0;
+    const sampleUserIds: string[] = [];
+    let cursor: string | undefined;
+
+    for (;;) {
+      const users = await prisma.user.findMany({
+        where: { status: 'ACTIVE' },
+        select: { userId: true },
+        orderBy: { userId: 'asc' },
+        take: DRY_RUN_BATCH_SIZE,
+        ...(cursor && { cursor: { userId: cursor }, skip: 1 }),
+      });
+      if (users.length === 0) break;
+
+      const userIds = users.map((u) => u.userId);
+      const matched = await this.findQualifyingUsers(rule, userIds, now);
+
+      evaluated += userIds.length;
+      qualifying += matched.length;
+      sampleUserIds.push(...matched.slice(0, 10 - sampleUserIds.length));
+
+      if (users.length < DRY_RUN_BATCH_SIZE) break;
+      cursor = userIds[userIds.length - 1];
+    }
+
+    return { evaluated, qualifying, sampleUserIds, triggers: this.getTriggers(rule) };
+  }
+
+  /**
+   * Evaluate a rule against facts already loaded for one user
+   */
+  matches(rule: BadgeRule, factsFor: (metric: BadgeMetric) => BadgeFact[], now: Date): boolean {
+    if (isGroup(rule)) {
+      return rule.combinator === 'AND'
+        ? rule.conditions.every((child) => this.matches(child, factsFor, now))
+        : rule.conditions.some((child) => this.matches(child, factsFor, now));
+    }
+
+    const actual = this.aggregate(rule, factsFor(rule.metric), now);
+    switch (rule.operator) {
+      case 'gte':
+        return actual >= rule.value;
+      case 'gt':
+        return actual > rule.value;
+      case 'eq':
+        return actual === rule.value;
+      case 'lte':
+        return actual <= rule.value;
+      case 'lt':
+        return actual < rule.value;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * A condition's aggregate over the facts. With a window it is the best
+   * value over any run of windowDays ending at or before now, so "5 swaps in
+   * a month" holds once any 30 days contained 5 swaps.
+   */
+  aggregate(condition: BadgeCondition, facts: BadgeFact[], now: Date): number {
+    const { aggregation, field, windowDays } = condition;
+
+    // Profile values are read as they are at load time, which is after now
+    if (aggregation === 'value') {
+      return facts[0]?.amount ?? 0;
+    }
+
+    const past = facts.filter((f) => f.at <= now);
+    if (aggregation === 'avg') {
+      return past.length ? past.reduce((sum, f) => sum + f.amount, 0) / past.length : 0;
+    }
+
+    const measure = (run: BadgeFact[]) => {
+      if (aggregation === 'count') return run.length;
+      if (aggregation === 'sum') return run.reduce((sum, f) => sum + f.amount, 0);
+      return new Set(run.map((f) => f.fields[field!]).filter((key) => key != null)).size;
+    };
+
+    if (!windowDays) {
+      return measure(past);
+    }
+
+    // Slide a window along the facts in time order, ending it at each fact
+    const sorted = [...past].sort((a, b) => a.at.getTime() - b.at.getTime());
+    const windowMs = windowDays * DAY_MS;
+    let best = 0;
+    let start = 0;
+    for (let end = 0; end < sorted.length; end++) {
+      while (sorted[end].at.getTime() - sorted[start].at.getTime() >= windowMs) {
+        start++;
+      }
+      best = Math.max(best, measure(sorted.slice(start, end + 1)));
+    }
+    return best;
+  }
+
+  private getMetrics(rule: BadgeRule): BadgeMetric[] {
+    if (!isGroup(rule)) return [rule.metric];
+    return [...new Set(rule.conditions.flatMap((child) => this.getMetrics(child)))];
+  }
+}
+
+export const badgeRuleService = new BadgeRuleService();
@@ -0,0 +1,136 @@
+/**
+ * Block Service
+ * Lets users block each other without involving moderators. A block works
+ * in both directions: neither user can message, follow, request swaps
+ * with or be suggested to the other.
+ */
+
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+class BlockService {
+  /**
+   * Block a user. Existing follows, connections and requests between the two are removed.
+   */
+  async blockUser(blockerId: string, blockedId: string) {
+    if (blockerId === blockedId) {
+      throw new AppError('Cannot block yourself', 400);
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { userId: blockedId },
+      select: { userId: true },
+    });
+
+    if (!target) {
+      throw new AppError('User not found', 404);
+    }
+
+    const [block] = await prisma.$transaction([
+      prisma.userBlock.upsert({
+        where: { blockerId_blockedId: { blockerId, blockedId } },
+        create: { blockerId, blockedId },
+        update: {},
+        include: {
+          blocked: {
+            select: { userId: true, name: true, avatar: true },
+          },
+        },
+      }),
+      prisma.connection.deleteMany({
+        where: {
+          OR: [
+            { userId: blockerId, connectedUserId: blockedId },
+            { userId: blockedId, connectedUserId: blockerId },
+          ],
+        },
+      }),
+      prisma.connectionRequest.deleteMany({
+        where: {
+          OR: [
+            { senderId: blockerId, receiverId: blockedId },
+            { senderId: blockedId, receiverId: blockerId },
+          ],
+        },
+      }),
+    ]);
+
+    logger.info(`User ${blockerId} blocked ${blockedId}`);
+
+    return block;
+  }
+
+  /**
+   * Remove a block you created
+   */
+  async unblockUser(blockerId: string, blockedId: string) {
+    const { count } = await prisma.userBlock.deleteMany({
+      where: { blockerId, blockedId },
+    });
+
+    if (count === 0) {
+      throw new AppError('User is not blocked', 404);
+    }
+
+    logger.info(`User ${blockerId} unblocked ${blockedId}`);
+  }
+
+  /**
+   * Users the given user has blocked
+   */
+  async getBlockedUsers(blockerId: string) {
+    return prisma.userBlock.findMany({
+      where: { blockerId },
+      include: {
+        blocked: {
+          select: { userId: true, name: true, avatar: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Check if either user has blocked the other
+   */
+  async isBlockedBetween(userId1: string, userId2: string): Promise<boolean> {
+    const block = await prisma.userBlock.findFirst({
+      where: {
+        OR: [
+          { blockerId: userId1, blockedId: userId2 },
+          { blockerId: userId2, blockedId: userId1 },
+        ],
+      },
+      select: { blockId: true },
+    });
+
+    return block !== null;
+  }
+
+  /**
+   * Everyone the user has blocked or been blocked by, for excluding from lists
+   */
+  async getBlockedUserIds(userId: string): Promise<string[]> {
+    const blocks = await prisma.userBlock.findMany({
+      where: {
+        OR: [{ blockerId: userId }, { blockedId: userId }],
+      },
+      select: { blockerId: true, blockedId: true },
+    });
+
+    return blocks.map((b) => (b.blockerId === userId ? b.blockedId : b.blockerId));
+  }
+
+  /**
+   * Throw if a block exists between the two users. The message does not
+   * reveal who blocked whom.
+   */
+  async assertNotBlocked(userId: string, otherUserId: string, message: string) {
+    if (await this.isBlockedBetween(userId, otherUserId)) {
+      throw new AppError(message, 403);
+    }
+  }
+}
+
+export const blockService = new BlockService();
@@ -0,0 +1,223 @@
+/**
+ * Calendar Service
+ * iCalendar exports of swaps and events, and each user's private feed
+ */
+
+import crypto from 'crypto';
+import { Event, Swap, SwapSession } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { buildCalendar, ICalEvent } from '../utils/ical';
+import { DEFAULT_SESSION_MINUTES } from './scheduling.service';
+
+const UID_DOMAIN = 'tejindia.app';
+const MINUTE = 60 * 1000;
+// How far back the feed still lists items, so recent cancellations reach clients
+const FEED_LOOKBACK_DAYS = 30;
+
+type CalendarSwap = Swap & {
+  sessions: SwapSession[];
+  initiator: { userId: string; name: string };
+  receiver: { userId: string; name: string };
+};
+
+const swapInclude = {
+  sessions: true,
+  initiator: { select: { userId: true, name: true } },
+  receiver: { select: { userId: true, name: true } },
+};
+
+class CalendarService {
+  private readonly appUrl = process.env.APP_URL || 'http://localhost:3000';
+
+  /**
+   * Get the user's feed token, creating one on first use
+   */
+  async getFeedToken(userId: string): Promise<string> {
+    const user = await prisma.user.findUnique({
+      where: { userId },
+      select: { calendarToken: true },
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    return user.calendarToken ?? this.resetFeedToken(userId);
+  }
+
+  /**
+   * Replace the feed token, invalidating any previously shared feed URL
+   */
+  async resetFeedToken(userId: string): Promise<string> {
+    const calendarToken = crypto.randomBytes(24).toString('hex');
+
+    await prisma.user.update({
+      where: { userId },
+      data: { calendarToken },
+    });
+
+    return calendarToken;
+  }
+
+  /**
+   * Build the private feed of a user's upcoming swaps and events
+   */
+  async buildUserFeed(token: string): Promise<string> {
+    const user = await prisma.user.findUnique({
+      where: { calendarToken: token },
+      select: { userId: true, status: true },
+    });
+
+    if (!user || user.status !== 'ACTIVE') {
+      throw new AppError('Calendar feed not found', 404);
+    }
+
+    const since = new Date(Date.now() - FEED_LOOKBACK_DAYS * 24 * 60 * MINUTE);
+
+    const [swaps, events] = await Promise.all([
+      prisma.swap.findMany({
+        where: {
+          AND: [
+            { OR: [{ initiatorId: user.userId }, { receiverId: user.userId }] },
+            {
+              OR: [
+                { status: 'ACCEPTED' },
+                { status: 'CANCELLED', cancelledAt: { gte: since } },
+              ],
+            },
+          ],
+        },
+        include: {
+          ...swapInclude,
+          sessions: { where: { startTime: { gte: since } } },
+        },
+      }),
+      prisma.event.findMany({
+        where: {
+          endTime: { gte: since },
+          status: { in: ['PUBLISHED', 'ONGOING', 'COMPLETED', 'CANCELLED'] },
+          OR: [
+            { organizerId: user.userId },
+            { attendees: { some: { userId: user.userId, status: { not: 'WAITLISTED' } } } },
+          ],
+        },
+      }),
+    ]);
+
+    return buildCalendar('Tej India', [
+      ...swaps.flatMap((swap) => this.swapToEvents(swap, user.userId)),
+      ...events.map((event) => this.eventToICal(event)),
+    ]);
+  }
+
+  /**
+   * Build a single-swap calendar for a participant
+   */
+  async buildSwapCalendar(swapId: string, userId: string): Promise<string> {
+    const swap = await prisma.swap.findUnique({
+      where: { swapId },
+      include: swapInclude,
+    });
+
+    if (!swap) {
+      throw new AppError('Swap not found', 404);
+    }
+
+    if (swap.initiatorId !== userId && swap.receiverId !== userId) {
+      throw new AppError('You do not have access to this swap', 403);
+    }
+
+    const items = this.swapToEvents(swap, userId);
+
+    if (items.length === 0) {
+      throw new AppError('This swap has no scheduled time yet', 400);
+    }
+
+    return buildCalendar('Skill swap', items);
+  }
+
+  /**
+   * Build a single-event calendar
+   */
+  async buildEventCalendar(eventId: string): Promise<string> {
+    const event = await prisma.event.findUnique({
+      where: { eventId },
+    });
+
+    if (!event || event.status === 'DRAFT') {
+      throw new AppError('Event not found', 404);
+    }
+
+    return buildCalendar(event.title, [this.eventToICal(event)]);
+  }
+
+  /**
+   * A swap appears as its agreed time plus each logged session.
+   * Cancelled swaps keep their UIDs so clients remove them.
+   */
+  private swapToEvents(swap: CalendarSwap, userId: string): ICalEvent[] {
+    const partner = swap.initiatorId === userId ? swap.receiver : swap.initiator;
+    const status = swap.status === 'CANCELLED' ? 'CANCELLED' : 'CONFIRMED';
+    const summary = `Skill swap with ${partner.name}`;
+    const url = `${this.appUrl}/swaps/${swap.swapId}`;
+    const items: ICalEvent[] = [];
+
+    if (swap.scheduledAt) {
+      items.push({
+        uid: `swap-${swap.swapId}@${UID_DOMAIN}`,
+        sequence: swap.calendarSequence,
+        start: swap.scheduledAt,
+        end: new Date(
+          swap.scheduledAt.getTime() + (swap.duration ?? DEFAULT_SESSION_MINUTES) * MINUTE
+        ),
+        summary,
+        description: swap.message ?? undefined,
+        url,
+        status,
+        lastModified: swap.updatedAt,
+      });
+    }
+
+    for (const session of swap.sessions) {
+      items.push({
+        uid: `swap-session-${session.sessionId}@${UID_DOMAIN}`,
+        sequence: swap.calendarSequence,
+        start: session.startTime,
+        end:
+          session.endTime ??
+          new Date(
+            session.startTime.getTime() + (session.duration ?? DEFAULT_SESSION_MINUTES) * MINUTE
+          ),
+        summary: `${summary} (session)`,
+        description: session.notes ?? undefined,
+        url,
+        status,
+        lastModified: session.updatedAt,
+      });
+    }
+
+    return items;
+  }
+
+  private eventToICal(event: Event): ICalEvent {
+    const location = event.isOnline
+      ? event.meetingLink || 'Online'
+      : [event.venue, event.location, event.city, event.state].filter(Boolean).join(', ');
+
+    return {
+      uid: `event-${event.eventId}@${UID_DOMAIN}`,
+      sequence: event.calendarSequence,
+      start: event.startTime,
+      end: event.endTime,
+      summary: event.title,
+      description: event.description,
+      location: location || undefined,
+      url: `${this.appUrl}/events/${event.eventId}`,
+      status: event.status === 'CANCELLED' ? 'CANCELLED' : 'CONFIRMED',
+      lastModified: event.updatedAt,
+    };
+  }
+}
+
+export const calendarService = new CalendarService();
@@ -3,23 +3,90 @@
  * Handles real-time messaging with Socket.IO and database operations
  */
 
-import { PrismaClient, MessageType } from '@prisma/client';
+import { PrismaClient, Prisma, MessageType } from '@prisma/client';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { logger } from '../utils/logger';
+import { presenceService, UserPresence } from './presence.service';
+import { uploadService } from './upload.service';
+import { blockService } from './block.service';
+import { connectionService } from './connection.service';
+import { conversationService, isMuted } from './conversation.service';
+import { adminService } from './admin.service';
+import { AppError } from '../middleware/errorHandler';
+import { isImageType } from '../utils/mime-sniff';
+import { ChatExport, ChatExportMessage } from '../utils/chat-export';
 
 const prisma = new PrismaClient();
 
-interface UserSocket {
-  userId: string;
-  socketId: string;
-  lastSeen: Date;
+// Senders can fix a message for this long after sending it
+const EDIT_WINDOW_MINUTES = 15;
+// Soft-deleted messages are purged after this many days unless an admin overrides it
+const DEFAULT_RETENTION_DAYS = 30;
+const MAX_EMOJI_LENGTH = 32;
+// Messages read per query while streaming a conversation export
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * An emoji, including skin tones, flags and joined sequences. Emoji
+ * components alone (digits, #) do not count.
+ */
+const isEmoji = (value: string): boolean =>
+  value.length <= MAX_EMOJI_LENGTH &&
+  /^(?:\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u.test(value) &&
+  /[\p{Extended_Pictographic}\p{Regional_Indicator}]/u.test(value);
+
+const messageInclude = {
+  sender: {
+    select: {
+      userId: true,
+      name: true,
+      avatar: true,
+    },
+  },
+  replyTo: {
+    select: {
+      messageId: true,
+      content: true,
+      senderId: true,
+    },
+  },
+  reactions: {
+    select: {
+      emoji: true,
+      userId: true,
+    },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
 }
 
-// In-memory store for online users (in production, use Redis)
-const onlineUsers = new Map<string, UserSocket>();
+/**
+ * Group a message's reactions by emoji, in the order they were first used
+ */
+export function summarizeReactions(reactions: { emoji: string; userId: string }[]): ReactionSummary[] {
+  const byEmoji = new Map<string, string[]>();
+
+  for (const reaction of reactions) {
+    const userIds = byEmoji.get(reaction.emoji) ?? [];
+    userIds.push(reaction.userId);
+    byEmoji.set(reaction.emoji, userIds);
+  }
+
+  return Array.from(byEmoji.entries()).map(([emoji, userIds]) => ({
+    emoji,
+    count: userIds.length,
+    userIds,
+  }));
+}
 
-// In-memory store for typing indicators
-const typingUsers = new Map<string, { userId: string; conversationId: string }>();
+function withReactionSummary<T extends { reactions: { emoji: string; userId: string }[] }>(message: T) {
+  return { ...message, reactions: summarizeReactions(message.reactions) };
+}
 
 /**
  * Generate conversation ID from two user IDs (always in same order)
@@ -37,54 +104,95 @@ export function getConversationId(senderId: string, receiverId: string): string
 }
 
 /**
- * Send a message
+ * Send a message to a user, or to a group or event conversation
  */
 export async function sendMessage(data: {
   senderId: string;
-  receiverId: string;
+  receiverId?: string;
+  conversationId?: string; // Group or event conversation
   content: string;
   messageType?: MessageType;
-  imageUrl?: string;
-  fileUrl?: string;
-  fileName?: string;
-  fileSize?: number;
+  imageUrl?: string; // Upload reference
+  fileUrl?: string; // Upload reference; name and size come from the upload
   replyToId?: string;
 }) {
-  const conversationId = getConversationId(data.senderId, data.receiverId);
+  let conversationId: string;
+  let receiverId: string | null = null;
+
+  if (data.receiverId) {
+    await blockService.assertNotBlocked(data.senderId, data.receiverId, 'You cannot message this user');
+    await connectionService.assertCanMessage(data.senderId, data.receiverId);
+
+    receiverId = data.receiverId;
+    conversationId = getConversationId(data.senderId, data.receiverId);
+    await conversationService.ensureDirectConversation(conversationId, [data.senderId, data.receiverId]);
+  } else if (data.conversationId) {
+    const conversation = await prisma.conversation.findUnique({
+      where: { conversationId: data.conversationId },
+      select: { type: true },
+    });
+    if (conversation?.type === 'DIRECT') {
+      throw new AppError('Use receiverId to send direct messages', 400);
+    }
+
+    await conversationService.assertParticipant(data.conversationId, data.senderId);
+    conversationId = data.conversationId;
+  } else {
+    throw new AppError('receiverId or conversationId is required', 400);
+  }
+
+  // Attachments must be the sender's own chat uploads
+  let imageUrl: string | undefined;
+  if (data.imageUrl) {
+    const image = await uploadService.resolveReference(data.imageUrl, data.senderId, 'CHAT_ATTACHMENT');
+    if (!isImageType(image.mimeType)) {
+      throw new AppError('imageUrl must reference an image', 400);
+    }
+    imageUrl = uploadService.getPublicUrl(image.uploadId);
+  }
+
+  let file: { fileUrl: string; fileName: string; fileSize: number } | undefined;
+  if (data.fileUrl) {
+    const upload = await uploadService.resolveReference(data.fileUrl, data.senderId, 'CHAT_ATTACHMENT');
+    file = {
+      fileUrl: uploadService.getPublicUrl(upload.uploadId),
+      fileName: upload.originalName,
+      fileSize: upload.size,
+    };
+  }
 
   const message = await prisma.message.create({
     data: {
       conversationId,
       senderId: data.senderId,
-      receiverId: data.receiverId,
+      receiverId,
       content: data.content,
       messageType: data.messageType || 'TEXT',
-      imageUrl: data.imageUrl,
-      fileUrl: data.fileUrl,
-      fileName: data.fileName,
-      fileSize: data.fileSize,
+      imageUrl,
+      fileUrl: file?.fileUrl,
+      fileName: file?.fileName,
+      fileSize: file?.fileSize,
       replyToId: data.replyToId,
     },
-    include: {
-      sender: {
-        select: {
-          userId: true,
-          name: true,
-          avatar: true,
-        },
-      },
-      replyTo: {
-        select: {
-          messageId: true,
-          content: true,
-          senderId: true,
-        },
-      },
-    },
+    include: messageInclude,
   });
 
-  logger.info(`Message sent from ${data.senderId} to ${data.receiverId}`);
-  return message;
+  await prisma.conversation.update({
+    where: { conversationId },
+    data: { lastMessageAt: message.createdAt },
+  });
+  await conversationService.unarchiveForRecipients(conversationId, data.senderId);
+
+  // 1:1 chats track unread state on the message itself
+  if (!receiverId) {
+    await prisma.conversationParticipant.updateMany({
+      where: { conversationId, userId: { not: data.senderId } },
+      data: { unreadCount: { increment: 1 } },
+    });
+  }
+
+  logger.info(`Message sent from ${data.senderId} to ${receiverId ?? conversationId}`);
+  return withReactionSummary(message);
 }
 
 /**
@@ -103,22 +211,7 @@ export async function getConversationMessages(
       conversationId,
       isDeleted: false,
     },
-    include: {
-      sender: {
-        select: {
-          userId: true,
-          name: true,
-          avatar: true,
-        },
-      },
-      replyTo: {
-        select: {
-          messageId: true,
-          content: true,
-          senderId: true,
-        },
-      },
-    },
+    include: messageInclude,
     orderBy: {
       createdAt: 'desc',
     },
@@ -126,42 +219,95 @@ export async function getConversationMessages(
     skip: offset,
   });
 
-  return messages.reverse(); // Return in chronological order
+  return messages.reverse().map(withReactionSummary); // Return in chronological order
 }
 
 /**
- * Get user's conversations
+ * Get messages of a group or event conversation
  */
-export async function getUserConversations(userId: string) {
-  // Get all messages where user is sender or receiver
+export async function getGroupMessages(
+  conversationId: string,
+  userId: string,
+  limit: number = 50,
+  offset: number = 0
+) {
+  await conversationService.assertParticipant(conversationId, userId);
+
   const messages = await prisma.message.findMany({
     where: {
-      OR: [{ senderId: userId }, { receiverId: userId }],
+      conversationId,
       isDeleted: false,
     },
-    distinct: ['conversationId'],
+    include: messageInclude,
     orderBy: {
       createdAt: 'desc',
     },
+    take: limit,
+    skip: offset,
+  });
+
+  return messages.reverse().map(withReactionSummary);
+}
+
+/**
+ * Get user's conversations: 1:1 chats, groups and event chats. Archived
+ * conversations are listed separately.
+ */
+export async function getUserConversations(userId: string, archived: boolean = false) {
+  const memberships = await prisma.conversationParticipant.findMany({
+    where: { userId, isArchived: archived },
     include: {
-      sender: {
-        select: {
-          userId: true,
-          name: true,
-          avatar: true,
+      conversation: {
+        include: {
+          participants: {
+            select: { userId: true },
+          },
         },
       },
     },
   });
 
-  // Get the latest message for each conversation
-  const conversationIds = [...new Set(messages.map((m) => m.conversationId))];
-
   const conversations = await Promise.all(
-    conversationIds.map(async (conversationId) => {
+    memberships.map(async (membership) => {
+      const { conversation, role, unreadCount: groupUnreadCount } = membership;
+      const { conversationId } = conversation;
+      const preferences = {
+        isArchived: membership.isArchived,
+        isPinned: membership.pinnedAt !== null,
+        pinnedAt: membership.pinnedAt,
+        isMuted: isMuted(membership),
+        mutedUntil: membership.mutedUntil,
+      };
+
+      // Get latest message
+      const latestMessage = await prisma.message.findFirst({
+        where: {
+          conversationId,
+          isDeleted: false,
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+      });
+
+      if (conversation.type !== 'DIRECT') {
+        return {
+          conversationId,
+          type: conversation.type,
+          name: conversation.name,
+          eventId: conversation.eventId,
+          role,
+          participantCount: conversation.participants.length,
+          latestMessage,
+          unreadCount: groupUnreadCount,
+          isOnline: false,
+          ...preferences,
+        };
+      }
+
       // Get the other user in the conversation
-      const [userId1, userId2] = conversationId.split('_');
-      const otherUserId = userId1 === userId ? userId2 : userId1;
+      const otherUserId =
+        conversation.participants.find((p) => p.userId !== userId)?.userId ?? userId;
 
       // Get other user details
       const otherUser = await prisma.user.findUnique({
@@ -174,17 +320,6 @@ export async function getUserConversations(userId: string) {
         },
       });
 
-      // Get latest message
-      const latestMessage = await prisma.message.findFirst({
-        where: {
-          conversationId,
-          isDeleted: false,
-        },
-        orderBy: {
-          createdAt: 'desc',
-        },
-      });
-
       // Get unread count
       const unreadCount = await prisma.message.count({
         where: {
@@ -197,16 +332,22 @@ export async function getUserConversations(userId: string) {
 
       return {
         conversationId,
+        type: conversation.type,
         otherUser,
         latestMessage,
         unreadCount,
-        isOnline: onlineUsers.has(otherUserId),
+        isOnline: await presenceService.isOnline(otherUserId),
+        ...preferences,
       };
     })
   );
 
-  // Sort by latest message time
+  // Pinned first (most recently pinned on top), then by latest message time;
+  // new groups without messages go last
   return conversations.sort((a, b) => {
+    if (a.pinnedAt || b.pinnedAt) {
+      return (b.pinnedAt?.getTime() ?? 0) - (a.pinnedAt?.getTime() ?? 0);
+    }
     if (!a.latestMessage) return 1;
     if (!b.latestMessage) return -1;
     return (
@@ -217,37 +358,244 @@ export async function getUserConversations(userId: string) {
 }
 
 /**
- * Mark messages as read
+ * Mark messages as read. Returns the ids so the sender can update each one.
  */
 export async function markMessagesAsRead(userId: string, otherUserId: string) {
   const conversationId = getConversationId(userId, otherUserId);
+  const readAt = new Date();
 
-  const result = await prisma.message.updateMany({
+  const unread = await prisma.message.findMany({
     where: {
       conversationId,
       receiverId: userId,
       isRead: false,
     },
+    select: { messageId: true },
+  });
+  const messageIds = unread.map((m) => m.messageId);
+
+  if (messageIds.length > 0) {
+    await prisma.message.updateMany({
+      where: { messageId: { in: messageIds } },
+      data: {
+        isRead: true,
+        readAt,
+      },
+    });
+  }
+
+  return { count: messageIds.length, messageIds, readAt };
+}
+
+/**
+ * Mark a group or event conversation as read for the user
+ */
+export async function markGroupAsRead(conversationId: string, userId: string) {
+  const participant = await conversationService.assertParticipant(conversationId, userId);
+  const readAt = new Date();
+
+  await prisma.conversationParticipant.update({
+    where: { participantId: participant.participantId },
+    data: { unreadCount: 0, lastReadAt: readAt },
+  });
+
+  return { count: participant.unreadCount, readAt };
+}
+
+/**
+ * Mark message as delivered (only the receiver can acknowledge delivery).
+ * Returns a receipt for the sender, or null if nothing changed.
+ */
+export async function markMessageAsDelivered(messageId: string, userId: string) {
+  const deliveredAt = new Date();
+
+  const { count } = await prisma.message.updateMany({
+    where: { messageId, receiverId: userId, isDelivered: false },
     data: {
-      isRead: true,
-      readAt: new Date(),
+      isDelivered: true,
+      deliveredAt,
     },
   });
 
-  return result.count;
+  if (count === 0) return null;
+
+  const message = await prisma.message.findUnique({
+    where: { messageId },
+    select: { senderId: true, conversationId: true },
+  });
+
+  return message ? { messageId, ...message, deliveredAt } : null;
 }
 
 /**
- * Mark message as delivered
+ * Mark a single message as read (only the receiver can). Returns a receipt
+ * for the sender, or null if it was already read.
  */
-export async function markMessageAsDelivered(messageId: string) {
-  await prisma.message.update({
-    where: { messageId },
+export async function markMessageAsRead(messageId: string, userId: string) {
+  const readAt = new Date();
+
+  const { count } = await prisma.message.updateMany({
+    where: { messageId, receiverId: userId, isRead: false },
     data: {
       isDelivered: true,
-      deliveredAt: new Date(),
+      isRead: true,
+      readAt,
     },
   });
+
+  if (count === 0) return null;
+
+  const message = await prisma.message.findUnique({
+    where: { messageId },
+    select: { senderId: true, conversationId: true },
+  });
+
+  return message ? { messageId, ...message, readAt } : null;
+}
+
+/**
+ * Get a message the user sent or received
+ */
+async function getParticipantMessage(messageId: string, userId: string) {
+  const message = await prisma.message.findUnique({
+    where: { messageId },
+  });
+
+  if (!message || message.isDeleted) {
+    throw new AppError('Message not found', 404);
+  }
+
+  const isParticipant = message.receiverId
+    ? message.senderId === userId || message.receiverId === userId
+    : !!(await conversationService.getParticipant(message.conversationId, userId));
+
+  if (!isParticipant) {
+    throw new AppError('Message not found', 404);
+  }
+
+  return message;
+}
+
+/**
+ * Everyone who should see real-time updates to a message
+ */
+export async function getMessageParticipantIds(message: {
+  conversationId: string;
+  senderId: string;
+  receiverId: string | null;
+}): Promise<string[]> {
+  if (message.receiverId) {
+    return [message.senderId, message.receiverId];
+  }
+
+  return conversationService.getParticipantIds(message.conversationId);
+}
+
+/**
+ * Edit a message's content, keeping the previous version
+ */
+export async function editMessage(messageId: string, userId: string, content: string) {
+  const newContent = typeof content === 'string' ? content.trim() : '';
+  if (!newContent) {
+    throw new AppError('Message content is required', 400);
+  }
+
+  const message = await getParticipantMessage(messageId, userId);
+
+  if (message.senderId !== userId) {
+    throw new AppError('Only the sender can edit a message', 403);
+  }
+
+  if (Date.now() - message.createdAt.getTime() > EDIT_WINDOW_MINUTES * 60 * 1000) {
+    throw new AppError(`Messages can only be edited within ${EDIT_WINDOW_MINUTES} minutes of sending`, 400);
+  }
+
+  if (newContent === message.content) {
+    const unchanged = await prisma.message.findUnique({
+      where: { messageId },
+      include: messageInclude,
+    });
+    return withReactionSummary(unchanged!);
+  }
+
+  const [, updated] = await prisma.$transaction([
+    prisma.messageEdit.create({
+      data: { messageId, previousContent: message.content },
+    }),
+    prisma.message.update({
+      where: { messageId },
+      data: { content: newContent, editedAt: new Date() },
+      include: messageInclude,
+    }),
+  ]);
+
+  logger.info(`Message ${messageId} edited by ${userId}`);
+  return withReactionSummary(updated);
+}
+
+/**
+ * Get the previous versions of a message, oldest first
+ */
+export async function getMessageEdits(messageId: string, userId: string) {
+  await getParticipantMessage(messageId, userId);
+
+  return prisma.messageEdit.findMany({
+    where: { messageId },
+    orderBy: { editedAt: 'asc' },
+  });
+}
+
+/**
+ * Add an emoji reaction. Reacting twice with the same emoji is a no-op.
+ */
+export async function addReaction(messageId: string, userId: string, emoji: string) {
+  const value = typeof emoji === 'string' ? emoji.trim() : '';
+  if (!isEmoji(value)) {
+    throw new AppError('Reaction must be an emoji', 400);
+  }
+
+  const message = await getParticipantMessage(messageId, userId);
+
+  await prisma.messageReaction.upsert({
+    where: { messageId_userId_emoji: { messageId, userId, emoji: value } },
+    create: { messageId, userId, emoji: value },
+    update: {},
+  });
+
+  return getReactionUpdate(message);
+}
+
+/**
+ * Remove your emoji reaction
+ */
+export async function removeReaction(messageId: string, userId: string, emoji: string) {
+  const message = await getParticipantMessage(messageId, userId);
+
+  await prisma.messageReaction.deleteMany({
+    where: { messageId, userId, emoji },
+  });
+
+  return getReactionUpdate(message);
+}
+
+async function getReactionUpdate(message: {
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  receiverId: string | null;
+}) {
+  const reactions = await prisma.messageReaction.findMany({
+    where: { messageId: message.messageId },
+    select: { emoji: true, userId: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return {
+    messageId: message.messageId,
+    conversationId: message.conversationId,
+    participantIds: await getMessageParticipantIds(message),
+    reactions: summarizeReactions(reactions),
+  };
 }
 
 /**
@@ -275,55 +623,341 @@ export async function deleteMessage(messageId: string, userId: string) {
   });
 }
 
+export interface MessageSearchFilters {
+  otherUserId?: string;
+  conversationId?: string;
+  from?: Date;
+  to?: Date;
+  messageType?: MessageType;
+  limit?: number;
+  offset?: number;
+}
+
+interface MessageSearchRow {
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  receiverId: string | null;
+  messageType: MessageType;
+  fileName: string | null;
+  createdAt: Date;
+  rank: number;
+  total: bigint;
+  snippet: string;
+  previousMessageId: string | null;
+  previousSenderId: string | null;
+  previousContent: string | null;
+  previousCreatedAt: Date | null;
+  nextMessageId: string | null;
+  nextSenderId: string | null;
+  nextContent: string | null;
+  nextCreatedAt: Date | null;
+}
+
+const SEARCHABLE_MESSAGE_TYPES: MessageType[] = ['TEXT', 'IMAGE', 'FILE'];
+const MAX_SEARCH_QUERY_LENGTH = 200;
+const MAX_SEARCH_RESULTS = 50;
+
+// Matched terms are wrapped in <mark>; clients must treat the rest as text
+const SEARCH_HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" ... "';
+
 /**
- * Search messages in a conversation
+ * Full-text search over every conversation the user is part of. Results are
+ * ranked, carry a highlighted snippet and the messages either side of the
+ * match, and say which conversation they came from.
  */
 export async function searchMessages(
   userId: string,
-  otherUserId: string,
   query: string,
-  limit: number = 20
+  filters: MessageSearchFilters = {}
 ) {
-  const conversationId = getConversationId(userId, otherUserId);
+  const text = query.trim();
 
-  const messages = await prisma.message.findMany({
-    where: {
-      conversationId,
-      isDeleted: false,
-      content: {
-        contains: query,
-        mode: 'insensitive',
+  if (!text) {
+    throw new AppError('Search query is required', 400);
+  }
+  if (text.length > MAX_SEARCH_QUERY_LENGTH) {
+    throw new AppError(`Search query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`, 400);
+  }
+  if (filters.messageType && !SEARCHABLE_MESSAGE_TYPES.includes(filters.messageType)) {
+    throw new AppError(`messageType must be one of ${SEARCHABLE_MESSAGE_TYPES.join(', ')}`, 400);
+  }
+  if (filters.from && filters.to && filters.from > filters.to) {
+    throw new AppError('from must be before to', 400);
+  }
+
+  const limit = Math.min(Math.max(filters.limit ?? 20, 1), MAX_SEARCH_RESULTS);
+  const offset = Math.max(filters.offset ?? 0, 0);
+
+  const conditions: Prisma.Sql[] = [];
+  if (filters.otherUserId) {
+    conditions.push(Prisma.sql`AND m."conversationId" = ${getConversationId(userId, filters.otherUserId)}`);
+  }
+  if (filters.conversationId) {
+    conditions.push(Prisma.sql`AND m."conversationId" = ${filters.conversationId}`);
+  }
+  if (filters.from) {
+    conditions.push(Prisma.sql`AND m."createdAt" >= ${filters.from}`);
+  }
+  if (filters.to) {
+    conditions.push(Prisma.sql`AND m."createdAt" <= ${filters.to}`);
+  }
+  if (filters.messageType) {
+    conditions.push(Prisma.sql`AND m."messageType"::text = ${filters.messageType}`);
+  }
+
+  // Rank and page on the index alone, then build headlines and context for the page
+  const rows = await prisma.$queryRaw<MessageSearchRow[]>`
+    WITH matches AS (
+      SELECT m.id, ts_rank_cd(m.search_vector, q.query) AS rank, COUNT(*) OVER () AS total
+      FROM messages m, websearch_to_tsquery('simple', ${text}) AS q(query)
+      WHERE m.search_vector @@ q.query
+        AND m."isDeleted" = false
+        AND (
+          (m."receiverId" IS NOT NULL AND (m."senderId" = ${userId} OR m."receiverId" = ${userId}))
+          OR (m."receiverId" IS NULL AND m."conversationId" IN (
+            SELECT cp."conversationId" FROM conversation_participants cp WHERE cp."userId" = ${userId}
+          ))
+        )
+        ${conditions.length ? Prisma.join(conditions, ' ') : Prisma.empty}
+      ORDER BY rank DESC, m."createdAt" DESC
+      LIMIT ${limit} OFFSET ${offset}
+    )
+    SELECT
+      m.id AS "messageId",
+      m."conversationId",
+      m."senderId",
+      m."receiverId",
+      m."messageType"::text AS "messageType",
+      m."fileName",
+      m."createdAt",
+      matches.rank,
+      matches.total,
+      ts_headline('simple', m.content, q.query, ${SEARCH_HEADLINE_OPTIONS}) AS snippet,
+      prev.id AS "previousMessageId",
+      prev."senderId" AS "previousSenderId",
+      prev.content AS "previousContent",
+      prev."createdAt" AS "previousCreatedAt",
+      following.id AS "nextMessageId",
+      following."senderId" AS "nextSenderId",
+      following.content AS "nextContent",
+      following."createdAt" AS "nextCreatedAt"
+    FROM matches
+    JOIN messages m ON m.id = matches.id
+    CROSS JOIN websearch_to_tsquery('simple', ${text}) AS q(query)
+    LEFT JOIN LATERAL (
+      SELECT p.id, p."senderId", p.content, p."createdAt" FROM messages p
+      WHERE p."conversationId" = m."conversationId" AND p."isDeleted" = false AND p."createdAt" < m."createdAt"
+      ORDER BY p."createdAt" DESC
+      LIMIT 1
+    ) prev ON true
+    LEFT JOIN LATERAL (
+      SELECT n.id, n."senderId", n.content, n."createdAt" FROM messages n
+      WHERE n."conversationId" = m."conversationId" AND n."isDeleted" = false AND n."createdAt" > m."createdAt"
+      ORDER BY n."createdAt" ASC
+      LIMIT 1
+    ) following ON true
+    ORDER BY matches.rank DESC, m."createdAt" DESC
+  `;
+
+  if (rows.length === 0) {
+    return { results: [], total: 0 };
+  }
+
+  const partnerId = (row: MessageSearchRow) =>
+    row.receiverId === null ? null : row.senderId === userId ? row.receiverId : row.senderId;
+
+  const userIds = new Set<string>();
+  const groupIds = new Set<string>();
+  for (const row of rows) {
+    userIds.add(row.senderId);
+    const otherId = partnerId(row);
+    if (otherId) userIds.add(otherId);
+    else groupIds.add(row.conversationId);
+  }
+
+  const [users, groups] = await Promise.all([
+    prisma.user.findMany({
+      where: { userId: { in: [...userIds] } },
+      select: { userId: true, name: true, avatar: true },
+    }),
+    prisma.conversation.findMany({
+      where: { conversationId: { in: [...groupIds] } },
+      select: { conversationId: true, type: true, name: true },
+    }),
+  ]);
+  const usersById = new Map(users.map((u) => [u.userId, u]));
+  const groupsById = new Map(groups.map((g) => [g.conversationId, g]));
+
+  const results = rows.map((row) => {
+    const otherId = partnerId(row);
+    const group = groupsById.get(row.conversationId);
+
+    return {
+      messageId: row.messageId,
+      conversationId: row.conversationId,
+      messageType: row.messageType,
+      fileName: row.fileName,
+      createdAt: row.createdAt,
+      rank: Number(row.rank),
+      snippet: row.snippet,
+      sender: usersById.get(row.senderId) ?? null,
+      conversation: otherId
+        ? { conversationId: row.conversationId, type: 'DIRECT', otherUser: usersById.get(otherId) ?? null }
+        : { conversationId: row.conversationId, type: group?.type ?? 'GROUP', name: group?.name ?? null },
+      context: {
+        previous: row.previousMessageId
+          ? {
+              messageId: row.previousMessageId,
+              senderId: row.previousSenderId,
+              content: row.previousContent,
+              createdAt: row.previousCreatedAt,
+            }
+          : null,
+        next: row.nextMessageId
+          ? {
+              messageId: row.nextMessageId,
+              senderId: row.nextSenderId,
+              content: row.nextContent,
+              createdAt: row.nextCreatedAt,
+            }
+          : null,
       },
-    },
-    include: {
-      sender: {
-        select: {
-          userId: true,
-          name: true,
-          avatar: true,
+    };
+  });
+
+  return { results, total: Number(rows[0].total) };
+}
+
+const exportUserSelect = { userId: true, name: true };
+
+/**
+ * Describe a conversation for export. Its messages, oldest first and up to
+ * the moment of export, are read in batches as the export is written.
+ */
+export async function exportConversation(conversationId: string, userId: string): Promise<ChatExport> {
+  await conversationService.assertParticipant(conversationId, userId);
+
+  const exportedAt = new Date();
+  const where: Prisma.MessageWhereInput = {
+    conversationId,
+    isDeleted: false,
+    createdAt: { lte: exportedAt },
+  };
+
+  const [conversation, messageCount] = await Promise.all([
+    prisma.conversation.findUniqueOrThrow({
+      where: { conversationId },
+      include: {
+        participants: {
+          include: { user: { select: exportUserSelect } },
+          orderBy: { joinedAt: 'asc' },
         },
       },
-    },
-    orderBy: {
-      createdAt: 'desc',
-    },
-    take: limit,
+    }),
+    prisma.message.count({ where }),
+  ]);
+
+  const participants = conversation.participants.map((p) => p.user);
+
+  return {
+    conversationId,
+    type: conversation.type,
+    title:
+      conversation.type === 'DIRECT'
+        ? `Chat between ${participants.map((p) => p.name).join(' and ')}`
+        : conversation.name ?? 'Group chat',
+    exportedAt,
+    exportedBy: participants.find((p) => p.userId === userId)!,
+    participants,
+    messageCount,
+    messages: readExportMessages(where),
+  };
+}
+
+async function* readExportMessages(
+  where: Prisma.MessageWhereInput
+): AsyncGenerator<ChatExportMessage[]> {
+  let cursor: string | undefined;
+
+  for (;;) {
+    const messages = await prisma.message.findMany({
+      where,
+      include: { sender: { select: exportUserSelect } },
+      orderBy: [{ createdAt: 'asc' }, { messageId: 'asc' }],
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor && { cursor: { messageId: cursor }, skip: 1 }),
+    });
+
+    yield messages.map((message) => {
+      const url = message.fileUrl ?? message.imageUrl;
+
+      return {
+        messageId: message.messageId,
+        sentAt: message.createdAt,
+        sender: message.sender,
+        messageType: message.messageType,
+        content: message.content,
+        attachment: url ? { fileName: message.fileName, url } : null,
+        replyToId: message.replyToId,
+        editedAt: message.editedAt,
+      };
+    });
+
+    if (messages.length < EXPORT_BATCH_SIZE) break;
+    cursor = messages[messages.length - 1].messageId;
+  }
+}
+
+/**
+ * Permanently remove messages deleted longer ago than the retention period
+ * (chat_message_retention_days in AdminSettings; 0 keeps them forever)
+ */
+export async function purgeDeletedMessages(): Promise<number> {
+  const days = Number(
+    await adminService.getSettingValue('chat_message_retention_days', DEFAULT_RETENTION_DAYS)
+  );
+
+  if (!Number.isFinite(days) || days <= 0) {
+    return 0;
+  }
+
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.message.deleteMany({
+    where: { isDeleted: true, deletedAt: { lt: cutoff } },
   });
 
-  return messages;
+  return count;
 }
 
 /**
- * Get unread message count for a user
+ * Get unread message count for a user, leaving out archived and muted
+ * conversations
  */
 export async function getUnreadMessageCount(userId: string): Promise<number> {
-  return await prisma.message.count({
-    where: {
-      receiverId: userId,
-      isRead: false,
-      isDeleted: false,
-    },
-  });
+  const quietIds = await conversationService.getQuietConversationIds(userId);
+
+  const [direct, groups] = await Promise.all([
+    prisma.message.count({
+      where: {
+        receiverId: userId,
+        isRead: false,
+        isDeleted: false,
+        conversationId: { notIn: quietIds },
+      },
+    }),
+    prisma.conversationParticipant.aggregate({
+      where: {
+        userId,
+        conversationId: { notIn: quietIds },
+        conversation: { type: { not: 'DIRECT' } },
+      },
+      _sum: { unreadCount: true },
+    }),
+  ]);
+
+  return direct + (groups._sum.unreadCount ?? 0);
 }
 
 // ==================== Socket.IO Event Handlers ====================
@@ -331,18 +965,16 @@ export async function getUnreadMessageCount(userId: string): Promise<number> {
 /**
  * Handle user connection
  */
-export function handleUserConnect(socket: Socket, userId: string) {
-  onlineUsers.set(userId, {
-    userId,
-    socketId: socket.id,
-    lastSeen: new Date(),
-  });
-
+export async function handleUserConnect(socket: Socket, userId: string) {
   // Join user's personal room
   socket.join(`user:${userId}`);
 
-  // Notify all conversations that user is online
-  socket.broadcast.emit('user:online', { userId });
+  const cameOnline = await presenceService.addSocket(userId, socket.id);
+
+  // Other tabs and devices of an online user do not change their status
+  if (cameOnline) {
+    socket.broadcast.emit('user:online', { userId });
+  }
 
   logger.info(`User ${userId} connected with socket ${socket.id}`);
 }
@@ -350,18 +982,28 @@ export function handleUserConnect(socket: Socket, userId: string) {
 /**
  * Handle user disconnection
  */
-export function handleUserDisconnect(socket: Socket, userId?: string) {
-  if (userId) {
-    onlineUsers.delete(userId);
+export async function handleUserDisconnect(socket: Socket, userId?: string) {
+  if (!userId) return;
+
+  // A socket that drops mid-message should not leave the indicator on
+  const typingTo: string | undefined = socket.data.typingTo;
+  if (typingTo) {
+    await handleTyping(socket, userId, typingTo, false);
+  }
+
+  const wentOffline = await presenceService.removeSocket(userId, socket.id);
+
+  if (wentOffline) {
     socket.broadcast.emit('user:offline', { userId, lastSeen: new Date() });
-    logger.info(`User ${userId} disconnected`);
   }
+
+  logger.info(`User ${userId} disconnected socket ${socket.id}`);
 }
 
 /**
  * Handle typing indicator
  */
-export function handleTyping(
+export async function handleTyping(
   socket: Socket,
   userId: string,
   receiverId: string,
@@ -369,11 +1011,8 @@ export function handleTyping(
 ) {
   const conversationId = getConversationId(userId, receiverId);
 
-  if (isTyping) {
-    typingUsers.set(socket.id, { userId, conversationId });
-  } else {
-    typingUsers.delete(socket.id);
-  }
+  socket.data.typingTo = isTyping ? receiverId : undefined;
+  await presenceService.setTyping(conversationId, userId, isTyping);
 
   // Notify the receiver
   socket.to(`user:${receiverId}`).emit('user:typing', {
@@ -384,21 +1023,65 @@ export function handleTyping(
 }
 
 /**
- * Check if user is online
+ * Check whether a user may join a generic socket room. Only the user's own
+ * personal room and direct conversation rooms they are part of are allowed;
+ * any other room is denied.
  */
-export function isUserOnline(userId: string): boolean {
-  return onlineUsers.has(userId);
+export function canJoinRoom(userId: string, roomId: string): boolean {
+  if (typeof roomId !== 'string' || roomId.length === 0) {
+    return false;
+  }
+
+  if (roomId.startsWith('user:')) {
+    return roomId === `user:${userId}`;
+  }
+
+  const participants = roomId.split('_');
+  if (participants.length !== 2 || !participants.includes(userId)) {
+    return false;
+  }
+
+  // Must be exactly the id of the user's conversation with the other party
+  const otherUserId = participants[0] === userId ? participants[1] : participants[0];
+  return otherUserId.length > 0 && roomId === generateConversationId(userId, otherUserId);
+}
+
+/**
+ * Check if user is online on any instance
+ */
+export async function isUserOnline(userId: string): Promise<boolean> {
+  return presenceService.isOnline(userId);
 }
 
 /**
  * Get online users list
  */
-export function getOnlineUsers(): UserSocket[] {
-  return Array.from(onlineUsers.values());
+export async function getOnlineUsers(): Promise<UserPresence[]> {
+  return presenceService.getOnlineUsers();
+}
+
+/**
+ * Get presence details of another user in a conversation
+ */
+export async function getConversationPresence(userId: string, otherUserId: string) {
+  const conversationId = getConversationId(userId, otherUserId);
+
+  const [isOnline, lastSeen, typingUserIds] = await Promise.all([
+    presenceService.isOnline(otherUserId),
+    presenceService.getLastSeen(otherUserId),
+    presenceService.getTypingUsers(conversationId),
+  ]);
+
+  return {
+    isOnline,
+    lastSeen,
+    isTyping: typingUserIds.includes(otherUserId),
+  };
 }
 
 /**
- * Emit message to specific user
+ * Emit message to specific user. With the Redis adapter this reaches the
+ * user's sockets on every instance.
  */
 export function emitToUser(
   io: SocketIOServer,
@@ -412,17 +1095,29 @@ export function emitToUser(
 export const chatService = {
   sendMessage,
   getConversationMessages,
+  getGroupMessages,
   getUserConversations,
   markMessagesAsRead,
+  markGroupAsRead,
+  getMessageParticipantIds,
   markMessageAsDelivered,
+  markMessageAsRead,
+  editMessage,
+  getMessageEdits,
+  addReaction,
+  removeReaction,
   deleteMessage,
   searchMessages,
+  exportConversation,
+  purgeDeletedMessages,
   getUnreadMessageCount,
   handleUserConnect,
   handleUserDisconnect,
   handleTyping,
+  canJoinRoom,
   isUserOnline,
   getOnlineUsers,
+  getConversationPresence,
   emitToUser,
   getConversationId,
   generateConversationId,
@@ -1,11 +1,35 @@
 /**
  * Connection Service
- * Manages user connections (following/followers)
+ * Manages user connections: one-way follows and two-way connections made by
+ * request and approval
  */
 
 import prisma from '../config/database';
 import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
 import { notificationService } from './notification.service';
+import { blockService } from './block.service';
+import { subscriptionService } from './subscription.service';
+import { privacyService, privacySelect } from './privacy.service';
+
+const MAX_REQUEST_MESSAGE_LENGTH = 300;
+
+// A declined request can be sent again after this many days
+const REQUEST_COOLDOWN_DAYS = 7;
+
+const requestUserSelect = {
+  userId: true,
+  name: true,
+  avatar: true,
+  bio: true,
+  city: true,
+  state: true,
+  rating: true,
+  level: true,
+  completedSwaps: true,
+};
+
+export type ConnectionStatusType = 'SELF' | 'CONNECTED' | 'REQUEST_SENT' | 'REQUEST_RECEIVED' | 'NONE';
 
 class ConnectionService {
   /**
@@ -18,6 +42,10 @@ class ConnectionService {
         throw new Error('Cannot connect to yourself');
       }
 
+      if (await blockService.isBlockedBetween(userId, connectedUserId)) {
+        throw new Error('Cannot connect to this user');
+      }
+
       // Check if connection already exists
       const existing = await prisma.connection.findUnique({
         where: {
@@ -388,6 +416,7 @@ class ConnectionService {
       });
 
       const connectedUserIds = existingConnections.map((c) => c.connectedUserId);
+      const blockedUserIds = await blockService.getBlockedUserIds(userId);
 
       // Get user's skills
       const userSkills = await prisma.userSkill.findMany({
@@ -402,7 +431,7 @@ class ConnectionService {
         where: {
           userId: {
             not: userId,
-            notIn: connectedUserIds,
+            notIn: [...connectedUserIds, ...blockedUserIds],
           },
           status: 'ACTIVE',
           skills: {
@@ -412,6 +441,7 @@ class ConnectionService {
               },
             },
           },
+          AND: [await privacyService.discoverableWhere(userId)],
         },
         select: {
           userId: true,
@@ -423,6 +453,7 @@ class ConnectionService {
           rating: true,
           level: true,
           completedSwaps: true,
+          privacySettings: privacySelect,
           _count: {
             select: {
               skills: true,
@@ -436,7 +467,7 @@ class ConnectionService {
         },
       });
 
-      return suggestedUsers;
+      return privacyService.maskLocations(suggestedUsers);
     } catch (error) {
       logger.error('Failed to get suggested connections:', error);
       throw error;
@@ -457,22 +488,27 @@ class ConnectionService {
     limit: number = 20
   ) {
     try {
+      // Email only matches users who show it to everyone, and users hidden
+      // from search or limited to their connections are left out
       const where: any = {
         userId: { not: userId },
         status: 'ACTIVE',
         OR: [
           { name: { contains: query, mode: 'insensitive' } },
-          { email: { contains: query, mode: 'insensitive' } },
+          { email: { contains: query, mode: 'insensitive' }, contactVisibility: 'EVERYONE' },
           { bio: { contains: query, mode: 'insensitive' } },
         ],
+        AND: [await privacyService.discoverableWhere(userId)],
       };
 
       if (filters?.city) {
         where.city = filters.city;
+        where.AND.push(privacyService.locationFilterableWhere('city'));
       }
 
       if (filters?.state) {
         where.state = filters.state;
+        where.AND.push(privacyService.locationFilterableWhere('state'));
       }
 
       if (filters?.skillId) {
@@ -495,6 +531,7 @@ class ConnectionService {
           rating: true,
           level: true,
           completedSwaps: true,
+          privacySettings: privacySelect,
           _count: {
             select: {
               skills: true,
@@ -509,7 +546,7 @@ class ConnectionService {
 
       // Check if current user is connected to each result
       const usersWithConnectionStatus = await Promise.all(
-        users.map(async (user) => ({
+        privacyService.maskLocations(users).map(async (user) => ({
           ...user,
           isConnected: await this.isConnected(userId, user.userId),
         }))
@@ -521,6 +558,328 @@ class ConnectionService {
       throw error;
     }
   }
+
+  // ==================== Connection Requests ====================
+
+  /**
+   * Ask to connect with a user. If they already asked you, their request is
+   * accepted instead.
+   */
+  async sendRequest(senderId: string, receiverId: string, message?: string) {
+    if (senderId === receiverId) {
+      throw new AppError('Cannot connect to yourself', 400);
+    }
+
+    const note = message?.trim() || null;
+    if (note && note.length > MAX_REQUEST_MESSAGE_LENGTH) {
+      throw new AppError(`Message must be at most ${MAX_REQUEST_MESSAGE_LENGTH} characters`, 400);
+    }
+
+    await blockService.assertNotBlocked(senderId, receiverId, 'Cannot connect to this user');
+
+    const receiver = await prisma.user.findUnique({
+      where: { userId: receiverId },
+      select: { status: true },
+    });
+    if (!receiver) {
+      throw new AppError('User not found', 404);
+    }
+    if (receiver.status !== 'ACTIVE') {
+      throw new AppError('Cannot connect to inactive user', 400);
+    }
+
+    const [sent, received] = await Promise.all([
+      prisma.connectionRequest.findUnique({
+        where: { senderId_receiverId: { senderId, receiverId } },
+      }),
+      prisma.connectionRequest.findUnique({
+        where: { senderId_receiverId: { senderId: receiverId, receiverId: senderId } },
+      }),
+    ]);
+
+    if (sent?.status === 'ACCEPTED' || received?.status === 'ACCEPTED') {
+      throw new AppError('You are already connected', 400);
+    }
+    if (received?.status === 'PENDING') {
+      return this.acceptRequest(received.requestId, senderId);
+    }
+    if (sent?.status === 'PENDING') {
+      throw new AppError('Connection request already sent', 400);
+    }
+    if (sent?.status === 'DECLINED' && sent.respondedAt) {
+      const retryAt = new Date(sent.respondedAt.getTime() + REQUEST_COOLDOWN_DAYS * 24 * 60 * 60 * 1000);
+      if (retryAt > new Date()) {
+        throw new AppError('You cannot send another request to this user yet', 400);
+      }
+    }
+
+    await this.assertConnectionLimit(senderId, 'You have reached your connection limit');
+
+    const request = await prisma.connectionRequest.upsert({
+      where: { senderId_receiverId: { senderId, receiverId } },
+      create: { senderId, receiverId, message: note },
+      update: { status: 'PENDING', message: note, respondedAt: null },
+      include: { receiver: { select: requestUserSelect } },
+    });
+
+    const sender = await prisma.user.findUnique({
+      where: { userId: senderId },
+      select: { name: true },
+    });
+
+    await notificationService.createNotification({
+      userId: receiverId,
+      type: 'SYSTEM',
+      title: 'Connection Request',
+      message: `${sender?.name || 'Someone'} wants to connect with you`,
+      data: { requestId: request.requestId, userId: senderId },
+    });
+
+    logger.info(`User ${senderId} sent a connection request to ${receiverId}`);
+    return request;
+  }
+
+  /**
+   * Accept a request sent to you. Both users follow each other from then on.
+   */
+  async acceptRequest(requestId: string, userId: string) {
+    const request = await this.getPendingRequest(requestId);
+    if (request.receiverId !== userId) {
+      throw new AppError('Connection request not found', 404);
+    }
+
+    await this.assertConnectionLimit(userId, 'You have reached your connection limit');
+    await this.assertConnectionLimit(request.senderId, 'This user has reached their connection limit');
+
+    const [accepted] = await prisma.$transaction([
+      prisma.connectionRequest.update({
+        where: { requestId },
+        data: { status: 'ACCEPTED', respondedAt: new Date() },
+        include: { sender: { select: requestUserSelect } },
+      }),
+      prisma.connection.createMany({
+        data: [
+          { userId: request.senderId, connectedUserId: request.receiverId },
+          { userId: request.receiverId, connectedUserId: request.senderId },
+        ],
+        skipDuplicates: true,
+      }),
+    ]);
+
+    const receiver = await prisma.user.findUnique({
+      where: { userId },
+      select: { name: true },
+    });
+
+    await notificationService.createNotification({
+      userId: request.senderId,
+      type: 'SYSTEM',
+      title: 'Connection Accepted',
+      message: `${receiver?.name || 'Someone'} accepted your connection request`,
+      data: { requestId, userId },
+    });
+
+    logger.info(`User ${userId} accepted connection request ${requestId}`);
+    return accepted;
+  }
+
+  /**
+   * Decline a request sent to you
+   */
+  async declineRequest(requestId: string, userId: string) {
+    const request = await this.getPendingRequest(requestId);
+    if (request.receiverId !== userId) {
+      throw new AppError('Connection request not found', 404);
+    }
+
+    return prisma.connectionRequest.update({
+      where: { requestId },
+      data: { status: 'DECLINED', respondedAt: new Date() },
+    });
+  }
+
+  /**
+   * Withdraw a request you sent
+   */
+  async cancelRequest(requestId: string, userId: string) {
+    const request = await this.getPendingRequest(requestId);
+    if (request.senderId !== userId) {
+      throw new AppError('Connection request not found', 404);
+    }
+
+    return prisma.connectionRequest.update({
+      where: { requestId },
+      data: { status: 'CANCELLED', respondedAt: new Date() },
+    });
+  }
+
+  /**
+   * Pending requests sent to the user
+   */
+  async getIncomingRequests(userId: string) {
+    return prisma.connectionRequest.findMany({
+      where: { receiverId: userId, status: 'PENDING' },
+      include: { sender: { select: requestUserSelect } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Pending requests the user has sent
+   */
+  async getSentRequests(userId: string) {
+    return prisma.connectionRequest.findMany({
+      where: { senderId: userId, status: 'PENDING' },
+      include: { receiver: { select: requestUserSelect } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * The user's accepted connections, most recent first
+   */
+  async getAcceptedConnections(userId: string) {
+    const requests = await prisma.connectionRequest.findMany({
+      where: {
+        status: 'ACCEPTED',
+        OR: [{ senderId: userId }, { receiverId: userId }],
+      },
+      include: {
+        sender: { select: requestUserSelect },
+        receiver: { select: requestUserSelect },
+      },
+      orderBy: { respondedAt: 'desc' },
+    });
+
+    return requests.map((r) => ({
+      requestId: r.requestId,
+      connectedAt: r.respondedAt,
+      user: r.senderId === userId ? r.receiver : r.sender,
+    }));
+  }
+
+  /**
+   * End an accepted connection, including the follows it created
+   */
+  async removeAcceptedConnection(userId: string, otherUserId: string) {
+    const { count } = await prisma.connectionRequest.deleteMany({
+      where: {
+        status: 'ACCEPTED',
+        OR: [
+          { senderId: userId, receiverId: otherUserId },
+          { senderId: otherUserId, receiverId: userId },
+        ],
+      },
+    });
+
+    if (count === 0) {
+      throw new AppError('Connection not found', 404);
+    }
+
+    await prisma.connection.deleteMany({
+      where: {
+        OR: [
+          { userId, connectedUserId: otherUserId },
+          { userId: otherUserId, connectedUserId: userId },
+        ],
+      },
+    });
+
+    logger.info(`User ${userId} removed connection with ${otherUserId}`);
+  }
+
+  /**
+   * Whether two users have an accepted connection
+   */
+  async areConnected(userId1: string, userId2: string): Promise<boolean> {
+    const request = await prisma.connectionRequest.findFirst({
+      where: {
+        status: 'ACCEPTED',
+        OR: [
+          { senderId: userId1, receiverId: userId2 },
+          { senderId: userId2, receiverId: userId1 },
+        ],
+      },
+      select: { requestId: true },
+    });
+
+    return request !== null;
+  }
+
+  /**
+   * Where the viewer stands with another user, for connect buttons
+   */
+  async getConnectionStatus(
+    viewerId: string,
+    targetId: string
+  ): Promise<{ status: ConnectionStatusType; requestId?: string }> {
+    if (viewerId === targetId) {
+      return { status: 'SELF' };
+    }
+
+    const requests = await prisma.connectionRequest.findMany({
+      where: {
+        status: { in: ['PENDING', 'ACCEPTED'] },
+        OR: [
+          { senderId: viewerId, receiverId: targetId },
+          { senderId: targetId, receiverId: viewerId },
+        ],
+      },
+    });
+
+    const accepted = requests.find((r) => r.status === 'ACCEPTED');
+    if (accepted) {
+      return { status: 'CONNECTED', requestId: accepted.requestId };
+    }
+
+    const pending = requests.find((r) => r.status === 'PENDING');
+    if (pending) {
+      return {
+        status: pending.senderId === viewerId ? 'REQUEST_SENT' : 'REQUEST_RECEIVED',
+        requestId: pending.requestId,
+      };
+    }
+
+    return { status: 'NONE' };
+  }
+
+  /**
+   * Throw 403 if the receiver only accepts messages from connections and
+   * the sender is not one
+   */
+  async assertCanMessage(senderId: string, receiverId: string): Promise<void> {
+    const receiver = await prisma.user.findUnique({
+      where: { userId: receiverId },
+      select: { messagePermission: true },
+    });
+
+    if (receiver?.messagePermission === 'CONNECTIONS' && !(await this.areConnected(senderId, receiverId))) {
+      throw new AppError('This user only accepts messages from their connections', 403);
+    }
+  }
+
+  private async getPendingRequest(requestId: string) {
+    const request = await prisma.connectionRequest.findUnique({
+      where: { requestId },
+    });
+
+    if (!request || request.status !== 'PENDING') {
+      throw new AppError('Connection request not found', 404);
+    }
+
+    return request;
+  }
+
+  /**
+   * Enforce the subscription tier's maxConnections on accepted connections
+   */
+  private async assertConnectionLimit(userId: string, message: string): Promise<void> {
+    const result = await subscriptionService.canPerformAction(userId, 'addConnection');
+
+    if (!result.allowed) {
+      throw new AppError(message, 403);
+    }
+  }
 }
 
 export const connectionService = new ConnectionService();
@@ -0,0 +1,723 @@
+/**
+ * Conversation Service
+ * Manages conversations and their participants: 1:1 chats, group chats
+ * with owner/admin/member roles and invites, and one chat per event for
+ * its registered attendees.
+ */
+
+import { ConversationParticipant, ConversationRole, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { notificationService } from './notification.service';
+import { blockService } from './block.service';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+const MAX_PINNED_CONVERSATIONS = 5;
+
+// Attendance states that give access to an event's chat
+const EVENT_CHAT_STATUSES = ['REGISTERED', 'ATTENDED'] as const;
+
+const participantInclude = {
+  user: {
+    select: {
+      userId: true,
+      name: true,
+      avatar: true,
+    },
+  },
+};
+
+interface CreateGroupParams {
+  name: string;
+  description?: string;
+  inviteeIds?: string[];
+}
+
+interface UpdateGroupParams {
+  name?: string;
+  description?: string;
+}
+
+export interface ConversationPreferences {
+  archived?: boolean;
+  pinned?: boolean;
+  muted?: boolean;
+  mutedUntil?: Date | null; // Only with muted; omit to mute until unmuted
+}
+
+type MuteState = Pick<ConversationParticipant, 'isMuted' | 'mutedUntil'>;
+
+/**
+ * Whether a participant's mute is in effect; timed mutes lapse on their own
+ */
+export function isMuted(participant: MuteState, now: Date = new Date()): boolean {
+  return participant.isMuted && (!participant.mutedUntil || participant.mutedUntil > now);
+}
+
+/**
+ * Prisma filter for participants whose mute is in effect
+ */
+const activeMuteWhere = (now: Date): Prisma.ConversationParticipantWhereInput => ({
+  isMuted: true,
+  OR: [{ mutedUntil: null }, { mutedUntil: { gt: now } }],
+});
+
+class ConversationService {
+  /**
+   * Make sure a 1:1 conversation row exists. The id is the same pair id the
+   * conversation's messages already carry, so earlier history stays attached.
+   */
+  async ensureDirectConversation(conversationId: string, userIds: [string, string]) {
+    const existing = await prisma.conversation.findUnique({
+      where: { conversationId },
+      select: { conversationId: true },
+    });
+
+    if (!existing) {
+      await prisma.conversation.upsert({
+        where: { conversationId },
+        create: { conversationId, type: 'DIRECT' },
+        update: {},
+      });
+    }
+
+    await prisma.conversationParticipant.createMany({
+      data: userIds.map((userId) => ({ conversationId, userId })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Create a group conversation. Other users are invited rather than added.
+   */
+  async createGroup(ownerId: string, params: CreateGroupParams) {
+    const name = this.validateName(params.name);
+    const description = this.validateDescription(params.description);
+
+    const conversation = await prisma.conversation.create({
+      data: {
+        type: 'GROUP',
+        name,
+        description,
+        createdById: ownerId,
+        participants: {
+          create: { userId: ownerId, role: 'OWNER' },
+        },
+      },
+    });
+
+    for (const inviteeId of new Set(params.inviteeIds ?? [])) {
+      if (inviteeId === ownerId) continue;
+      try {
+        await this.inviteUser(conversation.conversationId, ownerId, inviteeId);
+      } catch (error) {
+        // One unknown or blocked user should not stop the group from being created
+        logger.warn(`Could not invite ${inviteeId} to ${conversation.conversationId}:`, error);
+      }
+    }
+
+    logger.info(`Group conversation ${conversation.conversationId} created by ${ownerId}`);
+    return this.getConversationDetails(conversation.conversationId, ownerId);
+  }
+
+  /**
+   * Get a group or event conversation with its participants
+   */
+  async getConversationDetails(conversationId: string, userId: string) {
+    await this.assertParticipant(conversationId, userId);
+
+    return prisma.conversation.findUnique({
+      where: { conversationId },
+      include: {
+        participants: {
+          include: participantInclude,
+          orderBy: { joinedAt: 'asc' },
+        },
+        event: {
+          select: {
+            eventId: true,
+            title: true,
+            startTime: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Rename a group or change its description (owner and admins)
+   */
+  async updateGroup(conversationId: string, userId: string, updates: UpdateGroupParams) {
+    const participant = await this.assertParticipant(conversationId, userId);
+    this.assertManager(participant.role);
+
+    const conversation = await this.getGroupConversation(conversationId);
+    if (conversation.type === 'EVENT' && updates.name !== undefined) {
+      throw new AppError('Event chats are named after their event', 400);
+    }
+
+    await prisma.conversation.update({
+      where: { conversationId },
+      data: {
+        name: updates.name !== undefined ? this.validateName(updates.name) : undefined,
+        description:
+          updates.description !== undefined ? this.validateDescription(updates.description) : undefined,
+      },
+    });
+
+    return this.getConversationDetails(conversationId, userId);
+  }
+
+  /**
+   * Invite a user to a group (owner and admins). Event chats only accept
+   * people registered for the event.
+   */
+  async inviteUser(conversationId: string, inviterId: string, inviteeId: string) {
+    const inviter = await this.assertParticipant(conversationId, inviterId);
+    this.assertManager(inviter.role);
+
+    const conversation = await this.getGroupConversation(conversationId);
+
+    const invitee = await prisma.user.findUnique({
+      where: { userId: inviteeId },
+      select: { userId: true },
+    });
+    if (!invitee) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (await this.getParticipant(conversationId, inviteeId)) {
+      throw new AppError('User is already in this conversation', 409);
+    }
+
+    await blockService.assertNotBlocked(inviterId, inviteeId, 'You cannot invite this user');
+
+    if (conversation.eventId && !(await this.canJoinEventChat(conversation.eventId, inviteeId))) {
+      throw new AppError('Only people registered for the event can join its chat', 400);
+    }
+
+    const invite = await prisma.conversationInvite.upsert({
+      where: { conversationId_inviteeId: { conversationId, inviteeId } },
+      create: { conversationId, inviterId, inviteeId },
+      update: { inviterId, status: 'PENDING', createdAt: new Date(), respondedAt: null },
+    });
+
+    await notificationService.createNotification({
+      userId: inviteeId,
+      type: 'MESSAGE',
+      title: 'Group Chat Invite',
+      message: `You have been invited to join "${conversation.name}"`,
+      data: {
+        conversationId,
+        inviteId: invite.inviteId,
+      },
+    });
+
+    logger.info(`User ${inviterId} invited ${inviteeId} to conversation ${conversationId}`);
+    return invite;
+  }
+
+  /**
+   * Pending invites for a user
+   */
+  async getPendingInvites(userId: string) {
+    return prisma.conversationInvite.findMany({
+      where: { inviteeId: userId, status: 'PENDING' },
+      include: {
+        conversation: {
+          select: {
+            conversationId: true,
+            type: true,
+            name: true,
+            description: true,
+            _count: { select: { participants: true } },
+          },
+        },
+        inviter: {
+          select: { userId: true, name: true, avatar: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Accept or decline an invite
+   */
+  async respondToInvite(inviteId: string, userId: string, accept: boolean) {
+    const invite = await prisma.conversationInvite.findUnique({
+      where: { inviteId },
+      include: { conversation: { select: { eventId: true } } },
+    });
+
+    if (!invite || invite.inviteeId !== userId) {
+      throw new AppError('Invite not found', 404);
+    }
+
+    if (invite.status !== 'PENDING') {
+      throw new AppError('Invite has already been answered', 400);
+    }
+
+    if (
+      accept &&
+      invite.conversation.eventId &&
+      !(await this.canJoinEventChat(invite.conversation.eventId, userId))
+    ) {
+      throw new AppError('Only people registered for the event can join its chat', 400);
+    }
+
+    await prisma.$transaction([
+      prisma.conversationInvite.update({
+        where: { inviteId },
+        data: { status: accept ? 'ACCEPTED' : 'DECLINED', respondedAt: new Date() },
+      }),
+      ...(accept
+        ? [
+            prisma.conversationParticipant.createMany({
+              data: [{ conversationId: invite.conversationId, userId }],
+              skipDuplicates: true,
+            }),
+          ]
+        : []),
+    ]);
+
+    logger.info(`User ${userId} ${accept ? 'accepted' : 'declined'} invite ${inviteId}`);
+    return { conversationId: invite.conversationId, accepted: accept };
+  }
+
+  /**
+   * Leave a group. An owner who leaves hands the group to the longest-standing
+   * admin, or member if there are no admins; an empty group is deleted.
+   */
+  async leaveConversation(conversationId: string, userId: string) {
+    const participant = await this.assertParticipant(conversationId, userId);
+    const conversation = await this.getGroupConversation(conversationId);
+
+    if (participant.role === 'OWNER' && conversation.type === 'EVENT') {
+      throw new AppError("Organizers cannot leave their event's chat", 400);
+    }
+
+    // Leaving and handing over ownership commit together, so a group is never left without an owner
+    await prisma.$transaction(async (tx) => {
+      await tx.conversationParticipant.delete({
+        where: { participantId: participant.participantId },
+      });
+
+      if (participant.role !== 'OWNER') {
+        return;
+      }
+
+      const successor =
+        (await tx.conversationParticipant.findFirst({
+          where: { conversationId, role: 'ADMIN' },
+          orderBy: { joinedAt: 'asc' },
+        })) ??
+        (await tx.conversationParticipant.findFirst({
+          where: { conversationId },
+          orderBy: { joinedAt: 'asc' },
+        }));
+
+      if (successor) {
+        await tx.conversationParticipant.update({
+          where: { participantId: successor.participantId },
+          data: { role: 'OWNER' },
+        });
+        logger.info(`Ownership of ${conversationId} passed to ${successor.userId}`);
+      } else {
+        await tx.conversation.delete({ where: { conversationId } });
+        logger.info(`Empty group conversation ${conversationId} deleted`);
+      }
+    });
+
+    logger.info(`User ${userId} left conversation ${conversationId}`);
+  }
+
+  /**
+   * Remove someone from a group. Admins can only remove members; the owner
+   * can remove anyone.
+   */
+  async removeParticipant(conversationId: string, actorId: string, targetId: string) {
+    if (actorId === targetId) {
+      throw new AppError('Use leave to remove yourself', 400);
+    }
+
+    const actor = await this.assertParticipant(conversationId, actorId);
+    this.assertManager(actor.role);
+    await this.getGroupConversation(conversationId);
+
+    const target = await this.getParticipant(conversationId, targetId);
+    if (!target) {
+      throw new AppError('User is not in this conversation', 404);
+    }
+
+    if (target.role === 'OWNER' || (actor.role === 'ADMIN' && target.role === 'ADMIN')) {
+      throw new AppError('You cannot remove this participant', 403);
+    }
+
+    await prisma.conversationParticipant.delete({
+      where: { participantId: target.participantId },
+    });
+
+    logger.info(`User ${actorId} removed ${targetId} from conversation ${conversationId}`);
+  }
+
+  /**
+   * Change a participant's role (owner only). Making someone the owner
+   * transfers ownership and leaves the previous owner as an admin.
+   */
+  async updateParticipantRole(
+    conversationId: string,
+    actorId: string,
+    targetId: string,
+    role: ConversationRole
+  ) {
+    if (!['OWNER', 'ADMIN', 'MEMBER'].includes(role)) {
+      throw new AppError('Invalid role', 400);
+    }
+
+    const actor = await this.assertParticipant(conversationId, actorId);
+    if (actor.role !== 'OWNER') {
+      throw new AppError('Only the owner can change roles', 403);
+    }
+
+    const conversation = await this.getGroupConversation(conversationId);
+
+    const target = await this.getParticipant(conversationId, targetId);
+    if (!target || target.userId === actorId) {
+      throw new AppError('User is not in this conversation', 404);
+    }
+
+    if (role === 'OWNER') {
+      if (conversation.type === 'EVENT') {
+        throw new AppError('The organizer always owns an event chat', 400);
+      }
+
+      await prisma.$transaction([
+        prisma.conversationParticipant.update({
+          where: { participantId: actor.participantId },
+          data: { role: 'ADMIN' },
+        }),
+        prisma.conversationParticipant.update({
+          where: { participantId: target.participantId },
+          data: { role: 'OWNER' },
+        }),
+      ]);
+    } else {
+      await prisma.conversationParticipant.update({
+        where: { participantId: target.participantId },
+        data: { role },
+      });
+    }
+
+    logger.info(`User ${actorId} made ${targetId} ${role} of conversation ${conversationId}`);
+    return this.getConversationDetails(conversationId, actorId);
+  }
+
+  /**
+   * Get a user's participant row, or null if they are not in the conversation
+   */
+  async getParticipant(conversationId: string, userId: string) {
+    return prisma.conversationParticipant.findUnique({
+      where: { conversationId_userId: { conversationId, userId } },
+    });
+  }
+
+  /**
+   * Throw 404 unless the user is in the conversation
+   */
+  async assertParticipant(conversationId: string, userId: string) {
+    const participant = await this.getParticipant(conversationId, userId);
+
+    if (!participant) {
+      throw new AppError('Conversation not found', 404);
+    }
+
+    return participant;
+  }
+
+  /**
+   * Ids of everyone in a conversation, for real-time events
+   */
+  async getParticipantIds(conversationId: string): Promise<string[]> {
+    const participants = await prisma.conversationParticipant.findMany({
+      where: { conversationId },
+      select: { userId: true },
+    });
+
+    return participants.map((p) => p.userId);
+  }
+
+  /**
+   * Ids of the conversations a user is in
+   */
+  async getConversationIds(userId: string): Promise<string[]> {
+    const participants = await prisma.conversationParticipant.findMany({
+      where: { userId },
+      select: { conversationId: true },
+    });
+
+    return participants.map((p) => p.conversationId);
+  }
+
+  // ==================== Personal Preferences ====================
+
+  /**
+   * Archive, pin or mute a conversation for one user. Archiving unpins, and
+   * archived conversations cannot be pinned.
+   */
+  async updatePreferences(conversationId: string, userId: string, preferences: ConversationPreferences) {
+    const participant = await this.assertParticipant(conversationId, userId);
+    const data: Prisma.ConversationParticipantUpdateInput = {};
+    const now = new Date();
+
+    if (preferences.archived !== undefined) {
+      data.isArchived = preferences.archived;
+      data.archivedAt = preferences.archived ? now : null;
+      if (preferences.archived) {
+        data.pinnedAt = null;
+      }
+    }
+
+    if (preferences.pinned !== undefined) {
+      if (preferences.pinned && !participant.pinnedAt) {
+        if (preferences.archived ?? participant.isArchived) {
+          throw new AppError('Unarchive the conversation before pinning it', 400);
+        }
+
+        const pinnedCount = await prisma.conversationParticipant.count({
+          where: { userId, pinnedAt: { not: null } },
+        });
+        if (pinnedCount >= MAX_PINNED_CONVERSATIONS) {
+          throw new AppError(`You can pin up to ${MAX_PINNED_CONVERSATIONS} conversations`, 400);
+        }
+
+        data.pinnedAt = now;
+      } else if (!preferences.pinned) {
+        data.pinnedAt = null;
+      }
+    }
+
+    if (preferences.muted !== undefined) {
+      if (preferences.muted && preferences.mutedUntil && preferences.mutedUntil <= now) {
+        throw new AppError('mutedUntil must be in the future', 400);
+      }
+
+      data.isMuted = preferences.muted;
+      data.mutedUntil = preferences.muted ? preferences.mutedUntil ?? null : null;
+    }
+
+    const updated = await prisma.conversationParticipant.update({
+      where: { participantId: participant.participantId },
+      data,
+    });
+
+    return {
+      conversationId,
+      isArchived: updated.isArchived,
+      isPinned: updated.pinnedAt !== null,
+      isMuted: isMuted(updated, now),
+      mutedUntil: updated.mutedUntil,
+    };
+  }
+
+  /**
+   * Bring an archived conversation back when someone else posts in it,
+   * unless the recipient has muted it
+   */
+  async unarchiveForRecipients(conversationId: string, senderId: string): Promise<void> {
+    await prisma.conversationParticipant.updateMany({
+      where: {
+        conversationId,
+        userId: { not: senderId },
+        isArchived: true,
+        NOT: activeMuteWhere(new Date()),
+      },
+      data: { isArchived: false, archivedAt: null },
+    });
+  }
+
+  /**
+   * Conversations left out of a user's total unread count: archived ones and
+   * ones with a mute in effect
+   */
+  async getQuietConversationIds(userId: string): Promise<string[]> {
+    const now = new Date();
+    const participants = await prisma.conversationParticipant.findMany({
+      where: { userId, OR: [{ isArchived: true }, activeMuteWhere(now)] },
+      select: { conversationId: true },
+    });
+
+    return participants.map((p) => p.conversationId);
+  }
+
+  // ==================== Event Chats ====================
+
+  /**
+   * Get the chat of an event, creating it on first use with the organizer as
+   * owner and everyone already registered as members
+   */
+  async ensureEventConversation(eventId: string) {
+    const existing = await prisma.conversation.findUnique({ where: { eventId } });
+    if (existing) return existing;
+
+    const event = await prisma.event.findUnique({
+      where: { eventId },
+      select: {
+        title: true,
+        organizerId: true,
+        attendees: {
+          where: { status: { in: [...EVENT_CHAT_STATUSES] } },
+          select: { userId: true },
+        },
+      },
+    });
+
+    if (!event) {
+      throw new AppError('Event not found', 404);
+    }
+
+    try {
+      const conversation = await prisma.conversation.create({
+        data: {
+          type: 'EVENT',
+          name: event.title,
+          eventId,
+          createdById: event.organizerId,
+          participants: {
+            create: [
+              { userId: event.organizerId, role: 'OWNER' },
+              ...event.attendees.map((a) => ({ userId: a.userId })),
+            ],
+          },
+        },
+      });
+
+      logger.info(`Event chat ${conversation.conversationId} created for event ${eventId}`);
+      return conversation;
+    } catch (error) {
+      // Another request created it first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.conversation.findUniqueOrThrow({ where: { eventId } });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Open an event's chat. Available to the organizer and registered attendees
+   * who have not left it.
+   */
+  async getEventConversation(eventId: string, userId: string) {
+    if (!(await this.canJoinEventChat(eventId, userId))) {
+      throw new AppError('Only people registered for the event can use its chat', 403);
+    }
+
+    const conversation = await this.ensureEventConversation(eventId);
+    return this.getConversationDetails(conversation.conversationId, userId);
+  }
+
+  /**
+   * Add a newly registered attendee to the event's chat, if it exists yet
+   */
+  async addEventAttendee(eventId: string, userId: string) {
+    const conversation = await prisma.conversation.findUnique({
+      where: { eventId },
+      select: { conversationId: true },
+    });
+    if (!conversation) return;
+
+    await prisma.conversationParticipant.createMany({
+      data: [{ conversationId: conversation.conversationId, userId }],
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Remove an attendee who unregistered from the event's chat
+   */
+  async removeEventAttendee(eventId: string, userId: string) {
+    await prisma.conversationParticipant.deleteMany({
+      where: {
+        userId,
+        role: { not: 'OWNER' },
+        conversation: { eventId },
+      },
+    });
+  }
+
+  /**
+   * Keep an event chat named after its event
+   */
+  async renameEventConversation(eventId: string, title: string) {
+    await prisma.conversation.updateMany({
+      where: { eventId },
+      data: { name: title },
+    });
+  }
+
+  private async canJoinEventChat(eventId: string, userId: string): Promise<boolean> {
+    const event = await prisma.event.findUnique({
+      where: { eventId },
+      select: {
+        organizerId: true,
+        attendees: {
+          where: { userId, status: { in: [...EVENT_CHAT_STATUSES] } },
+          select: { attendanceId: true },
+        },
+      },
+    });
+
+    return !!event && (event.organizerId === userId || event.attendees.length > 0);
+  }
+
+  private async getGroupConversation(conversationId: string) {
+    const conversation = await prisma.conversation.findUnique({
+      where: { conversationId },
+    });
+
+    if (!conversation) {
+      throw new AppError('Conversation not found', 404);
+    }
+
+    if (conversation.type === 'DIRECT') {
+      throw new AppError('This is a direct conversation', 400);
+    }
+
+    return conversation;
+  }
+
+  private assertManager(role: ConversationRole) {
+    if (role !== 'OWNER' && role !== 'ADMIN') {
+      throw new AppError('Only the owner and admins can do this', 403);
+    }
+  }
+
+  private validateName(name: unknown): string {
+    const value = typeof name === 'string' ? name.trim() : '';
+
+    if (!value) {
+      throw new AppError('Group name is required', 400);
+    }
+    if (value.length > MAX_NAME_LENGTH) {
+      throw new AppError(`Group name must be at most ${MAX_NAME_LENGTH} characters`, 400);
+    }
+
+    return value;
+  }
+
+  private validateDescription(description: unknown): string | undefined {
+    if (description === undefined || description === null) return undefined;
+
+    const value = typeof description === 'string' ? description.trim() : '';
+    if (value.length > MAX_DESCRIPTION_LENGTH) {
+      throw new AppError(`Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`, 400);
+    }
+
+    return value;
+  }
+}
+
+export const conversationService = new ConversationService();
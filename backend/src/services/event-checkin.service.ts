@@ -0,0 +1,341 @@
+/**
+ * Event Check-in Service
+ * Signed per-registration check-in codes, organizer scanning, self check-in
+ * for online events and no-show marking once the check-in window closes
+ */
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { gamificationService } from './gamification.service';
+
+// Check-in opens this long before an event starts...
+const CHECK_IN_OPENS_MINUTES = 60;
+// ...and online attendees can join-time check in from this long before
+const SELF_CHECK_IN_OPENS_MINUTES = 15;
+// Organizers can still record arrivals this long after the event ends
+const CHECK_IN_GRACE_HOURS = 24;
+const EVENT_ATTENDANCE_XP = 20;
+const SIGNATURE_LENGTH = 22;
+const MINUTE = 60 * 1000;
+
+class EventCheckinService {
+  private readonly secret: string;
+
+  constructor() {
+    this.secret = process.env.CHECKIN_SECRET || process.env.JWT_SECRET || '';
+
+    if (!this.secret) {
+      throw new Error('CHECKIN_SECRET or JWT_SECRET is required to sign check-in codes');
+    }
+  }
+
+  /**
+   * Get the signed check-in code and its QR rendering for a registration
+   */
+  async getCheckInCode(eventId: string, userId: string) {
+    const attendance = await prisma.eventAttendance.findUnique({
+      where: {
+        eventId_userId: {
+          eventId,
+          userId,
+        },
+      },
+      include: {
+        event: {
+          select: { status: true },
+        },
+      },
+    });
+
+    if (!attendance || attendance.status === 'WAITLISTED') {
+      throw new Error('You are not registered for this event');
+    }
+
+    if (attendance.event.status === 'CANCELLED') {
+      throw new Error('This event has been cancelled');
+    }
+
+    const code = this.signCode(attendance.attendanceId);
+
+    return {
+      code,
+      qrSvg: await QRCode.toString(code, { type: 'svg', margin: 4 }),
+      status: attendance.status,
+      checkedInAt: attendance.checkedInAt,
+    };
+  }
+
+  /**
+   * Check an attendee in by scanning or typing their code (organizer only).
+   * Scanning the same code twice is reported rather than treated as an error.
+   */
+  async checkInWithCode(eventId: string, organizerId: string, code: string) {
+    try {
+      const event = await this.getOrganizedEvent(eventId, organizerId);
+      const attendanceId = this.verifyCode(code);
+
+      if (!attendanceId) {
+        throw new Error('Invalid check-in code');
+      }
+
+      const attendance = await prisma.eventAttendance.findUnique({
+        where: { attendanceId },
+        include: {
+          user: {
+            select: {
+              userId: true,
+              name: true,
+              avatar: true,
+            },
+          },
+        },
+      });
+
+      if (!attendance || attendance.eventId !== eventId) {
+        throw new Error('This code is not for this event');
+      }
+
+      if (attendance.status === 'WAITLISTED') {
+        throw new Error(`${attendance.user.name} is still on the waitlist`);
+      }
+
+      const alreadyCheckedIn = attendance.status === 'ATTENDED';
+
+      if (!alreadyCheckedIn) {
+        this.assertWindowOpen(event, CHECK_IN_OPENS_MINUTES, CHECK_IN_GRACE_HOURS * 60);
+        await this.recordAttendance(attendance.attendanceId, event, attendance.userId, organizerId);
+      }
+
+      return {
+        ...attendance.user,
+        alreadyCheckedIn,
+        checkedInAt: alreadyCheckedIn ? attendance.checkedInAt : new Date(),
+      };
+    } catch (error) {
+      logger.error('Failed to check in attendee:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Join-time check-in for online events, returning the meeting link
+   */
+  async selfCheckIn(eventId: string, userId: string) {
+    try {
+      const attendance = await prisma.eventAttendance.findUnique({
+        where: {
+          eventId_userId: {
+            eventId,
+            userId,
+          },
+        },
+        include: {
+          event: {
+            select: {
+              eventId: true,
+              title: true,
+              status: true,
+              isOnline: true,
+              meetingLink: true,
+              startTime: true,
+              endTime: true,
+            },
+          },
+        },
+      });
+
+      if (!attendance || attendance.status === 'WAITLISTED') {
+        throw new Error('You are not registered for this event');
+      }
+
+      const { event } = attendance;
+
+      if (!event.isOnline) {
+        throw new Error('In-person events are checked in by the organizer');
+      }
+
+      if (attendance.status !== 'ATTENDED') {
+        this.assertWindowOpen(event, SELF_CHECK_IN_OPENS_MINUTES, 0);
+        await this.recordAttendance(attendance.attendanceId, event, userId, null);
+      }
+
+      return { meetingLink: event.meetingLink };
+    } catch (error) {
+      logger.error('Failed to self check in:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Attendance sheet for an event (organizer only)
+   */
+  async getCheckIns(eventId: string, organizerId: string) {
+    try {
+      await this.getOrganizedEvent(eventId, organizerId);
+
+      const attendances = await prisma.eventAttendance.findMany({
+        where: {
+          eventId,
+          status: { not: 'WAITLISTED' },
+        },
+        include: {
+          user: {
+            select: {
+              userId: true,
+              name: true,
+              avatar: true,
+            },
+          },
+        },
+        orderBy: [{ checkedInAt: 'desc' }, { registeredAt: 'asc' }],
+      });
+
+      const count = (status: string) => attendances.filter((a) => a.status === status).length;
+
+      return {
+        summary: {
+          registered: attendances.length,
+          attended: count('ATTENDED'),
+          noShow: count('NO_SHOW'),
+        },
+        attendees: attendances.map((a) => ({
+          ...a.user,
+          attendanceStatus: a.status,
+          checkedInAt: a.checkedInAt,
+          selfCheckIn: a.status === 'ATTENDED' && !a.checkedInById,
+        })),
+      };
+    } catch (error) {
+      logger.error('Failed to get event check-ins:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark attendees who never checked in as no-shows once check-in has closed
+   */
+  async markNoShows(): Promise<number> {
+    const cutoff = new Date(Date.now() - CHECK_IN_GRACE_HOURS * 60 * MINUTE);
+
+    const result = await prisma.eventAttendance.updateMany({
+      where: {
+        status: 'REGISTERED',
+        event: {
+          endTime: { lt: cutoff },
+          status: { in: ['PUBLISHED', 'ONGOING', 'COMPLETED'] },
+        },
+      },
+      data: { status: 'NO_SHOW' },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Flip a registration to ATTENDED and reward the attendee. The conditional
+   * update keeps concurrent scans from awarding XP twice.
+   */
+  private async recordAttendance(
+    attendanceId: string,
+    event: { eventId: string; title: string },
+    userId: string,
+    checkedInById: string | null
+  ) {
+    const { count } = await prisma.eventAttendance.updateMany({
+      where: { attendanceId, status: { in: ['REGISTERED', 'NO_SHOW'] } },
+      data: { status: 'ATTENDED', checkedInAt: new Date(), checkedInById },
+    });
+
+    if (count === 0) return;
+
+    logger.info(`User ${userId} checked in to event ${event.eventId}`);
+
+    try {
+      await gamificationService.awardXP(
+        userId,
+        EVENT_ATTENDANCE_XP,
+        `Attended event "${event.title}"`
+      );
+      await gamificationService.awardBadgesForEvent(userId, 'EVENT_ATTENDED');
+    } catch (error) {
+      // Attendance is already recorded; a failed reward should not undo the check-in
+      logger.error('Failed to reward event attendance:', error);
+    }
+  }
+
+  private async getOrganizedEvent(eventId: string, organizerId: string) {
+    const event = await prisma.event.findUnique({
+      where: { eventId },
+      select: {
+        eventId: true,
+        title: true,
+        organizerId: true,
+        status: true,
+        startTime: true,
+        endTime: true,
+      },
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new Error('Only the organizer can check attendees in');
+    }
+
+    return event;
+  }
+
+  private assertWindowOpen(
+    event: { status: string; startTime: Date; endTime: Date },
+    opensMinutesBefore: number,
+    closesMinutesAfter: number
+  ) {
+    if (event.status === 'CANCELLED' || event.status === 'DRAFT') {
+      throw new Error('Check-in is not available for this event');
+    }
+
+    const now = Date.now();
+
+    if (now < event.startTime.getTime() - opensMinutesBefore * MINUTE) {
+      throw new Error(`Check-in opens ${opensMinutesBefore} minutes before the event starts`);
+    }
+
+    if (now > event.endTime.getTime() + closesMinutesAfter * MINUTE) {
+      throw new Error('Check-in for this event has closed');
+    }
+  }
+
+  /**
+   * Codes are the attendance id plus a truncated HMAC, so they cannot be
+   * forged for other registrations and need no extra storage
+   */
+  private signCode(attendanceId: string): string {
+    return `${attendanceId}.${this.signature(attendanceId)}`;
+  }
+
+  private verifyCode(code: string): string | null {
+    const [attendanceId, signature] = (code || '').trim().split('.');
+    if (!attendanceId || !signature) return null;
+
+    const candidate = Buffer.from(signature);
+    const expected = Buffer.from(this.signature(attendanceId));
+
+    return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected)
+      ? attendanceId
+      : null;
+  }
+
+  private signature(attendanceId: string): string {
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(`event-checkin:${attendanceId}`)
+      .digest('base64url')
+      .slice(0, SIGNATURE_LENGTH);
+  }
+}
+
+export const eventCheckinService = new EventCheckinService();
@@ -5,8 +5,32 @@
 
 import prisma from '../config/database';
 import { logger } from '../utils/logger';
-import { EventType, EventStatus } from '@prisma/client';
+import { EventType, EventStatus, Prisma } from '@prisma/client';
 import { notificationService } from './notification.service';
+import { uploadService } from './upload.service';
+import { conversationService } from './conversation.service';
+import { activityService } from './activity.service';
+import { gamificationService } from './gamification.service';
+
+// Attempts of a seat transaction before a serialization conflict reaches the user
+const MAX_SERIALIZABLE_ATTEMPTS = 3;
+
+/**
+ * Run a Serializable transaction, retrying when Postgres aborts it because
+ * a concurrent transaction touched the same seats (Prisma error P2034)
+ */
+async function runSerializable<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, { isolationLevel: 'Serializable' });
+    } catch (error) {
+      const isConflict =
+        error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+      if (!isConflict || attempt >= MAX_SERIALIZABLE_ATTEMPTS) throw error;
+      logger.warn(`Serialization conflict on attempt ${attempt}, retrying`);
+    }
+  }
+}
 
 interface CreateEventParams {
   organizerId: string;
@@ -80,12 +104,16 @@ class EventService {
         throw new Error('Offline events must have a location');
       }
 
+      const imageUrl = params.imageUrl
+        ? await this.resolveImageUrl(params.imageUrl, params.organizerId)
+        : undefined;
+
       const event = await prisma.event.create({
         data: {
           organizerId: params.organizerId,
           title: params.title,
           description: params.description,
-          imageUrl: params.imageUrl,
+          imageUrl,
           eventType: params.eventType,
           status: 'DRAFT',
           startTime: params.startTime,
@@ -152,9 +180,14 @@ class EventService {
         }
       }
 
+      if (updates.imageUrl) {
+        updates.imageUrl = await this.resolveImageUrl(updates.imageUrl, organizerId);
+      }
+
       const updatedEvent = await prisma.event.update({
         where: { eventId },
-        data: updates,
+        // Calendar clients only apply changes with a higher SEQUENCE
+        data: { ...updates, calendarSequence: { increment: 1 } },
         include: {
           organizer: {
             select: {
@@ -172,6 +205,15 @@ class EventService {
         },
       });
 
+      if (updates.title) {
+        await conversationService.renameEventConversation(eventId, updatedEvent.title);
+      }
+
+      // Raising the capacity lets waitlisted users in
+      if (updates.maxAttendees !== undefined) {
+        await this.promoteFromWaitlistSafely(eventId);
+      }
+
       logger.info(`Event updated: ${eventId}`);
       return updatedEvent;
     } catch (error) {
@@ -214,6 +256,19 @@ class EventService {
         },
       });
 
+      // Attendees get a group chat as soon as they can register
+      await conversationService.ensureEventConversation(eventId);
+
+      await activityService.record(organizerId, 'EVENT_PUBLISHED', eventId, {
+        title: publishedEvent.title,
+        eventType: publishedEvent.eventType,
+        startTime: publishedEvent.startTime.toISOString(),
+        city: publishedEvent.city,
+        isOnline: publishedEvent.isOnline,
+      });
+
+      await gamificationService.awardBadgesForEvent(organizerId, 'EVENT_PUBLISHED');
+
       logger.info(`Event published: ${eventId}`);
       return publishedEvent;
     } catch (error) {
@@ -253,8 +308,9 @@ class EventService {
 
       const cancelledEvent = await prisma.event.update({
         where: { eventId },
-        data: { status: 'CANCELLED' },
+        data: { status: 'CANCELLED', calendarSequence: { increment: 1 } },
       });
+      await activityService.remove('EVENT_PUBLISHED', eventId);
 
       // Notify all attendees about cancellation
       for (const attendance of event.attendees) {
@@ -335,6 +391,7 @@ class EventService {
             },
           },
           attendees: {
+            where: { status: { not: 'WAITLISTED' } },
             include: {
               user: {
                 select: {
@@ -421,7 +478,7 @@ class EventService {
           },
           _count: {
             select: {
-              attendees: true,
+              attendees: { where: { status: { not: 'WAITLISTED' } } },
             },
           },
         },
@@ -477,7 +534,7 @@ class EventService {
           },
           _count: {
             select: {
-              attendees: true,
+              attendees: { where: { status: { not: 'WAITLISTED' } } },
             },
           },
         },
@@ -513,7 +570,7 @@ class EventService {
           },
           _count: {
             select: {
-              attendees: true,
+              attendees: { where: { status: { not: 'WAITLISTED' } } },
             },
           },
         },
@@ -556,7 +613,7 @@ class EventService {
               },
               _count: {
                 select: {
-                  attendees: true,
+                  attendees: { where: { status: { not: 'WAITLISTED' } } },
                 },
               },
             },
@@ -569,7 +626,11 @@ class EventService {
         },
       });
 
-      return attendances.map((a) => a.event);
+      return attendances.map((a) => ({
+        ...a.event,
+        attendanceStatus: a.status,
+        waitlistPosition: a.waitlistPosition,
+      }));
     } catch (error) {
       logger.error('Failed to get user attending events:', error);
       throw error;
@@ -584,11 +645,6 @@ class EventService {
       const event = await prisma.event.findUnique({
         where: { eventId },
         include: {
-          _count: {
-            select: {
-              attendees: true,
-            },
-          },
           organizer: {
             select: {
               userId: true,
@@ -624,31 +680,67 @@ class EventService {
         throw new Error('Already registered for this event');
       }
 
-      // Check if event is full
-      if (event.maxAttendees && event._count.attendees >= event.maxAttendees) {
-        throw new Error('Event is full');
-      }
-
       // Cannot register for own event
       if (event.organizerId === userId) {
         throw new Error('Cannot register for your own event');
       }
 
-      const attendance = await prisma.eventAttendance.create({
-        data: {
-          eventId,
-          userId,
-        },
-        include: {
-          event: {
-            select: {
-              title: true,
-              startTime: true,
+      // Full events put the user at the back of the waitlist. Seats are
+      // counted inside the transaction so concurrent sign-ups cannot overbook.
+      const attendance = await runSerializable(async (tx) => {
+        const registered = await tx.eventAttendance.count({
+          where: { eventId, status: { not: 'WAITLISTED' } },
+        });
+        const isFull = !!event.maxAttendees && registered >= event.maxAttendees;
+
+        let waitlistPosition: number | null = null;
+        if (isFull) {
+          const last = await tx.eventAttendance.aggregate({
+            where: { eventId, status: 'WAITLISTED' },
+            _max: { waitlistPosition: true },
+          });
+          waitlistPosition = (last._max.waitlistPosition ?? 0) + 1;
+        }
+
+        return tx.eventAttendance.create({
+          data: {
+            eventId,
+            userId,
+            status: isFull ? 'WAITLISTED' : 'REGISTERED',
+            waitlistPosition,
+          },
+          include: {
+            event: {
+              select: {
+                title: true,
+                startTime: true,
+              },
             },
           },
-        },
+        });
       });
 
+      if (attendance.status === 'WAITLISTED') {
+        await notificationService.createNotification({
+          userId,
+          type: 'EVENT_REMINDER',
+          title: 'Added to Waitlist',
+          message: `"${event.title}" is full. You are #${attendance.waitlistPosition} on the waitlist and will be registered automatically if a seat frees up.`,
+          data: {
+            eventId: event.eventId,
+            eventTitle: event.title,
+            waitlistPosition: attendance.waitlistPosition,
+          },
+        });
+
+        logger.info(
+          `User ${userId} waitlisted for event ${eventId} at position ${attendance.waitlistPosition}`
+        );
+        return attendance;
+      }
+
+      await conversationService.addEventAttendee(eventId, userId);
+
       // Notify organizer
       await notificationService.createNotification({
         userId: event.organizerId,
@@ -687,13 +779,39 @@ class EventService {
         throw new Error('Not registered for this event');
       }
 
-      await prisma.eventAttendance.delete({
-        where: {
-          attendanceId: attendance.attendanceId,
-        },
+      if (attendance.status === 'ATTENDED' || attendance.status === 'NO_SHOW') {
+        throw new Error('Attendance for this event has already been recorded');
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.eventAttendance.delete({
+          where: {
+            attendanceId: attendance.attendanceId,
+          },
+        });
+
+        // Close the gap left in the queue
+        if (attendance.status === 'WAITLISTED' && attendance.waitlistPosition) {
+          await tx.eventAttendance.updateMany({
+            where: {
+              eventId,
+              status: 'WAITLISTED',
+              waitlistPosition: { gt: attendance.waitlistPosition },
+            },
+            data: { waitlistPosition: { decrement: 1 } },
+          });
+        }
       });
 
+      await conversationService.removeEventAttendee(eventId, userId);
+
       logger.info(`User ${userId} unregistered from event ${eventId}`);
+
+      // A freed seat goes to the next person in the queue
+      if (attendance.status === 'REGISTERED') {
+        await this.promoteFromWaitlistSafely(eventId);
+      }
+
       return true;
     } catch (error) {
       logger.error('Failed to unregister from event:', error);
@@ -715,7 +833,7 @@ class EventService {
         },
       });
 
-      return !!attendance;
+      return !!attendance && attendance.status !== 'WAITLISTED';
     } catch (error) {
       logger.error('Failed to check event registration:', error);
       return false;
@@ -730,6 +848,7 @@ class EventService {
       const attendances = await prisma.eventAttendance.findMany({
         where: {
           eventId,
+          status: { not: 'WAITLISTED' },
         },
         include: {
           user: {
@@ -750,12 +869,218 @@ class EventService {
       return attendances.map((a) => ({
         ...a.user,
         registeredAt: a.registeredAt,
+        attendanceStatus: a.status,
       }));
     } catch (error) {
       logger.error('Failed to get event attendees:', error);
       throw error;
     }
   }
+
+  /**
+   * Get a user's registration state for an event
+   */
+  async getRegistration(eventId: string, userId: string) {
+    return prisma.eventAttendance.findUnique({
+      where: {
+        eventId_userId: {
+          eventId,
+          userId,
+        },
+      },
+      select: {
+        status: true,
+        waitlistPosition: true,
+      },
+    });
+  }
+
+  /**
+   * Fill free seats from the front of the waitlist and notify promoted users
+   */
+  async promoteFromWaitlist(eventId: string) {
+    try {
+      const promoted = await runSerializable(async (tx) => {
+        const event = await tx.event.findUnique({
+          where: { eventId },
+          select: { maxAttendees: true, status: true, startTime: true },
+        });
+
+        if (!event || event.status !== 'PUBLISHED' || event.startTime < new Date()) {
+          return [];
+        }
+
+        const registered = await tx.eventAttendance.count({
+          where: { eventId, status: { not: 'WAITLISTED' } },
+        });
+        const freeSeats = !event.maxAttendees ? Infinity : event.maxAttendees - registered;
+
+        if (freeSeats <= 0) return [];
+
+        const next = await tx.eventAttendance.findMany({
+          where: { eventId, status: 'WAITLISTED' },
+          orderBy: { waitlistPosition: 'asc' },
+          take: Number.isFinite(freeSeats) ? freeSeats : undefined,
+        });
+
+        if (next.length === 0) return [];
+
+        await tx.eventAttendance.updateMany({
+          where: { attendanceId: { in: next.map((a) => a.attendanceId) } },
+          data: { status: 'REGISTERED', waitlistPosition: null, promotedAt: new Date() },
+        });
+
+        // Everyone still waiting moves up
+        await tx.eventAttendance.updateMany({
+          where: { eventId, status: 'WAITLISTED' },
+          data: { waitlistPosition: { decrement: next.length } },
+        });
+
+        return next;
+      });
+
+      if (promoted.length === 0) return [];
+
+      const event = await prisma.event.findUnique({
+        where: { eventId },
+        select: { title: true },
+      });
+
+      for (const attendance of promoted) {
+        await conversationService.addEventAttendee(eventId, attendance.userId);
+
+        await notificationService.createNotification({
+          userId: attendance.userId,
+          type: 'EVENT_REMINDER',
+          title: 'You Got a Seat!',
+          message: `A seat opened up for "${event?.title}" and you are now registered.`,
+          data: {
+            eventId,
+            eventTitle: event?.title,
+          },
+        });
+      }
+
+      logger.info(`Promoted ${promoted.length} user(s) from the waitlist of event ${eventId}`);
+      return promoted;
+    } catch (error) {
+      logger.error('Failed to promote from waitlist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Promote after a change that already committed, such as an unregistration.
+   * A failed promotion is logged rather than failing that change; the seat
+   * is filled on the next unregistration or capacity change.
+   */
+  private async promoteFromWaitlistSafely(eventId: string) {
+    try {
+      await this.promoteFromWaitlist(eventId);
+    } catch (error) {
+      logger.error(`Failed to promote from the waitlist of event ${eventId}:`, error);
+    }
+  }
+
+  /**
+   * Get an event's waitlist in queue order (organizer only)
+   */
+  async getWaitlist(eventId: string, organizerId: string) {
+    try {
+      await this.assertOrganizer(eventId, organizerId);
+
+      const waitlist = await prisma.eventAttendance.findMany({
+        where: { eventId, status: 'WAITLISTED' },
+        include: {
+          user: {
+            select: {
+              userId: true,
+              name: true,
+              avatar: true,
+              city: true,
+              state: true,
+            },
+          },
+        },
+        orderBy: { waitlistPosition: 'asc' },
+      });
+
+      return waitlist.map((a) => ({
+        ...a.user,
+        waitlistPosition: a.waitlistPosition,
+        registeredAt: a.registeredAt,
+      }));
+    } catch (error) {
+      logger.error('Failed to get event waitlist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a waitlisted user to a new queue position (organizer only)
+   */
+  async moveWaitlistEntry(eventId: string, organizerId: string, userId: string, position: number) {
+    try {
+      await this.assertOrganizer(eventId, organizerId);
+
+      await prisma.$transaction(async (tx) => {
+        const waitlist = await tx.eventAttendance.findMany({
+          where: { eventId, status: 'WAITLISTED' },
+          orderBy: { waitlistPosition: 'asc' },
+          select: { attendanceId: true, userId: true },
+        });
+
+        const index = waitlist.findIndex((a) => a.userId === userId);
+        if (index === -1) {
+          throw new Error('User is not on the waitlist');
+        }
+
+        if (!Number.isInteger(position) || position < 1 || position > waitlist.length) {
+          throw new Error(`Position must be between 1 and ${waitlist.length}`);
+        }
+
+        const [entry] = waitlist.splice(index, 1);
+        waitlist.splice(position - 1, 0, entry);
+
+        // Rewrite positions so the queue stays contiguous
+        for (const [i, attendance] of waitlist.entries()) {
+          await tx.eventAttendance.update({
+            where: { attendanceId: attendance.attendanceId },
+            data: { waitlistPosition: i + 1 },
+          });
+        }
+      });
+
+      logger.info(`Moved user ${userId} to waitlist position ${position} for event ${eventId}`);
+      return this.getWaitlist(eventId, organizerId);
+    } catch (error) {
+      logger.error('Failed to reorder event waitlist:', error);
+      throw error;
+    }
+  }
+
+  private async assertOrganizer(eventId: string, organizerId: string) {
+    const event = await prisma.event.findUnique({
+      where: { eventId },
+      select: { organizerId: true },
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new Error('Only the organizer can manage the waitlist');
+    }
+  }
+
+  /**
+   * Event images must be the organizer's own uploads
+   */
+  private async resolveImageUrl(reference: string, organizerId: string): Promise<string> {
+    const upload = await uploadService.resolveReference(reference, organizerId, 'EVENT_IMAGE');
+    return uploadService.getPublicUrl(upload.uploadId);
+  }
 }
 
 export const eventService = new EventService();
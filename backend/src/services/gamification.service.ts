@@ -3,10 +3,46 @@
  * Handles XP, levels, coins, and badges
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, Badge, CoinTransactionSource } from '@prisma/client';
+import prisma from '../config/database';
 import { logger } from '../utils/logger';
+import { getPagination, buildPaginationMeta } from '../utils/queryOptimizer';
+import { AppError } from '../middleware/errorHandler';
+import { activityService } from './activity.service';
+import { badgeRuleService, BadgeEvent } from './badge-rule.service';
+import { leaderboardService, leaderboardUserSelect, LeaderboardMetric } from './leaderboard.service';
+import { privacyService, privacySelect } from './privacy.service';
 
-const prisma = new PrismaClient();
+/**
+ * Where a coin movement came from, recorded on the ledger row
+ */
+export interface CoinTransactionOptions {
+  sourceType?: CoinTransactionSource;
+  sourceId?: string;
+  actorId?: string;
+  metadata?: Prisma.InputJsonValue;
+  // Run inside a caller's transaction so the ledger write joins it
+  tx?: Prisma.TransactionClient;
+}
+
+export interface CoinTransactionFilters {
+  type?: 'earned' | 'spent';
+  sourceType?: CoinTransactionSource;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Run a ledger operation in the caller's transaction, or open a new one
+ */
+function withTransaction<T>(
+  tx: Prisma.TransactionClient | undefined,
+  fn: (client: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return tx ? fn(tx) : prisma.$transaction(fn);
+}
 
 // XP required for each level (exponential growth)
 const XP_PER_LEVEL = (level: number): number => {
@@ -57,7 +93,10 @@ export async function awardXP(userId: string, amount: number, reason: string) {
   // If leveled up, send notification and award bonus coins
   if (leveledUp) {
     const bonusCoins = newLevel * 10; // 10 coins per level
-    await awardCoins(userId, bonusCoins, `Level ${newLevel} bonus`);
+    await awardCoins(userId, bonusCoins, `Level ${newLevel} bonus`, {
+      sourceType: 'LEVEL',
+      metadata: { level: newLevel },
+    });
 
     // Send level up notification
     await prisma.notification.create({
@@ -71,49 +110,179 @@ export async function awardXP(userId: string, amount: number, reason: string) {
     });
 
     logger.info(`${user.name} leveled up to level ${newLevel}!`);
+
+    await awardBadgesForEvent(userId, 'LEVEL_UP');
   }
 
   return { newXP, newLevel, leveledUp };
 }
 
 /**
- * Award coins to a user
+ * Award coins to a user and record the credit on the ledger
  */
-export async function awardCoins(userId: string, amount: number, reason: string) {
-  await prisma.user.update({
-    where: { userId },
-    data: {
-      coins: { increment: amount },
-    },
+export async function awardCoins(
+  userId: string,
+  amount: number,
+  reason: string,
+  options: CoinTransactionOptions = {}
+) {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error('Amount must be a positive integer');
+  }
+
+  const transaction = await withTransaction(options.tx, async (tx) => {
+    const user = await tx.user.update({
+      where: { userId },
+      data: {
+        coins: { increment: amount },
+      },
+      select: { coins: true },
+    });
+
+    return tx.coinTransaction.create({
+      data: {
+        userId,
+        amount,
+        balanceAfter: user.coins,
+        reason,
+        sourceType: options.sourceType || 'SYSTEM',
+        sourceId: options.sourceId,
+        actorId: options.actorId,
+        metadata: options.metadata,
+      },
+    });
   });
 
   logger.info(`Awarded ${amount} coins to user ${userId} for: ${reason}`);
 
-  return { amount, reason };
+  // Inside a caller's transaction the new balance is not visible yet; the
+  // caller's own event covers it
+  if (!options.tx) {
+    await awardBadgesForEvent(userId, 'COINS_EARNED');
+  }
+
+  return {
+    amount,
+    reason,
+    balance: transaction.balanceAfter,
+    transactionId: transaction.transactionId,
+  };
 }
 
 /**
- * Deduct coins from a user
+ * Deduct coins from a user and record the debit on the ledger
  */
-export async function deductCoins(userId: string, amount: number, reason: string) {
-  const user = await prisma.user.findUnique({
-    where: { userId },
-    select: { coins: true },
-  });
+export async function deductCoins(
+  userId: string,
+  amount: number,
+  reason: string,
+  options: CoinTransactionOptions = {}
+) {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error('Amount must be a positive integer');
+  }
 
-  if (!user) throw new Error('User not found');
-  if (user.coins < amount) throw new Error('Insufficient coins');
+  const transaction = await withTransaction(options.tx, async (tx) => {
+    // Conditional decrement so concurrent deductions can't overdraw
+    const result = await tx.user.updateMany({
+      where: { userId, coins: { gte: amount } },
+      data: {
+        coins: { decrement: amount },
+      },
+    });
 
-  await prisma.user.update({
-    where: { userId },
-    data: {
-      coins: { decrement: amount },
-    },
+    if (result.count === 0) {
+      const exists = await tx.user.count({ where: { userId } });
+      throw new Error(exists ? 'Insufficient coins' : 'User not found');
+    }
+
+    const user = await tx.user.findUniqueOrThrow({
+      where: { userId },
+      select: { coins: true },
+    });
+
+    return tx.coinTransaction.create({
+      data: {
+        userId,
+        amount: -amount,
+        balanceAfter: user.coins,
+        reason,
+        sourceType: options.sourceType || 'SYSTEM',
+        sourceId: options.sourceId,
+        actorId: options.actorId,
+        metadata: options.metadata,
+      },
+    });
   });
 
   logger.info(`Deducted ${amount} coins from user ${userId} for: ${reason}`);
 
-  return { amount, reason };
+  return {
+    amount,
+    reason,
+    balance: transaction.balanceAfter,
+    transactionId: transaction.transactionId,
+  };
+}
+
+/**
+ * Get a user's coin ledger, newest first
+ */
+export async function getCoinTransactions(
+  userId: string,
+  filters: CoinTransactionFilters = {}
+) {
+  const pagination = getPagination({ page: filters.page, limit: filters.limit });
+
+  const where: Prisma.CoinTransactionWhereInput = { userId };
+
+  if (filters.type === 'earned') where.amount = { gt: 0 };
+  if (filters.type === 'spent') where.amount = { lt: 0 };
+  if (filters.sourceType) where.sourceType = filters.sourceType;
+  if (filters.startDate || filters.endDate) {
+    where.createdAt = {
+      ...(filters.startDate && { gte: filters.startDate }),
+      ...(filters.endDate && { lte: filters.endDate }),
+    };
+  }
+
+  const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+  const [transactions, total, earnedThisWeek, spentThisWeek] = await Promise.all([
+    prisma.coinTransaction.findMany({
+      where,
+      include: {
+        actor: {
+          select: {
+            userId: true,
+            name: true,
+            avatar: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: pagination.take,
+      skip: pagination.skip,
+    }),
+    prisma.coinTransaction.count({ where }),
+    prisma.coinTransaction.aggregate({
+      where: { userId, amount: { gt: 0 }, createdAt: { gte: weekAgo } },
+      _sum: { amount: true },
+    }),
+    prisma.coinTransaction.aggregate({
+      where: { userId, amount: { lt: 0 }, createdAt: { gte: weekAgo } },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  return {
+    transactions,
+    summary: {
+      earnedThisWeek: earnedThisWeek._sum.amount || 0,
+      spentThisWeek: Math.abs(spentThisWeek._sum.amount || 0),
+    },
+    pagination: buildPaginationMeta(total, pagination),
+  };
 }
 
 /**
@@ -176,98 +345,236 @@ export async function getUserStats(userId: string) {
 }
 
 /**
- * Check and award badges based on user activity
+ * Give a user a badge, post it to their feed and tell them. Returns false
+ * when a concurrent check awarded it first.
  */
-export async function checkAndAwardBadges(userId: string) {
-  const user = await prisma.user.findUnique({
-    where: { userId },
-    include: {
-      badges: {
-        include: {
-          badge: true,
-        },
+async function awardBadge(userId: string, badge: Badge): Promise<boolean> {
+  let userBadge;
+  try {
+    userBadge = await prisma.userBadge.create({
+      data: {
+        userId,
+        badgeId: badge.badgeId,
       },
-    },
-  });
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
 
-  if (!user) return [];
+  await activityService.record(userId, 'BADGE_EARNED', userBadge.userBadgeId, {
+    badgeId: badge.badgeId,
+    badgeName: badge.name,
+    badgeIcon: badge.icon,
+  });
 
-  // Get all available badges
-  const allBadges = await prisma.badge.findMany({
-    where: { isActive: true },
+  // Send notification
+  await prisma.notification.create({
+    data: {
+      userId,
+      type: 'BADGE_EARNED',
+      title: 'New Badge Earned! 🏆',
+      message: `You've earned the "${badge.name}" badge!`,
+      data: {
+        badgeId: badge.badgeId,
+        badgeName: badge.name,
+        badgeIcon: badge.icon,
+      },
+    },
   });
 
-  const earnedBadgeIds = new Set(user.badges.map((ub) => ub.badgeId));
-  const newlyEarnedBadges = [];
-
-  for (const badge of allBadges) {
-    // Skip if already earned
-    if (earnedBadgeIds.has(badge.badgeId)) continue;
-
-    let shouldAward = false;
-
-    // Check badge criteria
-    switch (badge.criteria) {
-      case 'SWAP_COUNT':
-        shouldAward = user.completedSwaps >= badge.threshold;
-        break;
-      case 'RATING':
-        shouldAward = user.rating >= badge.threshold;
-        break;
-      case 'HOURS_TAUGHT':
-        shouldAward = user.totalHoursTaught >= badge.threshold;
-        break;
-      case 'HOURS_LEARNED':
-        shouldAward = user.totalHoursLearned >= badge.threshold;
-        break;
-      case 'LEVEL':
-        shouldAward = user.level >= badge.threshold;
-        break;
-      case 'COINS':
-        shouldAward = user.coins >= badge.threshold;
-        break;
-      default:
-        break;
-    }
+  logger.info(`User ${userId} earned badge: ${badge.name}`);
+  return true;
+}
 
-    if (shouldAward) {
-      // Award badge
-      await prisma.userBadge.create({
-        data: {
-          userId,
-          badgeId: badge.badgeId,
-        },
-      });
-
-      // Send notification
-      await prisma.notification.create({
-        data: {
-          userId,
-          type: 'BADGE_EARNED',
-          title: 'New Badge Earned! 🏆',
-          message: `You've earned the "${badge.name}" badge!`,
-          data: {
-            badgeId: badge.badgeId,
-            badgeName: badge.name,
-            badgeIcon: badge.icon,
-          },
-        },
-      });
+/**
+ * Award the given badges the user has not earned yet and now qualifies for
+ */
+async function awardQualifyingBadges(userId: string, badges: Badge[]) {
+  const newlyEarnedBadges: Badge[] = [];
+
+  for (const badge of badges) {
+    const rule = badgeRuleService.getBadgeRule(badge);
+    if (!rule || !(await badgeRuleService.evaluate(rule, userId))) continue;
 
+    if (await awardBadge(userId, badge)) {
       newlyEarnedBadges.push(badge);
-      logger.info(`User ${userId} earned badge: ${badge.name}`);
     }
   }
 
   return newlyEarnedBadges;
 }
 
+/**
+ * Give a user a specific badge unless they already have it, e.g. as a
+ * season reward. Returns whether it was awarded.
+ */
+export async function grantBadge(userId: string, badgeId: string) {
+  const [badge, existing] = await Promise.all([
+    prisma.badge.findUnique({ where: { badgeId } }),
+    prisma.userBadge.findUnique({ where: { userId_badgeId: { userId, badgeId } } }),
+  ]);
+
+  if (!badge || existing) return false;
+
+  return awardBadge(userId, badge);
+}
+
+/**
+ * Check every active badge the user has not earned yet
+ */
+export async function checkAndAwardBadges(userId: string) {
+  const badges = await prisma.badge.findMany({
+    where: {
+      isActive: true,
+      userBadges: { none: { userId } },
+    },
+  });
+
+  return awardQualifyingBadges(userId, badges);
+}
+
+/**
+ * Check only the badges a domain event can affect. Failures are logged, so
+ * callers can fire this after their own work without undoing it.
+ */
+export async function awardBadgesForEvent(userId: string, event: BadgeEvent) {
+  try {
+    const badges = await prisma.badge.findMany({
+      where: {
+        isActive: true,
+        userBadges: { none: { userId } },
+        // Legacy criteria badges have no stored triggers; filtered below
+        OR: [{ triggers: { has: event } }, { rule: { equals: Prisma.DbNull } }],
+      },
+    });
+
+    const affected = badges.filter((badge) => {
+      if (badge.rule) return true;
+      const rule = badgeRuleService.getBadgeRule(badge);
+      return rule !== null && badgeRuleService.getTriggers(rule).includes(event);
+    });
+
+    return await awardQualifyingBadges(userId, affected);
+  } catch (error) {
+    logger.error(`Failed to check ${event} badges for user ${userId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Create a badge from an admin-authored rule. Badges without a rule are
+ * never earned automatically, only granted, e.g. as season rewards.
+ */
+export async function createBadge(
+  adminId: string,
+  data: {
+    name: string;
+    description: string;
+    icon: string;
+    rule?: unknown;
+    isActive?: boolean;
+  }
+) {
+  const rule = data.rule === undefined ? null : badgeRuleService.validate(data.rule);
+
+  const badge = await prisma.badge.create({
+    data: {
+      name: data.name,
+      description: data.description,
+      icon: data.icon,
+      isActive: data.isActive ?? true,
+      ...(rule
+        ? { rule: rule as unknown as Prisma.InputJsonValue, triggers: badgeRuleService.getTriggers(rule) }
+        : { criteria: 'GRANTED' }),
+    },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: adminId,
+      action: 'CREATE_BADGE',
+      entity: 'BADGE',
+      entityId: badge.badgeId,
+      metadata: { name: badge.name, rule: badge.rule },
+    },
+  });
+
+  return badge;
+}
+
+/**
+ * Update a badge; a new rule replaces any legacy criteria
+ */
+export async function updateBadge(
+  badgeId: string,
+  adminId: string,
+  data: {
+    name?: string;
+    description?: string;
+    icon?: string;
+    rule?: unknown;
+    isActive?: boolean;
+  }
+) {
+  const existing = await prisma.badge.findUnique({ where: { badgeId } });
+  if (!existing) throw new AppError('Badge not found', 404);
+
+  const update: Prisma.BadgeUpdateInput = {
+    name: data.name,
+    description: data.description,
+    icon: data.icon,
+    isActive: data.isActive,
+  };
+
+  if (data.rule !== undefined) {
+    const rule = badgeRuleService.validate(data.rule);
+    update.rule = rule as unknown as Prisma.InputJsonValue;
+    update.triggers = badgeRuleService.getTriggers(rule);
+    update.criteria = 'RULE';
+    update.threshold = 0;
+  }
+
+  const badge = await prisma.badge.update({ where: { badgeId }, data: update });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: adminId,
+      action: 'UPDATE_BADGE',
+      entity: 'BADGE',
+      entityId: badgeId,
+      metadata: { updates: data as Prisma.InputJsonValue },
+    },
+  });
+
+  return badge;
+}
+
+/**
+ * All badges with how many users earned each, for admins
+ */
+export async function getBadges() {
+  const badges = await prisma.badge.findMany({
+    include: { _count: { select: { userBadges: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return badges.map(({ _count, ...badge }) => ({
+    ...badge,
+    rule: badgeRuleService.getBadgeRule(badge),
+    earnedCount: _count.userBadges,
+  }));
+}
+
 /**
  * Get leaderboard - Top users by various metrics
  */
 export async function getLeaderboard(
-  metric: 'level' | 'coins' | 'rating' | 'swaps' | 'hoursTaught',
-  limit: number = 10
+  metric: LeaderboardMetric,
+  limit: number = 10,
+  location: { city?: string; state?: string } = {}
 ) {
   let orderBy: any;
 
@@ -279,7 +586,9 @@ export async function getLeaderboard(
       orderBy = { coins: 'desc' };
       break;
     case 'rating':
-      orderBy = { rating: 'desc' };
+      // Rank by the lower bound of the reputation interval, so a handful of
+      // glowing reviews can't outrank a long record
+      orderBy = [{ ratingLow: 'desc' }, { rating: 'desc' }];
       break;
     case 'swaps':
       orderBy = { completedSwaps: 'desc' };
@@ -295,37 +604,65 @@ export async function getLeaderboard(
     where: {
       status: 'ACTIVE',
       emailVerified: true,
+      ...locationWhere(location),
     },
-    select: {
-      userId: true,
-      name: true,
-      avatar: true,
-      level: true,
-      coins: true,
-      rating: true,
-      completedSwaps: true,
-      totalHoursTaught: true,
-      totalHoursLearned: true,
-      experiencePoints: true,
-      city: true,
-      state: true,
-    },
+    select: { ...leaderboardUserSelect, privacySettings: privacySelect },
     orderBy,
     take: limit,
   });
 
-  return users.map((user, index) => ({
+  return privacyService.maskLocations(users).map((user, index) => ({
     rank: index + 1,
     ...user,
   }));
 }
 
+/**
+ * Users in a state or city, leaving out those who hide that part of their
+ * location
+ */
+function locationWhere(location: { city?: string; state?: string }): Prisma.UserWhereInput {
+  const conditions: Prisma.UserWhereInput[] = [];
+  if (location.state) {
+    conditions.push(
+      { state: { equals: location.state, mode: 'insensitive' } },
+      privacyService.locationFilterableWhere('state')
+    );
+  }
+  if (location.city) {
+    conditions.push(
+      { city: { equals: location.city, mode: 'insensitive' } },
+      privacyService.locationFilterableWhere('city')
+    );
+  }
+  return conditions.length > 0 ? { AND: conditions } : {};
+}
+
+function allTimeMetricValue(
+  user: { level: number; coins: number; rating: number; completedSwaps: number; totalHoursTaught: number },
+  metric: LeaderboardMetric
+): number {
+  switch (metric) {
+    case 'level':
+      return user.level;
+    case 'coins':
+      return user.coins;
+    case 'rating':
+      return user.rating;
+    case 'swaps':
+      return user.completedSwaps;
+    default:
+      return user.totalHoursTaught;
+  }
+}
+
 /**
  * Get user's rank in a specific leaderboard
  */
 export async function getUserRank(
   userId: string,
-  metric: 'level' | 'coins' | 'rating' | 'swaps' | 'hoursTaught'
+  metric: LeaderboardMetric,
+  location: { city?: string; state?: string } = {}
 ) {
   const user = await prisma.user.findUnique({
     where: { userId },
@@ -333,6 +670,18 @@ export async function getUserRank(
 
   if (!user) throw new Error('User not found');
 
+  // Platform-wide ranks come from the Redis mirror when it is synced
+  if (!location.city && !location.state) {
+    const rank = await leaderboardService.getAllTimeRank(user, metric);
+    if (rank !== null) {
+      return {
+        rank,
+        metricValue: allTimeMetricValue(user, metric),
+        metric,
+      };
+    }
+  }
+
   let metricValue: number;
   let countField: any;
 
@@ -352,7 +701,12 @@ export async function getUserRank(
       break;
     case 'rating':
       metricValue = user.rating;
-      countField = { rating: { gt: user.rating } };
+      countField = [
+        { ratingLow: { gt: user.ratingLow } },
+        {
+          AND: [{ ratingLow: user.ratingLow }, { rating: { gt: user.rating } }],
+        },
+      ];
       break;
     case 'swaps':
       metricValue = user.completedSwaps;
@@ -372,6 +726,7 @@ export async function getUserRank(
       where: {
         status: 'ACTIVE',
         emailVerified: true,
+        ...locationWhere(location),
         OR: countField,
       },
     })) + 1;
@@ -387,8 +742,14 @@ export const gamificationService = {
   awardXP,
   awardCoins,
   deductCoins,
+  getCoinTransactions,
   getUserStats,
   checkAndAwardBadges,
+  awardBadgesForEvent,
+  grantBadge,
+  createBadge,
+  updateBadge,
+  getBadges,
   getLeaderboard,
   getUserRank,
   XP_PER_LEVEL,
@@ -0,0 +1,703 @@
+/**
+ * Leaderboard Service
+ * Weekly, monthly and seasonal rankings computed from activity inside the
+ * window, platform-wide or scoped to a state, a city or a skill category.
+ *
+ * Rankings live in Redis sorted sets, one per metric, window and scope, so a
+ * user's rank is a score lookup plus a count of higher scores. A window is
+ * built from the database on first read; completed swaps are then added as
+ * they happen, at most once each. A nightly rebuild repairs drift, and
+ * without Redis the same rankings are computed from the database.
+ * All-time rankings of user columns are mirrored into Redis for getUserRank.
+ */
+
+import { LocationPrecision, Prisma, Season } from '@prisma/client';
+import prisma from '../config/database';
+import { redis } from '../config/redis';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { privacyService, privacySelect } from './privacy.service';
+
+export type LeaderboardMetric = 'level' | 'coins' | 'rating' | 'swaps' | 'hoursTaught';
+
+export type LeaderboardPeriod = 'all' | 'week' | 'month' | 'season';
+
+// Metrics that can be counted from activity inside a window
+export const WINDOWED_METRICS = ['swaps', 'hoursTaught'] as const;
+
+export type WindowedMetric = (typeof WINDOWED_METRICS)[number];
+
+// At most one of a location or a category; city also needs its state
+export interface LeaderboardScope {
+  city?: string;
+  state?: string;
+  categoryId?: string;
+}
+
+export interface LeaderboardWindow {
+  id: string; // e.g. "week:2026-10-12", "month:2026-10", "season:<seasonId>"
+  period: Exclude<LeaderboardPeriod, 'all'>;
+  start: Date;
+  end: Date; // Exclusive
+}
+
+export interface WindowedLeaderboardParams {
+  metric: WindowedMetric;
+  period: Exclude<LeaderboardPeriod, 'all'>;
+  scope?: LeaderboardScope;
+  seasonId?: string;
+  limit?: number;
+}
+
+// One party's share of a completed swap
+interface SwapContribution {
+  swapId: string;
+  userId: string;
+  completedAt: Date;
+  hours: number;
+  scopeKeys: string[];
+}
+
+// User columns ranked on all-time leaderboards
+export interface AllTimeStats {
+  userId: string;
+  status: string;
+  emailVerified: boolean;
+  level: number;
+  experiencePoints: number;
+  coins: number;
+  rating: number;
+  ratingLow: number;
+  completedSwaps: number;
+  totalHoursTaught: number;
+}
+
+interface RankedScore {
+  userId: string;
+  score: number;
+  rank: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Swaps completed this long before a rebuild started may commit after its
+// database read, so the rebuild replays them
+const REBUILD_REPLAY_MS = 5 * 60 * 1000;
+const ALL_TIME_SYNC_BATCH_SIZE = 1000;
+
+// How long a window's sets outlive the window; seasons are archived in the database
+const WINDOW_RETENTION_DAYS = { week: 35, month: 100, season: 30 };
+
+export const leaderboardUserSelect = {
+  userId: true,
+  name: true,
+  avatar: true,
+  level: true,
+  coins: true,
+  rating: true,
+  ratingLow: true,
+  ratingHigh: true,
+  completedSwaps: true,
+  totalHoursTaught: true,
+  totalHoursLearned: true,
+  experiencePoints: true,
+  city: true,
+  state: true,
+} as const;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const boardKey = (metric: LeaderboardMetric, windowId: string, scopeKey: string) =>
+  `leaderboard:${metric}:${windowId}:${scopeKey}`;
+// Every board set of a window, for finding sets a rebuild no longer writes
+const windowBoardPattern = (windowId: string) => `leaderboard:*:${windowId}:*`;
+// Marks a window as built; until then its sets are not read or added to
+const builtKey = (windowId: string) => `leaderboard:built:${windowId}`;
+// Swaps already counted in a window, so none is added twice
+const recordedKey = (windowId: string) => `leaderboard:recorded:${windowId}`;
+
+/**
+ * The set suffix of a scope
+ */
+function scopeKeyOf(scope: LeaderboardScope = {}): string {
+  if (scope.categoryId) return `category:${scope.categoryId}`;
+  if (scope.city) return `city:${normalize(scope.state!)}:${normalize(scope.city)}`;
+  if (scope.state) return `state:${normalize(scope.state)}`;
+  return 'global';
+}
+
+/**
+ * Scopes a user ranks in, leaving out the parts of their location they hide
+ */
+function locationScopeKeys(user: {
+  city: string | null;
+  state: string | null;
+  privacySettings?: { locationPrecision: LocationPrecision } | null;
+}): string[] {
+  const masked = privacyService.maskLocation(
+    { city: user.city, state: user.state },
+    user.privacySettings?.locationPrecision
+  );
+  const keys = ['global'];
+  if (masked.state) {
+    keys.push(scopeKeyOf({ state: masked.state }));
+    if (masked.city) keys.push(scopeKeyOf({ state: masked.state, city: masked.city }));
+  }
+  return keys;
+}
+
+/**
+ * Competition ranking ("1, 1, 3") of scores sorted highest first
+ */
+function rankScores(sorted: Array<{ userId: string; score: number }>): RankedScore[] {
+  const ranked: RankedScore[] = [];
+  sorted.forEach((entry, index) => {
+    const previous = ranked[index - 1];
+    const rank = previous && previous.score === entry.score ? previous.rank : index + 1;
+    ranked.push({ ...entry, rank });
+  });
+  return ranked;
+}
+
+class LeaderboardService {
+  /**
+   * Check a scope and return it trimmed. Throws a 400 for unusable scopes.
+   */
+  validateScope(scope: LeaderboardScope): LeaderboardScope {
+    const city = scope.city?.trim() || undefined;
+    const state = scope.state?.trim() || undefined;
+    const categoryId = scope.categoryId?.trim() || undefined;
+
+    if (categoryId && (city || state)) {
+      throw new AppError('Scope a leaderboard by a location or by a category, not both', 400);
+    }
+    if (city && !state) {
+      throw new AppError('A city scope also needs its state', 400);
+    }
+    return { city, state, categoryId };
+  }
+
+  /**
+   * The week (from Monday, UTC) or calendar month (UTC) containing a time
+   */
+  getWindow(period: 'week' | 'month', at: Date = new Date()): LeaderboardWindow {
+    if (period === 'week') {
+      const start = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      return {
+        id: `week:${start.toISOString().slice(0, 10)}`,
+        period,
+        start,
+        end: new Date(start.getTime() + 7 * DAY_MS),
+      };
+    }
+
+    const start = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+    return {
+      id: `month:${start.toISOString().slice(0, 7)}`,
+      period,
+      start,
+      end: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  getSeasonWindow(season: Pick<Season, 'seasonId' | 'startsAt' | 'endsAt'>): LeaderboardWindow {
+    return {
+      id: `season:${season.seasonId}`,
+      period: 'season',
+      start: season.startsAt,
+      end: season.endsAt,
+    };
+  }
+
+  /**
+   * Add a completed swap to the week, month and season rankings of both
+   * parties. Windows that are not built yet are skipped, since building
+   * reads the swap from the database, and a swap is only added once per
+   * window. Failures are logged; the nightly rebuild catches up.
+   */
+  async recordSwapCompleted(swapId: string) {
+    try {
+      if (!redis.isReady()) return;
+
+      const contributions = await this.loadSwapContributions({ swapId });
+      if (contributions.length === 0) return;
+
+      const { completedAt } = contributions[0];
+      const seasons = await prisma.season.findMany({
+        where: { startsAt: { lte: completedAt }, endsAt: { gt: completedAt }, finalizedAt: null },
+        select: { seasonId: true, startsAt: true, endsAt: true },
+      });
+      const windows = [
+        this.getWindow('week', completedAt),
+        this.getWindow('month', completedAt),
+        ...seasons.map((season) => this.getSeasonWindow(season)),
+      ];
+
+      for (const window of windows) {
+        if (!(await redis.exists(builtKey(window.id)))) continue;
+        if (!(await redis.zAddNew(recordedKey(window.id), swapId, completedAt.getTime()))) {
+          continue;
+        }
+        await redis.expire(recordedKey(window.id), this.ttlSeconds(window));
+
+        for (const contribution of contributions) {
+          for (const scopeKey of contribution.scopeKeys) {
+            const swapsKey = boardKey('swaps', window.id, scopeKey);
+            const hoursKey = boardKey('hoursTaught', window.id, scopeKey);
+
+            await redis.zIncrBy(swapsKey, contribution.userId, 1);
+            await redis.zIncrBy(hoursKey, contribution.userId, contribution.hours);
+            await redis.expire(swapsKey, this.ttlSeconds(window));
+            await redis.expire(hoursKey, this.ttlSeconds(window));
+          }
+        }
+      }
+    } catch (error) {
+      logger.error(`Failed to add swap ${swapId} to leaderboards:`, error);
+    }
+  }
+
+  /**
+   * Recompute every set of a window from the database. Each set is written
+   * under a temporary key and renamed, so readers never see it half built,
+   * and sets of scopes left without activity are deleted. Swaps recorded
+   * while the rebuild ran are replayed afterwards.
+   */
+  async rebuildWindow(window: LeaderboardWindow): Promise<number> {
+    if (!redis.isReady()) return 0;
+
+    const startedAt = new Date();
+    const contributions = await this.loadSwapContributions({
+      completedAt: { gte: window.start, lt: window.end },
+    });
+    const scores = this.accumulate(contributions);
+    const written = new Set<string>();
+
+    const replace = async (key: string, members: Array<{ value: string; score: number }>) => {
+      const buildKey = `${key}:rebuild`;
+      await redis.del(buildKey);
+      await redis.zAddMany(buildKey, members);
+      await redis.rename(buildKey, key);
+      await redis.expire(key, this.ttlSeconds(window));
+    };
+
+    for (const metric of WINDOWED_METRICS) {
+      for (const [scopeKey, byUser] of scores[metric]) {
+        const key = boardKey(metric, window.id, scopeKey);
+        await replace(
+          key,
+          [...byUser].map(([userId, score]) => ({ value: userId, score }))
+        );
+        written.add(key);
+      }
+    }
+
+    const recorded = new Map(contributions.map((c) => [c.swapId, c.completedAt.getTime()]));
+    if (recorded.size > 0) {
+      await replace(
+        recordedKey(window.id),
+        [...recorded].map(([swapId, completedAt]) => ({ value: swapId, score: completedAt }))
+      );
+    } else {
+      await redis.del(recordedKey(window.id));
+    }
+
+    for (const key of await redis.scanKeys(windowBoardPattern(window.id))) {
+      if (!written.has(key)) await redis.del(key);
+    }
+    await redis.set(builtKey(window.id), startedAt.toISOString(), this.ttlSeconds(window));
+
+    // Increments that landed on the replaced sets, or swaps that committed
+    // after the read, are added now; swaps already counted are skipped
+    const recent = await prisma.swap.findMany({
+      where: {
+        status: 'COMPLETED',
+        completedAt: {
+          gte: new Date(Math.max(window.start.getTime(), startedAt.getTime() - REBUILD_REPLAY_MS)),
+          lt: window.end,
+        },
+      },
+      select: { swapId: true },
+    });
+    for (const { swapId } of recent) {
+      await this.recordSwapCompleted(swapId);
+    }
+
+    logger.info(`Rebuilt ${window.id} leaderboards`);
+    return scores.swaps.size;
+  }
+
+  /**
+   * Rebuild the current week, month and running seasons
+   */
+  async rebuildCurrentWindows(now: Date = new Date()) {
+    const seasons = await prisma.season.findMany({
+      where: { startsAt: { lte: now }, finalizedAt: null },
+      select: { seasonId: true, startsAt: true, endsAt: true },
+    });
+
+    for (const window of [
+      this.getWindow('week', now),
+      this.getWindow('month', now),
+      ...seasons.map((season) => this.getSeasonWindow(season)),
+    ]) {
+      try {
+        await this.rebuildWindow(window);
+      } catch (error) {
+        logger.error(`Failed to rebuild ${window.id} leaderboards:`, error);
+      }
+    }
+  }
+
+  /**
+   * Full ranking of a window and scope, highest first
+   */
+  async getRanking(
+    metric: WindowedMetric,
+    window: LeaderboardWindow,
+    scope: LeaderboardScope = {}
+  ): Promise<RankedScore[]> {
+    const scores = this.accumulate(
+      await this.loadSwapContributions({ completedAt: { gte: window.start, lt: window.end } })
+    );
+    const byUser = scores[metric].get(scopeKeyOf(scope)) ?? new Map<string, number>();
+
+    return rankScores(
+      [...byUser]
+        .map(([userId, score]) => ({ userId, score }))
+        .sort((a, b) => b.score - a.score)
+    );
+  }
+
+  /**
+   * Top users of a week, month or season
+   */
+  async getLeaderboard(params: WindowedLeaderboardParams) {
+    const { metric, limit = 10 } = params;
+    const scope = this.validateScope(params.scope ?? {});
+    const window = await this.resolveWindow(params.period, params.seasonId);
+    const key = boardKey(metric, window.id, scopeKeyOf(scope));
+
+    let top: RankedScore[];
+    if (await this.ensureBuilt(window)) {
+      top = rankScores(
+        (await redis.zRevRangeWithScores(key, 0, limit - 1)).map(({ value, score }) => ({
+          userId: value,
+          score,
+        }))
+      );
+    } else {
+      top = (await this.getRanking(metric, window, scope)).slice(0, limit);
+    }
+
+    const users = await prisma.user.findMany({
+      where: { userId: { in: top.map((entry) => entry.userId) } },
+      select: { ...leaderboardUserSelect, privacySettings: privacySelect },
+    });
+    const byId = new Map(privacyService.maskLocations(users).map((user) => [user.userId, user]));
+
+    return {
+      window,
+      leaderboard: top
+        .filter((entry) => byId.has(entry.userId))
+        .map((entry) => ({ rank: entry.rank, score: entry.score, ...byId.get(entry.userId)! })),
+    };
+  }
+
+  /**
+   * A user's rank in a week, month or season, platform-wide or in their own
+   * state, city or a category. Rank is null until they have activity there.
+   */
+  async getUserRank(
+    userId: string,
+    params: {
+      metric: WindowedMetric;
+      period: Exclude<LeaderboardPeriod, 'all'>;
+      scope?: 'global' | 'state' | 'city' | 'category';
+      categoryId?: string;
+      seasonId?: string;
+    }
+  ) {
+    const user = await prisma.user.findUnique({
+      where: { userId },
+      select: { city: true, state: true, privacySettings: privacySelect },
+    });
+    if (!user) throw new AppError('User not found', 404);
+
+    const window = await this.resolveWindow(params.period, params.seasonId);
+    const scope = this.userScope(user, params.scope ?? 'global', params.categoryId);
+    const result = {
+      rank: null as number | null,
+      metricValue: 0,
+      metric: params.metric,
+      period: params.period,
+      windowStart: window.start,
+      windowEnd: window.end,
+    };
+
+    // The user hides the part of their location this scope needs
+    if (!scope) return result;
+
+    const key = boardKey(params.metric, window.id, scopeKeyOf(scope));
+    if (await this.ensureBuilt(window)) {
+      const score = await redis.zScore(key, userId);
+      if (score !== null) {
+        result.metricValue = score;
+        result.rank = (await redis.zCountAbove(key, score)) + 1;
+      }
+      return result;
+    }
+
+    const own = (await this.getRanking(params.metric, window, scope)).find(
+      (entry) => entry.userId === userId
+    );
+    if (own) {
+      result.metricValue = own.score;
+      result.rank = own.rank;
+    }
+    return result;
+  }
+
+  /**
+   * Sorted-set score of an all-time metric. Level and rating pack their
+   * tiebreakers (XP, the rating itself) below the main value.
+   */
+  allTimeScore(user: Omit<AllTimeStats, 'userId' | 'status' | 'emailVerified'>, metric: LeaderboardMetric): number {
+    switch (metric) {
+      case 'level':
+        return user.level * 1e12 + user.experiencePoints;
+      case 'coins':
+        return user.coins;
+      case 'rating':
+        return Math.round(user.ratingLow * 1000) * 1e4 + Math.round(user.rating * 1000);
+      case 'swaps':
+        return user.completedSwaps;
+      case 'hoursTaught':
+        return user.totalHoursTaught;
+    }
+  }
+
+  /**
+   * A user's platform-wide all-time rank from Redis, refreshing their own
+   * score first. Null when the sets have not been synced, so the caller
+   * counts rows instead.
+   */
+  async getAllTimeRank(user: AllTimeStats, metric: LeaderboardMetric): Promise<number | null> {
+    const key = boardKey(metric, 'all', 'global');
+    if (!redis.isReady() || !(await redis.exists(key))) return null;
+
+    const score = this.allTimeScore(user, metric);
+    if (user.status === 'ACTIVE' && user.emailVerified) {
+      await redis.zAdd(key, user.userId, score);
+    }
+    return (await redis.zCountAbove(key, score)) + 1;
+  }
+
+  /**
+   * Mirror the all-time user columns of active, verified users into Redis
+   */
+  async syncAllTime(): Promise<number> {
+    if (!redis.isReady()) return 0;
+
+    const metrics: LeaderboardMetric[] = ['level', 'coins', 'rating', 'swaps', 'hoursTaught'];
+    for (const metric of metrics) {
+      await redis.del(`${boardKey(metric, 'all', 'global')}:rebuild`);
+    }
+
+    let synced = 0;
+    let cursor: string | undefined;
+    for (;;) {
+      const users = await prisma.user.findMany({
+        where: { status: 'ACTIVE', emailVerified: true },
+        select: {
+          userId: true,
+          level: true,
+          experiencePoints: true,
+          coins: true,
+          rating: true,
+          ratingLow: true,
+          completedSwaps: true,
+          totalHoursTaught: true,
+        },
+        orderBy: { userId: 'asc' },
+        take: ALL_TIME_SYNC_BATCH_SIZE,
+        ...(cursor && { cursor: { userId: cursor }, skip: 1 }),
+      });
+      if (users.length === 0) break;
+
+      for (const metric of metrics) {
+        await redis.zAddMany(
+          `${boardKey(metric, 'all', 'global')}:rebuild`,
+          users.map((user) => ({ value: user.userId, score: this.allTimeScore(user, metric) }))
+        );
+      }
+
+      synced += users.length;
+      if (users.length < ALL_TIME_SYNC_BATCH_SIZE) break;
+      cursor = users[users.length - 1].userId;
+    }
+
+    for (const metric of metrics) {
+      const key = boardKey(metric, 'all', 'global');
+      if (synced > 0) {
+        await redis.rename(`${key}:rebuild`, key);
+      } else {
+        await redis.del(key);
+      }
+    }
+
+    return synced;
+  }
+
+  /**
+   * Whether the window can be read from Redis, building it first if it has
+   * not been (e.g. after Redis restarted)
+   */
+  private async ensureBuilt(window: LeaderboardWindow): Promise<boolean> {
+    if (!redis.isReady()) return false;
+    if (await redis.exists(builtKey(window.id))) return true;
+
+    await this.rebuildWindow(window);
+    return true;
+  }
+
+  private async resolveWindow(
+    period: Exclude<LeaderboardPeriod, 'all'>,
+    seasonId?: string
+  ): Promise<LeaderboardWindow> {
+    if (period !== 'season') {
+      return this.getWindow(period);
+    }
+
+    const now = new Date();
+    const season = seasonId
+      ? await prisma.season.findUnique({ where: { seasonId } })
+      : await prisma.season.findFirst({
+          where: { startsAt: { lte: now }, endsAt: { gt: now } },
+          orderBy: { startsAt: 'desc' },
+        });
+    if (!season) {
+      throw new AppError(seasonId ? 'Season not found' : 'No season is running', 404);
+    }
+    return this.getSeasonWindow(season);
+  }
+
+  /**
+   * The scope of the user's own location or a category; null when the user
+   * hides the needed part of their location
+   */
+  private userScope(
+    user: {
+      city: string | null;
+      state: string | null;
+      privacySettings: { locationPrecision: LocationPrecision } | null;
+    },
+    scope: 'global' | 'state' | 'city' | 'category',
+    categoryId?: string
+  ): LeaderboardScope | null {
+    if (scope === 'category') {
+      if (!categoryId) throw new AppError('categoryId is required for a category scope', 400);
+      return { categoryId };
+    }
+    if (scope === 'global') return {};
+
+    const masked = privacyService.maskLocation(
+      { city: user.city, state: user.state },
+      user.privacySettings?.locationPrecision
+    );
+    if (!masked.state || (scope === 'city' && !masked.city)) return null;
+    return scope === 'city' ? { state: masked.state, city: masked.city! } : { state: masked.state };
+  }
+
+  /**
+   * Each eligible party's share of the completed swaps matching a filter,
+   * with the scopes it counts in. Both parties teach in a swap, so each
+   * counts toward the category of the skill they taught.
+   */
+  private async loadSwapContributions(where: Prisma.SwapWhereInput): Promise<SwapContribution[]> {
+    const swaps = await prisma.swap.findMany({
+      where: { ...where, status: 'COMPLETED' },
+      select: {
+        initiatorId: true,
+        receiverId: true,
+        initiatorSkillId: true,
+        receiverSkillId: true,
+        duration: true,
+        completedAt: true,
+        swapId: true,
+      },
+    });
+    if (swaps.length === 0) return [];
+
+    const [users, skills] = await Promise.all([
+      prisma.user.findMany({
+        where: {
+          userId: { in: [...new Set(swaps.flatMap((s) => [s.initiatorId, s.receiverId]))] },
+          status: 'ACTIVE',
+          emailVerified: true,
+        },
+        select: { userId: true, city: true, state: true, privacySettings: privacySelect },
+      }),
+      prisma.skill.findMany({
+        where: { skillId: { in: [...new Set(swaps.flatMap((s) => [s.initiatorSkillId, s.receiverSkillId]))] } },
+        select: { skillId: true, categoryId: true },
+      }),
+    ]);
+    const locationKeys = new Map(users.map((user) => [user.userId, locationScopeKeys(user)]));
+    const categoryOf = new Map(skills.map((skill) => [skill.skillId, skill.categoryId]));
+
+    const contributions: SwapContribution[] = [];
+    for (const swap of swaps) {
+      if (!swap.completedAt) continue;
+
+      for (const [userId, taughtSkillId] of [
+        [swap.initiatorId, swap.initiatorSkillId],
+        [swap.receiverId, swap.receiverSkillId],
+      ]) {
+        const scopeKeys = locationKeys.get(userId);
+        if (!scopeKeys) continue;
+
+        const categoryId = categoryOf.get(taughtSkillId);
+        contributions.push({
+          swapId: swap.swapId,
+          userId,
+          completedAt: swap.completedAt,
+          hours: (swap.duration ?? 0) / 60,
+          scopeKeys: categoryId ? [...scopeKeys, scopeKeyOf({ categoryId })] : scopeKeys,
+        });
+      }
+    }
+    return contributions;
+  }
+
+  /**
+   * Sum contributions into metric -> scope -> user -> score
+   */
+  private accumulate(contributions: SwapContribution[]) {
+    const scores: Record<WindowedMetric, Map<string, Map<string, number>>> = {
+      swaps: new Map(),
+      hoursTaught: new Map(),
+    };
+
+    const add = (metric: WindowedMetric, scopeKey: string, userId: string, amount: number) => {
+      const byUser = scores[metric].get(scopeKey) ?? new Map<string, number>();
+      byUser.set(userId, (byUser.get(userId) ?? 0) + amount);
+      scores[metric].set(scopeKey, byUser);
+    };
+
+    for (const contribution of contributions) {
+      for (const scopeKey of contribution.scopeKeys) {
+        add('swaps', scopeKey, contribution.userId, 1);
+        add('hoursTaught', scopeKey, contribution.userId, contribution.hours);
+      }
+    }
+    return scores;
+  }
+
+  private ttlSeconds(window: LeaderboardWindow): number {
+    const expiresAt = window.end.getTime() + WINDOW_RETENTION_DAYS[window.period] * DAY_MS;
+    return Math.max(Math.ceil((expiresAt - Date.now()) / 1000), 60);
+  }
+}
+
+export const leaderboardService = new LeaderboardService();
@@ -1,5 +1,9 @@
 import prisma from '../config/database';
-import { SkillLevel } from '@prisma/client';
+import { LocationPrecision, Prisma, SkillLevel } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { distanceKm, getBoundingBox, hasCoordinates } from '../utils/geo';
+import { blockService } from './block.service';
+import { privacyService, privacySelect, DEFAULT_PRIVACY } from './privacy.service';
 
 interface MatchCriteria {
   userId: string;
@@ -7,31 +11,92 @@ interface MatchCriteria {
   city?: string;
   state?: string;
   minRating?: number;
-  maxDistance?: number;
+  maxDistanceKm?: number;
   proficiencyLevel?: SkillLevel;
   remoteOnly?: boolean;
+  sortBy?: MatchSort;
 }
 
+export type MatchSort = 'score' | 'distance';
+
 interface MatchScore {
   userId: string;
   score: number;
+  distance: number | null; // Kilometres, null when either side has no coordinates
   matchReasons: string[];
   user: any;
   matchedSkills: any[];
 }
 
+// Location score by distance band (km), 25 points max
+const DISTANCE_SCORE_BANDS: Array<{ maxKm: number; score: number }> = [
+  { maxKm: 5, score: 25 },
+  { maxKm: 15, score: 22 },
+  { maxKm: 30, score: 18 },
+  { maxKm: 60, score: 14 },
+  { maxKm: 150, score: 10 },
+  { maxKm: 500, score: 7 },
+];
+
+// Most candidates loaded per query when ranking by distance without a radius
+const MAX_DISTANCE_SORT_CANDIDATES = 1000;
+
+// Users sharing only their city get distances rounded up to this step (km)
+const CITY_DISTANCE_STEP_KM = 5;
+
+// Profile fields returned with matches; the rest of the user row stays private
+const PUBLIC_USER_FIELDS = [
+  'userId',
+  'name',
+  'avatar',
+  'bio',
+  'city',
+  'state',
+  'level',
+  'rating',
+  'ratingLow',
+  'ratingHigh',
+  'completedSwaps',
+  'totalHoursTaught',
+  'totalHoursLearned',
+  'lastActive',
+  'createdAt',
+] as const;
+
+/**
+ * Users whose coordinates fall in the box around a point
+ */
+const boundingBoxWhere = (
+  center: { latitude: number; longitude: number },
+  radiusKm: number
+): Prisma.UserWhereInput => {
+  const box = getBoundingBox(center, radiusKm);
+  return {
+    latitude: { gte: box.minLatitude, lte: box.maxLatitude },
+    longitude: box.longitudeBounded
+      ? { gte: box.minLongitude, lte: box.maxLongitude }
+      : { not: null },
+  };
+};
+
 class MatchingService {
   /**
    * Find potential skill swap matches for a user
    * Algorithm considers:
    * - Complementary skills (user wants to learn what other teaches, vice versa)
-   * - Location proximity (same city > same state > remote)
+   * - Location proximity (distance from stored coordinates, falling back to city/state)
    * - Skill level compatibility
-   * - User ratings
+   * - User reputation (lower bound of its confidence interval)
    * - Active status
    */
   async findMatches(criteria: MatchCriteria, limit: number = 20): Promise<MatchScore[]> {
-    const { userId, skillId, city, state, minRating = 0, remoteOnly = false } = criteria;
+    const {
+      userId,
+      minRating = 0,
+      maxDistanceKm,
+      remoteOnly = false,
+      sortBy = 'score',
+    } = criteria;
 
     // Get user's skills
     const userSkills = await prisma.userSkill.findMany({
@@ -65,32 +130,67 @@ class MatchingService {
     const teachingSkillIds = teachingSkills.map((s) => s.skillId);
     const learningSkillIds = learningSkills.map((s) => s.skillId);
 
-    // Find users who teach what current user wants to learn
-    const potentialMatches = await prisma.user.findMany({
-      where: {
-        userId: { not: userId },
-        status: 'ACTIVE',
-        emailVerified: true,
-        rating: { gte: minRating },
-        AND: [
-          {
-            skills: {
-              some: {
-                skillId: { in: learningSkillIds },
-                skillType: 'TEACH',
-              },
+    if (maxDistanceKm !== undefined && !(Number.isFinite(maxDistanceKm) && maxDistanceKm > 0)) {
+      throw new AppError('maxDistanceKm must be a positive number of kilometres', 400);
+    }
+
+    // Radius filter: prefilter on the indexed lat/lng columns with a bounding
+    // box, then drop the box corners with the exact distance after scoring
+    const radiusFilter = !remoteOnly && maxDistanceKm !== undefined;
+    const locationWhere: Prisma.UserWhereInput = {};
+
+    if (radiusFilter) {
+      if (!hasCoordinates(currentUser)) {
+        throw new AppError('Set your location to filter matches by distance', 400);
+      }
+
+      Object.assign(locationWhere, boundingBoxWhere(currentUser, maxDistanceKm!));
+    }
+
+    // Blocks hide users from each other in both directions, and users can
+    // opt out of matches entirely
+    const [blockedUserIds, discoverable] = await Promise.all([
+      blockService.getBlockedUserIds(userId),
+      privacyService.discoverableWhere(userId),
+    ]);
+
+    // Users who teach what current user wants to learn and vice versa
+    const candidateWhere: Prisma.UserWhereInput = {
+      userId: { not: userId, notIn: blockedUserIds },
+      status: 'ACTIVE',
+      emailVerified: true,
+      rating: { gte: minRating },
+      ...locationWhere,
+      AND: [
+        discoverable,
+        {
+          skills: {
+            some: {
+              skillId: { in: learningSkillIds },
+              skillType: 'TEACH',
             },
           },
-          {
-            skills: {
-              some: {
-                skillId: { in: teachingSkillIds },
-                skillType: 'LEARN',
-              },
+        },
+        {
+          skills: {
+            some: {
+              skillId: { in: teachingSkillIds },
+              skillType: 'LEARN',
             },
           },
-        ],
-      },
+        },
+      ],
+    };
+
+    // Sorting by distance must score the nearest candidates, not whichever
+    // the database returns first, so rank them by their shared coordinates
+    const nearestIds =
+      sortBy === 'distance' && hasCoordinates(currentUser)
+        ? await this.findNearestCandidateIds(candidateWhere, currentUser, limit * 3)
+        : null;
+
+    const potentialMatches = await prisma.user.findMany({
+      where: nearestIds ? { userId: { in: nearestIds } } : candidateWhere,
       include: {
         skills: {
           include: {
@@ -101,6 +201,7 @@ class MatchingService {
             },
           },
         },
+        privacySettings: privacySelect,
       },
       take: limit * 3, // Get more to filter and score
     });
@@ -120,13 +221,94 @@ class MatchingService {
         remoteOnly,
       });
 
+      if (radiusFilter && (score.distance === null || score.distance > maxDistanceKm!)) {
+        continue;
+      }
+
       if (score.score > 0) {
         scoredMatches.push(score);
       }
     }
 
-    // Sort by score (highest first) and return top matches
-    return scoredMatches.sort((a, b) => b.score - a.score).slice(0, limit);
+    return scoredMatches.sort(this.getComparator(sortBy)).slice(0, limit);
+  }
+
+  /**
+   * Ids of the candidates nearest to a point by the distance they share,
+   * candidates without a shared distance last. Searches widening boxes (the
+   * distance score bands) until one holds enough candidates, so only the
+   * neighbourhood is loaded, never every user.
+   */
+  private async findNearestCandidateIds(
+    where: Prisma.UserWhereInput,
+    from: { latitude: number; longitude: number },
+    take: number
+  ): Promise<string[]> {
+    const select = {
+      userId: true,
+      city: true,
+      state: true,
+      latitude: true,
+      longitude: true,
+      privacySettings: privacySelect,
+    } as const;
+
+    let ranked: Array<{ userId: string; distance: number }> = [];
+
+    for (const { maxKm } of DISTANCE_SCORE_BANDS) {
+      const candidates = await prisma.user.findMany({
+        where: { AND: [where, boundingBoxWhere(from, maxKm)] },
+        select,
+        take: MAX_DISTANCE_SORT_CANDIDATES,
+      });
+
+      ranked = candidates
+        .map((candidate) => {
+          const precision: LocationPrecision =
+            candidate.privacySettings?.locationPrecision ?? DEFAULT_PRIVACY.locationPrecision;
+          const location = this.getSharedLocation(candidate, precision);
+          return {
+            userId: candidate.userId,
+            distance: this.getSharedDistance(from, location, precision) ?? Infinity,
+          };
+        })
+        .sort((a, b) => a.distance - b.distance);
+
+      const withinBand = ranked.filter((candidate) => candidate.distance <= maxKm).length;
+      if (withinBand >= take || candidates.length === MAX_DISTANCE_SORT_CANDIDATES) {
+        break;
+      }
+    }
+
+    const nearestIds = ranked.slice(0, take).map((candidate) => candidate.userId);
+    if (nearestIds.length >= take) {
+      return nearestIds;
+    }
+
+    // Fill up with candidates further away or without coordinates
+    const others = await prisma.user.findMany({
+      where: { AND: [where, { userId: { notIn: nearestIds } }] },
+      select: { userId: true },
+      take: take - nearestIds.length,
+    });
+
+    return [...nearestIds, ...others.map((candidate) => candidate.userId)];
+  }
+
+  /**
+   * Sort by score (highest first), or by distance (nearest first, unknown last)
+   */
+  private getComparator(sortBy: MatchSort) {
+    const byScore = (a: MatchScore, b: MatchScore) => b.score - a.score;
+
+    if (sortBy !== 'distance') return byScore;
+
+    return (a: MatchScore, b: MatchScore) => {
+      if (a.distance === null && b.distance === null) return byScore(a, b);
+      if (a.distance === null) return 1;
+      if (b.distance === null) return -1;
+      return a.distance - b.distance || byScore(a, b);
+    };
   }
 
   /**
@@ -166,30 +348,25 @@ class MatchingService {
       matchedSkills.push(...matchTeachingSkills.map((s: any) => s.skill));
     }
 
-    // 2. Location Proximity (25 points max)
+    // 2. Location Proximity (25 points max), using only as much of the
+    // match's location as they share
+    const precision: LocationPrecision =
+      potentialMatch.privacySettings?.locationPrecision ?? DEFAULT_PRIVACY.locationPrecision;
+    const matchLocation = this.getSharedLocation(potentialMatch, precision);
+    const distance = this.getSharedDistance(currentUser.location, matchLocation, precision);
+
     if (!remoteOnly) {
-      const locationScore = this.calculateLocationScore(currentUser.location, {
-        city: potentialMatch.city,
-        state: potentialMatch.state,
-        latitude: potentialMatch.latitude,
-        longitude: potentialMatch.longitude,
-      });
-      totalScore += locationScore;
-
-      if (locationScore === 25) {
-        matchReasons.push('Same city');
-      } else if (locationScore === 15) {
-        matchReasons.push('Same state');
-      } else if (locationScore === 5) {
-        matchReasons.push('Remote-friendly');
-      }
+      const location = this.calculateLocationScore(currentUser.location, matchLocation, distance);
+      totalScore += location.score;
+      matchReasons.push(location.reason);
     }
 
-    // 3. Rating Score (15 points max)
-    const ratingScore = Math.min((potentialMatch.rating / 5) * 15, 15);
+    // 3. Rating Score (15 points max), ranked by the pessimistic end of the
+    // reputation interval so a couple of glowing reviews don't beat a long record
+    const ratingScore = Math.min((potentialMatch.ratingLow / 5) * 15, 15);
     totalScore += ratingScore;
 
-    if (potentialMatch.rating >= 4.5) {
+    if (potentialMatch.ratingLow >= 4) {
       matchReasons.push('Highly rated teacher');
     }
 
@@ -205,29 +382,71 @@ class MatchingService {
       matchReasons.push('Experienced swapper');
     }
 
-    // Remove sensitive data
-    const { password, ...userWithoutPassword } = potentialMatch;
-
     return {
       userId: potentialMatch.userId,
       score: Math.round(totalScore),
+      distance,
       matchReasons,
-      user: {
-        ...userWithoutPassword,
-        skills: undefined, // Remove to reduce payload size
-      },
+      user: this.toPublicUser(potentialMatch),
       matchedSkills,
     };
   }
 
   /**
-   * Calculate location proximity score
+   * The part of a user's location they share: coordinates for EXACT and
+   * CITY (distances are rounded for CITY), state only for STATE, none for HIDDEN
+   */
+  private getSharedLocation(user: any, precision: LocationPrecision) {
+    const { city, state, latitude, longitude } = user;
+
+    if (precision === 'HIDDEN') {
+      return { city: null, state: null, latitude: null, longitude: null };
+    }
+    if (precision === 'STATE') {
+      return { city: null, state, latitude: null, longitude: null };
+    }
+    return { city, state, latitude, longitude };
+  }
+
+  private getSharedDistance(
+    from: any,
+    to: { latitude: number | null; longitude: number | null },
+    precision: LocationPrecision
+  ): number | null {
+    if (!hasCoordinates(from) || !hasCoordinates(to)) return null;
+
+    const km = distanceKm(from, to);
+    if (precision === 'EXACT') {
+      return Math.round(km * 10) / 10;
+    }
+    return Math.max(CITY_DISTANCE_STEP_KM, Math.ceil(km / CITY_DISTANCE_STEP_KM) * CITY_DISTANCE_STEP_KM);
+  }
+
+  /**
+   * Public profile fields with the location reduced to the user's chosen precision
+   */
+  private toPublicUser(user: any) {
+    const fields = Object.fromEntries(PUBLIC_USER_FIELDS.map((field) => [field, user[field]]));
+    return privacyService.maskLocation(fields, user.privacySettings?.locationPrecision);
+  }
+
+  /**
+   * Calculate location proximity score.
+   * Uses the real distance when both users have coordinates, so neighbouring
+   * cities still count as nearby; otherwise compares city/state names.
    */
   private calculateLocationScore(
     userLocation: any,
-    matchLocation: any
-  ): number {
-    if (!userLocation || !matchLocation) return 5; // Default for remote
+    matchLocation: any,
+    distance: number | null
+  ): { score: number; reason: string } {
+    if (distance !== null) {
+      const band = DISTANCE_SCORE_BANDS.find((b) => distance <= b.maxKm);
+      const label = distance < 1 ? 'Less than 1 km away' : `${Math.round(distance)} km away`;
+      return band ? { score: band.score, reason: label } : { score: 5, reason: 'Remote-friendly' };
+    }
+
+    if (!userLocation || !matchLocation) return { score: 5, reason: 'Remote-friendly' };
 
     // Same city = 25 points
     if (
@@ -235,7 +454,7 @@ class MatchingService {
       matchLocation.city &&
       userLocation.city.toLowerCase() === matchLocation.city.toLowerCase()
     ) {
-      return 25;
+      return { score: 25, reason: 'Same city' };
     }
 
     // Same state = 15 points
@@ -244,11 +463,11 @@ class MatchingService {
       matchLocation.state &&
       userLocation.state.toLowerCase() === matchLocation.state.toLowerCase()
     ) {
-      return 15;
+      return { score: 15, reason: 'Same state' };
     }
 
-    // Different state but has location = 5 points
-    return 5;
+    // Different state = 5 points
+    return { score: 5, reason: 'Remote-friendly' };
   }
 
   /**
@@ -334,6 +553,7 @@ class MatchingService {
             skillType: 'TEACH',
           },
         },
+        AND: [await privacyService.discoverableWhere(userId)],
       },
       include: {
         skills: {
@@ -345,13 +565,14 @@ class MatchingService {
             skill: true,
           },
         },
+        privacySettings: privacySelect,
       },
       take: limit * 2,
     });
 
-    // Score and sort by rating and experience
+    // Score and sort by reputation and experience
     const scoredTeachers = teachers.map((teacher) => {
-      let score = teacher.rating * 20; // Rating contributes 0-100 points
+      let score = teacher.ratingLow * 20; // Reputation lower bound contributes 0-100 points
       score += Math.min(teacher.completedSwaps * 2, 30); // Swaps contribute 0-30 points
       score += Math.min(teacher.totalHoursTaught, 20); // Hours contribute 0-20 points
 
@@ -364,7 +585,7 @@ class MatchingService {
     return scoredTeachers
       .sort((a, b) => b.score - a.score)
       .slice(0, limit)
-      .map(({ score, password, ...teacher }) => teacher);
+      .map((teacher) => ({ ...this.toPublicUser(teacher), skills: teacher.skills }));
   }
 
   /**
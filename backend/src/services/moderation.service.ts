@@ -6,6 +6,9 @@
 import prisma from '../config/database';
 import { ReportType, ReportStatus, ModeratorActionType, UserStatus } from '@prisma/client';
 import { notificationService } from './notification.service';
+import { sessionService } from './session.service';
+import { activityService } from './activity.service';
+import { updateUserRating } from './rating.service';
 import { AppError } from '../middleware/errorHandler';
 
 export interface CreateReportParams {
@@ -20,6 +23,24 @@ export interface CreateReportParams {
   eventId?: string;
 }
 
+export interface CreateReviewDisputeParams {
+  teacherId: string;
+  reviewId: string;
+  reason: string;
+  description?: string;
+  evidence?: string[];
+}
+
+// Uphold keeps the review, hide makes it private, remove deletes it
+export type ReviewDisputeOutcome = 'UPHOLD' | 'HIDE' | 'REMOVE';
+
+export interface ResolveReviewDisputeParams {
+  reportId: string;
+  moderatorId: string;
+  outcome: ReviewDisputeOutcome;
+  notes?: string;
+}
+
 export interface ModeratorActionParams {
   moderatorId: string;
   actionType: ModeratorActionType;
@@ -89,27 +110,201 @@ class ModerationService {
       },
     });
 
-    // Notify moderators (users with MODERATOR or ADMIN role)
-    const moderators = await prisma.user.findMany({
-      where: {
-        role: { in: ['MODERATOR', 'ADMIN'] },
-        status: 'ACTIVE',
-      },
-      select: { userId: true },
+    await this.notifyModerators('New Report', `New ${params.type} report from ${report.reporter.name}`);
+
+    return report;
+  }
+
+  /**
+   * Let the reviewed user dispute a review about them. The dispute joins the
+   * report queue with a snapshot of the swap, its sessions and both parties'
+   * reviews for the moderator to weigh.
+   */
+  async createReviewDispute(params: CreateReviewDisputeParams) {
+    const { teacherId, reviewId, reason, description, evidence } = params;
+
+    const review = await prisma.review.findUnique({
+      where: { reviewId },
+      select: { reviewId: true, swapId: true, studentId: true, teacherId: true, isRevealed: true },
     });
 
-    for (const moderator of moderators) {
-      await notificationService.createNotification({
-        userId: moderator.userId,
-        type: 'SYSTEM',
-        title: 'New Report',
-        message: `New ${params.type} report from ${report.reporter.name}`,
-      });
+    if (!review || !review.isRevealed) {
+      throw new AppError('Review not found', 404);
+    }
+
+    if (review.teacherId !== teacherId) {
+      throw new AppError('You can only dispute reviews about you', 403);
     }
 
+    const existingDispute = await prisma.report.findFirst({
+      where: { type: 'REVIEW_DISPUTE', reviewId },
+      select: { reportId: true },
+    });
+
+    if (existingDispute) {
+      throw new AppError('This review has already been disputed', 400);
+    }
+
+    const swap = await prisma.swap.findUnique({
+      where: { swapId: review.swapId },
+      select: {
+        swapId: true,
+        initiatorId: true,
+        receiverId: true,
+        status: true,
+        scheduledAt: true,
+        completedAt: true,
+        duration: true,
+        sessions: {
+          select: { sessionId: true, startTime: true, endTime: true, duration: true, notes: true },
+          orderBy: { startTime: 'asc' },
+        },
+        reviews: {
+          select: {
+            reviewId: true,
+            studentId: true,
+            teacherId: true,
+            rating: true,
+            comment: true,
+            reply: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    const report = await prisma.report.create({
+      data: {
+        reporterId: teacherId,
+        reportedUserId: review.studentId,
+        type: 'REVIEW_DISPUTE',
+        reason,
+        description,
+        evidence: evidence ? JSON.stringify(evidence) : null,
+        reviewId,
+        // Round-trip through JSON so dates are stored as ISO strings
+        context: swap ? JSON.parse(JSON.stringify({ swap })) : undefined,
+      },
+      include: {
+        reporter: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    });
+
+    await this.notifyModerators('New Review Dispute', `${report.reporter.name} disputed a review: ${reason}`);
+
     return report;
   }
 
+  /**
+   * Settle a review dispute: uphold the review, hide it from the public or
+   * remove it. Both the reviewed user and the reviewer are told the outcome.
+   */
+  async resolveReviewDispute(params: ResolveReviewDisputeParams) {
+    const { reportId, moderatorId, outcome, notes } = params;
+
+    await this.verifyModerator(moderatorId);
+
+    const report = await prisma.report.findUnique({
+      where: { reportId },
+    });
+
+    if (!report || report.type !== 'REVIEW_DISPUTE') {
+      throw new AppError('Review dispute not found', 404);
+    }
+
+    if (report.status === 'RESOLVED' || report.status === 'DISMISSED') {
+      throw new AppError('This dispute has already been resolved', 400);
+    }
+
+    const review = await prisma.review.findUnique({
+      where: { reviewId: report.reviewId! },
+      select: { reviewId: true, studentId: true, teacherId: true },
+    });
+
+    if (!review) {
+      throw new AppError('The disputed review no longer exists', 404);
+    }
+
+    let actionType: ModeratorActionType;
+    switch (outcome) {
+      case 'UPHOLD':
+        actionType = 'DISMISS_REPORT';
+        break;
+
+      case 'HIDE':
+        actionType = 'HIDE_CONTENT';
+        await prisma.review.update({
+          where: { reviewId: review.reviewId },
+          data: { isPublic: false },
+        });
+        break;
+
+      case 'REMOVE':
+        actionType = 'DELETE_CONTENT';
+        await prisma.review.delete({ where: { reviewId: review.reviewId } });
+        break;
+
+      default:
+        throw new AppError(`Unknown dispute outcome: ${outcome}`, 400);
+    }
+
+    if (outcome !== 'UPHOLD') {
+      await activityService.remove('REVIEW_POSTED', review.reviewId);
+      await updateUserRating(review.teacherId);
+    }
+
+    const action = await prisma.moderatorAction.create({
+      data: {
+        moderatorId,
+        reportId,
+        actionType,
+        targetUserId: review.studentId,
+        targetContentId: review.reviewId,
+        targetContentType: 'review',
+        reason: `Review dispute: ${outcome}`,
+        notes,
+      },
+    });
+
+    await prisma.report.update({
+      where: { reportId },
+      data: {
+        status: outcome === 'UPHOLD' ? 'DISMISSED' : 'RESOLVED',
+        resolvedBy: moderatorId,
+        resolvedAt: new Date(),
+        resolution: notes,
+      },
+    });
+
+    const outcomeText = {
+      UPHOLD: 'the review stays as it is',
+      HIDE: 'the review has been hidden from the public',
+      REMOVE: 'the review has been removed',
+    }[outcome];
+    const notesText = notes ? ` Moderator notes: ${notes}` : '';
+
+    await notificationService.createNotification({
+      userId: review.teacherId,
+      type: 'SYSTEM',
+      title: 'Review Dispute Resolved',
+      message: `Your dispute has been reviewed: ${outcomeText}.${notesText}`,
+      data: { reportId, reviewId: review.reviewId, outcome },
+    });
+    await notificationService.createNotification({
+      userId: review.studentId,
+      type: 'SYSTEM',
+      title: 'Review Dispute Resolved',
+      message: `A review you wrote was disputed and has been reviewed by our moderators: ${outcomeText}.${notesText}`,
+      data: { reportId, reviewId: review.reviewId, outcome },
+    });
+
+    return action;
+  }
+
   /**
    * Get all reports with filters
    */
@@ -266,19 +461,7 @@ class ModerationService {
   async executeModeratorAction(params: ModeratorActionParams) {
     const { moderatorId, actionType, targetUserId, reportId, duration, ...actionData } = params;
 
-    // Verify moderator
-    const moderator = await prisma.user.findUnique({
-      where: { userId: moderatorId },
-      select: { role: true, status: true },
-    });
-
-    if (!moderator || moderator.status !== 'ACTIVE') {
-      throw new AppError('Moderator account not active', 403);
-    }
-
-    if (moderator.role !== 'ADMIN' && moderator.role !== 'MODERATOR') {
-      throw new AppError('Insufficient permissions', 403);
-    }
+    await this.verifyModerator(moderatorId);
 
     // Execute action based on type
     switch (actionType) {
@@ -342,6 +525,46 @@ class ModerationService {
     return action;
   }
 
+  /**
+   * Make sure the acting user is an active moderator or admin
+   */
+  private async verifyModerator(moderatorId: string) {
+    const moderator = await prisma.user.findUnique({
+      where: { userId: moderatorId },
+      select: { role: true, status: true },
+    });
+
+    if (!moderator || moderator.status !== 'ACTIVE') {
+      throw new AppError('Moderator account not active', 403);
+    }
+
+    if (moderator.role !== 'ADMIN' && moderator.role !== 'MODERATOR') {
+      throw new AppError('Insufficient permissions', 403);
+    }
+  }
+
+  /**
+   * Notify moderators (users with MODERATOR or ADMIN role)
+   */
+  private async notifyModerators(title: string, message: string) {
+    const moderators = await prisma.user.findMany({
+      where: {
+        role: { in: ['MODERATOR', 'ADMIN'] },
+        status: 'ACTIVE',
+      },
+      select: { userId: true },
+    });
+
+    for (const moderator of moderators) {
+      await notificationService.createNotification({
+        userId: moderator.userId,
+        type: 'SYSTEM',
+        title,
+        message,
+      });
+    }
+  }
+
   /**
    * Ban a user permanently
    */
@@ -351,6 +574,8 @@ class ModerationService {
       data: { status: 'BANNED' },
     });
 
+    await sessionService.revokeAllSessions(userId, 'ACCOUNT_DISABLED');
+
     await notificationService.createNotification({
       userId,
       type: 'SYSTEM',
@@ -370,6 +595,8 @@ class ModerationService {
       data: { status: 'SUSPENDED' },
     });
 
+    await sessionService.revokeAllSessions(userId, 'ACCOUNT_DISABLED');
+
     await notificationService.createNotification({
       userId,
       type: 'SYSTEM',
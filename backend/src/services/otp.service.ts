@@ -1,86 +1,258 @@
 import crypto from 'crypto';
+import { VerificationPurpose, VerificationToken, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
 
-interface OTPData {
-  otp: string;
-  expiresAt: Date;
+export type VerificationFailureReason = 'NOT_FOUND' | 'EXPIRED' | 'MISMATCH' | 'LOCKED';
+
+export interface VerificationResult {
+  valid: boolean;
+  reason?: VerificationFailureReason;
+  attemptsRemaining?: number;
+  token?: VerificationToken;
+}
+
+interface IssueTokenOptions {
+  userId?: string;
+  metadata?: Prisma.InputJsonValue;
 }
 
+/**
+ * Verification tokens are stored hashed in Postgres so they survive restarts
+ * and work across backend instances. Short numeric OTPs are looked up by
+ * identifier and protected by an attempt counter; long link tokens (password
+ * reset, email change) are looked up by their hash.
+ */
 class OTPService {
-  private otpStore: Map<string, OTPData> = new Map();
-  private readonly OTP_EXPIRY_MINUTES = 10;
+  private readonly secret: string;
   private readonly OTP_LENGTH = 6;
+  private readonly MAX_ATTEMPTS = 5;
+  private readonly EXPIRY_MINUTES: Record<VerificationPurpose, number> = {
+    EMAIL_VERIFY: 10,
+    PHONE_VERIFY: 10,
+    PASSWORD_RESET: 60,
+    EMAIL_CHANGE: 60,
+  };
+
+  constructor() {
+    this.secret = process.env.OTP_SECRET || process.env.JWT_SECRET || '';
+
+    if (!this.secret) {
+      throw new Error('OTP_SECRET or JWT_SECRET is required to hash verification tokens');
+    }
+  }
 
   /**
    * Generate a 6-digit OTP
    */
   generateOTP(): string {
-    return crypto.randomInt(100000, 999999).toString();
+    return crypto.randomInt(10 ** (this.OTP_LENGTH - 1), 10 ** this.OTP_LENGTH).toString();
   }
 
   /**
-   * Store OTP for a user (email or phone)
+   * Generate password reset token
    */
-  storeOTP(identifier: string, otp: string): void {
-    const expiresAt = new Date(Date.now() + this.OTP_EXPIRY_MINUTES * 60 * 1000);
-    this.otpStore.set(identifier, { otp, expiresAt });
-
-    // Auto-cleanup after expiry
-    setTimeout(() => {
-      this.otpStore.delete(identifier);
-    }, this.OTP_EXPIRY_MINUTES * 60 * 1000);
+  generateResetToken(): string {
+    return crypto.randomBytes(32).toString('hex');
   }
 
   /**
-   * Verify OTP for a user
+   * Generate, store and return a new OTP for an identifier (email or phone)
    */
-  verifyOTP(identifier: string, otp: string): boolean {
-    const otpData = this.otpStore.get(identifier);
+  async issueOTP(
+    identifier: string,
+    purpose: VerificationPurpose,
+    options: IssueTokenOptions = {}
+  ): Promise<string> {
+    const otp = this.generateOTP();
+    await this.storeToken(identifier, purpose, otp, options);
+    return otp;
+  }
 
-    if (!otpData) {
-      return false; // OTP not found
+  /**
+   * Generate, store and return a new single-use link token
+   */
+  async issueLinkToken(
+    identifier: string,
+    purpose: VerificationPurpose,
+    options: IssueTokenOptions = {}
+  ): Promise<string> {
+    const token = this.generateResetToken();
+    await this.storeToken(identifier, purpose, token, options);
+    return token;
+  }
+
+  /**
+   * Verify and consume an OTP. Wrong guesses count towards a lockout.
+   */
+  async verifyOTP(
+    identifier: string,
+    purpose: VerificationPurpose,
+    otp: string
+  ): Promise<VerificationResult> {
+    const record = await prisma.verificationToken.findFirst({
+      where: { identifier, purpose, consumedAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!record) {
+      return { valid: false, reason: 'NOT_FOUND' };
     }
 
-    if (new Date() > otpData.expiresAt) {
-      this.otpStore.delete(identifier);
-      return false; // OTP expired
+    if (record.expiresAt < new Date()) {
+      return { valid: false, reason: 'EXPIRED' };
     }
 
-    if (otpData.otp !== otp) {
-      return false; // OTP doesn't match
+    // Claim an attempt before comparing, so parallel guesses cannot all slip
+    // under the limit
+    const claimed = await prisma.verificationToken.updateMany({
+      where: { tokenId: record.tokenId, attempts: { lt: record.maxAttempts } },
+      data: { attempts: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      return { valid: false, reason: 'LOCKED', attemptsRemaining: 0 };
     }
 
-    // OTP is valid, remove it from store
-    this.otpStore.delete(identifier);
-    return true;
+    if (!this.matches(otp, record.tokenHash)) {
+      const attemptsRemaining = Math.max(0, record.maxAttempts - record.attempts - 1);
+
+      if (attemptsRemaining === 0) {
+        logger.warn(`Verification locked for ${identifier} (${purpose}) after too many attempts`);
+        return { valid: false, reason: 'LOCKED', attemptsRemaining };
+      }
+
+      return { valid: false, reason: 'MISMATCH', attemptsRemaining };
+    }
+
+    return this.consume(record);
   }
 
   /**
-   * Check if OTP exists for identifier
+   * Verify and consume a link token by its value alone
    */
-  hasOTP(identifier: string): boolean {
-    const otpData = this.otpStore.get(identifier);
-    if (!otpData) return false;
+  async consumeLinkToken(
+    purpose: VerificationPurpose,
+    token: string
+  ): Promise<VerificationResult> {
+    const record = await prisma.verificationToken.findFirst({
+      where: { tokenHash: this.hash(token), purpose, consumedAt: null },
+    });
+
+    if (!record) {
+      return { valid: false, reason: 'NOT_FOUND' };
+    }
 
-    if (new Date() > otpData.expiresAt) {
-      this.otpStore.delete(identifier);
-      return false;
+    if (record.expiresAt < new Date()) {
+      return { valid: false, reason: 'EXPIRED' };
     }
 
-    return true;
+    return this.consume(record);
   }
 
   /**
-   * Generate password reset token
+   * Check if an unexpired, unconsumed token exists for identifier
    */
-  generateResetToken(): string {
-    return crypto.randomBytes(32).toString('hex');
+  async hasActiveToken(identifier: string, purpose: VerificationPurpose): Promise<boolean> {
+    const count = await prisma.verificationToken.count({
+      where: {
+        identifier,
+        purpose,
+        consumedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Invalidate every outstanding token for an identifier and purpose
+   */
+  async revokeTokens(identifier: string, purpose: VerificationPurpose): Promise<number> {
+    const result = await prisma.verificationToken.updateMany({
+      where: { identifier, purpose, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+    return result.count;
+  }
+
+  /**
+   * Delete expired and consumed tokens older than the retention window
+   */
+  async cleanupExpiredTokens(retentionDays: number = 1): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const result = await prisma.verificationToken.deleteMany({
+      where: {
+        OR: [{ expiresAt: { lt: cutoff } }, { consumedAt: { lt: cutoff } }],
+      },
+    });
+
+    return result.count;
   }
 
   /**
-   * Get OTP expiry time in minutes
+   * Get token expiry time in minutes for a purpose
    */
-  getExpiryMinutes(): number {
-    return this.OTP_EXPIRY_MINUTES;
+  getExpiryMinutes(purpose: VerificationPurpose = 'EMAIL_VERIFY'): number {
+    return this.EXPIRY_MINUTES[purpose];
+  }
+
+  /**
+   * Store a hashed token, replacing any outstanding one for the same purpose
+   */
+  private async storeToken(
+    identifier: string,
+    purpose: VerificationPurpose,
+    token: string,
+    options: IssueTokenOptions
+  ): Promise<void> {
+    const expiresAt = new Date(Date.now() + this.getExpiryMinutes(purpose) * 60 * 1000);
+
+    await prisma.$transaction([
+      prisma.verificationToken.updateMany({
+        where: { identifier, purpose, consumedAt: null },
+        data: { consumedAt: new Date() },
+      }),
+      prisma.verificationToken.create({
+        data: {
+          identifier,
+          purpose,
+          userId: options.userId,
+          metadata: options.metadata,
+          tokenHash: this.hash(token),
+          maxAttempts: this.MAX_ATTEMPTS,
+          expiresAt,
+        },
+      }),
+    ]);
+  }
+
+  /**
+   * Mark a token used. The conditional update makes consumption single-use
+   * even when two requests race.
+   */
+  private async consume(record: VerificationToken): Promise<VerificationResult> {
+    const result = await prisma.verificationToken.updateMany({
+      where: { tokenId: record.tokenId, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      return { valid: false, reason: 'NOT_FOUND' };
+    }
+
+    return { valid: true, token: record };
+  }
+
+  private hash(token: string): string {
+    return crypto.createHmac('sha256', this.secret).update(token).digest('hex');
+  }
+
+  private matches(token: string, tokenHash: string): boolean {
+    const candidate = Buffer.from(this.hash(token), 'hex');
+    const expected = Buffer.from(tokenHash, 'hex');
+    return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
   }
 }
 
@@ -0,0 +1,248 @@
+/**
+ * Presence Service
+ * Online status, connected sockets, typing indicators and last-seen times,
+ * shared between backend instances through Redis
+ *
+ * Each instance refreshes a heartbeat score for the sockets it holds, so
+ * entries left behind by a crashed instance expire on their own. Without
+ * Redis the same state is kept in memory for a single instance.
+ */
+
+import { Server as SocketIOServer } from 'socket.io';
+import { redis } from '../config/redis';
+import { getSocketUser } from '../middleware/socketAuth';
+import { logger } from '../utils/logger';
+
+export interface UserPresence {
+  userId: string;
+  socketIds: string[];
+  lastSeen: Date;
+}
+
+const ONLINE_KEY = 'presence:online';
+const LAST_SEEN_KEY = 'presence:last-seen';
+const socketsKey = (userId: string) => `presence:sockets:${userId}`;
+const typingKey = (conversationId: string) => `presence:typing:${conversationId}`;
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// A socket without a heartbeat for this long belongs to a dead instance
+const PRESENCE_TTL_MS = 90 * 1000;
+// Typing indicators clear themselves if the stop event never arrives
+const TYPING_TTL_MS = 10 * 1000;
+
+// Prune dead sockets, add this one and report whether it is the user's first,
+// in one step so simultaneous connects cannot both come online
+const ADD_SOCKET_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', '(' .. ARGV[3])
+local wasOnline = redis.call('ZCARD', KEYS[1]) > 0
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+redis.call('EXPIRE', KEYS[1], ARGV[4])
+redis.call('ZADD', KEYS[2], ARGV[2], ARGV[5])
+if wasOnline then return 0 end
+return 1
+`;
+
+// Remove a socket and, if it was the user's last live one, mark them offline
+const REMOVE_SOCKET_SCRIPT = `
+redis.call('ZREM', KEYS[1], ARGV[1])
+if redis.call('ZCOUNT', KEYS[1], ARGV[2], '+inf') > 0 then return 0 end
+redis.call('ZREM', KEYS[2], ARGV[3])
+redis.call('HSET', KEYS[3], ARGV[3], ARGV[4])
+return 1
+`;
+
+class PresenceService {
+  // In-memory fallback: userId -> socketId -> last heartbeat
+  private readonly localSockets = new Map<string, Map<string, number>>();
+  private readonly localLastSeen = new Map<string, Date>();
+  // conversationId -> userId -> typing expiry
+  private readonly localTyping = new Map<string, Map<string, number>>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Record a new socket. Returns true when it is the user's first live
+   * socket, i.e. the user just came online.
+   */
+  async addSocket(userId: string, socketId: string): Promise<boolean> {
+    const now = Date.now();
+
+    if (redis.isReady()) {
+      const cameOnline = await redis.evalScript(
+        ADD_SOCKET_SCRIPT,
+        [socketsKey(userId), ONLINE_KEY],
+        [
+          socketId,
+          String(now),
+          String(now - PRESENCE_TTL_MS),
+          String((PRESENCE_TTL_MS * 2) / 1000),
+          userId,
+        ]
+      );
+      return cameOnline === 1;
+    }
+
+    const sockets = this.localSockets.get(userId) ?? new Map<string, number>();
+    const wasOnline = sockets.size > 0;
+    sockets.set(socketId, now);
+    this.localSockets.set(userId, sockets);
+    return !wasOnline;
+  }
+
+  /**
+   * Forget a socket. Returns true when it was the user's last live socket,
+   * in which case their last-seen time is recorded.
+   */
+  async removeSocket(userId: string, socketId: string): Promise<boolean> {
+    const now = Date.now();
+
+    if (redis.isReady()) {
+      const wentOffline = await redis.evalScript(
+        REMOVE_SOCKET_SCRIPT,
+        [socketsKey(userId), ONLINE_KEY, LAST_SEEN_KEY],
+        [socketId, String(now - PRESENCE_TTL_MS), userId, new Date(now).toISOString()]
+      );
+      return wentOffline === 1;
+    }
+
+    const sockets = this.localSockets.get(userId);
+    sockets?.delete(socketId);
+    if (sockets && sockets.size > 0) return false;
+
+    this.localSockets.delete(userId);
+    this.localLastSeen.set(userId, new Date(now));
+    return true;
+  }
+
+  /**
+   * Check if a user has at least one live socket on any instance
+   */
+  async isOnline(userId: string): Promise<boolean> {
+    if (redis.isReady()) {
+      return (await redis.zCountFrom(socketsKey(userId), Date.now() - PRESENCE_TTL_MS)) > 0;
+    }
+
+    return (this.localSockets.get(userId)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Get all online users with their sockets
+   */
+  async getOnlineUsers(): Promise<UserPresence[]> {
+    if (redis.isReady()) {
+      const since = Date.now() - PRESENCE_TTL_MS;
+      const users = await redis.zRangeFrom(ONLINE_KEY, since);
+
+      return Promise.all(
+        users.map(async ({ value: userId, score }) => ({
+          userId,
+          socketIds: (await redis.zRangeFrom(socketsKey(userId), since)).map((s) => s.value),
+          lastSeen: new Date(score),
+        }))
+      );
+    }
+
+    return Array.from(this.localSockets.entries()).map(([userId, sockets]) => ({
+      userId,
+      socketIds: Array.from(sockets.keys()),
+      lastSeen: new Date(Math.max(...sockets.values())),
+    }));
+  }
+
+  /**
+   * When a user was last connected. Online users are seen now.
+   */
+  async getLastSeen(userId: string): Promise<Date | null> {
+    if (await this.isOnline(userId)) {
+      return new Date();
+    }
+
+    if (redis.isReady()) {
+      const lastSeen = await redis.hGet(LAST_SEEN_KEY, userId);
+      return lastSeen ? new Date(lastSeen) : null;
+    }
+
+    return this.localLastSeen.get(userId) ?? null;
+  }
+
+  /**
+   * Start or stop a user's typing indicator in a conversation
+   */
+  async setTyping(conversationId: string, userId: string, isTyping: boolean): Promise<void> {
+    const expiresAt = Date.now() + TYPING_TTL_MS;
+
+    if (redis.isReady()) {
+      if (isTyping) {
+        await redis.zAdd(typingKey(conversationId), userId, expiresAt);
+        await redis.expire(typingKey(conversationId), TYPING_TTL_MS / 1000);
+      } else {
+        await redis.zRem(typingKey(conversationId), userId);
+      }
+      return;
+    }
+
+    const typing = this.localTyping.get(conversationId) ?? new Map<string, number>();
+    if (isTyping) {
+      typing.set(userId, expiresAt);
+      this.localTyping.set(conversationId, typing);
+    } else {
+      typing.delete(userId);
+      if (typing.size === 0) this.localTyping.delete(conversationId);
+    }
+  }
+
+  /**
+   * Users currently typing in a conversation
+   */
+  async getTypingUsers(conversationId: string): Promise<string[]> {
+    const now = Date.now();
+
+    if (redis.isReady()) {
+      return (await redis.zRangeFrom(typingKey(conversationId), now)).map((t) => t.value);
+    }
+
+    return Array.from(this.localTyping.get(conversationId)?.entries() ?? [])
+      .filter(([, expiresAt]) => expiresAt >= now)
+      .map(([userId]) => userId);
+  }
+
+  /**
+   * Periodically refresh the heartbeat of every socket on this instance
+   */
+  startHeartbeat(io: SocketIOServer) {
+    if (this.heartbeatTimer) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      this.refreshLocalSockets(io).catch((error) =>
+        logger.error('Presence heartbeat failed:', error)
+      );
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref();
+  }
+
+  stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private async refreshLocalSockets(io: SocketIOServer) {
+    if (!redis.isReady()) return;
+
+    const now = Date.now();
+
+    // Local sockets only - every instance refreshes its own
+    for (const socket of io.of('/').sockets.values()) {
+      const userId = getSocketUser(socket)?.userId;
+      if (!userId) continue;
+
+      await redis.zAdd(socketsKey(userId), socket.id, now);
+      await redis.expire(socketsKey(userId), (PRESENCE_TTL_MS * 2) / 1000);
+      await redis.zAdd(ONLINE_KEY, userId, now);
+    }
+
+    await redis.zRemBelow(ONLINE_KEY, now - PRESENCE_TTL_MS);
+  }
+}
+
+export const presenceService = new PresenceService();
@@ -0,0 +1,263 @@
+/**
+ * Privacy Service
+ * Who can see a user's profile and which parts of it: location precision,
+ * age, phone and reviews, plus opting out of search, matches and suggestions
+ */
+
+import {
+  FieldVisibility,
+  LocationPrecision,
+  Prisma,
+  ProfileVisibility,
+} from '@prisma/client';
+import prisma from '../config/database';
+
+export interface PrivacyPreferences {
+  profileVisibility: ProfileVisibility;
+  locationPrecision: LocationPrecision;
+  ageVisibility: FieldVisibility;
+  phoneVisibility: FieldVisibility;
+  reviewsVisibility: FieldVisibility;
+  hideFromSearch: boolean;
+}
+
+// How the viewer relates to the profile owner
+export interface ViewerRelation {
+  isSelf: boolean;
+  isLoggedIn: boolean;
+  isConnected: boolean;
+}
+
+interface ContactFields {
+  email: string | null;
+  phone: string | null;
+}
+
+interface LocationFields {
+  city?: string | null;
+  state?: string | null;
+  pincode?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export const DEFAULT_PRIVACY: PrivacyPreferences = {
+  profileVisibility: 'LOGGED_IN',
+  locationPrecision: 'CITY',
+  ageVisibility: 'NOBODY',
+  phoneVisibility: 'NOBODY',
+  reviewsVisibility: 'EVERYONE',
+  hideFromSearch: false,
+};
+
+// Select this on user queries whose results go through maskLocation
+export const privacySelect = {
+  select: { locationPrecision: true },
+} as const;
+
+class PrivacyService {
+  /**
+   * A user's privacy settings, with defaults when they never changed them
+   */
+  async getSettings(userId: string): Promise<PrivacyPreferences> {
+    const settings = await prisma.privacySettings.findUnique({ where: { userId } });
+    return settings ? this.toPreferences(settings) : { ...DEFAULT_PRIVACY };
+  }
+
+  /**
+   * Change some privacy settings
+   */
+  async updateSettings(
+    userId: string,
+    updates: Partial<PrivacyPreferences>
+  ): Promise<PrivacyPreferences> {
+    const data: Partial<PrivacyPreferences> = {};
+    const copy = <K extends keyof PrivacyPreferences>(key: K) => {
+      if (updates[key] !== undefined) {
+        data[key] = updates[key];
+      }
+    };
+    (Object.keys(DEFAULT_PRIVACY) as (keyof PrivacyPreferences)[]).forEach(copy);
+
+    const settings = await prisma.privacySettings.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    return this.toPreferences(settings);
+  }
+
+  /**
+   * Work out how a viewer (undefined when signed out) relates to a user
+   */
+  async getViewerRelation(viewerId: string | undefined, userId: string): Promise<ViewerRelation> {
+    if (!viewerId) {
+      return { isSelf: false, isLoggedIn: false, isConnected: false };
+    }
+    if (viewerId === userId) {
+      return { isSelf: true, isLoggedIn: true, isConnected: false };
+    }
+
+    const connectedIds = await this.getConnectedUserIds(viewerId, [userId]);
+    return { isSelf: false, isLoggedIn: true, isConnected: connectedIds.length > 0 };
+  }
+
+  /**
+   * Whether the viewer may open the profile at all
+   */
+  canViewProfile(visibility: ProfileVisibility, relation: ViewerRelation): boolean {
+    if (relation.isSelf || visibility === 'PUBLIC') return true;
+    if (visibility === 'LOGGED_IN') return relation.isLoggedIn;
+    return relation.isConnected;
+  }
+
+  /**
+   * Whether the viewer may see a field with the given visibility
+   */
+  canSeeField(visibility: FieldVisibility, relation: ViewerRelation): boolean {
+    if (relation.isSelf || visibility === 'EVERYONE') return true;
+    return visibility === 'CONNECTIONS' && relation.isConnected;
+  }
+
+  /**
+   * The contact details the viewer may see, or null for none. Contact
+   * visibility covers email and phone; the phone also needs its own setting.
+   */
+  getVisibleContact(
+    contact: ContactFields,
+    visibility: { contact: FieldVisibility; phone: FieldVisibility },
+    relation: ViewerRelation
+  ): ContactFields | null {
+    if (!this.canSeeField(visibility.contact, relation)) return null;
+
+    return {
+      email: contact.email,
+      phone: this.canSeeField(visibility.phone, relation) ? contact.phone : null,
+    };
+  }
+
+  /**
+   * Age in whole years, or null without a date of birth
+   */
+  getAge(dateOfBirth: Date | null, now: Date = new Date()): number | null {
+    if (!dateOfBirth) return null;
+
+    const age = now.getFullYear() - dateOfBirth.getFullYear();
+    const beforeBirthday =
+      now.getMonth() < dateOfBirth.getMonth() ||
+      (now.getMonth() === dateOfBirth.getMonth() && now.getDate() < dateOfBirth.getDate());
+    return beforeBirthday ? age - 1 : age;
+  }
+
+  /**
+   * Reduce location fields to the user's chosen precision. Coordinates and
+   * pincode are only kept for EXACT.
+   */
+  maskLocation<T extends LocationFields>(user: T, precision: LocationPrecision | undefined): T {
+    const level = precision ?? DEFAULT_PRIVACY.locationPrecision;
+    const masked: T = { ...user };
+
+    if (level !== 'EXACT') {
+      if ('pincode' in masked) masked.pincode = null;
+      if ('latitude' in masked) masked.latitude = null;
+      if ('longitude' in masked) masked.longitude = null;
+    }
+    if (level === 'STATE' || level === 'HIDDEN') {
+      if ('city' in masked) masked.city = null;
+    }
+    if (level === 'HIDDEN') {
+      if ('state' in masked) masked.state = null;
+    }
+
+    return masked;
+  }
+
+  /**
+   * Mask a list of users selected with `privacySettings: privacySelect`,
+   * dropping the settings from the output
+   */
+  maskLocations<T extends LocationFields & { privacySettings?: { locationPrecision: LocationPrecision } | null }>(
+    users: T[]
+  ): Omit<T, 'privacySettings'>[] {
+    return users.map(({ privacySettings, ...user }) =>
+      this.maskLocation(user, privacySettings?.locationPrecision)
+    );
+  }
+
+  /**
+   * Condition for users the viewer may find in search, matches and
+   * suggestions: not hidden from search, and connections-only profiles only
+   * when the viewer is connected to them
+   */
+  async discoverableWhere(viewerId: string): Promise<Prisma.UserWhereInput> {
+    const connectedIds = await this.getConnectedUserIds(viewerId);
+
+    return {
+      AND: [
+        { OR: [{ privacySettings: null }, { privacySettings: { hideFromSearch: false } }] },
+        {
+          OR: [
+            { privacySettings: null },
+            { privacySettings: { profileVisibility: { not: 'CONNECTIONS' } } },
+            { userId: { in: connectedIds } },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Condition that keeps users out of a city or state filter when they hide
+   * that part of their location, so filtering cannot reveal it
+   */
+  locationFilterableWhere(field: 'city' | 'state'): Prisma.UserWhereInput {
+    const hiddenAt: LocationPrecision[] = field === 'city' ? ['STATE', 'HIDDEN'] : ['HIDDEN'];
+
+    return {
+      OR: [
+        { privacySettings: null },
+        { privacySettings: { locationPrecision: { notIn: hiddenAt } } },
+      ],
+    };
+  }
+
+  /**
+   * Ids of the viewer's accepted connections, optionally limited to some users
+   */
+  private async getConnectedUserIds(viewerId: string, among?: string[]): Promise<string[]> {
+    const accepted = await prisma.connectionRequest.findMany({
+      where: {
+        status: 'ACCEPTED',
+        OR: [
+          { senderId: viewerId, ...(among && { receiverId: { in: among } }) },
+          { receiverId: viewerId, ...(among && { senderId: { in: among } }) },
+        ],
+      },
+      select: { senderId: true, receiverId: true },
+    });
+
+    return accepted.map((r) => (r.senderId === viewerId ? r.receiverId : r.senderId));
+  }
+
+  private toPreferences(settings: PrivacyPreferences): PrivacyPreferences {
+    const {
+      profileVisibility,
+      locationPrecision,
+      ageVisibility,
+      phoneVisibility,
+      reviewsVisibility,
+      hideFromSearch,
+    } = settings;
+    return {
+      profileVisibility,
+      locationPrecision,
+      ageVisibility,
+      phoneVisibility,
+      reviewsVisibility,
+      hideFromSearch,
+    };
+  }
+}
+
+export const privacyService = new PrivacyService();
@@ -1,31 +1,73 @@
 /**
  * Rating Calculation Service
- * Handles user rating updates based on reviews
+ * Turns reviews into a reputation score: a Bayesian average that lets old
+ * reviews fade, trusts established reviewers more than fresh accounts and
+ * discounts pairs of users who keep trading top ratings
  */
 
-import { PrismaClient } from '@prisma/client';
+import prisma from '../config/database';
 
-const prisma = new PrismaClient();
+// Bayesian prior: every user starts as if they had PRIOR_WEIGHT reviews of PRIOR_MEAN
+const PRIOR_MEAN = 3.5;
+const PRIOR_WEIGHT = 2;
+const PRIOR_VARIANCE = 1;
+
+// A review loses half its weight every REVIEW_HALF_LIFE_DAYS
+const REVIEW_HALF_LIFE_DAYS = 180;
+
+// Reviewer credibility ramps up over these, and never drops below the floor
+const CREDIBLE_ACCOUNT_AGE_DAYS = 90;
+const CREDIBLE_COMPLETED_SWAPS = 5;
+const MIN_CREDIBILITY = 0.25;
+
+// Pairs who gave each other 4+ stars in at least this many swaps count for less
+const RECIPROCAL_PAIR_MIN_SWAPS = 2;
+const RECIPROCAL_PAIR_WEIGHT = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SkillRating {
+  userSkillId: string;
+  rating: number;
+  reviewCount: number;
+}
 
 interface RatingUpdate {
   userId: string;
   newRating: number;
+  ratingLow: number;
+  ratingHigh: number;
   reviewCount: number;
+  skillRatings: SkillRating[];
+}
+
+export interface WeightedRating {
+  rating: number;
+  weight: number;
+}
+
+export interface ReputationScore {
+  score: number;
+  low: number;
+  high: number;
 }
 
 /**
- * Calculate user's overall rating from all reviews
- * Uses weighted average: recent reviews (last 90 days) count 70%, older reviews 30%
+ * Calculate user's reputation and a rating per taught skill
+ * Only public reviews that have been revealed count
  */
-export async function calculateUserRating(userId: string): Promise<RatingUpdate> {
+export async function calculateUserRating(userId: string, now: Date = new Date()): Promise<RatingUpdate> {
   // Get all reviews where user was the teacher
   const allReviews = await prisma.review.findMany({
     where: {
       teacherId: userId,
       isPublic: true, // Only count public reviews
+      isRevealed: true, // Hidden reviews wait for the other party or the deadline
     },
     select: {
+      studentId: true,
       rating: true,
+      userSkillId: true,
       createdAt: true,
     },
     orderBy: {
@@ -37,64 +79,216 @@ export async function calculateUserRating(userId: string): Promise<RatingUpdate>
     return {
       userId,
       newRating: 0,
+      ratingLow: 0,
+      ratingHigh: 0,
       reviewCount: 0,
+      skillRatings: [],
     };
   }
 
-  const now = new Date();
-  const ninetyDaysAgo = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-
-  // Separate recent and older reviews
-  const recentReviews = allReviews.filter(
-    (review) => review.createdAt >= ninetyDaysAgo
-  );
-  const olderReviews = allReviews.filter(
-    (review) => review.createdAt < ninetyDaysAgo
-  );
+  const reviewerWeights = await getReviewerWeights(userId, allReviews, now);
 
-  // Calculate averages
-  const recentAvg =
-    recentReviews.length > 0
-      ? recentReviews.reduce((sum, r) => sum + r.rating, 0) /
-        recentReviews.length
-      : 0;
+  const weighted = allReviews.map((review) => ({
+    userSkillId: review.userSkillId,
+    rating: review.rating,
+    weight: reviewerWeights.get(review.studentId)! * decayWeight(review.createdAt, now),
+  }));
 
-  const olderAvg =
-    olderReviews.length > 0
-      ? olderReviews.reduce((sum, r) => sum + r.rating, 0) / olderReviews.length
-      : 0;
-
-  // Weighted calculation: 70% recent, 30% older
-  let weightedRating: number;
-
-  if (recentReviews.length > 0 && olderReviews.length > 0) {
-    weightedRating = recentAvg * 0.7 + olderAvg * 0.3;
-  } else if (recentReviews.length > 0) {
-    weightedRating = recentAvg;
-  } else {
-    weightedRating = olderAvg;
+  // Group reviews by the skill that was taught
+  const reviewsBySkill = new Map<string, typeof weighted>();
+  for (const review of weighted) {
+    if (!review.userSkillId) continue;
+    const skillReviews = reviewsBySkill.get(review.userSkillId) ?? [];
+    skillReviews.push(review);
+    reviewsBySkill.set(review.userSkillId, skillReviews);
   }
 
-  // Round to 2 decimal places
-  const finalRating = Math.round(weightedRating * 100) / 100;
+  const reputation = computeReputation(weighted);
 
   return {
     userId,
-    newRating: finalRating,
+    newRating: reputation.score,
+    ratingLow: reputation.low,
+    ratingHigh: reputation.high,
     reviewCount: allReviews.length,
+    skillRatings: [...reviewsBySkill.entries()].map(([userSkillId, skillReviews]) => ({
+      userSkillId,
+      rating: computeReputation(skillReviews).score,
+      reviewCount: skillReviews.length,
+    })),
+  };
+}
+
+/**
+ * Bayesian average of weighted ratings with a 95% confidence interval,
+ * rounded to 2 decimal places. Few or low-weight reviews stay close to the
+ * prior and get a wide interval.
+ */
+export function computeReputation(ratings: WeightedRating[]): ReputationScore {
+  const totalWeight = ratings.reduce((sum, r) => sum + r.weight, 0);
+  const mean =
+    (PRIOR_MEAN * PRIOR_WEIGHT + ratings.reduce((sum, r) => sum + r.rating * r.weight, 0)) /
+    (PRIOR_WEIGHT + totalWeight);
+
+  const variance =
+    (PRIOR_VARIANCE * PRIOR_WEIGHT +
+      ratings.reduce((sum, r) => sum + r.weight * (r.rating - mean) ** 2, 0)) /
+    (PRIOR_WEIGHT + totalWeight);
+
+  // Effective number of reviews, so a few heavy reviews don't look like many
+  const sumSquaredWeights = ratings.reduce((sum, r) => sum + r.weight ** 2, 0);
+  const effectiveCount =
+    PRIOR_WEIGHT + (sumSquaredWeights > 0 ? totalWeight ** 2 / sumSquaredWeights : 0);
+  const margin = 1.96 * Math.sqrt(variance / effectiveCount);
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    score: round(mean),
+    low: round(Math.max(1, mean - margin)),
+    high: round(Math.min(5, mean + margin)),
   };
 }
 
 /**
- * Update user's rating in database
+ * Weight of a review by its age: 1 when new, halving every half-life
+ */
+function decayWeight(createdAt: Date, now: Date): number {
+  const ageDays = Math.max(0, (now.getTime() - createdAt.getTime()) / DAY_MS);
+  return Math.pow(0.5, ageDays / REVIEW_HALF_LIFE_DAYS);
+}
+
+/**
+ * Weight of each reviewer's reviews of a user: their credibility (account
+ * age, completed swaps, how helpful others found their reviews), split
+ * across repeat reviews and reduced for reciprocal top-rating pairs
+ */
+async function getReviewerWeights(
+  userId: string,
+  reviews: Array<{ studentId: string; rating: number }>,
+  now: Date
+): Promise<Map<string, number>> {
+  const uniqueIds = [...new Set(reviews.map((r) => r.studentId))];
+
+  const [reviewers, authoredReviews, reviewsGiven] = await Promise.all([
+    prisma.user.findMany({
+      where: { userId: { in: uniqueIds } },
+      select: { userId: true, createdAt: true, completedSwaps: true },
+    }),
+    prisma.review.findMany({
+      where: { studentId: { in: uniqueIds } },
+      select: { studentId: true, helpfulCount: true, _count: { select: { votes: true } } },
+    }),
+    // Reviews this user wrote about their reviewers, to spot reciprocal pairs
+    prisma.review.findMany({
+      where: { studentId: userId, teacherId: { in: uniqueIds }, isRevealed: true, rating: { gte: 4 } },
+      select: { teacherId: true },
+    }),
+  ]);
+
+  const reviewCountBy = (ids: string[]) =>
+    ids.reduce((counts, id) => counts.set(id, (counts.get(id) ?? 0) + 1), new Map<string, number>());
+
+  const reviewsReceived = reviewCountBy(reviews.map((r) => r.studentId));
+  const highReviewsReceived = reviewCountBy(
+    reviews.filter((r) => r.rating >= 4).map((r) => r.studentId)
+  );
+  const highReviewsGiven = reviewCountBy(reviewsGiven.map((r) => r.teacherId));
+
+  const votesByReviewer = new Map<string, { helpful: number; total: number }>();
+  for (const review of authoredReviews) {
+    const votes = votesByReviewer.get(review.studentId) ?? { helpful: 0, total: 0 };
+    votes.helpful += review.helpfulCount;
+    votes.total += review._count.votes;
+    votesByReviewer.set(review.studentId, votes);
+  }
+
+  const weights = new Map<string, number>();
+  for (const reviewerId of uniqueIds) {
+    const reviewer = reviewers.find((r) => r.userId === reviewerId);
+    const votes = votesByReviewer.get(reviewerId) ?? { helpful: 0, total: 0 };
+
+    const ageScore = reviewer
+      ? Math.min((now.getTime() - reviewer.createdAt.getTime()) / DAY_MS / CREDIBLE_ACCOUNT_AGE_DAYS, 1)
+      : 0;
+    const swapScore = reviewer ? Math.min(reviewer.completedSwaps / CREDIBLE_COMPLETED_SWAPS, 1) : 0;
+    // Laplace-smoothed share of helpful votes; 0.5 with no votes
+    const helpfulScore = (votes.helpful + 1) / (votes.total + 2);
+
+    const credibility =
+      MIN_CREDIBILITY +
+      (1 - MIN_CREDIBILITY) * (0.4 * ageScore + 0.4 * swapScore + 0.2 * helpfulScore);
+
+    // Repeat reviews from one person add up to sqrt(n) reviews, not n
+    const count = reviewsReceived.get(reviewerId) ?? 1;
+    let weight = credibility / Math.sqrt(count);
+
+    // Two accounts trading top ratings swap after swap
+    if (
+      (highReviewsReceived.get(reviewerId) ?? 0) >= RECIPROCAL_PAIR_MIN_SWAPS &&
+      (highReviewsGiven.get(reviewerId) ?? 0) >= RECIPROCAL_PAIR_MIN_SWAPS
+    ) {
+      weight *= RECIPROCAL_PAIR_WEIGHT;
+    }
+
+    weights.set(reviewerId, weight);
+  }
+
+  return weights;
+}
+
+/**
+ * Update user's overall and per-skill ratings in database
  */
 export async function updateUserRating(userId: string): Promise<void> {
   const ratingUpdate = await calculateUserRating(userId);
 
-  await prisma.user.update({
-    where: { userId },
-    data: { rating: ratingUpdate.newRating },
+  const userSkills = await prisma.userSkill.findMany({
+    where: { userId, skillType: 'TEACH' },
+    select: { userSkillId: true },
+  });
+
+  const ratingsBySkill = new Map(
+    ratingUpdate.skillRatings.map((skillRating) => [skillRating.userSkillId, skillRating])
+  );
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { userId },
+      data: {
+        rating: ratingUpdate.newRating,
+        ratingLow: ratingUpdate.ratingLow,
+        ratingHigh: ratingUpdate.ratingHigh,
+      },
+    }),
+    ...userSkills.map(({ userSkillId }) =>
+      prisma.userSkill.update({
+        where: { userSkillId },
+        data: {
+          rating: ratingsBySkill.get(userSkillId)?.rating ?? 0,
+          reviewCount: ratingsBySkill.get(userSkillId)?.reviewCount ?? 0,
+        },
+      })
+    ),
+  ]);
+}
+
+/**
+ * Recalculate everyone who has been reviewed, so older reviews keep fading
+ * out of scores even without new reviews. Returns how many users were updated.
+ */
+export async function recalculateAllRatings(): Promise<number> {
+  const teachers = await prisma.review.findMany({
+    where: { isPublic: true, isRevealed: true },
+    select: { teacherId: true },
+    distinct: ['teacherId'],
   });
+
+  for (const { teacherId } of teachers) {
+    await updateUserRating(teacherId);
+  }
+
+  return teachers.length;
 }
 
 /**
@@ -105,6 +299,7 @@ export async function getUserRatingBreakdown(userId: string) {
     where: {
       teacherId: userId,
       isPublic: true,
+      isRevealed: true,
     },
     select: {
       rating: true,
@@ -115,6 +310,26 @@ export async function getUserRatingBreakdown(userId: string) {
     },
   });
 
+  // Per-skill ratings, kept up to date by updateUserRating
+  const skills = (
+    await prisma.userSkill.findMany({
+      where: { userId, skillType: 'TEACH', reviewCount: { gt: 0 } },
+      select: {
+        userSkillId: true,
+        rating: true,
+        reviewCount: true,
+        skill: { select: { skillId: true, name: true } },
+      },
+      orderBy: { reviewCount: 'desc' },
+    })
+  ).map(({ userSkillId, rating, reviewCount, skill }) => ({
+    userSkillId,
+    skillId: skill.skillId,
+    skillName: skill.name,
+    rating,
+    reviewCount,
+  }));
+
   if (reviews.length === 0) {
     return {
       overall: 0,
@@ -123,6 +338,8 @@ export async function getUserRatingBreakdown(userId: string) {
       teachingQuality: 0,
       communication: 0,
       punctuality: 0,
+      confidence: { low: 0, high: 0 },
+      skills,
     };
   }
 
@@ -169,6 +386,8 @@ export async function getUserRatingBreakdown(userId: string) {
     teachingQuality: Math.round(teachingQualityAvg * 10) / 10,
     communication: Math.round(communicationAvg * 10) / 10,
     punctuality: Math.round(punctualityAvg * 10) / 10,
+    confidence: { low: ratingUpdate.ratingLow, high: ratingUpdate.ratingHigh },
+    skills,
   };
 }
 
@@ -193,6 +412,7 @@ export async function getMostCommonTags(
     where: {
       teacherId: userId,
       isPublic: true,
+      isRevealed: true,
     },
     select: {
       tags: true,
@@ -217,6 +437,8 @@ export async function getMostCommonTags(
 export const ratingService = {
   calculateUserRating,
   updateUserRating,
+  recalculateAllRatings,
+  computeReputation,
   getUserRatingBreakdown,
   canEditReview,
   getMostCommonTags,
@@ -7,6 +7,8 @@ import prisma from '../config/database';
 import { redis } from '../config/redis';
 import { CacheTTL, CachePrefix } from './cache.service';
 import { logger } from '../utils/logger';
+import { distanceKm, hasCoordinates } from '../utils/geo';
+import { blockService } from './block.service';
 
 interface RecommendationScore {
   id: string;
@@ -31,7 +33,7 @@ interface UserRecommendation {
   matchScore: number;
   commonSkills: string[];
   complementarySkills: string[];
-  distance?: number;
+  distance?: number; // Kilometres
   rating: number;
   reasons: string[];
 }
@@ -180,9 +182,13 @@ class RecommendationService {
   ): Promise<UserRecommendation[]> {
     const cacheKey = `${CachePrefix.ANALYTICS}user-recommendations:${userId}`;
 
-    // Try cache first
+    const blockedUserIds = await blockService.getBlockedUserIds(userId);
+
+    // Try cache first; a block may be newer than the cached list
     const cached = await redis.getJSON<UserRecommendation[]>(cacheKey);
-    if (cached) return cached.slice(0, limit);
+    if (cached) {
+      return cached.filter((r) => !blockedUserIds.includes(r.userId)).slice(0, limit);
+    }
 
     // Get current user
     const currentUser = await prisma.user.findUnique({
@@ -205,16 +211,17 @@ class RecommendationService {
       throw new Error('User not found');
     }
 
-    // Get users already connected with
-    const connectedUserIds = [
+    // Skip users already connected with and blocks in either direction
+    const excludedUserIds = [
       ...currentUser.connections.map((c) => c.connectedUserId),
+      ...blockedUserIds,
       userId, // Exclude self
     ];
 
     // Find potential matches
     const potentialMatches = await prisma.user.findMany({
       where: {
-        userId: { notIn: connectedUserIds },
+        userId: { notIn: excludedUserIds },
         status: 'ACTIVE',
         emailVerified: true,
       },
@@ -271,6 +278,10 @@ class RecommendationService {
           matchScore: matchScore.score,
           commonSkills: commonSkillNames,
           complementarySkills: complementarySkillNames,
+          distance:
+            hasCoordinates(currentUser) && hasCoordinates(match)
+              ? Math.round(distanceKm(currentUser, match) * 10) / 10
+              : undefined,
           rating: match.rating || 0,
           reasons: matchScore.reasons,
         });
@@ -329,7 +340,7 @@ class RecommendationService {
         },
         _count: {
           select: {
-            attendees: true,
+            attendees: { where: { status: { not: 'WAITLISTED' } } },
           },
         },
       },
@@ -579,7 +590,16 @@ const canLearnFromMatch = currentLearning.filter((s: string) => matchTeaching.in
     }
 
     // Factor 2: Location proximity
-    if (currentUser.city === matchUser.city) {
+    if (hasCoordinates(currentUser) && hasCoordinates(matchUser)) {
+      const distance = distanceKm(currentUser, matchUser);
+      if (distance <= 25) {
+        score += 20;
+        reasons.push('Nearby');
+      } else if (distance <= 150) {
+        score += 10;
+        reasons.push('Within 150 km');
+      }
+    } else if (currentUser.city === matchUser.city) {
       score += 20;
       reasons.push('Same city');
     } else if (currentUser.state === matchUser.state) {
@@ -0,0 +1,137 @@
+/**
+ * Review Service
+ * Both parties of a completed swap review each other for the skill the
+ * other taught. Reviews stay hidden until both are in or the review window
+ * closes, so neither side can retaliate against the other's review.
+ */
+
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { updateUserRating } from './rating.service';
+import { activityService } from './activity.service';
+import { notificationService } from './notification.service';
+import { gamificationService } from './gamification.service';
+
+// Days after a swap completes that its reviews can be written; hidden reviews are revealed after
+export const REVIEW_WINDOW_DAYS = 14;
+
+class ReviewService {
+  /**
+   * When the review window of a swap completed at the given time closes
+   */
+  getRevealDeadline(completedAt: Date): Date {
+    return new Date(completedAt.getTime() + REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * The reviewee's UserSkill for the skill they taught in the swap, or null
+   * if they no longer list it
+   */
+  async getTaughtUserSkillId(
+    swap: { initiatorId: string; initiatorSkillId: string; receiverSkillId: string },
+    teacherId: string
+  ): Promise<string | null> {
+    const skillId = teacherId === swap.initiatorId ? swap.initiatorSkillId : swap.receiverSkillId;
+
+    const userSkill = await prisma.userSkill.findUnique({
+      where: { userId_skillId_skillType: { userId: teacherId, skillId, skillType: 'TEACH' } },
+      select: { userSkillId: true },
+    });
+
+    return userSkill?.userSkillId ?? null;
+  }
+
+  /**
+   * Feed snapshot of a public review
+   */
+  activityData(review: {
+    teacherId: string;
+    teacher: { name: string };
+    rating: number;
+    comment: string | null;
+  }) {
+    return {
+      teacherId: review.teacherId,
+      teacherName: review.teacher.name,
+      rating: review.rating,
+      comment: review.comment ? review.comment.slice(0, 200) : null,
+    };
+  }
+
+  /**
+   * Reveal a swap's hidden reviews, then update the reviewees' ratings, post
+   * public reviews to the feed and tell the reviewees. Returns how many
+   * reviews were revealed.
+   */
+  async revealSwapReviews(swapId: string): Promise<number> {
+    const hidden = await prisma.review.findMany({
+      where: { swapId, isRevealed: false },
+      include: {
+        student: { select: { name: true } },
+        teacher: { select: { name: true } },
+      },
+    });
+
+    // Claim each review so that when a submission and the expiry job reveal
+    // at once, only the call that flipped a review follows it up
+    const revealed: typeof hidden = [];
+    for (const review of hidden) {
+      const { count } = await prisma.review.updateMany({
+        where: { reviewId: review.reviewId, isRevealed: false },
+        data: { isRevealed: true },
+      });
+      if (count === 1) revealed.push(review);
+    }
+
+    for (const review of revealed) {
+      await updateUserRating(review.teacherId);
+      await gamificationService.awardBadgesForEvent(review.teacherId, 'REVIEW_RECEIVED');
+
+      if (review.isPublic) {
+        await activityService.record(
+          review.studentId,
+          'REVIEW_POSTED',
+          review.reviewId,
+          this.activityData(review)
+        );
+      }
+
+      await notificationService.createNotification({
+        userId: review.teacherId,
+        type: 'SYSTEM',
+        title: 'New Review Received',
+        message: `${review.student.name} left you a ${review.rating}-star review`,
+        data: { reviewId: review.reviewId, swapId, rating: review.rating },
+      });
+    }
+
+    return revealed.length;
+  }
+
+  /**
+   * Reveal hidden reviews of swaps whose review window has closed. Returns
+   * how many reviews were revealed.
+   */
+  async revealExpiredReviews(now: Date = new Date()): Promise<number> {
+    const completedBefore = new Date(now.getTime() - REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const swaps = await prisma.review.findMany({
+      where: { isRevealed: false, swap: { completedAt: { lte: completedBefore } } },
+      select: { swapId: true },
+      distinct: ['swapId'],
+    });
+
+    let revealed = 0;
+    for (const { swapId } of swaps) {
+      try {
+        revealed += await this.revealSwapReviews(swapId);
+      } catch (error) {
+        logger.error(`Failed to reveal reviews for swap ${swapId}:`, error);
+      }
+    }
+
+    return revealed;
+  }
+}
+
+export const reviewService = new ReviewService();
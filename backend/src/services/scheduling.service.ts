@@ -0,0 +1,337 @@
+/**
+ * Scheduling Service
+ * Weekly availability windows, mutually free slot suggestions and conflict
+ * detection against a user's accepted swaps and events
+ */
+
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+
+export interface AvailabilityWindowInput {
+  dayOfWeek: number;
+  startMinute: number;
+  endMinute: number;
+}
+
+export interface TimeSlot {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface ScheduleConflict extends TimeSlot {
+  type: 'SWAP' | 'EVENT';
+  id: string;
+  title: string;
+}
+
+interface SuggestOptions {
+  durationMinutes?: number;
+  days?: number;
+  limit?: number;
+  excludeSwapId?: string;
+}
+
+export const DEFAULT_SESSION_MINUTES = 60;
+const SLOT_STEP_MINUTES = 30;
+const MAX_WINDOWS = 50;
+const MINUTE = 60 * 1000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+class SchedulingService {
+  /**
+   * Whether a string is a valid IANA timezone
+   */
+  isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get a user's timezone and weekly availability
+   */
+  async getAvailability(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { userId },
+      select: {
+        timezone: true,
+        availability: {
+          select: { windowId: true, dayOfWeek: true, startMinute: true, endMinute: true },
+          orderBy: [{ dayOfWeek: 'asc' }, { startMinute: 'asc' }],
+        },
+      },
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    return { timezone: user.timezone, windows: user.availability };
+  }
+
+  /**
+   * Replace a user's weekly availability
+   */
+  async setAvailability(userId: string, timezone: string, windows: AvailabilityWindowInput[]) {
+    if (!this.isValidTimezone(timezone)) {
+      throw new AppError('Invalid timezone', 400);
+    }
+
+    if (windows.length > MAX_WINDOWS) {
+      throw new AppError(`At most ${MAX_WINDOWS} availability windows are allowed`, 400);
+    }
+
+    for (const window of windows) {
+      const { dayOfWeek, startMinute, endMinute } = window;
+      if (
+        ![dayOfWeek, startMinute, endMinute].every(Number.isInteger) ||
+        dayOfWeek < 0 ||
+        dayOfWeek > 6 ||
+        startMinute < 0 ||
+        endMinute > 1440 ||
+        startMinute >= endMinute
+      ) {
+        throw new AppError('Each window needs a day 0-6 and start < end within the day', 400);
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.availabilityWindow.deleteMany({ where: { userId } }),
+      prisma.availabilityWindow.createMany({
+        data: windows.map(({ dayOfWeek, startMinute, endMinute }) => ({
+          userId,
+          dayOfWeek,
+          startMinute,
+          endMinute,
+        })),
+      }),
+      prisma.user.update({ where: { userId }, data: { timezone } }),
+    ]);
+
+    return this.getAvailability(userId);
+  }
+
+  /**
+   * Find commitments of a user that overlap a slot: sessions and scheduled
+   * times of accepted swaps, and events they organise or are registered for
+   */
+  async findConflicts(
+    userId: string,
+    slot: TimeSlot,
+    excludeSwapId?: string
+  ): Promise<ScheduleConflict[]> {
+    const busy = await this.getBusyIntervals(userId, slot.startTime, slot.endTime, excludeSwapId);
+    return busy.filter((interval) => this.overlaps(interval, slot));
+  }
+
+  /**
+   * Reject a slot that overlaps either party's other commitments
+   */
+  async assertNoConflicts(
+    slot: TimeSlot,
+    parties: Array<{ userId: string; isCurrentUser: boolean }>,
+    excludeSwapId?: string
+  ): Promise<void> {
+    for (const party of parties) {
+      const [conflict] = await this.findConflicts(party.userId, slot, excludeSwapId);
+
+      if (conflict) {
+        const who = party.isCurrentUser ? 'You already have' : 'The other user already has';
+        throw new AppError(
+          `${who} ${conflict.title} from ${conflict.startTime.toISOString()} to ${conflict.endTime.toISOString()}`,
+          409
+        );
+      }
+    }
+  }
+
+  /**
+   * Suggest slots inside every party's availability that clash with none of
+   * their commitments. Parties without availability get no suggestions.
+   */
+  async suggestSlots(userIds: string[], options: SuggestOptions = {}) {
+    const {
+      durationMinutes = DEFAULT_SESSION_MINUTES,
+      days = 14,
+      limit = 10,
+      excludeSwapId,
+    } = options;
+
+    const users = await prisma.user.findMany({
+      where: { userId: { in: userIds } },
+      select: {
+        userId: true,
+        timezone: true,
+        availability: { select: { dayOfWeek: true, startMinute: true, endMinute: true } },
+      },
+    });
+
+    const missingAvailability = userIds.filter(
+      (id) => !users.find((u) => u.userId === id)?.availability.length
+    );
+
+    if (missingAvailability.length > 0) {
+      return { slots: [], missingAvailability };
+    }
+
+    const step = SLOT_STEP_MINUTES * MINUTE;
+    const from = new Date(Math.ceil((Date.now() + step) / step) * step);
+    const to = new Date(from.getTime() + days * 24 * 60 * MINUTE);
+
+    const busy = (
+      await Promise.all(
+        userIds.map((id) => this.getBusyIntervals(id, from, to, excludeSwapId))
+      )
+    ).flat();
+
+    const slots: TimeSlot[] = [];
+
+    for (let start = from.getTime(); start < to.getTime() && slots.length < limit; start += step) {
+      const slot = {
+        startTime: new Date(start),
+        endTime: new Date(start + durationMinutes * MINUTE),
+      };
+
+      const everyoneFree = users.every((user) =>
+        this.isWithinAvailability(slot, user.timezone, user.availability)
+      );
+
+      if (
+        everyoneFree &&
+        !busy.some((interval) => this.overlaps(interval, slot)) &&
+        !slots.some((chosen) => this.overlaps(chosen, slot))
+      ) {
+        slots.push(slot);
+      }
+    }
+
+    return { slots, missingAvailability };
+  }
+
+  /**
+   * Whether a slot lies entirely inside one of the weekly windows
+   */
+  isWithinAvailability(
+    slot: TimeSlot,
+    timezone: string,
+    windows: AvailabilityWindowInput[]
+  ): boolean {
+    const start = this.getLocalTime(slot.startTime, timezone);
+    const durationMinutes = (slot.endTime.getTime() - slot.startTime.getTime()) / MINUTE;
+
+    return windows.some(
+      (window) =>
+        window.dayOfWeek === start.dayOfWeek &&
+        window.startMinute <= start.minuteOfDay &&
+        start.minuteOfDay + durationMinutes <= window.endMinute
+    );
+  }
+
+  /**
+   * All commitments of a user intersecting [from, to)
+   */
+  private async getBusyIntervals(
+    userId: string,
+    from: Date,
+    to: Date,
+    excludeSwapId?: string
+  ): Promise<ScheduleConflict[]> {
+    // Sessions rarely run longer than a day; widen the lower bound so a
+    // session that started before `from` but is still running is caught
+    const lookback = new Date(from.getTime() - 24 * 60 * MINUTE);
+    const acceptedSwap = {
+      status: 'ACCEPTED' as const,
+      swapId: excludeSwapId ? { not: excludeSwapId } : undefined,
+      OR: [{ initiatorId: userId }, { receiverId: userId }],
+    };
+
+    const [sessions, scheduledSwaps, events] = await Promise.all([
+      prisma.swapSession.findMany({
+        where: { swap: acceptedSwap, startTime: { gte: lookback, lt: to } },
+        select: {
+          sessionId: true,
+          swapId: true,
+          startTime: true,
+          endTime: true,
+          duration: true,
+        },
+      }),
+      prisma.swap.findMany({
+        where: { ...acceptedSwap, scheduledAt: { gte: lookback, lt: to } },
+        select: { swapId: true, scheduledAt: true, duration: true },
+      }),
+      prisma.event.findMany({
+        where: {
+          isActive: true,
+          status: { not: 'CANCELLED' },
+          startTime: { lt: to },
+          endTime: { gt: from },
+          OR: [
+            { organizerId: userId },
+            { attendees: { some: { userId, status: { not: 'WAITLISTED' } } } },
+          ],
+        },
+        select: { eventId: true, title: true, startTime: true, endTime: true },
+      }),
+    ]);
+
+    return [
+      ...sessions.map((session) => ({
+        type: 'SWAP' as const,
+        id: session.swapId,
+        title: 'a swap session',
+        startTime: session.startTime,
+        endTime:
+          session.endTime ??
+          new Date(
+            session.startTime.getTime() + (session.duration ?? DEFAULT_SESSION_MINUTES) * MINUTE
+          ),
+      })),
+      ...scheduledSwaps.map((swap) => ({
+        type: 'SWAP' as const,
+        id: swap.swapId,
+        title: 'a scheduled swap',
+        startTime: swap.scheduledAt!,
+        endTime: new Date(
+          swap.scheduledAt!.getTime() + (swap.duration ?? DEFAULT_SESSION_MINUTES) * MINUTE
+        ),
+      })),
+      ...events.map((event) => ({
+        type: 'EVENT' as const,
+        id: event.eventId,
+        title: `the event "${event.title}"`,
+        startTime: event.startTime,
+        endTime: event.endTime,
+      })),
+    ].filter((interval) => interval.endTime > from);
+  }
+
+  private overlaps(a: TimeSlot, b: TimeSlot): boolean {
+    return a.startTime < b.endTime && b.startTime < a.endTime;
+  }
+
+  /**
+   * Day of week and minute of day of an instant in a timezone
+   */
+  private getLocalTime(date: Date, timezone: string) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+
+    const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+    return {
+      dayOfWeek: WEEKDAYS.indexOf(part('weekday')),
+      minuteOfDay: Number(part('hour')) * 60 + Number(part('minute')),
+    };
+  }
+}
+
+export const schedulingService = new SchedulingService();
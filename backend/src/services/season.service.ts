@@ -0,0 +1,338 @@
+/**
+ * Season Service
+ * Seasons are admin-defined competition windows ranked on a windowed
+ * leaderboard metric. Live standings come from the leaderboard service; when
+ * a season ends its final platform-wide standings are archived and the
+ * rewards for each rank band are paid in coins and badges.
+ */
+
+import { Prisma, Season } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { gamificationService } from './gamification.service';
+import { leaderboardService, WINDOWED_METRICS, WindowedMetric } from './leaderboard.service';
+import { notificationService } from './notification.service';
+
+// Paid to every user whose final rank is within fromRank..toRank
+export interface SeasonReward {
+  fromRank: number;
+  toRank: number;
+  coins?: number;
+  badgeId?: string;
+}
+
+export interface CreateSeasonParams {
+  name: string;
+  metric: string;
+  startsAt: Date;
+  endsAt: Date;
+  rewards?: unknown;
+}
+
+export type SeasonStatus = 'UPCOMING' | 'ACTIVE' | 'ENDED';
+
+const MAX_SEASON_DAYS = 366;
+// Every coin payout runs inside the finalizing transaction, so allow it longer
+// than Prisma's 5s default
+const PAYOUT_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+class SeasonService {
+  /**
+   * Create a season. Seasons may not overlap, so at most one is running.
+   */
+  async createSeason(adminId: string, params: CreateSeasonParams): Promise<Season> {
+    const name = params.name?.trim();
+    if (!name) {
+      throw new AppError('Season name is required', 400);
+    }
+    if (!WINDOWED_METRICS.includes(params.metric as WindowedMetric)) {
+      throw new AppError(`Season metric must be one of ${WINDOWED_METRICS.join(', ')}`, 400);
+    }
+
+    const { startsAt, endsAt } = params;
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime()) || endsAt <= startsAt) {
+      throw new AppError('A season needs a start before its end', 400);
+    }
+    if (endsAt.getTime() - startsAt.getTime() > MAX_SEASON_DAYS * 24 * 60 * 60 * 1000) {
+      throw new AppError(`A season can last at most ${MAX_SEASON_DAYS} days`, 400);
+    }
+    if (endsAt <= new Date()) {
+      throw new AppError('A season cannot end in the past', 400);
+    }
+
+    const overlapping = await prisma.season.findFirst({
+      where: { startsAt: { lt: endsAt }, endsAt: { gt: startsAt } },
+      select: { name: true },
+    });
+    if (overlapping) {
+      throw new AppError(`Season overlaps "${overlapping.name}"`, 409);
+    }
+
+    const rewards = await this.validateRewards(params.rewards ?? []);
+
+    const season = await prisma.season.create({
+      data: {
+        name,
+        metric: params.metric,
+        startsAt,
+        endsAt,
+        rewards: rewards as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: adminId,
+        action: 'CREATE_SEASON',
+        entity: 'SEASON',
+        entityId: season.seasonId,
+        metadata: { name, metric: season.metric, startsAt, endsAt },
+      },
+    });
+
+    // A season that already started counts activity since its start
+    if (startsAt <= new Date()) {
+      await leaderboardService.rebuildWindow(leaderboardService.getSeasonWindow(season));
+    }
+
+    logger.info(`Season created: ${season.seasonId} (${name})`);
+    return season;
+  }
+
+  /**
+   * Rename a season or change its rewards until it ends
+   */
+  async updateSeason(
+    seasonId: string,
+    adminId: string,
+    updates: { name?: string; rewards?: unknown }
+  ): Promise<Season> {
+    const season = await prisma.season.findUnique({ where: { seasonId } });
+    if (!season) {
+      throw new AppError('Season not found', 404);
+    }
+    if (season.finalizedAt || season.endsAt <= new Date()) {
+      throw new AppError('Season has ended', 400);
+    }
+
+    const data: Prisma.SeasonUpdateInput = {};
+    if (updates.name !== undefined) {
+      if (!updates.name.trim()) throw new AppError('Season name is required', 400);
+      data.name = updates.name.trim();
+    }
+    if (updates.rewards !== undefined) {
+      data.rewards = (await this.validateRewards(updates.rewards)) as unknown as Prisma.InputJsonValue;
+    }
+
+    const updated = await prisma.season.update({ where: { seasonId }, data });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: adminId,
+        action: 'UPDATE_SEASON',
+        entity: 'SEASON',
+        entityId: seasonId,
+        metadata: { updates: data as Prisma.InputJsonValue },
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * All seasons, newest first, with where each one is
+   */
+  async getSeasons(now: Date = new Date()) {
+    const seasons = await prisma.season.findMany({ orderBy: { startsAt: 'desc' } });
+    return seasons.map((season) => ({ ...season, status: this.getStatus(season, now) }));
+  }
+
+  getStatus(season: Pick<Season, 'startsAt' | 'endsAt'>, now: Date = new Date()): SeasonStatus {
+    if (now < season.startsAt) return 'UPCOMING';
+    return now < season.endsAt ? 'ACTIVE' : 'ENDED';
+  }
+
+  /**
+   * Archived final standings of an ended season
+   */
+  async getStandings(seasonId: string, params: { limit?: number; offset?: number } = {}) {
+    const season = await prisma.season.findUnique({ where: { seasonId } });
+    if (!season) {
+      throw new AppError('Season not found', 404);
+    }
+
+    const where = { seasonId };
+    const [standings, total] = await Promise.all([
+      prisma.seasonStanding.findMany({
+        where,
+        include: { user: { select: { userId: true, name: true, avatar: true } } },
+        orderBy: [{ rank: 'asc' }, { createdAt: 'asc' }],
+        take: params.limit ?? 50,
+        skip: params.offset ?? 0,
+      }),
+      prisma.seasonStanding.count({ where }),
+    ]);
+
+    return {
+      season: { ...season, status: this.getStatus(season) },
+      standings,
+      total,
+    };
+  }
+
+  /**
+   * Archive and reward every season that has ended. Returns how many were
+   * finalized.
+   */
+  async finalizeEndedSeasons(now: Date = new Date()): Promise<number> {
+    const ended = await prisma.season.findMany({
+      where: { endsAt: { lte: now }, finalizedAt: null },
+    });
+
+    let finalized = 0;
+    for (const season of ended) {
+      try {
+        if (await this.finalizeSeason(season)) finalized++;
+      } catch (error) {
+        logger.error(`Failed to finalize season ${season.seasonId}:`, error);
+      }
+    }
+    return finalized;
+  }
+
+  /**
+   * Archive the final platform-wide standings and pay the coin rewards in
+   * the same transaction that sets finalizedAt, so a season is paid exactly
+   * once even if two instances run the job or the process dies mid-payout.
+   * Badges and notifications follow the commit; grantBadge skips badges the
+   * user already has.
+   */
+  private async finalizeSeason(season: Season): Promise<boolean> {
+    const ranking = await leaderboardService.getRanking(
+      season.metric as WindowedMetric,
+      leaderboardService.getSeasonWindow(season)
+    );
+    const rewards = season.rewards as unknown as SeasonReward[];
+
+    const standings = ranking.map((entry) => {
+      const reward = rewards.find((r) => entry.rank >= r.fromRank && entry.rank <= r.toRank);
+      return {
+        seasonId: season.seasonId,
+        userId: entry.userId,
+        rank: entry.rank,
+        score: entry.score,
+        rewardCoins: reward?.coins ?? 0,
+        rewardBadgeId: reward?.badgeId ?? null,
+      };
+    });
+
+    const claimed = await prisma.$transaction(
+      async (tx) => {
+        const claim = await tx.season.updateMany({
+          where: { seasonId: season.seasonId, finalizedAt: null },
+          data: { finalizedAt: new Date() },
+        });
+        if (claim.count === 0) return false;
+
+        await tx.seasonStanding.createMany({ data: standings, skipDuplicates: true });
+
+        for (const standing of standings) {
+          if (standing.rewardCoins <= 0) continue;
+
+          await gamificationService.awardCoins(
+            standing.userId,
+            standing.rewardCoins,
+            `Season "${season.name}" reward`,
+            {
+              sourceType: 'SEASON',
+              sourceId: season.seasonId,
+              metadata: { rank: standing.rank },
+              tx,
+            }
+          );
+        }
+        return true;
+      },
+      { timeout: PAYOUT_TRANSACTION_TIMEOUT_MS }
+    );
+    if (!claimed) return false;
+
+    for (const standing of standings) {
+      if (!standing.rewardCoins && !standing.rewardBadgeId) continue;
+
+      try {
+        if (standing.rewardBadgeId) {
+          await gamificationService.grantBadge(standing.userId, standing.rewardBadgeId);
+        }
+        if (standing.rewardCoins > 0) {
+          await gamificationService.awardBadgesForEvent(standing.userId, 'COINS_EARNED');
+        }
+
+        await notificationService.createNotification({
+          userId: standing.userId,
+          type: 'SYSTEM',
+          title: 'Season Results 🏆',
+          message: `You finished #${standing.rank} in "${season.name}"${
+            standing.rewardCoins > 0 ? ` and earned ${standing.rewardCoins} coins` : ''
+          }!`,
+          data: { seasonId: season.seasonId, rank: standing.rank },
+        });
+      } catch (error) {
+        // Coins are already paid; a failed badge or notice is logged for a manual fix
+        logger.error(
+          `Failed to send season ${season.seasonId} results to user ${standing.userId}:`,
+          error
+        );
+      }
+    }
+
+    logger.info(`Season finalized: ${season.seasonId} (${standings.length} ranked users)`);
+    return true;
+  }
+
+  /**
+   * Check reward bands: whole ranks, non-overlapping, existing badges
+   */
+  private async validateRewards(rewards: unknown): Promise<SeasonReward[]> {
+    if (!Array.isArray(rewards)) {
+      throw new AppError('Season rewards must be a list', 400);
+    }
+
+    const bands: SeasonReward[] = rewards.map((reward: any, i) => {
+      const { fromRank, toRank, coins, badgeId } = reward ?? {};
+      if (!Number.isInteger(fromRank) || !Number.isInteger(toRank) || fromRank < 1 || toRank < fromRank) {
+        throw new AppError(`rewards[${i}] needs whole ranks with 1 <= fromRank <= toRank`, 400);
+      }
+      if (coins !== undefined && (!Number.isInteger(coins) || coins < 0 || coins > 100000)) {
+        throw new AppError(`rewards[${i}].coins must be a whole number from 0 to 100000`, 400);
+      }
+      if (badgeId !== undefined && typeof badgeId !== 'string') {
+        throw new AppError(`rewards[${i}].badgeId must be a badge id`, 400);
+      }
+      if (!coins && !badgeId) {
+        throw new AppError(`rewards[${i}] must give coins or a badge`, 400);
+      }
+      return { fromRank, toRank, ...(coins && { coins }), ...(badgeId && { badgeId }) };
+    });
+
+    const sorted = [...bands].sort((a, b) => a.fromRank - b.fromRank);
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].fromRank <= sorted[i - 1].toRank) {
+        throw new AppError('Season reward rank bands overlap', 400);
+      }
+    }
+
+    const badgeIds = [...new Set(bands.flatMap((b) => (b.badgeId ? [b.badgeId] : [])))];
+    if (badgeIds.length > 0) {
+      const found = await prisma.badge.count({ where: { badgeId: { in: badgeIds } } });
+      if (found !== badgeIds.length) {
+        throw new AppError('A season reward refers to a badge that does not exist', 400);
+      }
+    }
+
+    return sorted;
+  }
+}
+
+export const seasonService = new SeasonService();
@@ -0,0 +1,279 @@
+/**
+ * Session Service
+ * Server-tracked device sessions with rotating refresh tokens.
+ * Each session owns a family of refresh tokens; presenting a token that has
+ * already been rotated revokes the whole session.
+ */
+
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export type SessionRevokeReason =
+  | 'LOGOUT'
+  | 'USER_REVOKED'
+  | 'ADMIN_REVOKED'
+  | 'TOKEN_REUSE'
+  | 'PASSWORD_RESET'
+  | 'ACCOUNT_DISABLED';
+
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+interface SessionUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+class SessionService {
+  /**
+   * Start a new session for a user and issue its first token pair
+   */
+  async createSession(user: SessionUser, client: SessionClient = {}): Promise<SessionTokens> {
+    const refreshToken = this.generateRefreshToken();
+    const expiresAt = this.getRefreshExpiry();
+
+    const session = await prisma.userSession.create({
+      data: {
+        userId: user.userId,
+        userAgent: this.truncate(client.userAgent),
+        ipAddress: client.ipAddress,
+        expiresAt,
+        refreshTokens: {
+          create: { tokenHash: this.hash(refreshToken), expiresAt },
+        },
+      },
+    });
+
+    return {
+      accessToken: this.signAccessToken(user, session.sessionId),
+      refreshToken,
+      sessionId: session.sessionId,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The presented token is
+   * retired; reusing it later revokes the session.
+   */
+  async rotateRefreshToken(refreshToken: string, client: SessionClient = {}): Promise<SessionTokens> {
+    const record = await prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hash(refreshToken) },
+      include: {
+        session: {
+          include: {
+            user: { select: { userId: true, email: true, role: true, status: true } },
+          },
+        },
+      },
+    });
+
+    if (!record) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    const { session } = record;
+
+    if (session.revokedAt) {
+      throw new AppError('Session has been revoked', 401);
+    }
+
+    if (record.rotatedAt) {
+      await this.handleReuse(session.sessionId, session.userId);
+    }
+
+    const now = new Date();
+    if (record.expiresAt < now || session.expiresAt < now) {
+      throw new AppError('Refresh token expired', 401);
+    }
+
+    if (session.user.status !== 'ACTIVE') {
+      await this.revokeSession(session.sessionId, 'ACCOUNT_DISABLED');
+      throw new AppError('Account is not active', 403);
+    }
+
+    // Claim the token. If a concurrent request got there first this is reuse.
+    const claimed = await prisma.refreshToken.updateMany({
+      where: { tokenId: record.tokenId, rotatedAt: null },
+      data: { rotatedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      await this.handleReuse(session.sessionId, session.userId);
+    }
+
+    const nextToken = this.generateRefreshToken();
+    const expiresAt = this.getRefreshExpiry();
+
+    await prisma.userSession.update({
+      where: { sessionId: session.sessionId },
+      data: {
+        lastSeenAt: now,
+        expiresAt,
+        ipAddress: client.ipAddress ?? session.ipAddress,
+        userAgent: this.truncate(client.userAgent) ?? session.userAgent,
+        refreshTokens: {
+          create: { tokenHash: this.hash(nextToken), expiresAt },
+        },
+      },
+    });
+
+    return {
+      accessToken: this.signAccessToken(session.user, session.sessionId),
+      refreshToken: nextToken,
+      sessionId: session.sessionId,
+    };
+  }
+
+  /**
+   * List a user's active sessions, flagging the one making the request
+   */
+  async listSessions(userId: string, currentSessionId?: string) {
+    const sessions = await prisma.userSession.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        sessionId: true,
+        userAgent: true,
+        ipAddress: true,
+        lastSeenAt: true,
+        createdAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      ...session,
+      isCurrent: session.sessionId === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke a single session. When userId is given the session must belong to it.
+   */
+  async revokeSession(
+    sessionId: string,
+    reason: SessionRevokeReason,
+    userId?: string
+  ): Promise<boolean> {
+    const result = await prisma.userSession.updateMany({
+      where: { sessionId, revokedAt: null, ...(userId && { userId }) },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping one
+   */
+  async revokeAllSessions(
+    userId: string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await prisma.userSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { sessionId: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    if (result.count > 0) {
+      logger.info(`Revoked ${result.count} session(s) for user ${userId} (${reason})`);
+    }
+
+    return result.count;
+  }
+
+  /**
+   * Whether a session is still usable. Access tokens carry their session id
+   * so revoking a session also cuts off its outstanding access tokens.
+   */
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await prisma.userSession.findUnique({
+      where: { sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+
+    return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  /**
+   * Delete expired and revoked sessions older than the retention window
+   */
+  async cleanupExpiredSessions(retentionDays: number = 30): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const result = await prisma.userSession.deleteMany({
+      where: {
+        OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }],
+      },
+    });
+
+    return result.count;
+  }
+
+  private async handleReuse(sessionId: string, userId: string): Promise<never> {
+    await this.revokeSession(sessionId, 'TOKEN_REUSE');
+    logger.warn(`Refresh token reuse detected for user ${userId}, session ${sessionId} revoked`);
+    throw new AppError('Refresh token has already been used', 401);
+  }
+
+  private signAccessToken(user: SessionUser, sessionId: string): string {
+    // The env value is a duration such as "15m"; jsonwebtoken types it as ms's StringValue
+    const options: SignOptions = {
+      expiresIn: (process.env.JWT_EXPIRES_IN || '15m') as SignOptions['expiresIn'],
+    };
+    return jwt.sign(
+      { userId: user.userId, email: user.email, role: user.role, sessionId },
+      process.env.JWT_SECRET!,
+      options
+    );
+  }
+
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(48).toString('base64url');
+  }
+
+  private getRefreshExpiry(): Date {
+    const value = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+    const match = /^(\d+)([smhd])$/.exec(value);
+    const ttl = match ? Number(match[1]) * DURATION_UNITS[match[2]] : DURATION_UNITS.d * 7;
+    return new Date(Date.now() + ttl);
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private truncate(value?: string): string | undefined {
+    return value ? value.slice(0, 512) : undefined;
+  }
+}
+
+export const sessionService = new SessionService();
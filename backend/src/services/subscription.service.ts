@@ -29,6 +29,7 @@ export const SUBSCRIPTION_TIERS = {
       adFree: false,
       supportPriority: 'standard' as const,
       maxConnections: 50,
+      maxUploadSizeMb: 5,
     },
   },
   BASIC: {
@@ -49,6 +50,7 @@ export const SUBSCRIPTION_TIERS = {
       adFree: true,
       supportPriority: 'priority' as const,
       maxConnections: 200,
+      maxUploadSizeMb: 25,
     },
   },
   PRO: {
@@ -69,6 +71,7 @@ export const SUBSCRIPTION_TIERS = {
       adFree: true,
       supportPriority: 'vip' as const,
       maxConnections: -1, // unlimited
+      maxUploadSizeMb: 100,
       monetization: true,
       corporateFeatures: true,
     },
@@ -399,8 +402,12 @@ class SubscriptionService {
           const limit = tierConfig.features.maxConnections;
           if (limit === -1) return { allowed: true };
 
-          const currentCount = await prisma.connection.count({
-            where: { userId },
+          // Follows are unlimited; the limit applies to accepted connections
+          const currentCount = await prisma.connectionRequest.count({
+            where: {
+              status: 'ACCEPTED',
+              OR: [{ senderId: userId }, { receiverId: userId }],
+            },
           });
 
           return {
@@ -0,0 +1,240 @@
+/**
+ * Swap Escrow Service
+ * Locks SkillCoin stakes when a swap is accepted, releases them with a
+ * completion bonus when it completes, and settles them on cancellation
+ */
+
+import { Prisma, Swap } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { gamificationService } from './gamification.service';
+import { adminService } from './admin.service';
+import { logger } from '../utils/logger';
+
+/**
+ * What happens to the cancelling party's stake when an accepted swap is cancelled.
+ * The other party's stake is always refunded.
+ */
+export type CancellationPolicy =
+  | 'FORFEIT_TO_COUNTERPARTY' // Whole stake goes to the cancelled-on party
+  | 'SPLIT' // Half goes to the cancelled-on party, half is refunded
+  | 'REFUND_BOTH'; // Nobody is penalised
+
+export interface EscrowSettings {
+  enabled: boolean;
+  maxStake: number;
+  completionBonus: number;
+  cancellationPolicy: CancellationPolicy;
+}
+
+const DEFAULT_SETTINGS: EscrowSettings = {
+  enabled: true,
+  maxStake: 100,
+  completionBonus: 10,
+  cancellationPolicy: 'FORFEIT_TO_COUNTERPARTY',
+};
+
+const CANCELLATION_POLICIES: CancellationPolicy[] = [
+  'FORFEIT_TO_COUNTERPARTY',
+  'SPLIT',
+  'REFUND_BOTH',
+];
+
+type EscrowSwap = Pick<Swap, 'swapId' | 'initiatorId' | 'receiverId' | 'stakeAmount'>;
+
+class SwapEscrowService {
+  /**
+   * Read escrow configuration from AdminSettings
+   */
+  async getSettings(): Promise<EscrowSettings> {
+    const [enabled, maxStake, completionBonus, cancellationPolicy] = await Promise.all([
+      adminService.getSettingValue('swap_escrow_enabled', DEFAULT_SETTINGS.enabled),
+      adminService.getSettingValue('swap_escrow_max_stake', DEFAULT_SETTINGS.maxStake),
+      adminService.getSettingValue(
+        'swap_escrow_completion_bonus',
+        DEFAULT_SETTINGS.completionBonus
+      ),
+      adminService.getSettingValue<CancellationPolicy>(
+        'swap_escrow_cancellation_policy',
+        DEFAULT_SETTINGS.cancellationPolicy
+      ),
+    ]);
+
+    return {
+      enabled: Boolean(enabled),
+      maxStake: Math.max(0, Number(maxStake) || 0),
+      completionBonus: Math.max(0, Number(completionBonus) || 0),
+      cancellationPolicy: CANCELLATION_POLICIES.includes(cancellationPolicy)
+        ? cancellationPolicy
+        : DEFAULT_SETTINGS.cancellationPolicy,
+    };
+  }
+
+  /**
+   * Validate a requested stake when a swap is created
+   */
+  async validateStake(stakeAmount: number, initiatorId: string): Promise<void> {
+    if (stakeAmount === 0) return;
+
+    const settings = await this.getSettings();
+
+    if (!settings.enabled) {
+      throw new AppError('Coin stakes are currently disabled', 400);
+    }
+
+    if (!Number.isInteger(stakeAmount) || stakeAmount < 0 || stakeAmount > settings.maxStake) {
+      throw new AppError(`Stake must be between 0 and ${settings.maxStake} SkillCoins`, 400);
+    }
+
+    const initiator = await prisma.user.findUnique({
+      where: { userId: initiatorId },
+      select: { coins: true },
+    });
+
+    if (!initiator || initiator.coins < stakeAmount) {
+      throw new AppError('You do not have enough SkillCoins for this stake', 400);
+    }
+  }
+
+  /**
+   * Lock both parties' stakes. Runs inside the accept transaction so the
+   * swap is never ACCEPTED without its escrow.
+   */
+  async lockStakes(swap: EscrowSwap, tx: Prisma.TransactionClient): Promise<void> {
+    if (swap.stakeAmount <= 0) return;
+
+    for (const userId of [swap.initiatorId, swap.receiverId]) {
+      try {
+        await gamificationService.deductCoins(userId, swap.stakeAmount, 'Swap stake locked', {
+          sourceType: 'SWAP',
+          sourceId: swap.swapId,
+          tx,
+        });
+      } catch (error: any) {
+        if (error.message === 'Insufficient coins') {
+          const who = userId === swap.receiverId ? 'You do' : 'The other user does';
+          throw new AppError(`${who} not have enough SkillCoins to cover the stake`, 400);
+        }
+        throw error;
+      }
+
+      await tx.swapEscrow.create({
+        data: {
+          swapId: swap.swapId,
+          userId,
+          amount: swap.stakeAmount,
+        },
+      });
+    }
+
+    logger.info(`Locked ${swap.stakeAmount} coin stakes for swap ${swap.swapId}`);
+  }
+
+  /**
+   * Return both stakes plus the completion bonus
+   */
+  async releaseStakes(swap: EscrowSwap, tx: Prisma.TransactionClient): Promise<number> {
+    const escrows = await tx.swapEscrow.findMany({
+      where: { swapId: swap.swapId, status: 'HELD' },
+    });
+
+    if (escrows.length === 0) return 0;
+
+    const { completionBonus } = await this.getSettings();
+
+    for (const escrow of escrows) {
+      await gamificationService.awardCoins(escrow.userId, escrow.amount, 'Swap stake returned', {
+        sourceType: 'SWAP',
+        sourceId: swap.swapId,
+        tx,
+      });
+
+      if (completionBonus > 0) {
+        await gamificationService.awardCoins(
+          escrow.userId,
+          completionBonus,
+          'Staked swap completion bonus',
+          { sourceType: 'SWAP', sourceId: swap.swapId, tx }
+        );
+      }
+
+      await tx.swapEscrow.update({
+        where: { escrowId: escrow.escrowId },
+        data: {
+          status: 'RELEASED',
+          settledToId: escrow.userId,
+          settledAt: new Date(),
+        },
+      });
+    }
+
+    logger.info(`Released stakes for completed swap ${swap.swapId}`);
+
+    return completionBonus;
+  }
+
+  /**
+   * Settle stakes for a cancelled swap according to the configured policy
+   */
+  async settleCancellation(
+    swap: EscrowSwap,
+    cancelledById: string,
+    tx: Prisma.TransactionClient
+  ): Promise<CancellationPolicy | null> {
+    const escrows = await tx.swapEscrow.findMany({
+      where: { swapId: swap.swapId, status: 'HELD' },
+    });
+
+    if (escrows.length === 0) return null;
+
+    const { cancellationPolicy } = await this.getSettings();
+    const counterpartyId =
+      cancelledById === swap.initiatorId ? swap.receiverId : swap.initiatorId;
+
+    for (const escrow of escrows) {
+      const isCanceller = escrow.userId === cancelledById;
+      const forfeited = !isCanceller
+        ? 0
+        : cancellationPolicy === 'FORFEIT_TO_COUNTERPARTY'
+          ? escrow.amount
+          : cancellationPolicy === 'SPLIT'
+            ? Math.floor(escrow.amount / 2)
+            : 0;
+      const refunded = escrow.amount - forfeited;
+
+      if (refunded > 0) {
+        await gamificationService.awardCoins(escrow.userId, refunded, 'Swap stake refunded', {
+          sourceType: 'SWAP',
+          sourceId: swap.swapId,
+          tx,
+        });
+      }
+
+      if (forfeited > 0) {
+        await gamificationService.awardCoins(
+          counterpartyId,
+          forfeited,
+          'Stake forfeited by cancelling party',
+          { sourceType: 'SWAP', sourceId: swap.swapId, actorId: cancelledById, tx }
+        );
+      }
+
+      await tx.swapEscrow.update({
+        where: { escrowId: escrow.escrowId },
+        data: {
+          status: forfeited > 0 ? 'FORFEITED' : 'REFUNDED',
+          settledToId: forfeited > 0 ? counterpartyId : escrow.userId,
+          settledAt: new Date(),
+        },
+      });
+    }
+
+    logger.info(
+      `Settled stakes for cancelled swap ${swap.swapId} (${cancellationPolicy}, cancelled by ${cancelledById})`
+    );
+
+    return cancellationPolicy;
+  }
+}
+
+export const swapEscrowService = new SwapEscrowService();
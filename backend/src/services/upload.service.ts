@@ -0,0 +1,261 @@
+/**
+ * Upload Service
+ * Stores user files through the configured storage driver and hands out
+ * references that avatars, chat attachments and event images must use
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { Upload, UploadPurpose } from '@prisma/client';
+import prisma from '../config/database';
+import { storage } from '../config/storage';
+import { AppError } from '../middleware/errorHandler';
+import { sniffMimeType, isImageType } from '../utils/mime-sniff';
+import { logger } from '../utils/logger';
+import { subscriptionService, SUBSCRIPTION_TIERS } from './subscription.service';
+import { conversationService } from './conversation.service';
+
+const MB = 1024 * 1024;
+// Avatars are small no matter the plan
+const AVATAR_MAX_BYTES = 5 * MB;
+const THUMBNAIL_SIZE = 256;
+const SIGNED_URL_TTL_SECONDS = 15 * 60;
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+const ALLOWED_TYPES: Record<UploadPurpose, string[]> = {
+  AVATAR: IMAGE_TYPES,
+  EVENT_IMAGE: IMAGE_TYPES,
+  CHAT_ATTACHMENT: [
+    ...IMAGE_TYPES,
+    'application/pdf',
+    'application/zip',
+    'text/plain',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  ],
+};
+
+// Anyone can view these; chat attachments are limited to the conversation
+const PUBLIC_PURPOSES: UploadPurpose[] = ['AVATAR', 'EVENT_IMAGE'];
+
+const UPLOAD_PATH = '/api/v1/uploads/';
+const REFERENCE_PATTERN =
+  /^(?:(?:https?:\/\/[^/]+)?\/api\/v1\/uploads\/)?([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+interface CreateUploadParams {
+  ownerId: string;
+  purpose: UploadPurpose;
+  buffer: Buffer;
+  originalName: string;
+}
+
+class UploadService {
+  /**
+   * Largest file the user's plan allows, in bytes
+   */
+  async getMaxUploadBytes(userId: string): Promise<number> {
+    const limitMb = await subscriptionService.getFeatureLimit(userId, 'maxUploadSizeMb');
+    return (limitMb > 0 ? limitMb : SUBSCRIPTION_TIERS.FREE.features.maxUploadSizeMb) * MB;
+  }
+
+  /**
+   * Validate and store a file
+   */
+  async createUpload(params: CreateUploadParams): Promise<Upload> {
+    const { ownerId, purpose, buffer, originalName } = params;
+
+    if (!Object.keys(ALLOWED_TYPES).includes(purpose)) {
+      throw new AppError('Invalid upload purpose', 400);
+    }
+
+    const maxBytes = Math.min(
+      await this.getMaxUploadBytes(ownerId),
+      purpose === 'AVATAR' ? AVATAR_MAX_BYTES : Infinity
+    );
+    if (buffer.length > maxBytes) {
+      throw new AppError(`File exceeds the ${Math.floor(maxBytes / MB)} MB limit`, 413);
+    }
+
+    // Trust the bytes, not the client's Content-Type
+    const sniffed = sniffMimeType(buffer, originalName);
+    if (!sniffed || !ALLOWED_TYPES[purpose].includes(sniffed.mimeType)) {
+      throw new AppError('Unsupported file type', 415);
+    }
+
+    const uploadId = crypto.randomUUID();
+    const baseKey = `${purpose.toLowerCase().replace('_', '-')}/${ownerId}/${uploadId}`;
+    const storageKey = `${baseKey}.${sniffed.extension}`;
+
+    await storage.put(storageKey, buffer, sniffed.mimeType);
+
+    let thumbnailKey: string | null = null;
+    if (isImageType(sniffed.mimeType)) {
+      thumbnailKey = await this.createThumbnail(buffer, `${baseKey}.thumb.webp`);
+    }
+
+    const upload = await prisma.upload.create({
+      data: {
+        uploadId,
+        ownerId,
+        purpose,
+        driver: storage.name,
+        storageKey,
+        thumbnailKey,
+        mimeType: sniffed.mimeType,
+        originalName: originalName.slice(0, 255),
+        size: buffer.length,
+      },
+    });
+
+    logger.info(`Upload ${uploadId} stored for user ${ownerId} (${purpose}, ${buffer.length} bytes)`);
+
+    return upload;
+  }
+
+  /**
+   * Stable URL for an upload. Stored on profiles, messages and events;
+   * it redirects to a short-lived signed URL when fetched.
+   */
+  getPublicUrl(uploadId: string): string {
+    return `${process.env.API_PUBLIC_URL || ''}${UPLOAD_PATH}${uploadId}`;
+  }
+
+  /**
+   * Turn a client-supplied reference (upload id or upload URL) into an upload
+   * the user owns for the given purpose. Anything else is rejected, so
+   * arbitrary external URLs cannot be stored.
+   */
+  async resolveReference(reference: string, ownerId: string, purpose: UploadPurpose): Promise<Upload> {
+    const match = typeof reference === 'string' ? REFERENCE_PATTERN.exec(reference.trim()) : null;
+    if (!match) {
+      throw new AppError('File must be uploaded through the uploads API', 400);
+    }
+
+    const upload = await prisma.upload.findUnique({
+      where: { uploadId: match[1].toLowerCase() },
+    });
+
+    if (!upload || upload.ownerId !== ownerId || upload.purpose !== purpose) {
+      throw new AppError('Upload not found', 400);
+    }
+
+    return upload;
+  }
+
+  /**
+   * Get an upload the user is allowed to read
+   */
+  async getAccessibleUpload(uploadId: string, userId?: string): Promise<Upload> {
+    const upload = await prisma.upload.findUnique({ where: { uploadId } });
+
+    if (!upload) {
+      throw new AppError('Upload not found', 404);
+    }
+
+    if (PUBLIC_PURPOSES.includes(upload.purpose) || upload.ownerId === userId) {
+      return upload;
+    }
+
+    if (!userId) {
+      throw new AppError('Authentication required', 401);
+    }
+
+    // Chat attachments: the receiver of a message that carries it, or anyone
+    // in the group it was sent to
+    const conversationIds = await conversationService.getConversationIds(userId);
+    const message = await prisma.message.findFirst({
+      where: {
+        AND: [
+          {
+            OR: [
+              { receiverId: userId },
+              { receiverId: null, conversationId: { in: conversationIds } },
+            ],
+          },
+          {
+            OR: [
+              { imageUrl: { endsWith: `${UPLOAD_PATH}${upload.uploadId}` } },
+              { fileUrl: { endsWith: `${UPLOAD_PATH}${upload.uploadId}` } },
+            ],
+          },
+        ],
+      },
+      select: { messageId: true },
+    });
+
+    if (!message) {
+      throw new AppError('You do not have access to this file', 403);
+    }
+
+    return upload;
+  }
+
+  /**
+   * Short-lived signed URL for the file or its thumbnail
+   */
+  async getSignedUrl(
+    upload: Upload,
+    baseUrl: string,
+    variant: 'original' | 'thumbnail' = 'original'
+  ): Promise<{ url: string; expiresAt: Date }> {
+    // Fall back to the original when no thumbnail could be made
+    const key = variant === 'thumbnail' && upload.thumbnailKey ? upload.thumbnailKey : upload.storageKey;
+
+    const url = await storage.getSignedUrl(key, {
+      expiresInSeconds: SIGNED_URL_TTL_SECONDS,
+      baseUrl,
+    });
+
+    return { url, expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000) };
+  }
+
+  /**
+   * Find the upload a storage key belongs to (original or thumbnail)
+   */
+  async findByStorageKey(key: string): Promise<Upload | null> {
+    return prisma.upload.findFirst({
+      where: { OR: [{ storageKey: key }, { thumbnailKey: key }] },
+    });
+  }
+
+  /**
+   * Delete an upload and its stored objects
+   */
+  async deleteUpload(uploadId: string, ownerId: string): Promise<void> {
+    const upload = await prisma.upload.findUnique({ where: { uploadId } });
+
+    if (!upload || upload.ownerId !== ownerId) {
+      throw new AppError('Upload not found', 404);
+    }
+
+    await storage.delete(upload.storageKey);
+    if (upload.thumbnailKey) {
+      await storage.delete(upload.thumbnailKey);
+    }
+
+    await prisma.upload.delete({ where: { uploadId } });
+
+    logger.info(`Upload ${uploadId} deleted by ${ownerId}`);
+  }
+
+  private async createThumbnail(buffer: Buffer, key: string): Promise<string | null> {
+    try {
+      const thumbnail = await sharp(buffer)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+
+      await storage.put(key, thumbnail, 'image/webp');
+      return key;
+    } catch (error) {
+      // A missing thumbnail is not worth failing the upload over
+      logger.error('Failed to create thumbnail:', error);
+      return null;
+    }
+  }
+}
+
+export const uploadService = new UploadService();
@@ -0,0 +1,142 @@
+/**
+ * Conversation export writers: JSON for records, HTML for printing
+ */
+
+export interface ChatExportUser {
+  userId: string;
+  name: string;
+}
+
+export interface ChatExportMessage {
+  messageId: string;
+  sentAt: Date;
+  sender: ChatExportUser;
+  messageType: string;
+  content: string;
+  attachment: { fileName: string | null; url: string } | null;
+  replyToId: string | null;
+  editedAt: Date | null;
+}
+
+export interface ChatExport {
+  conversationId: string;
+  type: string;
+  title: string;
+  exportedAt: Date;
+  exportedBy: ChatExportUser;
+  participants: ChatExportUser[];
+  messageCount: number;
+  // Read in batches while the export is written, so a long history is never
+  // held in memory at once
+  messages: AsyncIterable<ChatExportMessage[]>;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Format a date as e.g. 2024-01-05 09:30 UTC, so printed records do not
+ * depend on the reader's time zone
+ */
+const formatDateTime = (date: Date): string =>
+  `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+const formatDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Write the export as pretty-printed JSON, one message at a time. The output
+ * matches JSON.stringify(data, null, 2) with the messages as an array.
+ */
+export async function* renderJsonExport(data: ChatExport): AsyncGenerator<string> {
+  const { messages, ...header } = data;
+  const head = JSON.stringify(header, null, 2);
+  let first = true;
+
+  yield `${head.slice(0, -2)},\n  "messages": [`;
+
+  for await (const batch of messages) {
+    for (const message of batch) {
+      const json = JSON.stringify(message, null, 2).replace(/\n/g, '\n    ');
+      yield `${first ? '' : ','}\n    ${json}`;
+      first = false;
+    }
+  }
+
+  yield first ? ']\n}' : '\n  ]\n}';
+}
+
+const buildMessage = (message: ChatExportMessage): string => {
+  const attachment = message.attachment
+    ? `<div class="attachment">Attachment: ${escapeHtml(message.attachment.fileName ?? message.attachment.url)}</div>`
+    : '';
+  const edited = message.editedAt
+    ? ` <span class="meta">(edited ${formatDateTime(message.editedAt)})</span>`
+    : '';
+
+  return [
+    '<div class="message">',
+    `<div><span class="sender">${escapeHtml(message.sender.name)}</span> <span class="meta">${formatDateTime(message.sentAt)}</span>${edited}</div>`,
+    `<div class="content">${escapeHtml(message.content)}</div>`,
+    attachment,
+    '</div>',
+  ].join('');
+};
+
+/**
+ * Write a self-contained HTML page that prints cleanly, with the messages
+ * grouped by day
+ */
+export async function* renderHtmlExport(data: ChatExport): AsyncGenerator<string> {
+  const participants = data.participants.map((p) => escapeHtml(p.name)).join(', ');
+  let currentDay = '';
+
+  yield `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(data.title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; max-width: 760px; margin: 2rem auto; padding: 0 1rem; }
+  header { border-bottom: 1px solid #d1d5db; margin-bottom: 1rem; padding-bottom: 0.5rem; }
+  h1 { font-size: 1.25rem; margin: 0 0 0.5rem; }
+  h2 { font-size: 0.85rem; color: #6b7280; margin: 1.5rem 0 0.5rem; }
+  .message { margin-bottom: 0.75rem; page-break-inside: avoid; }
+  .sender { font-weight: 600; }
+  .meta { color: #6b7280; font-size: 0.8rem; }
+  .content { white-space: pre-wrap; }
+  .attachment { color: #4b5563; font-size: 0.85rem; font-style: italic; }
+  @media print { body { margin: 0; max-width: none; } }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(data.title)}</h1>
+<div class="meta">Participants: ${participants}</div>
+<div class="meta">${data.messageCount} messages. Exported by ${escapeHtml(data.exportedBy.name)} on ${formatDateTime(data.exportedAt)}</div>
+</header>
+`;
+
+  for await (const batch of data.messages) {
+    const body: string[] = [];
+
+    for (const message of batch) {
+      const day = formatDay(message.sentAt);
+      if (day !== currentDay) {
+        body.push(`<h2>${day}</h2>`);
+        currentDay = day;
+      }
+      body.push(buildMessage(message));
+    }
+
+    if (body.length > 0) yield `${body.join('\n')}\n`;
+  }
+
+  yield `</body>
+</html>
+`;
+}
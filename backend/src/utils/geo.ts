@@ -0,0 +1,72 @@
+/**
+ * Geo helpers for proximity matching
+ */
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+  // False when the box crosses the antimeridian; callers should skip the longitude bounds
+  longitudeBounded: boolean;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Whether a record has usable coordinates
+ */
+export const hasCoordinates = (location?: {
+  latitude?: number | null;
+  longitude?: number | null;
+} | null): location is Coordinates =>
+  !!location && typeof location.latitude === 'number' && typeof location.longitude === 'number';
+
+/**
+ * Great-circle distance between two points in kilometres (haversine)
+ */
+export const distanceKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Smallest lat/lng box containing every point within radiusKm of center.
+ * Used as a cheap indexed prefilter before the exact distance check.
+ */
+export const getBoundingBox = (center: Coordinates, radiusKm: number): BoundingBox => {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const minLatitude = Math.max(-90, center.latitude - latDelta);
+  const maxLatitude = Math.min(90, center.latitude + latDelta);
+
+  // Near the poles every longitude is within range
+  const cosLat = Math.cos(toRadians(center.latitude));
+  if (maxLatitude >= 90 || minLatitude <= -90 || cosLat <= 0) {
+    return { minLatitude, maxLatitude, minLongitude: -180, maxLongitude: 180, longitudeBounded: false };
+  }
+
+  const lngDelta = latDelta / cosLat;
+  const minLongitude = center.longitude - lngDelta;
+  const maxLongitude = center.longitude + lngDelta;
+
+  return {
+    minLatitude,
+    maxLatitude,
+    minLongitude,
+    maxLongitude,
+    longitudeBounded: minLongitude >= -180 && maxLongitude <= 180,
+  };
+};
@@ -0,0 +1,101 @@
+/**
+ * Minimal RFC 5545 (iCalendar) writer for swap sessions and events
+ */
+
+export interface ICalEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  lastModified?: Date;
+}
+
+const PRODID = '-//Tej India//Skill Swap//EN';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Format a date as a UTC DATE-TIME value (e.g. 20240105T093000Z)
+ */
+const formatDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+ * without splitting multi-byte characters
+ */
+const foldLine = (line: string): string => {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+      limit = MAX_LINE_OCTETS - 1; // Continuation lines start with a space
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const buildEvent = (event: ICalEvent, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatDate(event.start)}`,
+    `DTEND:${formatDate(event.end)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatDate(event.lastModified)}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Build a VCALENDAR document. PUBLISH lets calendar apps apply later
+ * updates and cancellations by UID and SEQUENCE.
+ */
+export const buildCalendar = (name: string, events: ICalEvent[]): string => {
+  const stamp = formatDate(new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap((event) => buildEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,87 @@
+/**
+ * Detect a file's real type from its leading bytes instead of trusting the
+ * client-supplied Content-Type or extension
+ */
+
+export interface SniffedType {
+  mimeType: string;
+  extension: string;
+}
+
+interface Signature {
+  mimeType: string;
+  extension: string;
+  bytes: number[];
+}
+
+const SIGNATURES: Signature[] = [
+  { mimeType: 'image/jpeg', extension: 'jpg', bytes: [0xff, 0xd8, 0xff] },
+  {
+    mimeType: 'image/png',
+    extension: 'png',
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { mimeType: 'image/gif', extension: 'gif', bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  { mimeType: 'application/pdf', extension: 'pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { mimeType: 'application/zip', extension: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] }, // PK
+];
+
+// Office Open XML documents are zip archives; the extension tells them apart
+const ZIP_BASED: Record<string, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+const matches = (buffer: Buffer, bytes: number[], offset: number = 0): boolean =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+
+// Control characters other than tab, newlines, form feed and carriage return
+const isControlChar = (code: number): boolean =>
+  code === 0x7f || (code < 0x20 && (code < 0x09 || code > 0x0d));
+
+/**
+ * Plain text: valid UTF-8 without control characters other than whitespace
+ */
+const isPlainText = (buffer: Buffer): boolean => {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.length === 0) return false;
+
+  // Drop a trailing partial multi-byte character cut off by the sample window
+  const text = sample.toString('utf8');
+  const body = sample.length < buffer.length ? text.replace(/\uFFFD+$/, '') : text;
+
+  return !body.includes('\uFFFD') && !Array.from(body).some((char) => isControlChar(char.charCodeAt(0)));
+};
+
+/**
+ * Sniff the type of a file. The original filename only disambiguates
+ * formats that share a container, such as .docx inside a zip.
+ */
+export const sniffMimeType = (buffer: Buffer, originalName: string = ''): SniffedType | null => {
+  // RIFF....WEBP
+  if (matches(buffer, [0x52, 0x49, 0x46, 0x46]) && matches(buffer, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return { mimeType: 'image/webp', extension: 'webp' };
+  }
+
+  const signature = SIGNATURES.find((s) => matches(buffer, s.bytes));
+
+  if (signature?.mimeType === 'application/zip') {
+    const extension = originalName.split('.').pop()?.toLowerCase() ?? '';
+    if (ZIP_BASED[extension]) {
+      return { mimeType: ZIP_BASED[extension], extension };
+    }
+  }
+
+  if (signature) {
+    return { mimeType: signature.mimeType, extension: signature.extension };
+  }
+
+  if (isPlainText(buffer)) {
+    return { mimeType: 'text/plain', extension: 'txt' };
+  }
+
+  return null;
+};
+
+export const isImageType = (mimeType: string): boolean => mimeType.startsWith('image/');
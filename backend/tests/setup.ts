@@ -11,6 +11,7 @@ jest.mock('../src/config/database', () => ({
   default: {
     user: {
       findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
       findMany: jest.fn(),
       findFirst: jest.fn(),
       create: jest.fn(),
@@ -21,6 +22,18 @@ jest.mock('../src/config/database', () => ({
       groupBy: jest.fn(),
       aggregate: jest.fn(),
     },
+    verificationToken: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    coinTransaction: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      aggregate: jest.fn(),
+    },
     userSubscription: {
       findUnique: jest.fn(),
       findMany: jest.fn(),
@@ -39,22 +52,51 @@ jest.mock('../src/config/database', () => ({
       aggregate: jest.fn(),
     },
     swap: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn(),
       count: jest.fn(),
       findMany: jest.fn(),
     },
     review: {
+      findMany: jest.fn().mockResolvedValue([]),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
       count: jest.fn(),
       aggregate: jest.fn(),
     },
     message: {
       count: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    swapSession: {
+      findMany: jest.fn(),
     },
     event: {
       count: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    eventAttendance: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      aggregate: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+      updateMany: jest.fn(),
     },
     userSkill: {
+      findUnique: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      update: jest.fn(),
       count: jest.fn(),
     },
+    skill: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
     skillCategory: {
       count: jest.fn(),
     },
@@ -74,6 +116,17 @@ jest.mock('../src/config/database', () => ({
       count: jest.fn(),
       groupBy: jest.fn(),
     },
+    userSession: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    refreshToken: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
     auditLog: {
       create: jest.fn(),
       findMany: jest.fn(),
@@ -90,6 +143,96 @@ jest.mock('../src/config/database', () => ({
     notification: {
       create: jest.fn(),
     },
+    badge: {
+      findMany: jest.fn().mockResolvedValue([]),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    userBadge: {
+      create: jest.fn(),
+    },
+    upload: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+    userBlock: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    connection: {
+      findMany: jest.fn().mockResolvedValue([]),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    activity: {
+      findMany: jest.fn().mockResolvedValue([]),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    privacySettings: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    activitySettings: {
+      findUnique: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      upsert: jest.fn(),
+    },
+    connectionRequest: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      count: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    conversation: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    conversationParticipant: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      count: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    conversationInvite: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+    },
+    season: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    seasonStanding: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
   },
 }));
 
@@ -0,0 +1,107 @@
+/**
+ * Activity Feed Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { activityService } from '../../src/services/activity.service';
+
+const mockPrisma = prisma as any;
+
+const activity = (activityId: string) => ({
+  activityId,
+  actorId: 'user-2',
+  type: 'SKILL_ADDED',
+  entityId: `entity-${activityId}`,
+  data: null,
+  createdAt: new Date('2026-01-10T10:00:00Z'),
+});
+
+describe('ActivityService', () => {
+  beforeEach(() => {
+    mockPrisma.userBlock.findMany.mockResolvedValue([]);
+    mockPrisma.connectionRequest.findMany.mockResolvedValue([]);
+    mockPrisma.activitySettings.findMany.mockResolvedValue([]);
+    mockPrisma.activity.findMany.mockResolvedValue([]);
+  });
+
+  describe('getFeed', () => {
+    it('returns nothing without querying activities when the user follows nobody', async () => {
+      mockPrisma.connection.findMany.mockResolvedValue([]);
+
+      await expect(activityService.getFeed('user-1')).resolves.toEqual({
+        activities: [],
+        nextCursor: null,
+      });
+      expect(mockPrisma.activity.findMany).not.toHaveBeenCalled();
+    });
+
+    it('only shows connection-only activity types to accepted connections', async () => {
+      mockPrisma.connection.findMany.mockResolvedValue([
+        { connectedUserId: 'user-2' },
+        { connectedUserId: 'user-3' },
+      ]);
+      const hidden = {
+        skills: 'FOLLOWERS',
+        swaps: 'CONNECTIONS',
+        badges: 'NOBODY',
+        events: 'FOLLOWERS',
+        reviews: 'FOLLOWERS',
+      };
+      mockPrisma.activitySettings.findMany.mockResolvedValue([
+        { userId: 'user-2', ...hidden },
+        { userId: 'user-3', ...hidden },
+      ]);
+      mockPrisma.connectionRequest.findMany.mockResolvedValue([
+        { senderId: 'user-3', receiverId: 'user-1' },
+      ]);
+
+      await activityService.getFeed('user-1');
+
+      expect(mockPrisma.activity.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: [
+              { actorId: { in: ['user-2'] }, type: { in: ['SKILL_ADDED', 'EVENT_PUBLISHED', 'REVIEW_POSTED'] } },
+              {
+                actorId: { in: ['user-3'] },
+                type: { in: ['SKILL_ADDED', 'SWAP_COMPLETED', 'EVENT_PUBLISHED', 'REVIEW_POSTED'] },
+              },
+            ],
+          },
+        })
+      );
+    });
+
+    it('continues after the cursor and returns the next one when the page is full', async () => {
+      mockPrisma.connection.findMany.mockResolvedValue([{ connectedUserId: 'user-2' }]);
+      mockPrisma.activity.findMany.mockResolvedValue([activity('a-2'), activity('a-3')]);
+
+      const feed = await activityService.getFeed('user-1', { cursor: 'a-1', limit: 2 });
+
+      expect(mockPrisma.activity.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ take: 2, skip: 1, cursor: { activityId: 'a-1' } })
+      );
+      expect(feed.nextCursor).toBe('a-3');
+    });
+
+    it('leaves out users blocked in either direction', async () => {
+      mockPrisma.connection.findMany.mockResolvedValue([{ connectedUserId: 'user-2' }]);
+      mockPrisma.userBlock.findMany.mockResolvedValue([{ blockerId: 'user-2', blockedId: 'user-1' }]);
+
+      const feed = await activityService.getFeed('user-1');
+
+      expect(feed.activities).toEqual([]);
+      expect(mockPrisma.activity.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('record', () => {
+    it('does not throw when saving the activity fails', async () => {
+      mockPrisma.activity.upsert.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        activityService.record('user-1', 'BADGE_EARNED', 'user-badge-1', { badgeName: 'Mentor' })
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -133,6 +133,10 @@ describe('Admin Service', () => {
   });
 
   describe('updateUser', () => {
+    beforeEach(() => {
+      (prisma.$transaction as jest.Mock).mockImplementation((fn: any) => fn(prisma));
+    });
+
     it('should update user successfully', async () => {
       const mockUpdatedUser = {
         userId: '1',
@@ -159,6 +163,31 @@ describe('Admin Service', () => {
       expect(result).not.toHaveProperty('password');
       expect(prisma.auditLog.create).toHaveBeenCalled();
     });
+
+    it('should record a balance change on the ledger with the audit log', async () => {
+      (prisma.user.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ userId: '1', role: 'USER', email: 'user@example.com' })
+        .mockResolvedValueOnce({ role: 'ADMIN' });
+      (prisma.user.findUniqueOrThrow as jest.Mock).mockResolvedValueOnce({ coins: 100 });
+      (prisma.user.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+      (prisma.user.findUniqueOrThrow as jest.Mock).mockResolvedValueOnce({ coins: 60 });
+      (prisma.coinTransaction.create as jest.Mock).mockResolvedValueOnce({ balanceAfter: 60 });
+      (prisma.user.update as jest.Mock).mockResolvedValueOnce({ userId: '1', coins: 60 });
+
+      await adminService.updateUser('1', 'admin-id', { coins: 60 });
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.coinTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          amount: -40,
+          balanceAfter: 60,
+          sourceType: 'ADMIN',
+          actorId: 'admin-id',
+        }),
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({ where: { userId: '1' }, data: {} });
+      expect(prisma.auditLog.create).toHaveBeenCalled();
+    });
   });
 
   describe('deleteUser', () => {
@@ -0,0 +1,218 @@
+/**
+ * Badge Rule Engine Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { badgeRuleService, BadgeCondition } from '../../src/services/badge-rule.service';
+
+const mockPrisma = prisma as any;
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2026-06-30T12:00:00Z');
+
+const fact = (daysAgo: number, fields: Record<string, string> = {}) => ({
+  at: new Date(now.getTime() - daysAgo * DAY),
+  amount: 60,
+  fields,
+});
+
+describe('BadgeRuleService', () => {
+  describe('validate', () => {
+    it('accepts nested AND/OR groups', () => {
+      const rule = {
+        combinator: 'AND',
+        conditions: [
+          { metric: 'SWAPS_COMPLETED', aggregation: 'count', operator: 'gte', value: 10 },
+          {
+            combinator: 'OR',
+            conditions: [
+              { metric: 'RATING', aggregation: 'value', operator: 'gte', value: 4.5 },
+              { metric: 'EVENTS_ORGANIZED', aggregation: 'count', operator: 'gte', value: 1 },
+            ],
+          },
+        ],
+      };
+
+      expect(badgeRuleService.validate(rule)).toEqual(rule);
+    });
+
+    it('names the condition with an unsupported aggregation', () => {
+      expect(() =>
+        badgeRuleService.validate({
+          combinator: 'OR',
+          conditions: [
+            { metric: 'LEVEL', aggregation: 'value', operator: 'gte', value: 5 },
+            { metric: 'LEVEL', aggregation: 'sum', operator: 'gte', value: 5 },
+          ],
+        })
+      ).toThrow('rule.conditions[1].aggregation for LEVEL must be one of value');
+    });
+
+    it('requires a known field for distinct', () => {
+      expect(() =>
+        badgeRuleService.validate({
+          metric: 'SWAPS_COMPLETED',
+          aggregation: 'distinct',
+          field: 'city',
+          operator: 'gte',
+          value: 3,
+        })
+      ).toThrow(/field for SWAPS_COMPLETED/);
+    });
+
+    it('rejects windows on "at most" conditions', () => {
+      expect(() =>
+        badgeRuleService.validate({
+          metric: 'SWAPS_COMPLETED',
+          aggregation: 'count',
+          windowDays: 30,
+          operator: 'lte',
+          value: 5,
+        })
+      ).toThrow(/windowDays/);
+    });
+  });
+
+  describe('getTriggers', () => {
+    it('collects the events of every metric in the rule', () => {
+      const triggers = badgeRuleService.getTriggers({
+        combinator: 'OR',
+        conditions: [
+          { metric: 'HELPFUL_VOTES', aggregation: 'count', operator: 'gte', value: 10 },
+          { metric: 'HOURS_TAUGHT', aggregation: 'value', operator: 'gte', value: 20 },
+        ],
+      });
+
+      expect(triggers.sort()).toEqual(['REVIEW_VOTED', 'SWAP_COMPLETED']);
+    });
+  });
+
+  describe('getBadgeRule', () => {
+    it('translates legacy criteria and ignores unknown ones', () => {
+      expect(
+        badgeRuleService.getBadgeRule({ rule: null, criteria: 'SWAP_COUNT', threshold: 50 })
+      ).toEqual({ metric: 'SWAPS_COMPLETED', aggregation: 'count', operator: 'gte', value: 50 });
+      expect(
+        badgeRuleService.getBadgeRule({ rule: null, criteria: 'REGISTRATION_DATE', threshold: 30 })
+      ).toBeNull();
+    });
+  });
+
+  describe('aggregate', () => {
+    const fiveInAMonth: BadgeCondition = {
+      metric: 'SWAPS_COMPLETED',
+      aggregation: 'count',
+      windowDays: 30,
+      operator: 'gte',
+      value: 5,
+    };
+
+    it('takes the best run of the window, not just the latest', () => {
+      const facts = [fact(200), fact(195), fact(190), fact(185), fact(180), fact(10)];
+
+      expect(badgeRuleService.aggregate(fiveInAMonth, facts, now)).toBe(5);
+    });
+
+    it('does not join facts further apart than the window', () => {
+      const facts = [fact(200), fact(160), fact(120), fact(80), fact(40)];
+
+      expect(badgeRuleService.aggregate(fiveInAMonth, facts, now)).toBe(1);
+    });
+
+    it('counts distinct values of a field', () => {
+      const condition: BadgeCondition = {
+        metric: 'SWAPS_COMPLETED',
+        aggregation: 'distinct',
+        field: 'taughtCategory',
+        operator: 'gte',
+        value: 3,
+      };
+      const facts = [
+        fact(3, { taughtCategory: 'music' }),
+        fact(2, { taughtCategory: 'music' }),
+        fact(1, { taughtCategory: 'languages' }),
+      ];
+
+      expect(badgeRuleService.aggregate(condition, facts, now)).toBe(2);
+    });
+  });
+
+  describe('findQualifyingUsers', () => {
+    it('counts the categories each swap party taught', async () => {
+      mockPrisma.swap.findMany.mockResolvedValue(
+        ['guitar', 'spanish', 'python'].map((skill, i) => ({
+          initiatorId: 'user-1',
+          receiverId: `partner-${i}`,
+          initiatorSkillId: skill,
+          receiverSkillId: 'chess',
+          duration: 60,
+          completedAt: new Date(now.getTime() - i * DAY),
+          updatedAt: now,
+        }))
+      );
+      mockPrisma.skill.findMany.mockResolvedValue([
+        { skillId: 'guitar', categoryId: 'music' },
+        { skillId: 'spanish', categoryId: 'languages' },
+        { skillId: 'python', categoryId: 'programming' },
+        { skillId: 'chess', categoryId: 'games' },
+      ]);
+
+      const qualifying = await badgeRuleService.findQualifyingUsers(
+        {
+          metric: 'SWAPS_COMPLETED',
+          aggregation: 'distinct',
+          field: 'taughtCategory',
+          operator: 'gte',
+          value: 3,
+        },
+        ['user-1', 'partner-0'],
+        now
+      );
+
+      expect(qualifying).toEqual(['user-1']);
+      expect(mockPrisma.swap.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('reads profile values loaded after the evaluation started', async () => {
+      mockPrisma.user.findMany.mockImplementation(
+        () =>
+          new Promise((resolve) =>
+            setTimeout(
+              () =>
+                resolve([
+                  {
+                    userId: 'user-1',
+                    rating: 4.8,
+                    level: 10,
+                    coins: 0,
+                    totalHoursTaught: 0,
+                    totalHoursLearned: 0,
+                  },
+                  {
+                    userId: 'user-2',
+                    rating: 3.2,
+                    level: 2,
+                    coins: 0,
+                    totalHoursTaught: 0,
+                    totalHoursLearned: 0,
+                  },
+                ]),
+              5
+            )
+          )
+      );
+
+      const qualifying = await badgeRuleService.findQualifyingUsers(
+        { metric: 'LEVEL', aggregation: 'value', operator: 'gte', value: 5 },
+        ['user-1', 'user-2']
+      );
+
+      expect(qualifying).toEqual(['user-1']);
+      await expect(
+        badgeRuleService.evaluate(
+          { metric: 'RATING', aggregation: 'value', operator: 'gte', value: 4.5 },
+          'user-1'
+        )
+      ).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Block Service Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { blockService } from '../../src/services/block.service';
+
+const mockPrisma = prisma as any;
+
+describe('BlockService', () => {
+  describe('blockUser', () => {
+    it('blocks the user and removes follows in both directions', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ userId: 'user-2' });
+      mockPrisma.userBlock.upsert.mockResolvedValue({ blockId: 'block-1' });
+      mockPrisma.connection.deleteMany.mockResolvedValue({ count: 2 });
+
+      const block = await blockService.blockUser('user-1', 'user-2');
+
+      expect(block).toEqual({ blockId: 'block-1' });
+      expect(mockPrisma.connection.deleteMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { userId: 'user-1', connectedUserId: 'user-2' },
+            { userId: 'user-2', connectedUserId: 'user-1' },
+          ],
+        },
+      });
+    });
+
+    it('rejects blocking yourself', async () => {
+      await expect(blockService.blockUser('user-1', 'user-1')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+
+    it('rejects unknown users', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(blockService.blockUser('user-1', 'missing')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('unblockUser', () => {
+    it('fails when there is no block', async () => {
+      mockPrisma.userBlock.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(blockService.unblockUser('user-1', 'user-2')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('getBlockedUserIds', () => {
+    it('returns users on the other side of blocks in either direction', async () => {
+      mockPrisma.userBlock.findMany.mockResolvedValue([
+        { blockerId: 'user-1', blockedId: 'user-2' },
+        { blockerId: 'user-3', blockedId: 'user-1' },
+      ]);
+
+      await expect(blockService.getBlockedUserIds('user-1')).resolves.toEqual(['user-2', 'user-3']);
+    });
+  });
+
+  describe('assertNotBlocked', () => {
+    it('throws 403 when either user blocked the other', async () => {
+      mockPrisma.userBlock.findFirst.mockResolvedValue({ blockId: 'block-1' });
+
+      await expect(
+        blockService.assertNotBlocked('user-2', 'user-1', 'You cannot message this user')
+      ).rejects.toMatchObject({ statusCode: 403, message: 'You cannot message this user' });
+    });
+
+    it('passes when there is no block', async () => {
+      mockPrisma.userBlock.findFirst.mockResolvedValue(null);
+
+      await expect(blockService.assertNotBlocked('user-1', 'user-2', 'blocked')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Calendar Service Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { calendarService } from '../../src/services/calendar.service';
+
+const mockPrisma = prisma as any;
+const HOUR = 60 * 60 * 1000;
+
+const updatedAt = new Date('2030-01-01T00:00:00Z');
+
+const swap = {
+  swapId: 'swap-1',
+  initiatorId: 'user-1',
+  receiverId: 'user-2',
+  status: 'ACCEPTED',
+  scheduledAt: new Date('2030-01-05T09:30:00Z'),
+  duration: 60,
+  message: null,
+  calendarSequence: 0,
+  updatedAt,
+  sessions: [],
+  initiator: { userId: 'user-1', name: 'Asha' },
+  receiver: { userId: 'user-2', name: 'Ravi' },
+};
+
+const event = {
+  eventId: 'event-1',
+  title: 'React Meetup',
+  description: 'Hooks deep dive',
+  status: 'PUBLISHED',
+  startTime: new Date('2030-01-10T12:00:00Z'),
+  endTime: new Date('2030-01-10T14:00:00Z'),
+  isOnline: true,
+  meetingLink: null,
+  calendarSequence: 0,
+  updatedAt,
+};
+
+const unfoldedLines = (calendar: string): string[] => calendar.replace(/\r\n /g, '').split('\r\n');
+
+describe('CalendarService', () => {
+  describe('feed tokens', () => {
+    it('should return the existing token without rotating it', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ calendarToken: 'token-1' });
+
+      expect(await calendarService.getFeedToken('user-1')).toBe('token-1');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should create a token on first use', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ calendarToken: null });
+      mockPrisma.user.update.mockResolvedValue({});
+
+      const token = await calendarService.getFeedToken('user-1');
+
+      expect(token).toMatch(/^[0-9a-f]{48}$/);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        data: { calendarToken: token },
+      });
+    });
+
+    it('should issue a new token on reset', async () => {
+      mockPrisma.user.update.mockResolvedValue({});
+
+      const first = await calendarService.resetFeedToken('user-1');
+      const second = await calendarService.resetFeedToken('user-1');
+
+      expect(second).not.toBe(first);
+      expect(mockPrisma.user.update).toHaveBeenLastCalledWith({
+        where: { userId: 'user-1' },
+        data: { calendarToken: second },
+      });
+    });
+
+    it('should look the feed up by token and reject unknown tokens', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(calendarService.buildUserFeed('stale-token')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { calendarToken: 'stale-token' } })
+      );
+      expect(mockPrisma.swap.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should not serve the feed of a suspended user', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ userId: 'user-1', status: 'SUSPENDED' });
+
+      await expect(calendarService.buildUserFeed('token-1')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('buildUserFeed', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({ userId: 'user-1', status: 'ACTIVE' });
+    });
+
+    it('should list swaps and events with stable UIDs', async () => {
+      mockPrisma.swap.findMany.mockResolvedValue([swap]);
+      mockPrisma.event.findMany.mockResolvedValue([event]);
+
+      const lines = unfoldedLines(await calendarService.buildUserFeed('token-1'));
+
+      expect(lines).toContain('UID:swap-swap-1@tejindia.app');
+      expect(lines).toContain('SUMMARY:Skill swap with Ravi');
+      expect(lines).toContain('UID:event-event-1@tejindia.app');
+      expect(lines).toContain('LOCATION:Online');
+      expect(lines.filter((line) => line === 'STATUS:CONFIRMED')).toHaveLength(2);
+    });
+
+    it('should keep cancelled swaps and events with a bumped SEQUENCE', async () => {
+      mockPrisma.swap.findMany.mockResolvedValue([
+        {
+          ...swap,
+          status: 'CANCELLED',
+          calendarSequence: 2,
+          sessions: [
+            {
+              sessionId: 'session-1',
+              startTime: new Date('2030-01-06T09:00:00Z'),
+              endTime: null,
+              duration: 30,
+              notes: null,
+              updatedAt,
+            },
+          ],
+        },
+      ]);
+      mockPrisma.event.findMany.mockResolvedValue([
+        { ...event, status: 'CANCELLED', calendarSequence: 1 },
+      ]);
+
+      const calendar = await calendarService.buildUserFeed('token-1');
+      const blocks = calendar.split('BEGIN:VEVENT').slice(1).map(unfoldedLines);
+
+      expect(blocks).toHaveLength(3);
+      const [swapBlock, sessionBlock, eventBlock] = blocks;
+
+      expect(swapBlock).toEqual(
+        expect.arrayContaining(['UID:swap-swap-1@tejindia.app', 'SEQUENCE:2', 'STATUS:CANCELLED'])
+      );
+      expect(sessionBlock).toEqual(
+        expect.arrayContaining([
+          'UID:swap-session-session-1@tejindia.app',
+          'SEQUENCE:2',
+          'STATUS:CANCELLED',
+          'DTEND:20300106T093000Z',
+        ])
+      );
+      expect(eventBlock).toEqual(
+        expect.arrayContaining(['UID:event-event-1@tejindia.app', 'SEQUENCE:1', 'STATUS:CANCELLED'])
+      );
+    });
+
+    it('should only look back a limited window for cancellations', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2030-01-31T00:00:00Z'));
+      mockPrisma.swap.findMany.mockResolvedValue([]);
+      mockPrisma.event.findMany.mockResolvedValue([]);
+
+      await calendarService.buildUserFeed('token-1');
+
+      const since = new Date(Date.now() - 30 * 24 * HOUR);
+      expect(mockPrisma.event.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ endTime: { gte: since } }),
+        })
+      );
+
+      jest.useRealTimers();
+    });
+  });
+
+  describe('buildSwapCalendar', () => {
+    it('should refuse users outside the swap', async () => {
+      mockPrisma.swap.findUnique.mockResolvedValue(swap);
+
+      await expect(calendarService.buildSwapCalendar('swap-1', 'user-3')).rejects.toMatchObject({
+        statusCode: 403,
+      });
+    });
+  });
+});
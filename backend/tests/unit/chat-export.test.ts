@@ -0,0 +1,74 @@
+/**
+ * Chat Export Writer Unit Tests
+ */
+
+import {
+  ChatExport,
+  ChatExportMessage,
+  renderHtmlExport,
+  renderJsonExport,
+} from '../../src/utils/chat-export';
+
+const asha = { userId: 'user-1', name: 'Asha' };
+
+const message = (n: number, sentAt: string): ChatExportMessage => ({
+  messageId: `message-${n}`,
+  sentAt: new Date(sentAt),
+  sender: asha,
+  messageType: 'TEXT',
+  content: `Line ${n}\nwith <b>markup</b>`,
+  attachment: null,
+  replyToId: null,
+  editedAt: null,
+});
+
+const batches = [
+  [message(1, '2030-01-05T09:00:00Z'), message(2, '2030-01-05T10:00:00Z')],
+  [message(3, '2030-01-06T09:00:00Z')],
+];
+
+async function* readBatches(items: ChatExportMessage[][]) {
+  for (const batch of items) yield batch;
+}
+
+const exportOf = (items: ChatExportMessage[][]): ChatExport => ({
+  conversationId: 'conversation-1',
+  type: 'DIRECT',
+  title: 'Chat between Asha and Ravi',
+  exportedAt: new Date('2030-01-07T00:00:00Z'),
+  exportedBy: asha,
+  participants: [asha, { userId: 'user-2', name: 'Ravi' }],
+  messageCount: items.flat().length,
+  messages: readBatches(items),
+});
+
+const collect = async (chunks: AsyncIterable<string>): Promise<string> => {
+  let output = '';
+  for await (const chunk of chunks) output += chunk;
+  return output;
+};
+
+describe('Chat export writers', () => {
+  it('should stream the same JSON as serializing the whole export', async () => {
+    const json = await collect(renderJsonExport(exportOf(batches)));
+
+    const whole = { ...exportOf(batches), messages: batches.flat() };
+    expect(json).toBe(JSON.stringify(whole, null, 2));
+  });
+
+  it('should write valid JSON for a conversation without messages', async () => {
+    const json = await collect(renderJsonExport(exportOf([])));
+
+    expect(JSON.parse(json).messages).toEqual([]);
+  });
+
+  it('should group HTML messages by day across batches and escape content', async () => {
+    const html = await collect(renderHtmlExport(exportOf(batches)));
+
+    expect(html.match(/<h2>2030-01-05<\/h2>/g)).toHaveLength(1);
+    expect(html.match(/<h2>2030-01-06<\/h2>/g)).toHaveLength(1);
+    expect(html).toContain('3 messages.');
+    expect(html).toContain('&lt;b&gt;markup&lt;/b&gt;');
+    expect(html.trimEnd().endsWith('</html>')).toBe(true);
+  });
+});
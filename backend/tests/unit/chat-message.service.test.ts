@@ -0,0 +1,152 @@
+/**
+ * Chat Message Edits & Reactions Unit Tests
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { chatService, summarizeReactions } from '../../src/services/chat.service';
+
+// chat.service creates its own client rather than using config/database
+jest.mock('@prisma/client', () => {
+  const db = {
+    message: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    messageEdit: {
+      create: jest.fn(),
+    },
+    messageReaction: {
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn((ops: Promise<unknown>[]) => Promise.all(ops)),
+  };
+
+  return {
+    ...jest.requireActual('@prisma/client'),
+    PrismaClient: jest.fn(() => db),
+  };
+});
+
+const mockDb = new PrismaClient() as any;
+
+const message = (overrides: Record<string, any> = {}) => ({
+  messageId: 'message-1',
+  conversationId: 'user-1_user-2',
+  senderId: 'user-1',
+  receiverId: 'user-2',
+  content: 'Hello',
+  isDeleted: false,
+  createdAt: new Date(),
+  reactions: [],
+  ...overrides,
+});
+
+describe('summarizeReactions', () => {
+  it('groups reactions by emoji in first-used order', () => {
+    expect(
+      summarizeReactions([
+        { emoji: '👍', userId: 'user-1' },
+        { emoji: '❤️', userId: 'user-2' },
+        { emoji: '👍', userId: 'user-2' },
+      ])
+    ).toEqual([
+      { emoji: '👍', count: 2, userIds: ['user-1', 'user-2'] },
+      { emoji: '❤️', count: 1, userIds: ['user-2'] },
+    ]);
+  });
+});
+
+describe('editMessage', () => {
+  it('stores the previous content and marks the message as edited', async () => {
+    mockDb.message.findUnique.mockResolvedValue(message());
+    mockDb.message.update.mockImplementation(({ data }: any) =>
+      Promise.resolve(message({ ...data }))
+    );
+
+    const result = await chatService.editMessage('message-1', 'user-1', 'Hello there');
+
+    expect(mockDb.messageEdit.create).toHaveBeenCalledWith({
+      data: { messageId: 'message-1', previousContent: 'Hello' },
+    });
+    expect(result.content).toBe('Hello there');
+    expect(result.editedAt).toBeInstanceOf(Date);
+  });
+
+  it("rejects edits to someone else's message", async () => {
+    mockDb.message.findUnique.mockResolvedValue(message());
+
+    await expect(chatService.editMessage('message-1', 'user-2', 'Hi')).rejects.toMatchObject({
+      statusCode: 403,
+    });
+  });
+
+  it('rejects edits after the edit window', async () => {
+    mockDb.message.findUnique.mockResolvedValue(
+      message({ createdAt: new Date(Date.now() - 16 * 60 * 1000) })
+    );
+
+    await expect(chatService.editMessage('message-1', 'user-1', 'Hi')).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    expect(mockDb.messageEdit.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('addReaction', () => {
+  it('returns the aggregated reactions for both participants', async () => {
+    mockDb.message.findUnique.mockResolvedValue(message());
+    mockDb.messageReaction.findMany.mockResolvedValue([
+      { emoji: '🎉', userId: 'user-2' },
+      { emoji: '🎉', userId: 'user-1' },
+    ]);
+
+    const update = await chatService.addReaction('message-1', 'user-2', '🎉');
+
+    expect(update.participantIds).toEqual(['user-1', 'user-2']);
+    expect(update.reactions).toEqual([{ emoji: '🎉', count: 2, userIds: ['user-2', 'user-1'] }]);
+  });
+
+  it('only accepts emoji', async () => {
+    mockDb.message.findUnique.mockResolvedValue(message());
+
+    await expect(chatService.addReaction('message-1', 'user-2', 'lol')).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    expect(mockDb.messageReaction.upsert).not.toHaveBeenCalled();
+  });
+
+  it('hides messages from non-participants', async () => {
+    mockDb.message.findUnique.mockResolvedValue(message());
+
+    await expect(chatService.addReaction('message-1', 'user-3', '👍')).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
+
+describe('canJoinRoom', () => {
+  it('allows the user\'s own personal room only', () => {
+    expect(chatService.canJoinRoom('user-1', 'user:user-1')).toBe(true);
+    expect(chatService.canJoinRoom('user-1', 'user:user-2')).toBe(false);
+  });
+
+  it('allows direct conversation rooms the user is part of', () => {
+    expect(chatService.canJoinRoom('user-1', 'user-1_user-2')).toBe(true);
+    expect(chatService.canJoinRoom('user-2', 'user-1_user-2')).toBe(true);
+    expect(chatService.canJoinRoom('user-3', 'user-1_user-2')).toBe(false);
+  });
+
+  it('denies conversation ids that are not in canonical order', () => {
+    expect(chatService.canJoinRoom('user-1', 'user-2_user-1')).toBe(false);
+    expect(chatService.canJoinRoom('user-1', 'user-1_')).toBe(false);
+  });
+
+  it('denies every other room shape', () => {
+    expect(chatService.canJoinRoom('user-1', 'admin')).toBe(false);
+    expect(chatService.canJoinRoom('user-1', 'event:event-1')).toBe(false);
+    expect(chatService.canJoinRoom('user-1', 'user-1_user-2_user-3')).toBe(false);
+    expect(chatService.canJoinRoom('user-1', '')).toBe(false);
+  });
+});
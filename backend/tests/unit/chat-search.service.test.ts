@@ -0,0 +1,99 @@
+/**
+ * Chat Message Search Unit Tests
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { chatService } from '../../src/services/chat.service';
+
+// chat.service creates its own client rather than using config/database
+jest.mock('@prisma/client', () => {
+  const db = {
+    $queryRaw: jest.fn(),
+    user: {
+      findMany: jest.fn(),
+    },
+    conversation: {
+      findMany: jest.fn(),
+    },
+  };
+
+  return {
+    ...jest.requireActual('@prisma/client'),
+    PrismaClient: jest.fn(() => db),
+  };
+});
+
+const mockDb = new PrismaClient() as any;
+
+const row = (overrides: Record<string, any> = {}) => ({
+  messageId: 'message-1',
+  conversationId: 'user-1_user-2',
+  senderId: 'user-2',
+  receiverId: 'user-1',
+  messageType: 'TEXT',
+  fileName: null,
+  createdAt: new Date('2026-01-10T10:00:00Z'),
+  rank: 0.5,
+  total: BigInt(2),
+  snippet: 'see you at the <mark>workshop</mark>',
+  previousMessageId: 'message-0',
+  previousSenderId: 'user-1',
+  previousContent: 'Are you coming?',
+  previousCreatedAt: new Date('2026-01-10T09:59:00Z'),
+  nextMessageId: null,
+  nextSenderId: null,
+  nextContent: null,
+  nextCreatedAt: null,
+  ...overrides,
+});
+
+describe('searchMessages', () => {
+  beforeEach(() => {
+    mockDb.user.findMany.mockResolvedValue([
+      { userId: 'user-1', name: 'Asha', avatar: null },
+      { userId: 'user-2', name: 'Ravi', avatar: null },
+    ]);
+    mockDb.conversation.findMany.mockResolvedValue([
+      { conversationId: 'group-1', type: 'GROUP', name: 'Study group' },
+    ]);
+  });
+
+  it('attaches the conversation and surrounding messages to each match', async () => {
+    mockDb.$queryRaw.mockResolvedValue([
+      row(),
+      row({ messageId: 'message-9', conversationId: 'group-1', receiverId: null, previousMessageId: null }),
+    ]);
+
+    const { results, total } = await chatService.searchMessages('user-1', 'workshop');
+
+    expect(total).toBe(2);
+    expect(results[0]).toMatchObject({
+      snippet: 'see you at the <mark>workshop</mark>',
+      sender: { userId: 'user-2', name: 'Ravi' },
+      conversation: { type: 'DIRECT', otherUser: { userId: 'user-2' } },
+      context: { previous: { messageId: 'message-0', content: 'Are you coming?' }, next: null },
+    });
+    expect(results[1].conversation).toEqual({
+      conversationId: 'group-1',
+      type: 'GROUP',
+      name: 'Study group',
+    });
+  });
+
+  it('returns nothing without further lookups when no message matches', async () => {
+    mockDb.$queryRaw.mockResolvedValue([]);
+
+    await expect(chatService.searchMessages('user-1', 'nothing')).resolves.toEqual({
+      results: [],
+      total: 0,
+    });
+    expect(mockDb.user.findMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects message types that have no searchable text', async () => {
+    await expect(
+      chatService.searchMessages('user-1', 'hello', { messageType: 'SYSTEM' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockDb.$queryRaw).not.toHaveBeenCalled();
+  });
+});
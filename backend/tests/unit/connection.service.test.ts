@@ -0,0 +1,124 @@
+/**
+ * Connection Request Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { connectionService } from '../../src/services/connection.service';
+import { subscriptionService } from '../../src/services/subscription.service';
+
+jest.mock('../../src/services/subscription.service', () => ({
+  ...jest.requireActual('../../src/services/subscription.service'),
+  subscriptionService: { canPerformAction: jest.fn() },
+}));
+
+const mockPrisma = prisma as any;
+const mockSubscriptions = subscriptionService as jest.Mocked<typeof subscriptionService>;
+
+const request = (overrides: Record<string, any> = {}) => ({
+  requestId: 'request-1',
+  senderId: 'user-1',
+  receiverId: 'user-2',
+  status: 'PENDING',
+  respondedAt: null,
+  ...overrides,
+});
+
+describe('ConnectionService requests', () => {
+  beforeEach(() => {
+    mockPrisma.userBlock.findFirst.mockResolvedValue(null);
+    mockPrisma.user.findUnique.mockResolvedValue({ status: 'ACTIVE', name: 'Asha' });
+    mockPrisma.connectionRequest.findUnique.mockResolvedValue(null);
+    mockSubscriptions.canPerformAction.mockResolvedValue({ allowed: true });
+  });
+
+  describe('sendRequest', () => {
+    it('accepts the other user\'s pending request instead of sending a new one', async () => {
+      const incoming = request({ senderId: 'user-2', receiverId: 'user-1' });
+      mockPrisma.connectionRequest.findUnique.mockImplementation(({ where }: any) =>
+        Promise.resolve(
+          where.requestId || where.senderId_receiverId?.senderId === 'user-2' ? incoming : null
+        )
+      );
+
+      await connectionService.sendRequest('user-1', 'user-2');
+
+      expect(mockPrisma.connectionRequest.upsert).not.toHaveBeenCalled();
+      expect(mockPrisma.connectionRequest.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { requestId: 'request-1' },
+          data: expect.objectContaining({ status: 'ACCEPTED' }),
+        })
+      );
+    });
+
+    it('waits out the cooldown after a declined request', async () => {
+      mockPrisma.connectionRequest.findUnique.mockImplementation(({ where }: any) =>
+        Promise.resolve(
+          where.senderId_receiverId.senderId === 'user-1'
+            ? request({ status: 'DECLINED', respondedAt: new Date() })
+            : null
+        )
+      );
+
+      await expect(connectionService.sendRequest('user-1', 'user-2')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+  });
+
+  describe('acceptRequest', () => {
+    it('connects both users with mutual follows', async () => {
+      mockPrisma.connectionRequest.findUnique.mockResolvedValue(request());
+
+      await connectionService.acceptRequest('request-1', 'user-2');
+
+      expect(mockPrisma.connection.createMany).toHaveBeenCalledWith({
+        data: [
+          { userId: 'user-1', connectedUserId: 'user-2' },
+          { userId: 'user-2', connectedUserId: 'user-1' },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('enforces the sender\'s connection limit', async () => {
+      mockPrisma.connectionRequest.findUnique.mockResolvedValue(request());
+      mockSubscriptions.canPerformAction.mockImplementation(async (userId: string) => ({
+        allowed: userId !== 'user-1',
+        limit: 50,
+        current: 50,
+      }));
+
+      await expect(connectionService.acceptRequest('request-1', 'user-2')).rejects.toMatchObject({
+        statusCode: 403,
+      });
+      expect(mockPrisma.connectionRequest.update).not.toHaveBeenCalled();
+    });
+
+    it('only lets the receiver accept', async () => {
+      mockPrisma.connectionRequest.findUnique.mockResolvedValue(request());
+
+      await expect(connectionService.acceptRequest('request-1', 'user-1')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('assertCanMessage', () => {
+    it('blocks strangers when the receiver only accepts messages from connections', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ messagePermission: 'CONNECTIONS' });
+      mockPrisma.connectionRequest.findFirst.mockResolvedValue(null);
+
+      await expect(connectionService.assertCanMessage('user-1', 'user-2')).rejects.toMatchObject({
+        statusCode: 403,
+      });
+    });
+
+    it('lets accepted connections message', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ messagePermission: 'CONNECTIONS' });
+      mockPrisma.connectionRequest.findFirst.mockResolvedValue({ requestId: 'request-1' });
+
+      await expect(connectionService.assertCanMessage('user-1', 'user-2')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Conversation Service Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { conversationService } from '../../src/services/conversation.service';
+
+const mockPrisma = prisma as any;
+
+const participant = (userId: string, role: string = 'MEMBER') => ({
+  participantId: `participant-${userId}`,
+  conversationId: 'group-1',
+  userId,
+  role,
+  unreadCount: 0,
+});
+
+const group = (overrides: Record<string, any> = {}) => ({
+  conversationId: 'group-1',
+  type: 'GROUP',
+  name: 'Study group',
+  eventId: null,
+  ...overrides,
+});
+
+/**
+ * Resolve participant lookups from a list of members
+ */
+const withMembers = (...members: ReturnType<typeof participant>[]) => {
+  mockPrisma.conversationParticipant.findUnique.mockImplementation(({ where }: any) =>
+    Promise.resolve(members.find((m) => m.userId === where.conversationId_userId.userId) ?? null)
+  );
+};
+
+describe('ConversationService', () => {
+  beforeEach(() => {
+    mockPrisma.conversation.findUnique.mockResolvedValue(group());
+  });
+
+  describe('ensureDirectConversation', () => {
+    it('keeps the pair id so existing messages stay in the conversation', async () => {
+      mockPrisma.conversation.findUnique.mockResolvedValue(null);
+
+      await conversationService.ensureDirectConversation('user-1_user-2', ['user-1', 'user-2']);
+
+      expect(mockPrisma.conversation.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: { conversationId: 'user-1_user-2', type: 'DIRECT' },
+        })
+      );
+      expect(mockPrisma.conversationParticipant.createMany).toHaveBeenCalledWith({
+        data: [
+          { conversationId: 'user-1_user-2', userId: 'user-1' },
+          { conversationId: 'user-1_user-2', userId: 'user-2' },
+        ],
+        skipDuplicates: true,
+      });
+    });
+  });
+
+  describe('inviteUser', () => {
+    it('only lets the owner and admins invite', async () => {
+      withMembers(participant('owner', 'OWNER'), participant('member'));
+
+      await expect(
+        conversationService.inviteUser('group-1', 'member', 'user-3')
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockPrisma.conversationInvite.upsert).not.toHaveBeenCalled();
+    });
+
+    it('limits event chats to registered attendees', async () => {
+      withMembers(participant('organizer', 'OWNER'));
+      mockPrisma.conversation.findUnique.mockResolvedValue(group({ type: 'EVENT', eventId: 'event-1' }));
+      mockPrisma.user.findUnique.mockResolvedValue({ userId: 'user-3' });
+      mockPrisma.userBlock.findFirst.mockResolvedValue(null);
+      mockPrisma.event.findUnique.mockResolvedValue({ organizerId: 'organizer', attendees: [] });
+
+      await expect(
+        conversationService.inviteUser('group-1', 'organizer', 'user-3')
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('removeParticipant', () => {
+    it('does not let admins remove other admins', async () => {
+      withMembers(participant('owner', 'OWNER'), participant('admin-1', 'ADMIN'), participant('admin-2', 'ADMIN'));
+
+      await expect(
+        conversationService.removeParticipant('group-1', 'admin-1', 'admin-2')
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockPrisma.conversationParticipant.delete).not.toHaveBeenCalled();
+    });
+
+    it('lets admins remove members', async () => {
+      withMembers(participant('admin-1', 'ADMIN'), participant('member'));
+
+      await conversationService.removeParticipant('group-1', 'admin-1', 'member');
+
+      expect(mockPrisma.conversationParticipant.delete).toHaveBeenCalledWith({
+        where: { participantId: 'participant-member' },
+      });
+    });
+  });
+
+  describe('leaveConversation', () => {
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    });
+
+    it('hands ownership to the longest-standing admin', async () => {
+      withMembers(participant('owner', 'OWNER'));
+      mockPrisma.conversationParticipant.findFirst.mockResolvedValueOnce(participant('admin-1', 'ADMIN'));
+
+      await conversationService.leaveConversation('group-1', 'owner');
+
+      expect(mockPrisma.conversationParticipant.update).toHaveBeenCalledWith({
+        where: { participantId: 'participant-admin-1' },
+        data: { role: 'OWNER' },
+      });
+      expect(mockPrisma.conversation.delete).not.toHaveBeenCalled();
+    });
+
+    it('stays in the group when the handover fails', async () => {
+      withMembers(participant('owner', 'OWNER'));
+      mockPrisma.$transaction.mockRejectedValueOnce(new Error('deadlock'));
+
+      await expect(conversationService.leaveConversation('group-1', 'owner')).rejects.toThrow(
+        'deadlock'
+      );
+      expect(mockPrisma.conversationParticipant.delete).not.toHaveBeenCalled();
+    });
+
+    it('deletes a group its last member leaves', async () => {
+      withMembers(participant('owner', 'OWNER'));
+      mockPrisma.conversationParticipant.findFirst.mockResolvedValue(null);
+
+      await conversationService.leaveConversation('group-1', 'owner');
+
+      expect(mockPrisma.conversation.delete).toHaveBeenCalledWith({
+        where: { conversationId: 'group-1' },
+      });
+    });
+
+    it('does not let the organizer leave an event chat', async () => {
+      withMembers(participant('organizer', 'OWNER'));
+      mockPrisma.conversation.findUnique.mockResolvedValue(group({ type: 'EVENT', eventId: 'event-1' }));
+
+      await expect(
+        conversationService.leaveConversation('group-1', 'organizer')
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('updatePreferences', () => {
+    it('unpins a conversation when it is archived', async () => {
+      withMembers({ ...participant('user-1'), pinnedAt: new Date(), isArchived: false } as any);
+      mockPrisma.conversationParticipant.update.mockImplementation(({ data }: any) =>
+        Promise.resolve({ ...participant('user-1'), isMuted: false, mutedUntil: null, ...data })
+      );
+
+      const result = await conversationService.updatePreferences('group-1', 'user-1', { archived: true });
+
+      expect(mockPrisma.conversationParticipant.update).toHaveBeenCalledWith({
+        where: { participantId: 'participant-user-1' },
+        data: expect.objectContaining({ isArchived: true, pinnedAt: null }),
+      });
+      expect(result).toMatchObject({ isArchived: true, isPinned: false });
+    });
+
+    it('limits how many conversations can be pinned', async () => {
+      withMembers({ ...participant('user-1'), pinnedAt: null, isArchived: false } as any);
+      mockPrisma.conversationParticipant.count.mockResolvedValue(5);
+
+      await expect(
+        conversationService.updatePreferences('group-1', 'user-1', { pinned: true })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockPrisma.conversationParticipant.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ensureEventConversation', () => {
+    it('creates the chat with the organizer and registered attendees', async () => {
+      mockPrisma.conversation.findUnique.mockResolvedValue(null);
+      mockPrisma.event.findUnique.mockResolvedValue({
+        title: 'React Workshop',
+        organizerId: 'organizer',
+        attendees: [{ userId: 'user-2' }, { userId: 'user-3' }],
+      });
+      mockPrisma.conversation.create.mockResolvedValue(group({ type: 'EVENT', eventId: 'event-1' }));
+
+      await conversationService.ensureEventConversation('event-1');
+
+      expect(mockPrisma.conversation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'EVENT',
+          name: 'React Workshop',
+          eventId: 'event-1',
+          participants: {
+            create: [
+              { userId: 'organizer', role: 'OWNER' },
+              { userId: 'user-2' },
+              { userId: 'user-3' },
+            ],
+          },
+        }),
+      });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Event Check-in Service Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { eventCheckinService } from '../../src/services/event-checkin.service';
+import { gamificationService } from '../../src/services/gamification.service';
+
+jest.mock('../../src/services/gamification.service', () => ({
+  gamificationService: {
+    awardXP: jest.fn().mockResolvedValue({}),
+    awardBadgesForEvent: jest.fn().mockResolvedValue([]),
+  },
+}));
+
+const mockPrisma = prisma as any;
+const HOUR = 60 * 60 * 1000;
+
+const event = (startOffsetHours: number) => ({
+  eventId: 'event-1',
+  title: 'React Meetup',
+  organizerId: 'organizer-1',
+  status: 'PUBLISHED',
+  isOnline: false,
+  meetingLink: null,
+  startTime: new Date(Date.now() + startOffsetHours * HOUR),
+  endTime: new Date(Date.now() + (startOffsetHours + 2) * HOUR),
+});
+
+const attendance = (status: string = 'REGISTERED') => ({
+  attendanceId: 'attendance-1',
+  eventId: 'event-1',
+  userId: 'user-1',
+  status,
+  checkedInAt: null,
+  user: { userId: 'user-1', name: 'Asha', avatar: null },
+  event: event(0),
+});
+
+const issueCode = async () => {
+  mockPrisma.eventAttendance.findUnique.mockResolvedValueOnce(attendance());
+  const { code } = await eventCheckinService.getCheckInCode('event-1', 'user-1');
+  return code;
+};
+
+describe('Event Check-in Service', () => {
+  describe('getCheckInCode', () => {
+    it('should not issue codes to waitlisted users', async () => {
+      mockPrisma.eventAttendance.findUnique.mockResolvedValue(attendance('WAITLISTED'));
+
+      await expect(eventCheckinService.getCheckInCode('event-1', 'user-1')).rejects.toThrow(
+        'You are not registered for this event'
+      );
+    });
+
+    it('should return the code with an SVG QR rendering', async () => {
+      mockPrisma.eventAttendance.findUnique.mockResolvedValue(attendance());
+
+      const result = await eventCheckinService.getCheckInCode('event-1', 'user-1');
+
+      expect(result.code).toMatch(/^attendance-1\.[\w-]{22}$/);
+      expect(result.qrSvg).toMatch(/^<svg [^>]*viewBox="0 0 (\d+) \1"/);
+    });
+  });
+
+  describe('checkInWithCode', () => {
+    it('should mark the attendee as attended and award XP', async () => {
+      const code = await issueCode();
+      mockPrisma.event.findUnique.mockResolvedValue(event(0));
+      mockPrisma.eventAttendance.findUnique.mockResolvedValue(attendance());
+      mockPrisma.eventAttendance.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await eventCheckinService.checkInWithCode('event-1', 'organizer-1', code);
+
+      expect(result.alreadyCheckedIn).toBe(false);
+      expect(mockPrisma.eventAttendance.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: 'ATTENDED', checkedInById: 'organizer-1' }),
+        })
+      );
+      expect(gamificationService.awardXP).toHaveBeenCalledWith('user-1', 20, expect.any(String));
+      expect(gamificationService.awardBadgesForEvent).toHaveBeenCalledWith('user-1', 'EVENT_ATTENDED');
+    });
+
+    it('should reject a tampered code', async () => {
+      const code = await issueCode();
+      mockPrisma.event.findUnique.mockResolvedValue(event(0));
+
+      await expect(
+        eventCheckinService.checkInWithCode('event-1', 'organizer-1', code.replace(/.$/, '!'))
+      ).rejects.toThrow('Invalid check-in code');
+    });
+
+    it('should only let the organizer check attendees in', async () => {
+      const code = await issueCode();
+      mockPrisma.event.findUnique.mockResolvedValue(event(0));
+
+      await expect(
+        eventCheckinService.checkInWithCode('event-1', 'user-2', code)
+      ).rejects.toThrow('Only the organizer can check attendees in');
+    });
+
+    it('should report a repeat scan without rewarding again', async () => {
+      const code = await issueCode();
+      mockPrisma.event.findUnique.mockResolvedValue(event(0));
+      mockPrisma.eventAttendance.findUnique.mockResolvedValue(attendance('ATTENDED'));
+
+      const result = await eventCheckinService.checkInWithCode('event-1', 'organizer-1', code);
+
+      expect(result.alreadyCheckedIn).toBe(true);
+      expect(mockPrisma.eventAttendance.updateMany).not.toHaveBeenCalled();
+      expect(gamificationService.awardXP).not.toHaveBeenCalled();
+    });
+
+    it('should not open check-in hours before the event', async () => {
+      const code = await issueCode();
+      mockPrisma.event.findUnique.mockResolvedValue(event(5));
+      mockPrisma.eventAttendance.findUnique.mockResolvedValue(attendance());
+
+      await expect(
+        eventCheckinService.checkInWithCode('event-1', 'organizer-1', code)
+      ).rejects.toThrow('Check-in opens 60 minutes before the event starts');
+    });
+  });
+
+  describe('signing secret', () => {
+    it('should refuse to start without a secret to sign codes with', () => {
+      const { CHECKIN_SECRET, JWT_SECRET } = process.env;
+      delete process.env.CHECKIN_SECRET;
+      delete process.env.JWT_SECRET;
+
+      try {
+        jest.isolateModules(() => {
+          expect(() => require('../../src/services/event-checkin.service')).toThrow(
+            'CHECKIN_SECRET or JWT_SECRET is required'
+          );
+        });
+      } finally {
+        Object.assign(process.env, { JWT_SECRET, ...(CHECKIN_SECRET && { CHECKIN_SECRET }) });
+      }
+    });
+  });
+});
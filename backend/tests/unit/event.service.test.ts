@@ -0,0 +1,144 @@
+/**
+ * Event Registration and Waitlist Unit Tests
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../../src/config/database';
+import { eventService } from '../../src/services/event.service';
+import { notificationService } from '../../src/services/notification.service';
+
+jest.mock('../../src/services/conversation.service', () => ({
+  conversationService: {
+    addEventAttendee: jest.fn().mockResolvedValue(undefined),
+    removeEventAttendee: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('../../src/services/upload.service', () => ({
+  uploadService: {},
+}));
+
+const mockPrisma = prisma as any;
+const HOUR = 60 * 60 * 1000;
+
+const event = {
+  eventId: 'event-1',
+  title: 'React Meetup',
+  organizerId: 'organizer-1',
+  status: 'PUBLISHED',
+  maxAttendees: 2,
+  startTime: new Date(Date.now() + 24 * HOUR),
+};
+
+const serializationConflict = () =>
+  new Prisma.PrismaClientKnownRequestError('could not serialize access', {
+    code: 'P2034',
+    clientVersion: '6.19.0',
+  });
+
+describe('EventService', () => {
+  beforeEach(() => {
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.event.findUnique.mockResolvedValue(event);
+    mockPrisma.eventAttendance.findUnique.mockResolvedValue(null);
+    mockPrisma.eventAttendance.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ attendanceId: 'attendance-1', ...data })
+    );
+  });
+
+  describe('registerForEvent', () => {
+    it('registers while seats are free', async () => {
+      mockPrisma.eventAttendance.count.mockResolvedValue(1);
+
+      const attendance = await eventService.registerForEvent('event-1', 'user-1');
+
+      expect(attendance).toEqual(
+        expect.objectContaining({ status: 'REGISTERED', waitlistPosition: null })
+      );
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+        isolationLevel: 'Serializable',
+      });
+    });
+
+    it('puts the user at the back of the waitlist when the event is full', async () => {
+      mockPrisma.eventAttendance.count.mockResolvedValue(2);
+      mockPrisma.eventAttendance.aggregate.mockResolvedValue({ _max: { waitlistPosition: 3 } });
+
+      const attendance = await eventService.registerForEvent('event-1', 'user-1');
+
+      expect(attendance).toEqual(
+        expect.objectContaining({ status: 'WAITLISTED', waitlistPosition: 4 })
+      );
+      expect(notificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', title: 'Added to Waitlist' })
+      );
+    });
+
+    it('retries when a concurrent sign-up causes a serialization conflict', async () => {
+      mockPrisma.eventAttendance.count.mockResolvedValue(0);
+      mockPrisma.$transaction.mockRejectedValueOnce(serializationConflict());
+
+      const attendance = await eventService.registerForEvent('event-1', 'user-1');
+
+      expect(attendance.status).toBe('REGISTERED');
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up after repeated serialization conflicts', async () => {
+      mockPrisma.$transaction.mockRejectedValue(serializationConflict());
+
+      await expect(eventService.registerForEvent('event-1', 'user-1')).rejects.toThrow(
+        'could not serialize access'
+      );
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('promoteFromWaitlist', () => {
+    it('fills the free seats from the front of the queue', async () => {
+      mockPrisma.eventAttendance.count.mockResolvedValue(1);
+      mockPrisma.eventAttendance.findMany.mockResolvedValue([
+        { attendanceId: 'attendance-2', userId: 'user-2' },
+      ]);
+
+      const promoted = await eventService.promoteFromWaitlist('event-1');
+
+      expect(promoted.map((a) => a.userId)).toEqual(['user-2']);
+      expect(mockPrisma.eventAttendance.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: { waitlistPosition: 'asc' }, take: 1 })
+      );
+      expect(mockPrisma.eventAttendance.updateMany).toHaveBeenCalledWith({
+        where: { eventId: 'event-1', status: 'WAITLISTED' },
+        data: { waitlistPosition: { decrement: 1 } },
+      });
+      expect(notificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-2', title: 'You Got a Seat!' })
+      );
+    });
+
+    it('promotes nobody while the event is still full', async () => {
+      mockPrisma.eventAttendance.count.mockResolvedValue(2);
+
+      await expect(eventService.promoteFromWaitlist('event-1')).resolves.toEqual([]);
+      expect(mockPrisma.eventAttendance.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unregisterFromEvent', () => {
+    it('stays unregistered when promoting the next user fails', async () => {
+      mockPrisma.eventAttendance.findUnique.mockResolvedValue({
+        attendanceId: 'attendance-1',
+        status: 'REGISTERED',
+        waitlistPosition: null,
+      });
+      mockPrisma.$transaction
+        .mockImplementationOnce((fn: any) => fn(mockPrisma))
+        .mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(eventService.unregisterFromEvent('event-1', 'user-1')).resolves.toBe(true);
+      expect(mockPrisma.eventAttendance.delete).toHaveBeenCalledWith({
+        where: { attendanceId: 'attendance-1' },
+      });
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Coin Ledger Unit Tests
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../../src/config/database';
+import { activityService } from '../../src/services/activity.service';
+import { badgeRuleService } from '../../src/services/badge-rule.service';
+import { gamificationService } from '../../src/services/gamification.service';
+
+jest.mock('../../src/services/activity.service', () => ({
+  activityService: { record: jest.fn().mockResolvedValue(undefined) },
+}));
+
+const mockPrisma = prisma as any;
+
+describe('Coin ledger', () => {
+  beforeEach(() => {
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.coinTransaction.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ transactionId: 'transaction-1', ...data })
+    );
+  });
+
+  describe('awardCoins', () => {
+    it('records the credit with the balance it leaves', async () => {
+      mockPrisma.user.update.mockResolvedValue({ coins: 150 });
+
+      const result = await gamificationService.awardCoins('user-1', 50, 'Welcome bonus', {
+        sourceType: 'SYSTEM',
+      });
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { coins: { increment: 50 } } })
+      );
+      expect(mockPrisma.coinTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          amount: 50,
+          balanceAfter: 150,
+          sourceType: 'SYSTEM',
+        }),
+      });
+      expect(result).toEqual({
+        amount: 50,
+        reason: 'Welcome bonus',
+        balance: 150,
+        transactionId: 'transaction-1',
+      });
+    });
+
+    it("joins the caller's transaction and leaves badge checks to the caller", async () => {
+      mockPrisma.user.update.mockResolvedValue({ coins: 50 });
+
+      await gamificationService.awardCoins('user-1', 50, 'Welcome bonus', { tx: mockPrisma });
+
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      expect(mockPrisma.badge.findMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects amounts that are not positive whole coins', async () => {
+      await expect(gamificationService.awardCoins('user-1', 2.5, 'Bonus')).rejects.toThrow(
+        'positive integer'
+      );
+      expect(mockPrisma.coinTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deductCoins', () => {
+    it('records the debit as a negative amount', async () => {
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue({ coins: 70 });
+
+      const result = await gamificationService.deductCoins('user-1', 30, 'Swap stake');
+
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', coins: { gte: 30 } },
+        data: { coins: { decrement: 30 } },
+      });
+      expect(mockPrisma.coinTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: -30, balanceAfter: 70 }),
+      });
+      expect(result.balance).toBe(70);
+    });
+
+    it('refuses to overdraw and writes no ledger entry', async () => {
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.user.count.mockResolvedValue(1);
+
+      await expect(gamificationService.deductCoins('user-1', 500, 'Swap stake')).rejects.toThrow(
+        'Insufficient coins'
+      );
+      expect(mockPrisma.coinTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCoinTransactions', () => {
+    it('filters by direction and date range', async () => {
+      const startDate = new Date('2026-10-01T00:00:00Z');
+      mockPrisma.coinTransaction.findMany.mockResolvedValue([]);
+      mockPrisma.coinTransaction.count.mockResolvedValue(0);
+      mockPrisma.coinTransaction.aggregate
+        .mockResolvedValueOnce({ _sum: { amount: 80 } })
+        .mockResolvedValueOnce({ _sum: { amount: -30 } });
+
+      const result = await gamificationService.getCoinTransactions('user-1', {
+        type: 'spent',
+        startDate,
+      });
+
+      expect(mockPrisma.coinTransaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1', amount: { lt: 0 }, createdAt: { gte: startDate } },
+        })
+      );
+      expect(result.summary).toEqual({ earnedThisWeek: 80, spentThisWeek: 30 });
+    });
+  });
+});
+
+const badge = (badgeId: string) => ({
+  badgeId,
+  name: badgeId,
+  icon: '🏅',
+  rule: { conditions: [] },
+  isActive: true,
+});
+
+describe('Badge awards', () => {
+  beforeEach(() => {
+    jest.spyOn(badgeRuleService, 'getBadgeRule').mockReturnValue({} as any);
+    jest.spyOn(badgeRuleService, 'evaluate').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('skips a badge a concurrent check already awarded and keeps checking the rest', async () => {
+    mockPrisma.badge.findMany.mockResolvedValueOnce([badge('badge-1'), badge('badge-2')]);
+    mockPrisma.userBadge.create
+      .mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '6.19.0',
+        })
+      )
+      .mockResolvedValueOnce({ userBadgeId: 'user-badge-2' });
+
+    const earned = await gamificationService.awardBadgesForEvent('user-1', 'SWAP_COMPLETED');
+
+    expect(earned.map((b) => b.badgeId)).toEqual(['badge-2']);
+    expect(activityService.record).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.notification.create).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * iCalendar Writer Unit Tests
+ */
+
+import { buildCalendar, ICalEvent } from '../../src/utils/ical';
+
+const baseEvent: ICalEvent = {
+  uid: 'swap-1@tejindia.app',
+  sequence: 0,
+  start: new Date('2030-01-05T09:30:00Z'),
+  end: new Date('2030-01-05T10:30:00Z'),
+  summary: 'Skill swap',
+  status: 'CONFIRMED',
+};
+
+const contentLines = (calendar: string): string[] => calendar.split('\r\n');
+
+// Undo RFC 5545 folding so a property can be read back whole
+const unfold = (calendar: string): string => calendar.replace(/\r\n /g, '');
+
+describe('buildCalendar', () => {
+  it('should wrap events in a CRLF-terminated VCALENDAR', () => {
+    const calendar = buildCalendar('Tej India', [baseEvent]);
+    const lines = contentLines(calendar);
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('METHOD:PUBLISH');
+    expect(lines).toContain('DTSTART:20300105T093000Z');
+    expect(lines).toContain('DTEND:20300105T103000Z');
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('should escape commas, semicolons, backslashes and newlines in text', () => {
+    const calendar = buildCalendar('Feed', [
+      {
+        ...baseEvent,
+        summary: 'Guitar, piano; and C:\\music',
+        description: 'Line one\nLine two\r\nLine three',
+      },
+    ]);
+    const lines = contentLines(unfold(calendar));
+
+    expect(lines).toContain('SUMMARY:Guitar\\, piano\\; and C:\\\\music');
+    expect(lines).toContain('DESCRIPTION:Line one\\nLine two\\nLine three');
+  });
+
+  it('should fold lines longer than 75 octets', () => {
+    const description = 'x'.repeat(200);
+    const calendar = buildCalendar('Feed', [{ ...baseEvent, description }]);
+
+    for (const line of contentLines(calendar)) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(contentLines(unfold(calendar))).toContain(`DESCRIPTION:${description}`);
+  });
+
+  it('should not split multi-byte characters when folding', () => {
+    const description = 'नमस्ते'.repeat(20);
+    const calendar = buildCalendar('Feed', [{ ...baseEvent, description }]);
+
+    for (const line of contentLines(calendar)) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('\uFFFD');
+    }
+    expect(contentLines(unfold(calendar))).toContain(`DESCRIPTION:${description}`);
+  });
+
+  it('should carry UID, SEQUENCE and STATUS for cancellations', () => {
+    const calendar = buildCalendar('Feed', [{ ...baseEvent, sequence: 3, status: 'CANCELLED' }]);
+    const lines = contentLines(calendar);
+
+    expect(lines).toContain('UID:swap-1@tejindia.app');
+    expect(lines).toContain('SEQUENCE:3');
+    expect(lines).toContain('STATUS:CANCELLED');
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Windowed Leaderboard Unit Tests
+ * Rankings come from the database unless a test turns on the in-memory Redis
+ */
+
+import prisma from '../../src/config/database';
+import { redis } from '../../src/config/redis';
+import { leaderboardService } from '../../src/services/leaderboard.service';
+
+// Just enough of the Redis wrapper, keeping sorted sets and strings in memory
+jest.mock('../../src/config/redis', () => {
+  const sets = new Map<string, Map<string, number>>();
+  const strings = new Map<string, string>();
+  const has = (key: string) => sets.has(key) || strings.has(key);
+
+  return {
+    redis: {
+      isReady: jest.fn().mockReturnValue(false),
+      flushAll: async () => {
+        sets.clear();
+        strings.clear();
+        return true;
+      },
+      exists: async (key: string) => has(key),
+      set: async (key: string, value: string) => {
+        strings.set(key, value);
+        return true;
+      },
+      del: async (key: string) => {
+        sets.delete(key);
+        strings.delete(key);
+        return true;
+      },
+      expire: async (key: string) => has(key),
+      rename: async (key: string, newKey: string) => {
+        if (!sets.has(key)) return false;
+        sets.set(newKey, sets.get(key)!);
+        sets.delete(key);
+        return true;
+      },
+      scanKeys: async (pattern: string) => {
+        const regex = new RegExp(
+          `^${pattern
+            .split('*')
+            .map((p) => p.replace(/[.:]/g, '\\$&'))
+            .join('.*')}$`
+        );
+        return [...sets.keys(), ...strings.keys()].filter((key) => regex.test(key));
+      },
+      zAddMany: async (key: string, members: Array<{ value: string; score: number }>) => {
+        const set = sets.get(key) ?? new Map<string, number>();
+        members.forEach((m) => set.set(m.value, m.score));
+        sets.set(key, set);
+        return true;
+      },
+      zAddNew: async (key: string, member: string, score: number) => {
+        const set = sets.get(key) ?? new Map<string, number>();
+        sets.set(key, set);
+        if (set.has(member)) return false;
+        set.set(member, score);
+        return true;
+      },
+      zIncrBy: jest.fn(async (key: string, member: string, increment: number) => {
+        const set = sets.get(key) ?? new Map<string, number>();
+        set.set(member, (set.get(member) ?? 0) + increment);
+        sets.set(key, set);
+        return set.get(member)!;
+      }),
+      zScore: async (key: string, member: string) => sets.get(key)?.get(member) ?? null,
+      zCountAbove: async (key: string, min: number) =>
+        [...(sets.get(key)?.values() ?? [])].filter((score) => score > min).length,
+      zRevRangeWithScores: async (key: string, start: number, stop: number) =>
+        [...(sets.get(key) ?? [])]
+          .map(([value, score]) => ({ value, score }))
+          .sort((x, y) => y.score - x.score)
+          .slice(start, stop + 1),
+    },
+  };
+});
+
+const mockPrisma = prisma as any;
+const mockRedis = redis as jest.Mocked<typeof redis>;
+
+const completedSwap = (
+  swapId: string,
+  initiatorId: string,
+  receiverId: string,
+  duration: number,
+  skills: [string, string] = ['guitar', 'spanish']
+) => ({
+  swapId,
+  initiatorId,
+  receiverId,
+  initiatorSkillId: skills[0],
+  receiverSkillId: skills[1],
+  duration,
+  completedAt: new Date('2026-10-14T10:00:00Z'),
+});
+
+const user = (userId: string, locationPrecision = 'CITY', city = 'Pune') => ({
+  userId,
+  name: `Name ${userId}`,
+  city,
+  state: 'Maharashtra',
+  privacySettings: { locationPrecision },
+});
+
+describe('LeaderboardService', () => {
+  describe('getWindow', () => {
+    it('starts weeks on Monday in UTC', () => {
+      const window = leaderboardService.getWindow('week', new Date('2026-10-18T23:30:00Z'));
+
+      expect(window.id).toBe('week:2026-10-12');
+      expect(window.start).toEqual(new Date('2026-10-12T00:00:00Z'));
+      expect(window.end).toEqual(new Date('2026-10-19T00:00:00Z'));
+    });
+
+    it('ends a December month at the start of the next year', () => {
+      const window = leaderboardService.getWindow('month', new Date('2026-12-15T08:00:00Z'));
+
+      expect(window.id).toBe('month:2026-12');
+      expect(window.end).toEqual(new Date('2027-01-01T00:00:00Z'));
+    });
+  });
+
+  describe('validateScope', () => {
+    it('rejects a category combined with a location', () => {
+      expect(() =>
+        leaderboardService.validateScope({ state: 'Maharashtra', categoryId: 'music' })
+      ).toThrow('not both');
+    });
+
+    it('rejects a city without its state', () => {
+      expect(() => leaderboardService.validateScope({ city: 'Pune' })).toThrow('state');
+    });
+  });
+
+  describe('getRanking', () => {
+    const week = leaderboardService.getWindow('week', new Date('2026-10-14T10:00:00Z'));
+
+    beforeEach(() => {
+      mockPrisma.swap.findMany.mockResolvedValue([
+        completedSwap('swap-1', 'user-1', 'user-2', 120),
+        completedSwap('swap-2', 'user-1', 'user-3', 60, ['guitar', 'chess']),
+        completedSwap('swap-3', 'user-2', 'user-4', 60, ['spanish', 'chess']),
+      ]);
+      mockPrisma.user.findMany.mockResolvedValue([
+        user('user-1'),
+        user('user-2'),
+        user('user-3', 'STATE'),
+        user('user-4'),
+      ]);
+      mockPrisma.skill.findMany.mockResolvedValue([
+        { skillId: 'guitar', categoryId: 'music' },
+        { skillId: 'spanish', categoryId: 'languages' },
+        { skillId: 'chess', categoryId: 'games' },
+      ]);
+    });
+
+    it('gives tied users the same rank', async () => {
+      const ranking = await leaderboardService.getRanking('swaps', week);
+
+      expect(ranking.map((r) => [r.userId, r.score, r.rank])).toEqual([
+        ['user-1', 2, 1],
+        ['user-2', 2, 1],
+        ['user-3', 1, 3],
+        ['user-4', 1, 3],
+      ]);
+      expect(mockPrisma.swap.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { completedAt: { gte: week.start, lt: week.end }, status: 'COMPLETED' },
+        })
+      );
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: 'ACTIVE', emailVerified: true }),
+        })
+      );
+    });
+
+    it('leaves users who hide their city out of city rankings', async () => {
+      const ranking = await leaderboardService.getRanking('hoursTaught', week, {
+        state: 'maharashtra',
+        city: 'PUNE',
+      });
+
+      expect(ranking.map((r) => r.userId)).toEqual(['user-1', 'user-2', 'user-4']);
+      expect(ranking[0].score).toBe(3);
+    });
+
+    it('counts each party toward the category of the skill they taught', async () => {
+      const ranking = await leaderboardService.getRanking('swaps', week, { categoryId: 'music' });
+
+      expect(ranking).toEqual([{ userId: 'user-1', score: 2, rank: 1 }]);
+    });
+  });
+
+  describe('getUserRank', () => {
+    it('has no city rank for a user who hides their city', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(user('user-3', 'STATE'));
+
+      const result = await leaderboardService.getUserRank('user-3', {
+        metric: 'swaps',
+        period: 'week',
+        scope: 'city',
+      });
+
+      expect(result.rank).toBeNull();
+      expect(mockPrisma.swap.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with Redis', () => {
+    const week = leaderboardService.getWindow('week', new Date('2026-10-14T10:00:00Z'));
+    const weekKey = (scope: string) => `leaderboard:swaps:${week.id}:${scope}`;
+
+    beforeEach(async () => {
+      mockRedis.isReady.mockReturnValue(true);
+      await redis.flushAll();
+      mockPrisma.swap.findMany.mockResolvedValue([completedSwap('swap-1', 'user-1', 'user-2', 60)]);
+      mockPrisma.user.findMany.mockResolvedValue([user('user-1'), user('user-2')]);
+    });
+
+    afterAll(() => {
+      mockRedis.isReady.mockReturnValue(false);
+    });
+
+    it('builds a window on first read, then serves it from Redis', async () => {
+      const first = await leaderboardService.getLeaderboard({ metric: 'swaps', period: 'week' });
+      expect(first.leaderboard.map((e) => [e.userId, e.rank, e.score])).toEqual([
+        ['user-1', 1, 1],
+        ['user-2', 1, 1],
+      ]);
+
+      mockPrisma.swap.findMany.mockClear();
+      await leaderboardService.getLeaderboard({ metric: 'swaps', period: 'week' });
+      expect(mockPrisma.swap.findMany).not.toHaveBeenCalled();
+    });
+
+    it('does not add swaps to a window that is not built yet', async () => {
+      await leaderboardService.recordSwapCompleted('swap-1');
+
+      expect(mockRedis.zIncrBy).not.toHaveBeenCalled();
+      expect(await redis.exists(weekKey('global'))).toBe(false);
+    });
+
+    it('adds a completed swap to a built window only once', async () => {
+      await leaderboardService.rebuildWindow(week);
+      mockPrisma.swap.findMany.mockResolvedValue([completedSwap('swap-2', 'user-1', 'user-3', 60)]);
+      mockPrisma.user.findMany.mockResolvedValue([user('user-1'), user('user-3')]);
+
+      await leaderboardService.recordSwapCompleted('swap-2');
+      await leaderboardService.recordSwapCompleted('swap-2');
+
+      expect(await redis.zScore(weekKey('global'), 'user-1')).toBe(2);
+      expect(await redis.zScore(weekKey('global'), 'user-3')).toBe(1);
+    });
+
+    it('deletes the sets of scopes left without activity', async () => {
+      await leaderboardService.rebuildWindow(week);
+      expect(await redis.exists(weekKey('city:maharashtra:pune'))).toBe(true);
+
+      mockPrisma.user.findMany.mockResolvedValue([
+        user('user-1', 'CITY', 'Mumbai'),
+        user('user-2', 'CITY', 'Mumbai'),
+      ]);
+      await leaderboardService.rebuildWindow(week);
+
+      expect(await redis.exists(weekKey('city:maharashtra:pune'))).toBe(false);
+      expect(await redis.zScore(weekKey('city:maharashtra:mumbai'), 'user-1')).toBe(1);
+    });
+
+    it('replays swaps that completed while the window was rebuilt', async () => {
+      await leaderboardService.rebuildWindow(week);
+
+      // swap-2 commits after the rebuild read the database
+      mockPrisma.swap.findMany
+        .mockResolvedValueOnce([completedSwap('swap-1', 'user-1', 'user-2', 60)])
+        .mockResolvedValueOnce([{ swapId: 'swap-1' }, { swapId: 'swap-2' }])
+        .mockResolvedValueOnce([completedSwap('swap-1', 'user-1', 'user-2', 60)])
+        .mockResolvedValueOnce([completedSwap('swap-2', 'user-1', 'user-2', 60)]);
+      await leaderboardService.rebuildWindow(week);
+
+      expect(await redis.zScore(weekKey('global'), 'user-1')).toBe(2);
+    });
+  });
+});
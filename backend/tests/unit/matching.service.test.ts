@@ -0,0 +1,115 @@
+/**
+ * Matching Service Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { matchingService } from '../../src/services/matching.service';
+
+const mockPrisma = prisma as any;
+
+// Pune, and points roughly 10, 100 and 1000 km north of it
+const PUNE = { latitude: 18.52, longitude: 73.86 };
+const north = (km: number) => ({ latitude: PUNE.latitude + km / 111.2, longitude: PUNE.longitude });
+
+const candidate = (userId: string, location: { latitude: number; longitude: number } | null) => ({
+  userId,
+  city: 'Somewhere',
+  state: 'Maharashtra',
+  latitude: location?.latitude ?? null,
+  longitude: location?.longitude ?? null,
+  privacySettings: { locationPrecision: 'EXACT' },
+});
+
+describe('MatchingService', () => {
+  describe('findMatches', () => {
+    beforeEach(() => {
+      mockPrisma.userSkill.findMany.mockResolvedValue([
+        { skillId: 'guitar', skillType: 'TEACH', skill: { name: 'Guitar' } },
+        { skillId: 'spanish', skillType: 'LEARN', skill: { name: 'Spanish' } },
+      ]);
+      mockPrisma.user.findUnique.mockResolvedValue({ city: 'Pune', state: 'Maharashtra', ...PUNE });
+      mockPrisma.userBlock.findMany.mockResolvedValue([]);
+      mockPrisma.user.findMany.mockReset().mockResolvedValue([]);
+    });
+
+    it.each([NaN, -5, 0, Infinity])('rejects a radius of %s km', async (maxDistanceKm) => {
+      await expect(
+        matchingService.findMatches({ userId: 'user-1', maxDistanceKm })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Serve user.findMany from a list of candidates, honouring the bounding
+     * box, excluded ids and take the service passes
+     */
+    const serveCandidates = (candidates: ReturnType<typeof candidate>[]) => {
+      mockPrisma.user.findMany.mockImplementation(({ where, take }: any) => {
+        if (where.userId?.in) return Promise.resolve([]);
+        const [, filter] = where.AND ?? [];
+        return Promise.resolve(
+          candidates
+            .filter((c) =>
+              filter?.latitude
+                ? c.latitude !== null &&
+                  c.latitude >= filter.latitude.gte &&
+                  c.latitude <= filter.latitude.lte
+                : !filter?.userId?.notIn.includes(c.userId)
+            )
+            .slice(0, take)
+        );
+      });
+    };
+
+    it('scores the nearest candidates when sorting by distance', async () => {
+      serveCandidates([
+        candidate('far', north(1000)),
+        candidate('unknown', null),
+        candidate('near', north(10)),
+        candidate('middle', north(100)),
+      ]);
+
+      await matchingService.findMatches({ userId: 'user-1', sortBy: 'distance' }, 1);
+
+      const calls = mockPrisma.user.findMany.mock.calls;
+      expect(calls.at(-1)[0].where).toEqual({ userId: { in: ['near', 'middle', 'far'] } });
+      // Every distance query is limited, none loads all users
+      calls.slice(0, -1).forEach(([args]: any) => expect(args.take).toBeDefined());
+    });
+
+    it('stops widening the search once a band holds enough candidates', async () => {
+      serveCandidates([
+        candidate('a', north(2)),
+        candidate('b', north(8)),
+        candidate('c', north(12)),
+        candidate('d', north(400)),
+      ]);
+
+      await matchingService.findMatches({ userId: 'user-1', sortBy: 'distance' }, 1);
+
+      // 5 km and 15 km bands, then the candidates themselves
+      expect(mockPrisma.user.findMany).toHaveBeenCalledTimes(3);
+      expect(mockPrisma.user.findMany.mock.calls[2][0].where).toEqual({
+        userId: { in: ['a', 'b', 'c'] },
+      });
+    });
+
+    it('ranks candidates inside the radius box when sorting by distance', async () => {
+      await matchingService.findMatches(
+        { userId: 'user-1', sortBy: 'distance', maxDistanceKm: 50 },
+        5
+      );
+
+      const [where] = mockPrisma.user.findMany.mock.calls[0][0].where.AND;
+      expect(where.latitude.gte).toBeCloseTo(PUNE.latitude - 50 / 111.2, 2);
+      expect(where.latitude.lte).toBeCloseTo(PUNE.latitude + 50 / 111.2, 2);
+    });
+
+    it('queries candidates directly when sorting by score', async () => {
+      await matchingService.findMatches({ userId: 'user-1' }, 5);
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.user.findMany.mock.calls[0][0].take).toBe(15);
+    });
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { moderationService } from '../../src/services/moderation.service';
+import { notificationService } from '../../src/services/notification.service';
 import prisma from '../../src/config/database';
 
 describe('Moderation Service', () => {
@@ -367,4 +368,128 @@ describe('Moderation Service', () => {
       expect(result).toEqual(mockActions);
     });
   });
+
+  describe('review disputes', () => {
+    const review = {
+      reviewId: 'review-1',
+      swapId: 'swap-1',
+      studentId: 'student-1',
+      teacherId: 'teacher-1',
+      isRevealed: true,
+    };
+
+    // Drop return values queued by earlier tests that did not use them
+    beforeEach(() => {
+      [
+        prisma.user.findUnique,
+        prisma.user.findMany,
+        prisma.review.findUnique,
+        prisma.report.findFirst,
+        prisma.report.findUnique,
+        prisma.report.create,
+        prisma.swap.findUnique,
+        prisma.moderatorAction.create,
+      ].forEach((mock) => (mock as jest.Mock).mockReset());
+    });
+
+    it('queues a dispute with the swap and its sessions attached', async () => {
+      (prisma.review.findUnique as jest.Mock).mockResolvedValueOnce(review);
+      (prisma.report.findFirst as jest.Mock).mockResolvedValueOnce(null);
+      (prisma.swap.findUnique as jest.Mock).mockResolvedValueOnce({
+        swapId: 'swap-1',
+        sessions: [{ sessionId: 'session-1', startTime: new Date('2026-02-01T10:00:00Z') }],
+        reviews: [],
+      });
+      (prisma.report.create as jest.Mock).mockResolvedValueOnce({
+        reportId: 'report-1',
+        reporter: { name: 'Teacher' },
+      });
+      (prisma.user.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+      await moderationService.createReviewDispute({
+        teacherId: 'teacher-1',
+        reviewId: 'review-1',
+        reason: 'The session never happened like this',
+      });
+
+      expect(prisma.report.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            type: 'REVIEW_DISPUTE',
+            reporterId: 'teacher-1',
+            reportedUserId: 'student-1',
+            reviewId: 'review-1',
+            context: {
+              swap: {
+                swapId: 'swap-1',
+                sessions: [{ sessionId: 'session-1', startTime: '2026-02-01T10:00:00.000Z' }],
+                reviews: [],
+              },
+            },
+          }),
+        })
+      );
+    });
+
+    it('only lets the reviewed user dispute a review once', async () => {
+      (prisma.review.findUnique as jest.Mock).mockResolvedValueOnce(review);
+
+      await expect(
+        moderationService.createReviewDispute({
+          teacherId: 'student-1',
+          reviewId: 'review-1',
+          reason: 'Unfair',
+        })
+      ).rejects.toThrow('You can only dispute reviews about you');
+
+      (prisma.review.findUnique as jest.Mock).mockResolvedValueOnce(review);
+      (prisma.report.findFirst as jest.Mock).mockResolvedValueOnce({ reportId: 'report-1' });
+
+      await expect(
+        moderationService.createReviewDispute({
+          teacherId: 'teacher-1',
+          reviewId: 'review-1',
+          reason: 'Unfair',
+        })
+      ).rejects.toThrow('This review has already been disputed');
+    });
+
+    it('hides the review and notifies both parties', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce({
+        role: 'MODERATOR',
+        status: 'ACTIVE',
+      });
+      (prisma.report.findUnique as jest.Mock).mockResolvedValueOnce({
+        reportId: 'report-1',
+        type: 'REVIEW_DISPUTE',
+        status: 'PENDING',
+        reviewId: 'review-1',
+      });
+      (prisma.review.findUnique as jest.Mock).mockResolvedValueOnce(review);
+      (prisma.moderatorAction.create as jest.Mock).mockResolvedValueOnce({ actionId: 'action-1' });
+
+      await moderationService.resolveReviewDispute({
+        reportId: 'report-1',
+        moderatorId: 'mod-1',
+        outcome: 'HIDE',
+      });
+
+      expect(prisma.review.update).toHaveBeenCalledWith({
+        where: { reviewId: 'review-1' },
+        data: { isPublic: false },
+      });
+      expect(prisma.moderatorAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ actionType: 'HIDE_CONTENT', targetContentId: 'review-1' }),
+      });
+      expect(prisma.report.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'RESOLVED' }) })
+      );
+      expect(notificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'teacher-1', title: 'Review Dispute Resolved' })
+      );
+      expect(notificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'student-1', title: 'Review Dispute Resolved' })
+      );
+    });
+  });
 });
@@ -0,0 +1,85 @@
+/**
+ * OTP Service Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { otpService } from '../../src/services/otp.service';
+
+const mockPrisma = prisma as any;
+
+/**
+ * Issue an OTP and return it with the record the service stored
+ */
+const issue = async (overrides: Record<string, any> = {}) => {
+  const otp = await otpService.issueOTP('asha@example.com', 'EMAIL_VERIFY');
+  const { data } = mockPrisma.verificationToken.create.mock.calls.at(-1)[0];
+  const record = {
+    tokenId: 'token-1',
+    attempts: 0,
+    consumedAt: null,
+    createdAt: new Date(),
+    ...data,
+    ...overrides,
+  };
+  mockPrisma.verificationToken.findFirst.mockResolvedValue(record);
+  // Issuing revokes earlier codes; only count what verification does
+  mockPrisma.verificationToken.updateMany.mockClear();
+  return { otp, record };
+};
+
+describe('OTPService', () => {
+  it('stores only a hash of the code', async () => {
+    const { otp, record } = await issue();
+
+    expect(otp).toMatch(/^\d{6}$/);
+    expect(record.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(record.tokenHash).not.toContain(otp);
+  });
+
+  it('claims an attempt before comparing a guess', async () => {
+    await issue({ attempts: 3 });
+    mockPrisma.verificationToken.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    const result = await otpService.verifyOTP('asha@example.com', 'EMAIL_VERIFY', '000000');
+
+    expect(mockPrisma.verificationToken.updateMany).toHaveBeenCalledWith({
+      where: { tokenId: 'token-1', attempts: { lt: 5 } },
+      data: { attempts: { increment: 1 } },
+    });
+    expect(result).toEqual({ valid: false, reason: 'MISMATCH', attemptsRemaining: 1 });
+  });
+
+  it('locks once the attempts are used up, even for the right code', async () => {
+    const { otp } = await issue({ attempts: 4 });
+    mockPrisma.verificationToken.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    const result = await otpService.verifyOTP('asha@example.com', 'EMAIL_VERIFY', otp);
+
+    expect(result).toEqual({ valid: false, reason: 'LOCKED', attemptsRemaining: 0 });
+    expect(mockPrisma.verificationToken.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts the right code only once', async () => {
+    const { otp } = await issue();
+    mockPrisma.verificationToken.updateMany
+      .mockResolvedValueOnce({ count: 1 }) // attempt
+      .mockResolvedValueOnce({ count: 1 }) // consumed
+      .mockResolvedValueOnce({ count: 1 }) // attempt
+      .mockResolvedValueOnce({ count: 0 }); // already consumed by the first call
+
+    const first = await otpService.verifyOTP('asha@example.com', 'EMAIL_VERIFY', otp);
+    const second = await otpService.verifyOTP('asha@example.com', 'EMAIL_VERIFY', otp);
+
+    expect(first.valid).toBe(true);
+    expect(second).toEqual({ valid: false, reason: 'NOT_FOUND' });
+  });
+
+  it('does not count guesses against an expired code', async () => {
+    const { otp } = await issue({ expiresAt: new Date(Date.now() - 1000) });
+
+    const result = await otpService.verifyOTP('asha@example.com', 'EMAIL_VERIFY', otp);
+
+    expect(result).toEqual({ valid: false, reason: 'EXPIRED' });
+    expect(mockPrisma.verificationToken.updateMany).not.toHaveBeenCalled();
+  });
+});
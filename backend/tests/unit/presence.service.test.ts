@@ -0,0 +1,117 @@
+/**
+ * Presence Service Unit Tests
+ */
+
+import { redis } from '../../src/config/redis';
+import { presenceService } from '../../src/services/presence.service';
+
+jest.mock('../../src/config/redis', () => ({
+  redis: {
+    isReady: jest.fn().mockReturnValue(false),
+    zAdd: jest.fn().mockResolvedValue(true),
+    zRem: jest.fn().mockResolvedValue(true),
+    zCountFrom: jest.fn().mockResolvedValue(0),
+    zRangeFrom: jest.fn().mockResolvedValue([]),
+    zRemBelow: jest.fn().mockResolvedValue(0),
+    hSet: jest.fn().mockResolvedValue(true),
+    hGet: jest.fn().mockResolvedValue(null),
+    expire: jest.fn().mockResolvedValue(true),
+    evalScript: jest.fn().mockResolvedValue(null),
+  },
+}));
+
+const mockRedis = redis as jest.Mocked<typeof redis>;
+
+describe('Presence Service', () => {
+  describe('without Redis', () => {
+    beforeEach(() => {
+      mockRedis.isReady.mockReturnValue(false);
+    });
+
+    it('should keep a user online until their last socket disconnects', async () => {
+      expect(await presenceService.addSocket('user-1', 'socket-a')).toBe(true);
+      expect(await presenceService.addSocket('user-1', 'socket-b')).toBe(false);
+
+      expect(await presenceService.removeSocket('user-1', 'socket-a')).toBe(false);
+      expect(await presenceService.isOnline('user-1')).toBe(true);
+
+      expect(await presenceService.removeSocket('user-1', 'socket-b')).toBe(true);
+      expect(await presenceService.isOnline('user-1')).toBe(false);
+      expect(await presenceService.getLastSeen('user-1')).toBeInstanceOf(Date);
+    });
+
+    it('should list every socket of an online user', async () => {
+      await presenceService.addSocket('user-2', 'socket-a');
+      await presenceService.addSocket('user-2', 'socket-b');
+
+      const online = await presenceService.getOnlineUsers();
+
+      expect(online.find((u) => u.userId === 'user-2')?.socketIds).toEqual([
+        'socket-a',
+        'socket-b',
+      ]);
+    });
+
+    it('should track typing per conversation', async () => {
+      await presenceService.setTyping('a_b', 'user-1', true);
+      expect(await presenceService.getTypingUsers('a_b')).toEqual(['user-1']);
+
+      await presenceService.setTyping('a_b', 'user-1', false);
+      expect(await presenceService.getTypingUsers('a_b')).toEqual([]);
+    });
+  });
+
+  describe('with Redis', () => {
+    beforeEach(() => {
+      mockRedis.isReady.mockReturnValue(true);
+    });
+
+    it('should ignore sockets whose instance stopped sending heartbeats', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2030-01-01T00:00:00Z'));
+      mockRedis.zCountFrom.mockResolvedValue(0);
+
+      expect(await presenceService.isOnline('user-1')).toBe(false);
+      expect(mockRedis.zCountFrom).toHaveBeenCalledWith(
+        'presence:sockets:user-1',
+        Date.now() - 90 * 1000
+      );
+
+      jest.useRealTimers();
+    });
+
+    it('should report only the first socket of a user as coming online', async () => {
+      mockRedis.evalScript.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      expect(await presenceService.addSocket('user-1', 'socket-a')).toBe(true);
+      expect(await presenceService.addSocket('user-1', 'socket-b')).toBe(false);
+
+      expect(mockRedis.evalScript).toHaveBeenCalledTimes(2);
+      expect(mockRedis.evalScript).toHaveBeenCalledWith(
+        expect.any(String),
+        ['presence:sockets:user-1', 'presence:online'],
+        expect.arrayContaining(['socket-a', 'user-1'])
+      );
+      expect(mockRedis.zAdd).not.toHaveBeenCalled();
+    });
+
+    it('should record last seen in the same step when the final socket leaves', async () => {
+      mockRedis.evalScript.mockResolvedValueOnce(1);
+
+      const wentOffline = await presenceService.removeSocket('user-1', 'socket-a');
+
+      expect(wentOffline).toBe(true);
+      expect(mockRedis.evalScript).toHaveBeenCalledTimes(1);
+      expect(mockRedis.evalScript).toHaveBeenCalledWith(
+        expect.any(String),
+        ['presence:sockets:user-1', 'presence:online', 'presence:last-seen'],
+        expect.arrayContaining(['socket-a', 'user-1'])
+      );
+    });
+
+    it('should stay online while another socket is live', async () => {
+      mockRedis.evalScript.mockResolvedValueOnce(0);
+
+      expect(await presenceService.removeSocket('user-1', 'socket-a')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Privacy Service Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { privacyService } from '../../src/services/privacy.service';
+
+const mockPrisma = prisma as any;
+
+const stranger = { isSelf: false, isLoggedIn: true, isConnected: false };
+const connection = { isSelf: false, isLoggedIn: true, isConnected: true };
+const signedOut = { isSelf: false, isLoggedIn: false, isConnected: false };
+
+describe('PrivacyService', () => {
+  describe('canViewProfile', () => {
+    it('requires signing in unless the profile is public', () => {
+      expect(privacyService.canViewProfile('PUBLIC', signedOut)).toBe(true);
+      expect(privacyService.canViewProfile('LOGGED_IN', signedOut)).toBe(false);
+      expect(privacyService.canViewProfile('LOGGED_IN', stranger)).toBe(true);
+    });
+
+    it('limits connections-only profiles to accepted connections', () => {
+      expect(privacyService.canViewProfile('CONNECTIONS', stranger)).toBe(false);
+      expect(privacyService.canViewProfile('CONNECTIONS', connection)).toBe(true);
+    });
+  });
+
+  describe('maskLocation', () => {
+    const user = { city: 'Pune', state: 'Maharashtra', pincode: '411001', latitude: 18.5, longitude: 73.8 };
+
+    it('drops coordinates and pincode below exact precision', () => {
+      expect(privacyService.maskLocation(user, 'CITY')).toEqual({
+        city: 'Pune',
+        state: 'Maharashtra',
+        pincode: null,
+        latitude: null,
+        longitude: null,
+      });
+    });
+
+    it('keeps only the state, or nothing', () => {
+      expect(privacyService.maskLocation(user, 'STATE')).toMatchObject({ city: null, state: 'Maharashtra' });
+      expect(privacyService.maskLocation(user, 'HIDDEN')).toMatchObject({ city: null, state: null });
+    });
+
+    it('does not add fields the user object did not have', () => {
+      expect(privacyService.maskLocation({ city: 'Pune' }, 'HIDDEN')).toEqual({ city: null });
+    });
+  });
+
+  describe('getVisibleContact', () => {
+    const contact = { email: 'asha@example.com', phone: '+91 98765 43210' };
+
+    it('hides the phone along with the email when contact details are private', () => {
+      expect(
+        privacyService.getVisibleContact(contact, { contact: 'NOBODY', phone: 'EVERYONE' }, connection)
+      ).toBeNull();
+    });
+
+    it('shows the phone only when its own setting also allows it', () => {
+      const visibility = { contact: 'CONNECTIONS', phone: 'NOBODY' } as const;
+
+      expect(privacyService.getVisibleContact(contact, visibility, stranger)).toBeNull();
+      expect(privacyService.getVisibleContact(contact, visibility, connection)).toEqual({
+        email: 'asha@example.com',
+        phone: null,
+      });
+      expect(
+        privacyService.getVisibleContact(contact, { contact: 'CONNECTIONS', phone: 'CONNECTIONS' }, connection)
+      ).toEqual(contact);
+    });
+  });
+
+  describe('updateSettings', () => {
+    it('only writes the settings that were given', async () => {
+      mockPrisma.privacySettings.upsert.mockResolvedValue({ userId: 'user-1', hideFromSearch: true });
+
+      await privacyService.updateSettings('user-1', { hideFromSearch: true, ageVisibility: undefined });
+
+      expect(mockPrisma.privacySettings.upsert).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        create: { userId: 'user-1', hideFromSearch: true },
+        update: { hideFromSearch: true },
+      });
+    });
+  });
+
+  describe('getAge', () => {
+    it('counts whole years up to the last birthday', () => {
+      const now = new Date(2026, 5, 14);
+
+      expect(privacyService.getAge(new Date(2000, 5, 15), now)).toBe(25);
+      expect(privacyService.getAge(new Date(2000, 5, 14), now)).toBe(26);
+      expect(privacyService.getAge(null, now)).toBeNull();
+    });
+  });
+
+  describe('discoverableWhere', () => {
+    it('lets connections find connections-only profiles', async () => {
+      mockPrisma.connectionRequest.findMany.mockResolvedValue([
+        { senderId: 'user-1', receiverId: 'user-2' },
+        { senderId: 'user-3', receiverId: 'user-1' },
+      ]);
+
+      const where = await privacyService.discoverableWhere('user-1');
+
+      expect(where.AND).toContainEqual({
+        OR: [
+          { privacySettings: null },
+          { privacySettings: { profileVisibility: { not: 'CONNECTIONS' } } },
+          { userId: { in: ['user-2', 'user-3'] } },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Reputation Scoring Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { calculateUserRating, computeReputation } from '../../src/services/rating.service';
+
+const mockPrisma = prisma as any;
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-06-01T00:00:00Z');
+
+const review = (studentId: string, rating: number, daysAgo: number) => ({
+  studentId,
+  rating,
+  userSkillId: null,
+  createdAt: new Date(NOW.getTime() - daysAgo * DAY),
+});
+
+const establishedReviewer = (userId: string) => ({
+  userId,
+  createdAt: new Date(NOW.getTime() - 365 * DAY),
+  completedSwaps: 20,
+});
+
+/**
+ * Mock the reviews a user received, then the reviewers' own reviews and the
+ * reviews the user gave back
+ */
+const mockReviews = (received: any[], authored: any[] = [], given: any[] = []) => {
+  mockPrisma.review.findMany
+    .mockResolvedValueOnce(received)
+    .mockResolvedValueOnce(authored)
+    .mockResolvedValueOnce(given);
+};
+
+describe('computeReputation', () => {
+  it('starts from the prior with a wide interval', () => {
+    const reputation = computeReputation([]);
+
+    expect(reputation.score).toBe(3.5);
+    expect(reputation.low).toBeLessThan(2.5);
+    expect(reputation.high).toBeGreaterThan(4.5);
+  });
+
+  it('narrows the interval as consistent reviews come in', () => {
+    const few = computeReputation(Array(2).fill({ rating: 5, weight: 1 }));
+    const many = computeReputation(Array(40).fill({ rating: 5, weight: 1 }));
+
+    expect(many.score).toBeGreaterThan(few.score);
+    expect(many.high - many.low).toBeLessThan(few.high - few.low);
+    expect(many.low).toBeGreaterThan(few.low);
+  });
+});
+
+describe('calculateUserRating', () => {
+  beforeEach(() => {
+    mockPrisma.review.findMany.mockResolvedValue([]);
+  });
+
+  it('lets recent complaints outweigh old praise', async () => {
+    mockPrisma.user.findMany.mockResolvedValue(
+      ['a', 'b', 'c', 'd', 'e', 'f'].map(establishedReviewer)
+    );
+    mockReviews([
+      review('a', 1, 5),
+      review('b', 1, 10),
+      review('c', 2, 20),
+      review('d', 5, 700),
+      review('e', 5, 720),
+      review('f', 5, 740),
+    ]);
+
+    const result = await calculateUserRating('teacher', NOW);
+
+    expect(result.newRating).toBeLessThan(2.5);
+    expect(result.ratingLow).toBeLessThanOrEqual(result.newRating);
+    expect(result.ratingHigh).toBeGreaterThanOrEqual(result.newRating);
+  });
+
+  it('trusts established reviewers more than new accounts', async () => {
+    mockPrisma.user.findMany.mockResolvedValueOnce([establishedReviewer('veteran')]);
+    mockReviews([review('veteran', 5, 1)]);
+    const fromVeteran = await calculateUserRating('teacher', NOW);
+
+    mockPrisma.user.findMany.mockResolvedValueOnce([
+      { userId: 'newcomer', createdAt: NOW, completedSwaps: 0 },
+    ]);
+    mockReviews([review('newcomer', 5, 1)]);
+    const fromNewcomer = await calculateUserRating('teacher', NOW);
+
+    expect(fromVeteran.newRating).toBeGreaterThan(fromNewcomer.newRating);
+  });
+
+  it('discounts pairs who keep trading top ratings', async () => {
+    const received = [review('friend', 5, 1), review('friend', 5, 2), review('friend', 5, 3)];
+
+    mockPrisma.user.findMany.mockResolvedValue([establishedReviewer('friend')]);
+    mockReviews(received);
+    const oneSided = await calculateUserRating('teacher', NOW);
+
+    mockReviews(received, [], [{ teacherId: 'friend' }, { teacherId: 'friend' }]);
+    const reciprocal = await calculateUserRating('teacher', NOW);
+
+    expect(reciprocal.newRating).toBeLessThan(oneSided.newRating);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Two-sided Review Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { reviewService } from '../../src/services/review.service';
+import { calculateUserRating } from '../../src/services/rating.service';
+import { notificationService } from '../../src/services/notification.service';
+
+const mockPrisma = prisma as any;
+const DAY = 24 * 60 * 60 * 1000;
+
+const hiddenReview = (reviewId: string, studentId: string, teacherId: string) => ({
+  reviewId,
+  swapId: 'swap-1',
+  studentId,
+  teacherId,
+  userSkillId: `skill-of-${teacherId}`,
+  rating: 4,
+  comment: 'Great session',
+  isPublic: true,
+  isRevealed: false,
+  student: { name: `Name ${studentId}` },
+  teacher: { name: `Name ${teacherId}` },
+});
+
+describe('ReviewService', () => {
+  beforeEach(() => {
+    mockPrisma.review.findMany.mockResolvedValue([]);
+    mockPrisma.userSkill.findMany.mockResolvedValue([]);
+  });
+
+  describe('getTaughtUserSkillId', () => {
+    const swap = { initiatorId: 'user-1', initiatorSkillId: 'guitar', receiverSkillId: 'spanish' };
+
+    it('looks up the skill the reviewee taught in the swap', async () => {
+      mockPrisma.userSkill.findUnique.mockResolvedValue({ userSkillId: 'us-2' });
+
+      await expect(reviewService.getTaughtUserSkillId(swap, 'user-2')).resolves.toBe('us-2');
+      expect(mockPrisma.userSkill.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId_skillId_skillType: { userId: 'user-2', skillId: 'spanish', skillType: 'TEACH' },
+          },
+        })
+      );
+    });
+
+    it('returns null when the reviewee no longer teaches the skill', async () => {
+      mockPrisma.userSkill.findUnique.mockResolvedValue(null);
+
+      await expect(reviewService.getTaughtUserSkillId(swap, 'user-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('revealSwapReviews', () => {
+    it('reveals both reviews and notifies each reviewee', async () => {
+      mockPrisma.review.findMany.mockResolvedValueOnce([
+        hiddenReview('review-1', 'user-1', 'user-2'),
+        hiddenReview('review-2', 'user-2', 'user-1'),
+      ]);
+      mockPrisma.review.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(reviewService.revealSwapReviews('swap-1')).resolves.toBe(2);
+
+      expect(mockPrisma.review.updateMany).toHaveBeenCalledWith({
+        where: { reviewId: 'review-1', isRevealed: false },
+        data: { isRevealed: true },
+      });
+      expect(mockPrisma.review.updateMany).toHaveBeenCalledWith({
+        where: { reviewId: 'review-2', isRevealed: false },
+        data: { isRevealed: true },
+      });
+      expect(mockPrisma.user.update).toHaveBeenCalledTimes(2);
+      expect(notificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-2' })
+      );
+      expect(notificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1' })
+      );
+    });
+
+    it('only follows up reviews that a concurrent reveal did not claim first', async () => {
+      mockPrisma.review.findMany.mockResolvedValueOnce([
+        hiddenReview('review-1', 'user-1', 'user-2'),
+        hiddenReview('review-2', 'user-2', 'user-1'),
+      ]);
+      mockPrisma.review.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+
+      await expect(reviewService.revealSwapReviews('swap-1')).resolves.toBe(1);
+
+      expect(mockPrisma.user.update).toHaveBeenCalledTimes(1);
+      expect(notificationService.createNotification).toHaveBeenCalledTimes(1);
+      expect(notificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1' })
+      );
+    });
+
+    it('does nothing when no reviews are hidden', async () => {
+      await expect(reviewService.revealSwapReviews('swap-1')).resolves.toBe(0);
+      expect(mockPrisma.review.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revealExpiredReviews', () => {
+    it('only looks at swaps completed before the review window', async () => {
+      const now = new Date('2026-03-20T12:00:00Z');
+
+      await reviewService.revealExpiredReviews(now);
+
+      expect(mockPrisma.review.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            isRevealed: false,
+            swap: { completedAt: { lte: new Date(now.getTime() - 14 * DAY) } },
+          },
+        })
+      );
+    });
+  });
+});
+
+describe('calculateUserRating', () => {
+  it('rates each taught skill separately from the overall rating', async () => {
+    const recent = new Date(Date.now() - DAY);
+    mockPrisma.user.findMany.mockResolvedValue([]);
+    mockPrisma.review.findMany
+      .mockResolvedValueOnce([
+        { studentId: 'user-2', rating: 5, userSkillId: 'guitar', createdAt: recent },
+        { studentId: 'user-3', rating: 5, userSkillId: 'guitar', createdAt: recent },
+        { studentId: 'user-4', rating: 2, userSkillId: 'spanish', createdAt: recent },
+        { studentId: 'user-5', rating: 4, userSkillId: null, createdAt: recent },
+      ])
+      .mockResolvedValue([]);
+
+    const result = await calculateUserRating('user-1');
+
+    expect(result.reviewCount).toBe(4);
+    expect(result.skillRatings.map((s) => [s.userSkillId, s.reviewCount])).toEqual([
+      ['guitar', 2],
+      ['spanish', 1],
+    ]);
+    const [guitar, spanish] = result.skillRatings;
+    expect(guitar.rating).toBeGreaterThan(result.newRating);
+    expect(spanish.rating).toBeLessThan(result.newRating);
+    expect(mockPrisma.review.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { teacherId: 'user-1', isPublic: true, isRevealed: true },
+      })
+    );
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Scheduling Service Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { schedulingService } from '../../src/services/scheduling.service';
+
+const mockPrisma = prisma as any;
+
+// Monday 09:00-12:00 local time
+const mondayMorning = [{ dayOfWeek: 1, startMinute: 9 * 60, endMinute: 12 * 60 }];
+
+const slot = (start: string, minutes: number = 60) => ({
+  startTime: new Date(start),
+  endTime: new Date(new Date(start).getTime() + minutes * 60 * 1000),
+});
+
+describe('Scheduling Service', () => {
+  beforeEach(() => {
+    mockPrisma.swapSession.findMany.mockResolvedValue([]);
+    mockPrisma.swap.findMany.mockResolvedValue([]);
+    mockPrisma.event.findMany.mockResolvedValue([]);
+  });
+
+  describe('isWithinAvailability', () => {
+    it('should evaluate windows in the user timezone', () => {
+      // 2030-01-07 is a Monday; 04:00 UTC is 09:30 in Asia/Kolkata
+      const monday = slot('2030-01-07T04:00:00Z');
+
+      expect(schedulingService.isWithinAvailability(monday, 'Asia/Kolkata', mondayMorning)).toBe(true);
+      expect(schedulingService.isWithinAvailability(monday, 'UTC', mondayMorning)).toBe(false);
+    });
+
+    it('should reject slots that run past the end of a window', () => {
+      const lateStart = slot('2030-01-07T06:00:00Z', 90); // 11:30-13:00 IST
+
+      expect(schedulingService.isWithinAvailability(lateStart, 'Asia/Kolkata', mondayMorning)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('findConflicts', () => {
+    it('should report an overlapping event', async () => {
+      mockPrisma.event.findMany.mockResolvedValue([
+        {
+          eventId: 'event-1',
+          title: 'React Meetup',
+          startTime: new Date('2030-01-07T04:30:00Z'),
+          endTime: new Date('2030-01-07T06:00:00Z'),
+        },
+      ]);
+
+      const conflicts = await schedulingService.findConflicts('user-1', slot('2030-01-07T04:00:00Z'));
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]).toMatchObject({ type: 'EVENT', id: 'event-1' });
+    });
+
+    it('should treat back-to-back sessions as free', async () => {
+      mockPrisma.swapSession.findMany.mockResolvedValue([
+        {
+          sessionId: 'session-1',
+          swapId: 'swap-2',
+          startTime: new Date('2030-01-07T03:00:00Z'),
+          endTime: null,
+          duration: 60,
+        },
+      ]);
+
+      const conflicts = await schedulingService.findConflicts('user-1', slot('2030-01-07T04:00:00Z'));
+
+      expect(conflicts).toHaveLength(0);
+    });
+  });
+
+  describe('assertNoConflicts', () => {
+    it('should reject a slot that clashes with an accepted swap', async () => {
+      mockPrisma.swap.findMany.mockResolvedValue([
+        { swapId: 'swap-2', scheduledAt: new Date('2030-01-07T04:30:00Z'), duration: 30 },
+      ]);
+
+      await expect(
+        schedulingService.assertNoConflicts(slot('2030-01-07T04:00:00Z'), [
+          { userId: 'user-1', isCurrentUser: true },
+        ])
+      ).rejects.toThrow('You already have a scheduled swap');
+    });
+  });
+
+  describe('suggestSlots', () => {
+    it('should ask for availability when a party has none', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { userId: 'user-1', timezone: 'Asia/Kolkata', availability: mondayMorning },
+        { userId: 'user-2', timezone: 'Asia/Kolkata', availability: [] },
+      ]);
+
+      const result = await schedulingService.suggestSlots(['user-1', 'user-2']);
+
+      expect(result.slots).toHaveLength(0);
+      expect(result.missingAvailability).toEqual(['user-2']);
+    });
+
+    it('should only suggest non-overlapping slots inside both calendars', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2030-01-06T00:00:00Z')); // Sunday
+      mockPrisma.user.findMany.mockResolvedValue([
+        { userId: 'user-1', timezone: 'Asia/Kolkata', availability: mondayMorning },
+        { userId: 'user-2', timezone: 'Asia/Kolkata', availability: mondayMorning },
+      ]);
+
+      const { slots } = await schedulingService.suggestSlots(['user-1', 'user-2'], {
+        days: 7,
+        limit: 5,
+      });
+
+      // A 3-hour window fits three back-to-back one-hour slots
+      expect(slots).toHaveLength(3);
+      slots.forEach((s) => {
+        expect(schedulingService.isWithinAvailability(s, 'Asia/Kolkata', mondayMorning)).toBe(true);
+      });
+
+      jest.useRealTimers();
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Season Service Unit Tests
+ */
+
+import prisma from '../../src/config/database';
+import { seasonService } from '../../src/services/season.service';
+import { gamificationService } from '../../src/services/gamification.service';
+import { notificationService } from '../../src/services/notification.service';
+
+jest.mock('../../src/services/gamification.service', () => ({
+  gamificationService: {
+    awardCoins: jest.fn().mockResolvedValue({}),
+    grantBadge: jest.fn().mockResolvedValue(true),
+    awardBadgesForEvent: jest.fn().mockResolvedValue([]),
+  },
+}));
+
+const mockPrisma = prisma as any;
+
+const season = {
+  seasonId: 'season-1',
+  name: 'Autumn Sprint',
+  metric: 'swaps',
+  startsAt: new Date('2026-09-01T00:00:00Z'),
+  endsAt: new Date('2026-10-01T00:00:00Z'),
+  rewards: [
+    { fromRank: 1, toRank: 1, coins: 500, badgeId: 'badge-champion' },
+    { fromRank: 2, toRank: 3, coins: 100 },
+  ],
+  finalizedAt: null,
+};
+
+const swap = (initiatorId: string, receiverId: string) => ({
+  swapId: `${initiatorId}-${receiverId}`,
+  initiatorId,
+  receiverId,
+  initiatorSkillId: 'guitar',
+  receiverSkillId: 'spanish',
+  duration: 60,
+  completedAt: new Date('2026-09-15T10:00:00Z'),
+});
+
+describe('SeasonService', () => {
+  describe('finalizeEndedSeasons', () => {
+    beforeEach(() => {
+      mockPrisma.season.findMany.mockResolvedValue([season]);
+      mockPrisma.swap.findMany.mockResolvedValue([
+        swap('user-1', 'user-2'),
+        swap('user-1', 'user-3'),
+        swap('user-1', 'user-4'),
+        swap('user-2', 'user-5'),
+      ]);
+      mockPrisma.user.findMany.mockResolvedValue(
+        ['user-1', 'user-2', 'user-3', 'user-4', 'user-5'].map((userId) => ({
+          userId,
+          city: null,
+          state: null,
+          privacySettings: null,
+        }))
+      );
+      mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    });
+
+    it('archives the final standings and pays each rank band', async () => {
+      mockPrisma.season.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(seasonService.finalizeEndedSeasons()).resolves.toBe(1);
+
+      const { data } = mockPrisma.seasonStanding.createMany.mock.calls[0][0];
+      expect(data.map((s: any) => [s.userId, s.rank, s.rewardCoins])).toEqual([
+        ['user-1', 1, 500],
+        ['user-2', 2, 100],
+        ['user-3', 3, 100],
+        ['user-4', 3, 100],
+        ['user-5', 3, 100],
+      ]);
+      expect(gamificationService.awardCoins).toHaveBeenCalledWith(
+        'user-1',
+        500,
+        expect.any(String),
+        expect.objectContaining({ sourceType: 'SEASON', sourceId: 'season-1', tx: mockPrisma })
+      );
+      expect(gamificationService.awardCoins).toHaveBeenCalledTimes(5);
+      expect(gamificationService.grantBadge).toHaveBeenCalledWith('user-1', 'badge-champion');
+      expect(gamificationService.grantBadge).toHaveBeenCalledTimes(1);
+      expect(notificationService.createNotification).toHaveBeenCalledTimes(5);
+    });
+
+    it('pays nothing when another run already finalized the season', async () => {
+      mockPrisma.season.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(seasonService.finalizeEndedSeasons()).resolves.toBe(0);
+
+      expect(mockPrisma.seasonStanding.createMany).not.toHaveBeenCalled();
+      expect(gamificationService.awardCoins).not.toHaveBeenCalled();
+    });
+
+    it('leaves the season unfinalized when a payout fails so the next run retries', async () => {
+      mockPrisma.season.updateMany.mockResolvedValue({ count: 1 });
+      (gamificationService.awardCoins as jest.Mock).mockRejectedValueOnce(new Error('boom'));
+
+      await expect(seasonService.finalizeEndedSeasons()).resolves.toBe(0);
+
+      expect(gamificationService.awardCoins).toHaveBeenCalledTimes(1);
+      expect(gamificationService.grantBadge).not.toHaveBeenCalled();
+      expect(notificationService.createNotification).not.toHaveBeenCalled();
+    });
+
+    it('keeps notifying the other ranks when one badge grant fails', async () => {
+      mockPrisma.season.updateMany.mockResolvedValue({ count: 1 });
+      (gamificationService.grantBadge as jest.Mock).mockRejectedValueOnce(new Error('boom'));
+
+      await expect(seasonService.finalizeEndedSeasons()).resolves.toBe(1);
+
+      expect(gamificationService.awardCoins).toHaveBeenCalledTimes(5);
+      expect(notificationService.createNotification).toHaveBeenCalledTimes(4);
+    });
+  });
+});
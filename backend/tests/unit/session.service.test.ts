@@ -0,0 +1,142 @@
+/**
+ * Session Service Unit Tests
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '../../src/config/database';
+import { sessionService } from '../../src/services/session.service';
+
+const mockPrisma = prisma as any;
+const HOUR = 60 * 60 * 1000;
+
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const tokenRecord = (overrides: Record<string, unknown> = {}, sessionOverrides = {}) => ({
+  tokenId: 'token-1',
+  tokenHash: hash('refresh-1'),
+  rotatedAt: null,
+  expiresAt: new Date(Date.now() + HOUR),
+  session: {
+    sessionId: 'session-1',
+    userId: 'user-1',
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + HOUR),
+    ipAddress: '10.0.0.1',
+    userAgent: 'Firefox',
+    user: { userId: 'user-1', email: 'user@example.com', role: 'USER', status: 'ACTIVE' },
+    ...sessionOverrides,
+  },
+  ...overrides,
+});
+
+describe('SessionService', () => {
+  describe('rotateRefreshToken', () => {
+    it('retires the presented token and issues a new pair for the same session', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(tokenRecord());
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+      const tokens = await sessionService.rotateRefreshToken('refresh-1');
+
+      expect(mockPrisma.refreshToken.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash: hash('refresh-1') } })
+      );
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { tokenId: 'token-1', rotatedAt: null },
+        data: { rotatedAt: expect.any(Date) },
+      });
+      expect(tokens.sessionId).toBe('session-1');
+      expect(tokens.refreshToken).not.toBe('refresh-1');
+
+      const { data } = mockPrisma.userSession.update.mock.calls[0][0];
+      expect(data.refreshTokens.create.tokenHash).toBe(hash(tokens.refreshToken));
+      expect(jwt.verify(tokens.accessToken, process.env.JWT_SECRET!)).toEqual(
+        expect.objectContaining({ userId: 'user-1', sessionId: 'session-1' })
+      );
+    });
+
+    it('revokes the whole session when a rotated token is presented again', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(
+        tokenRecord({ rotatedAt: new Date(Date.now() - HOUR) })
+      );
+      mockPrisma.userSession.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(sessionService.rotateRefreshToken('refresh-1')).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Refresh token has already been used',
+      });
+
+      expect(mockPrisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'TOKEN_REUSE' },
+      });
+      expect(mockPrisma.userSession.update).not.toHaveBeenCalled();
+    });
+
+    it('treats losing a concurrent rotation as reuse', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(tokenRecord());
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(sessionService.rotateRefreshToken('refresh-1')).rejects.toMatchObject({
+        statusCode: 401,
+      });
+
+      expect(mockPrisma.userSession.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ revokedReason: 'TOKEN_REUSE' }),
+        })
+      );
+      expect(mockPrisma.userSession.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects an expired refresh token', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(
+        tokenRecord({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(sessionService.rotateRefreshToken('refresh-1')).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Refresh token expired',
+      });
+      expect(mockPrisma.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token of an expired session', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(
+        tokenRecord({}, { expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(sessionService.rotateRefreshToken('refresh-1')).rejects.toMatchObject({
+        message: 'Refresh token expired',
+      });
+    });
+
+    it('rejects unknown tokens', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(null);
+
+      await expect(sessionService.rotateRefreshToken('unknown')).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Invalid refresh token',
+      });
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('rejects sessions that are revoked or belong to another user', async () => {
+      mockPrisma.userSession.findUnique.mockResolvedValue({
+        userId: 'user-1',
+        revokedAt: new Date(),
+        expiresAt: new Date(Date.now() + HOUR),
+      });
+      await expect(sessionService.isSessionActive('session-1', 'user-1')).resolves.toBe(false);
+
+      mockPrisma.userSession.findUnique.mockResolvedValue({
+        userId: 'user-1',
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + HOUR),
+      });
+      await expect(sessionService.isSessionActive('session-1', 'user-2')).resolves.toBe(false);
+      await expect(sessionService.isSessionActive('session-1', 'user-1')).resolves.toBe(true);
+    });
+  });
+});
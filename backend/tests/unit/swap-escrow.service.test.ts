@@ -0,0 +1,189 @@
+/**
+ * Swap Escrow Service Unit Tests
+ */
+
+import { swapEscrowService } from '../../src/services/swap-escrow.service';
+import { gamificationService } from '../../src/services/gamification.service';
+import { adminService } from '../../src/services/admin.service';
+
+jest.mock('../../src/services/gamification.service', () => ({
+  gamificationService: {
+    awardCoins: jest.fn().mockResolvedValue({}),
+    deductCoins: jest.fn().mockResolvedValue({}),
+  },
+}));
+
+jest.mock('../../src/services/admin.service', () => ({
+  adminService: {
+    getSettingValue: jest.fn(),
+  },
+}));
+
+const swap = {
+  swapId: 'swap-1',
+  initiatorId: 'initiator-1',
+  receiverId: 'receiver-1',
+  stakeAmount: 20,
+};
+
+const heldEscrows = [
+  { escrowId: 'escrow-1', swapId: 'swap-1', userId: 'initiator-1', amount: 20, status: 'HELD' },
+  { escrowId: 'escrow-2', swapId: 'swap-1', userId: 'receiver-1', amount: 20, status: 'HELD' },
+];
+
+const createTx = () => ({
+  swapEscrow: {
+    create: jest.fn().mockResolvedValue({}),
+    findMany: jest.fn().mockResolvedValue(heldEscrows),
+    update: jest.fn().mockResolvedValue({}),
+  },
+});
+
+const mockSettings = (overrides: Record<string, unknown> = {}) => {
+  (adminService.getSettingValue as jest.Mock).mockImplementation(
+    async (key: string, defaultValue: unknown) =>
+      key in overrides ? overrides[key] : defaultValue
+  );
+};
+
+describe('Swap Escrow Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSettings();
+  });
+
+  describe('lockStakes', () => {
+    it('should deduct the stake from both parties', async () => {
+      const tx = createTx();
+
+      await swapEscrowService.lockStakes(swap, tx as any);
+
+      expect(gamificationService.deductCoins).toHaveBeenCalledTimes(2);
+      expect(gamificationService.deductCoins).toHaveBeenCalledWith(
+        'receiver-1',
+        20,
+        'Swap stake locked',
+        expect.objectContaining({ sourceType: 'SWAP', sourceId: 'swap-1', tx })
+      );
+      expect(tx.swapEscrow.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip swaps without a stake', async () => {
+      const tx = createTx();
+
+      await swapEscrowService.lockStakes({ ...swap, stakeAmount: 0 }, tx as any);
+
+      expect(gamificationService.deductCoins).not.toHaveBeenCalled();
+      expect(tx.swapEscrow.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject when a party cannot cover the stake', async () => {
+      (gamificationService.deductCoins as jest.Mock).mockRejectedValueOnce(
+        new Error('Insufficient coins')
+      );
+
+      await expect(swapEscrowService.lockStakes(swap, createTx() as any)).rejects.toThrow(
+        'The other user does not have enough SkillCoins to cover the stake'
+      );
+    });
+  });
+
+  describe('releaseStakes', () => {
+    it('should return each stake plus the completion bonus', async () => {
+      mockSettings({ swap_escrow_completion_bonus: 15 });
+      const tx = createTx();
+
+      const bonus = await swapEscrowService.releaseStakes(swap, tx as any);
+
+      expect(bonus).toBe(15);
+      expect(gamificationService.awardCoins).toHaveBeenCalledWith(
+        'initiator-1',
+        20,
+        'Swap stake returned',
+        expect.any(Object)
+      );
+      expect(gamificationService.awardCoins).toHaveBeenCalledWith(
+        'receiver-1',
+        15,
+        'Staked swap completion bonus',
+        expect.any(Object)
+      );
+      expect(tx.swapEscrow.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: 'RELEASED' }),
+        })
+      );
+    });
+  });
+
+  describe('settleCancellation', () => {
+    it('should give the canceller stake to the counterparty by default', async () => {
+      const tx = createTx();
+
+      const policy = await swapEscrowService.settleCancellation(swap, 'initiator-1', tx as any);
+
+      expect(policy).toBe('FORFEIT_TO_COUNTERPARTY');
+      expect(gamificationService.awardCoins).toHaveBeenCalledWith(
+        'receiver-1',
+        20,
+        'Stake forfeited by cancelling party',
+        expect.objectContaining({ actorId: 'initiator-1' })
+      );
+      expect(gamificationService.awardCoins).toHaveBeenCalledWith(
+        'receiver-1',
+        20,
+        'Swap stake refunded',
+        expect.any(Object)
+      );
+      expect(gamificationService.awardCoins).not.toHaveBeenCalledWith(
+        'initiator-1',
+        expect.anything(),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should split the canceller stake under the SPLIT policy', async () => {
+      mockSettings({ swap_escrow_cancellation_policy: 'SPLIT' });
+
+      await swapEscrowService.settleCancellation(swap, 'receiver-1', createTx() as any);
+
+      expect(gamificationService.awardCoins).toHaveBeenCalledWith(
+        'receiver-1',
+        10,
+        'Swap stake refunded',
+        expect.any(Object)
+      );
+      expect(gamificationService.awardCoins).toHaveBeenCalledWith(
+        'initiator-1',
+        10,
+        'Stake forfeited by cancelling party',
+        expect.any(Object)
+      );
+    });
+
+    it('should refund both parties under the REFUND_BOTH policy', async () => {
+      mockSettings({ swap_escrow_cancellation_policy: 'REFUND_BOTH' });
+
+      await swapEscrowService.settleCancellation(swap, 'receiver-1', createTx() as any);
+
+      expect(gamificationService.awardCoins).toHaveBeenCalledTimes(2);
+      expect(gamificationService.awardCoins).not.toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        'Stake forfeited by cancelling party',
+        expect.anything()
+      );
+    });
+
+    it('should do nothing when no stake is held', async () => {
+      const tx = createTx();
+      tx.swapEscrow.findMany.mockResolvedValueOnce([]);
+
+      const policy = await swapEscrowService.settleCancellation(swap, 'receiver-1', tx as any);
+
+      expect(policy).toBeNull();
+      expect(gamificationService.awardCoins).not.toHaveBeenCalled();
+    });
+  });
+});
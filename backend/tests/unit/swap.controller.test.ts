@@ -0,0 +1,116 @@
+/**
+ * Swap Status Transition Tests
+ * Runs the swap routes against the mocked database to check that a swap
+ * only moves on from the status each request read
+ */
+
+import express from 'express';
+import request from 'supertest';
+import prisma from '../../src/config/database';
+import swapRouter from '../../src/controllers/swap.controller';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import { swapEscrowService } from '../../src/services/swap-escrow.service';
+
+jest.mock('../../src/middleware/auth', () => ({
+  authenticate: (req: any, _res: any, next: any) => {
+    req.user = { userId: 'user-1', email: 'user-1@example.com', role: 'USER' };
+    next();
+  },
+}));
+
+jest.mock('../../src/services/swap-escrow.service', () => ({
+  swapEscrowService: {
+    lockStakes: jest.fn(),
+    releaseStakes: jest.fn().mockResolvedValue(0),
+    settleCancellation: jest.fn().mockResolvedValue(null),
+  },
+}));
+
+jest.mock('../../src/services/activity.service', () => ({
+  activityService: { recordSwapCompleted: jest.fn() },
+}));
+
+jest.mock('../../src/services/leaderboard.service', () => ({
+  leaderboardService: { recordSwapCompleted: jest.fn() },
+}));
+
+jest.mock('../../src/services/gamification.service', () => ({
+  gamificationService: { awardBadgesForEvent: jest.fn() },
+}));
+
+const mockPrisma = prisma as any;
+
+const app = express();
+app.use(express.json());
+app.use('/swaps', swapRouter);
+app.use(errorHandler);
+
+const acceptedSwap = {
+  swapId: 'swap-1',
+  initiatorId: 'user-1',
+  receiverId: 'user-2',
+  status: 'ACCEPTED',
+  stakeAmount: 10,
+  sessions: [{ sessionId: 'session-1', duration: 60 }],
+};
+
+describe('Swap status transitions', () => {
+  beforeEach(() => {
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.swap.findUnique.mockResolvedValue(acceptedSwap);
+    mockPrisma.swap.findUniqueOrThrow.mockResolvedValue({ ...acceptedSwap, status: 'COMPLETED' });
+  });
+
+  it('completes an accepted swap once', async () => {
+    mockPrisma.swap.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    const response = await request(app).put('/swaps/swap-1/complete');
+
+    expect(response.status).toBe(200);
+    expect(mockPrisma.swap.updateMany).toHaveBeenCalledWith({
+      where: { swapId: 'swap-1', status: 'ACCEPTED' },
+      data: expect.objectContaining({ status: 'COMPLETED' }),
+    });
+    expect(mockPrisma.user.update).toHaveBeenCalledTimes(2);
+    expect(swapEscrowService.releaseStakes).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a second completion without crediting anyone again', async () => {
+    mockPrisma.swap.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    const response = await request(app).put('/swaps/swap-1/complete');
+
+    expect(response.status).toBe(409);
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    expect(swapEscrowService.releaseStakes).not.toHaveBeenCalled();
+  });
+
+  it('rejects a cancellation that lost the race to a completion', async () => {
+    mockPrisma.swap.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    const response = await request(app).put('/swaps/swap-1/cancel').send({ reason: 'Busy' });
+
+    expect(response.status).toBe(409);
+    expect(mockPrisma.swap.updateMany).toHaveBeenCalledWith({
+      where: { swapId: 'swap-1', status: 'ACCEPTED' },
+      data: expect.objectContaining({ status: 'CANCELLED' }),
+    });
+    expect(swapEscrowService.settleCancellation).not.toHaveBeenCalled();
+  });
+
+  it('rejects accepting a swap that is no longer pending', async () => {
+    mockPrisma.swap.findUnique.mockResolvedValue({
+      ...acceptedSwap,
+      status: 'PENDING',
+      receiverId: 'user-1',
+      initiatorId: 'user-2',
+      scheduledAt: null,
+    });
+    mockPrisma.swap.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    const response = await request(app).put('/swaps/swap-1/accept');
+
+    expect(response.status).toBe(409);
+    expect(swapEscrowService.lockStakes).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Upload Service Unit Tests
+ */
+
+import sharp from 'sharp';
+import prisma from '../../src/config/database';
+import { storage, LocalStorageDriver, S3StorageDriver } from '../../src/config/storage';
+import { uploadService } from '../../src/services/upload.service';
+import { subscriptionService } from '../../src/services/subscription.service';
+import { sniffMimeType } from '../../src/utils/mime-sniff';
+
+// Keep stored files out of the working tree
+jest.mock('../../src/config/storage', () => {
+  const actual = jest.requireActual('../../src/config/storage');
+  const { mkdtempSync } = jest.requireActual('fs');
+  const { tmpdir } = jest.requireActual('os');
+  const { join } = jest.requireActual('path');
+  return {
+    ...actual,
+    storage: new actual.LocalStorageDriver(mkdtempSync(join(tmpdir(), 'uploads-'))),
+  };
+});
+
+jest.mock('../../src/services/subscription.service', () => ({
+  ...jest.requireActual('../../src/services/subscription.service'),
+  subscriptionService: { getFeatureLimit: jest.fn() },
+}));
+
+const mockPrisma = prisma as any;
+const localStorage = storage as LocalStorageDriver;
+
+const UPLOAD_ID = '3f1c2d4e-5a6b-4c7d-8e9f-0a1b2c3d4e5f';
+const PNG = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(64),
+]);
+
+const upload = (overrides: Record<string, any> = {}) => ({
+  uploadId: UPLOAD_ID,
+  ownerId: 'user-1',
+  purpose: 'CHAT_ATTACHMENT',
+  driver: 'local',
+  storageKey: `chat-attachment/user-1/${UPLOAD_ID}.png`,
+  thumbnailKey: null,
+  mimeType: 'image/png',
+  originalName: 'photo.png',
+  size: PNG.length,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('sniffMimeType', () => {
+  it('detects types from content rather than the file name', () => {
+    expect(sniffMimeType(PNG, 'photo.jpg')).toEqual({ mimeType: 'image/png', extension: 'png' });
+    expect(sniffMimeType(Buffer.from('%PDF-1.7\n'), 'notes.png')?.mimeType).toBe('application/pdf');
+    expect(sniffMimeType(Buffer.from('hello\nworld'), 'page.html')?.mimeType).toBe('text/plain');
+  });
+
+  it('uses the extension only to tell zip-based documents apart', () => {
+    const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0, 0]);
+    expect(sniffMimeType(zip, 'report.docx')?.extension).toBe('docx');
+    expect(sniffMimeType(zip, 'archive.zip')?.mimeType).toBe('application/zip');
+  });
+
+  it('rejects binary content it does not recognise', () => {
+    expect(sniffMimeType(Buffer.from([0x00, 0x01, 0x02, 0x7f]), 'file.txt')).toBeNull();
+  });
+});
+
+describe('storage drivers', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('refuses to sign local file URLs without a secret', () => {
+    delete process.env.UPLOAD_SIGNING_SECRET;
+    delete process.env.JWT_SECRET;
+
+    expect(() => new LocalStorageDriver()).toThrow('UPLOAD_SIGNING_SECRET');
+  });
+
+  it('presigns S3 downloads for the configured bucket', async () => {
+    Object.assign(process.env, {
+      S3_ENDPOINT: 'http://localhost:9000',
+      S3_BUCKET: 'uploads',
+      S3_ACCESS_KEY_ID: 'minio',
+      S3_SECRET_ACCESS_KEY: 'minio-secret',
+      S3_FORCE_PATH_STYLE: 'true',
+    });
+
+    const url = new URL(
+      await new S3StorageDriver().getSignedUrl('avatar/user-1/photo.png', {
+        expiresInSeconds: 900,
+        baseUrl: 'http://api.test',
+      })
+    );
+
+    expect(url.origin + url.pathname).toBe('http://localhost:9000/uploads/avatar/user-1/photo.png');
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('900');
+    expect(url.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('UploadService', () => {
+  beforeEach(() => {
+    (subscriptionService.getFeatureLimit as jest.Mock).mockResolvedValue(5);
+    mockPrisma.upload.create.mockImplementation(({ data }: any) => Promise.resolve({ ...data }));
+  });
+
+  describe('createUpload', () => {
+    it('stores the file under its sniffed type', async () => {
+      const result = await uploadService.createUpload({
+        ownerId: 'user-1',
+        purpose: 'AVATAR',
+        buffer: PNG,
+        originalName: 'me.jpg',
+      });
+
+      expect(result.mimeType).toBe('image/png');
+      expect(result.storageKey).toMatch(/^avatar\/user-1\/[0-9a-f-]{36}\.png$/);
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of localStorage.createReadStream(result.storageKey)) {
+        chunks.push(chunk);
+      }
+      expect(Buffer.concat(chunks).equals(PNG)).toBe(true);
+    });
+
+    it('stores a thumbnail next to an image', async () => {
+      const image = await sharp({
+        create: { width: 600, height: 400, channels: 3, background: '#336699' },
+      })
+        .png()
+        .toBuffer();
+
+      const result = await uploadService.createUpload({
+        ownerId: 'user-1',
+        purpose: 'EVENT_IMAGE',
+        buffer: image,
+        originalName: 'banner.png',
+      });
+
+      expect(result.thumbnailKey).toBe(result.storageKey.replace(/\.png$/, '.thumb.webp'));
+      const chunks: Buffer[] = [];
+      for await (const chunk of localStorage.createReadStream(result.thumbnailKey!)) {
+        chunks.push(chunk);
+      }
+      const metadata = await sharp(Buffer.concat(chunks)).metadata();
+      expect([metadata.format, metadata.width, metadata.height]).toEqual(['webp', 256, 171]);
+    });
+
+    it('rejects content that is not allowed for the purpose', async () => {
+      await expect(
+        uploadService.createUpload({
+          ownerId: 'user-1',
+          purpose: 'AVATAR',
+          buffer: Buffer.from('%PDF-1.7\n'),
+          originalName: 'avatar.png',
+        })
+      ).rejects.toMatchObject({ statusCode: 415 });
+
+      expect(mockPrisma.upload.create).not.toHaveBeenCalled();
+    });
+
+    it('enforces the plan size limit', async () => {
+      (subscriptionService.getFeatureLimit as jest.Mock).mockResolvedValue(1);
+
+      await expect(
+        uploadService.createUpload({
+          ownerId: 'user-1',
+          purpose: 'CHAT_ATTACHMENT',
+          buffer: Buffer.concat([PNG, Buffer.alloc(2 * 1024 * 1024)]),
+          originalName: 'big.png',
+        })
+      ).rejects.toMatchObject({ statusCode: 413 });
+    });
+  });
+
+  describe('resolveReference', () => {
+    it('accepts an upload URL owned by the user', async () => {
+      mockPrisma.upload.findUnique.mockResolvedValue(upload());
+
+      const result = await uploadService.resolveReference(
+        `https://api.example.com/api/v1/uploads/${UPLOAD_ID}`,
+        'user-1',
+        'CHAT_ATTACHMENT'
+      );
+
+      expect(result.uploadId).toBe(UPLOAD_ID);
+    });
+
+    it('rejects external URLs without a lookup', async () => {
+      await expect(
+        uploadService.resolveReference('https://evil.example.com/x.png', 'user-1', 'AVATAR')
+      ).rejects.toMatchObject({ statusCode: 400 });
+
+      expect(mockPrisma.upload.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("rejects someone else's upload", async () => {
+      mockPrisma.upload.findUnique.mockResolvedValue(upload({ ownerId: 'user-2' }));
+
+      await expect(
+        uploadService.resolveReference(UPLOAD_ID, 'user-1', 'CHAT_ATTACHMENT')
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('getAccessibleUpload', () => {
+    it('lets the receiver of a message read the attachment', async () => {
+      mockPrisma.upload.findUnique.mockResolvedValue(upload());
+      mockPrisma.message.findFirst.mockResolvedValue({ messageId: 'message-1' });
+
+      await expect(uploadService.getAccessibleUpload(UPLOAD_ID, 'user-2')).resolves.toBeDefined();
+    });
+
+    it('hides chat attachments from other users', async () => {
+      mockPrisma.upload.findUnique.mockResolvedValue(upload());
+      mockPrisma.message.findFirst.mockResolvedValue(null);
+
+      await expect(uploadService.getAccessibleUpload(UPLOAD_ID, 'user-3')).rejects.toMatchObject({
+        statusCode: 403,
+      });
+    });
+  });
+
+  describe('local signed URLs', () => {
+    it('verify until they expire', async () => {
+      const url = new URL(
+        await localStorage.getSignedUrl('avatar/user-1/file.png', {
+          expiresInSeconds: 60,
+          baseUrl: 'http://localhost',
+        })
+      );
+      const expires = parseInt(url.searchParams.get('expires')!);
+      const signature = url.searchParams.get('signature')!;
+
+      expect(localStorage.verifySignature('avatar/user-1/file.png', expires, signature)).toBe(true);
+      expect(localStorage.verifySignature('avatar/user-2/file.png', expires, signature)).toBe(
+        false
+      );
+      expect(localStorage.verifySignature('avatar/user-1/file.png', expires - 120, signature)).toBe(
+        false
+      );
+    });
+  });
+});
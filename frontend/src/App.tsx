@@ -17,6 +17,7 @@ const MatchesPage = lazy(() => import('./pages/MatchesPage'));
 const SwapsPage = lazy(() => import('./pages/SwapsPage'));
 const SkillsPage = lazy(() => import('./pages/SkillsPage'));
 const ConnectionsPage = lazy(() => import('./pages/Connections'));
+const FeedPage = lazy(() => import('./pages/Feed'));
 const GamificationPage = lazy(() => import('./pages/GamificationDashboard'));
 const EventDetailsPage = lazy(() => import('./pages/EventDetails'));
 const PricingPage = lazy(() => import('./pages/Pricing'));
@@ -25,6 +26,7 @@ const NotificationPrefsPage = lazy(() => import('./pages/NotificationPreferences
 const AdminDashboardPage = lazy(() => import('./pages/AdminDashboard'));
 const AdminUsersPage = lazy(() => import('./pages/AdminUsers'));
 const AdminModerationPage = lazy(() => import('./pages/AdminModeration'));
+const AdminBadgesPage = lazy(() => import('./pages/AdminBadges'));
 const NotFoundPage = lazy(() => import('./pages/NotFoundPage'));
 
 function App() {
@@ -109,6 +111,16 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/feed"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <FeedPage />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/gamification"
             element={
@@ -200,6 +212,16 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/admin/badges"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <AdminBadgesPage />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
 
           {/* 404 Not Found - Catch all unmatched routes */}
           <Route path="*" element={<NotFoundPage />} />
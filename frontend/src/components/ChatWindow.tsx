@@ -1,25 +1,49 @@
 /**
  * ChatWindow Component
- * Real-time chat interface with typing indicators and read receipts
+ * Real-time chat interface with typing indicators, read receipts, edits and reactions.
+ * Works for 1:1 chats (otherUser) and group or event chats (group).
  */
 
 import { useState, useEffect, useRef } from 'react';
-import { Send, Image, Paperclip, MoreVertical, Check, CheckCheck } from 'lucide-react';
-import chatService, { Message } from '../services/chat.service';
+import {
+  Send,
+  Image,
+  Paperclip,
+  MoreVertical,
+  Check,
+  CheckCheck,
+  Pencil,
+  SmilePlus,
+  X,
+  Users,
+  Download,
+} from 'lucide-react';
+import chatService, {
+  Message,
+  MessageEdit,
+  GroupConversation,
+  ConversationExportFormat,
+  EDIT_WINDOW_MINUTES,
+  getDirectConversationId,
+} from '../services/chat.service';
+import GroupMembersPanel from './GroupMembersPanel';
 import { useSocket } from '../hooks/useSocket';
 import { useAuthStore } from '../stores/authStore';
 import toast from 'react-hot-toast';
 
 interface ChatWindowProps {
-  otherUser: {
+  otherUser?: {
     userId: string;
     name: string;
     avatar?: string;
   };
+  group?: GroupConversation;
   onClose?: () => void;
 }
 
-export default function ChatWindow({ otherUser, onClose }: ChatWindowProps) {
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+export default function ChatWindow({ otherUser, group: initialGroup, onClose }: ChatWindowProps) {
   const { user } = useAuthStore();
   const {
     isConnected,
@@ -31,7 +55,14 @@ export default function ChatWindow({ otherUser, onClose }: ChatWindowProps) {
     onNewMessage,
     onTyping,
     onMessagesRead,
+    onMessageRead,
+    onMessageDelivered,
+    onMessageEdited,
+    onMessageReaction,
+    onConversationUpdated,
+    onConversationRemoved,
     markDelivered,
+    markRead,
   } = useSocket();
 
   const [messages, setMessages] = useState<Message[]>([]);
@@ -39,34 +70,64 @@ export default function ChatWindow({ otherUser, onClose }: ChatWindowProps) {
   const [isSending, setIsSending] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isTyping, setIsTyping] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [editHistory, setEditHistory] = useState<{ messageId: string; edits: MessageEdit[] } | null>(null);
+  const [group, setGroup] = useState<GroupConversation | undefined>(initialGroup);
+  const [showMembers, setShowMembers] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
 
+  const groupId = initialGroup?.conversationId;
+  const otherUserId = otherUser?.userId;
+  const title = group?.name ?? otherUser?.name ?? '';
+
+  useEffect(() => {
+    setGroup(initialGroup);
+  }, [initialGroup]);
+
   // Load conversation messages
   useEffect(() => {
     loadMessages();
-    joinConversation(otherUser.userId);
+
+    if (!otherUserId) return;
+    joinConversation(otherUserId);
 
     return () => {
-      leaveConversation(otherUser.userId);
+      leaveConversation(otherUserId);
     };
-  }, [otherUser.userId]);
+  }, [otherUserId, groupId]);
 
   // Subscribe to real-time events
   useEffect(() => {
     const unsubscribeNew = onNewMessage((event) => {
+      if (groupId) {
+        if (event.message.conversationId === groupId) {
+          setMessages((prev) => [...prev, event.message]);
+          chatService.markGroupAsRead(groupId).catch(console.error);
+          scrollToBottom();
+        }
+        return;
+      }
+
       if (
-        event.message.senderId === otherUser.userId ||
-        event.message.receiverId === otherUser.userId
+        event.message.senderId === otherUserId ||
+        event.message.receiverId === otherUserId
       ) {
         setMessages((prev) => [...prev, event.message]);
-        markDelivered(event.message.messageId);
+        if (event.message.senderId === otherUserId) {
+          // The window is open, so the message is seen as soon as it arrives
+          markDelivered(event.message.messageId);
+          markRead(event.message.messageId);
+        }
         scrollToBottom();
       }
     });
 
     const unsubscribeTyping = onTyping((event) => {
-      if (event.userId === otherUser.userId) {
+      if (event.userId === otherUserId) {
         setIsTyping(event.isTyping);
         if (event.isTyping) {
           scrollToBottom();
@@ -75,39 +136,107 @@ export default function ChatWindow({ otherUser, onClose }: ChatWindowProps) {
     });
 
     const unsubscribeRead = onMessagesRead((event) => {
+      const readIds = new Set(event.messageIds);
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.senderId === user?.userId && !msg.isRead && readIds.has(msg.messageId)
+            ? { ...msg, isRead: true, readAt: event.readAt.toString() }
+            : msg
+        )
+      );
+    });
+
+    const unsubscribeMessageRead = onMessageRead((event) => {
       setMessages((prev) =>
         prev.map((msg) =>
-          msg.senderId === user?.userId && !msg.isRead
+          msg.messageId === event.messageId
             ? { ...msg, isRead: true, readAt: event.readAt.toString() }
             : msg
         )
       );
     });
 
+    const unsubscribeDelivered = onMessageDelivered((event) => {
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.messageId === event.messageId
+            ? { ...msg, isDelivered: true, deliveredAt: event.deliveredAt.toString() }
+            : msg
+        )
+      );
+    });
+
+    const unsubscribeEdited = onMessageEdited((event) => {
+      setMessages((prev) =>
+        prev.map((msg) => (msg.messageId === event.message.messageId ? event.message : msg))
+      );
+      setEditHistory((prev) => (prev?.messageId === event.message.messageId ? null : prev));
+    });
+
+    const unsubscribeReaction = onMessageReaction((event) => {
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.messageId === event.messageId ? { ...msg, reactions: event.reactions } : msg
+        )
+      );
+    });
+
+    const unsubscribeUpdated = onConversationUpdated((event) => {
+      if (event.conversationId === groupId) {
+        chatService.getGroup(groupId).then(setGroup).catch(console.error);
+      }
+    });
+
+    const unsubscribeRemoved = onConversationRemoved((event) => {
+      if (event.conversationId === groupId) {
+        toast.error(`You were removed from "${title}"`);
+        onClose?.();
+      }
+    });
+
     return () => {
       unsubscribeNew();
       unsubscribeTyping();
       unsubscribeRead();
+      unsubscribeMessageRead();
+      unsubscribeDelivered();
+      unsubscribeEdited();
+      unsubscribeReaction();
+      unsubscribeUpdated();
+      unsubscribeRemoved();
     };
-  }, [otherUser.userId, user?.userId]);
+  }, [otherUserId, groupId, user?.userId]);
 
   // Auto-scroll to bottom
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
-  // Mark messages as read when opened
+  // Mark messages as read when opened; later ones are marked as they arrive
   useEffect(() => {
-    if (messages.length > 0 && user) {
-      chatService.markConversationAsRead(otherUser.userId).catch(console.error);
+    if (isLoading || messages.length === 0 || !user) return;
+
+    if (groupId) {
+      chatService.markGroupAsRead(groupId).catch(console.error);
+    } else if (otherUserId) {
+      chatService.markConversationAsRead(otherUserId).catch(console.error);
     }
-  }, [otherUser.userId, messages.length]);
+  }, [otherUserId, groupId, isLoading]);
 
   const loadMessages = async () => {
     try {
       setIsLoading(true);
-      const data = await chatService.getConversationMessages(otherUser.userId);
+      if (groupId) {
+        const data = await chatService.getGroupMessages(groupId);
+        setMessages(data.messages);
+        return;
+      }
+      if (!otherUserId) return;
+
+      const data = await chatService.getConversationMessages(otherUserId);
       setMessages(data.messages);
+      // Pick up an indicator that started before the window opened
+      setIsTyping(data.presence?.isTyping ?? false);
     } catch (error) {
       console.error('Failed to load messages:', error);
       toast.error('Failed to load messages');
@@ -123,15 +252,16 @@ export default function ChatWindow({ otherUser, onClose }: ChatWindowProps) {
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInputText(e.target.value);
 
-    // Typing indicator
-    startTyping(otherUser.userId);
+    // Typing indicator (1:1 chats only)
+    if (!otherUserId) return;
+    startTyping(otherUserId);
 
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
     }
 
     typingTimeoutRef.current = setTimeout(() => {
-      stopTyping(otherUser.userId);
+      stopTyping(otherUserId);
     }, 1000);
   };
 
@@ -142,16 +272,25 @@ export default function ChatWindow({ otherUser, onClose }: ChatWindowProps) {
 
     const messageContent = inputText.trim();
     setInputText('');
-    stopTyping(otherUser.userId);
+    if (otherUserId) {
+      stopTyping(otherUserId);
+    }
 
     try {
       setIsSending(true);
 
-      await chatService.sendMessage({
-        receiverId: otherUser.userId,
+      const { data: sent } = await chatService.sendMessage({
+        ...(groupId ? { conversationId: groupId } : { receiverId: otherUserId }),
         content: messageContent,
         messageType: 'TEXT',
       });
+
+      // Group senders do not get message:new for their own messages
+      if (groupId) {
+        setMessages((prev) =>
+          prev.some((msg) => msg.messageId === sent.messageId) ? prev : [...prev, sent]
+        );
+      }
     } catch (error: any) {
       console.error('Send message error:', error);
       toast.error('Failed to send message');
@@ -161,6 +300,90 @@ export default function ChatWindow({ otherUser, onClose }: ChatWindowProps) {
     }
   };
 
+  const canEdit = (message: Message) =>
+    message.senderId === user?.userId &&
+    message.messageType === 'TEXT' &&
+    !message.isDeleted &&
+    Date.now() - new Date(message.createdAt).getTime() < EDIT_WINDOW_MINUTES * 60 * 1000;
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.messageId);
+    setEditText(message.content);
+    setReactionPickerFor(null);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditText('');
+  };
+
+  const handleSaveEdit = async (message: Message) => {
+    const content = editText.trim();
+    if (!content) return;
+
+    try {
+      const updated = await chatService.editMessage(message.messageId, content);
+      setMessages((prev) => prev.map((msg) => (msg.messageId === updated.messageId ? updated : msg)));
+      cancelEditing();
+    } catch (error: any) {
+      console.error('Edit message error:', error);
+      toast.error(error.response?.data?.error || 'Failed to edit message');
+    }
+  };
+
+  const toggleEditHistory = async (messageId: string) => {
+    if (editHistory?.messageId === messageId) {
+      setEditHistory(null);
+      return;
+    }
+
+    try {
+      const edits = await chatService.getMessageEdits(messageId);
+      setEditHistory({ messageId, edits });
+    } catch (error) {
+      console.error('Failed to load edit history:', error);
+      toast.error('Failed to load edit history');
+    }
+  };
+
+  const handleToggleReaction = async (message: Message, emoji: string) => {
+    setReactionPickerFor(null);
+    const existing = message.reactions.find((r) => r.emoji === emoji);
+    const hasReacted = !!user && !!existing?.userIds.includes(user.userId);
+
+    try {
+      const reactions = hasReacted
+        ? await chatService.removeReaction(message.messageId, emoji)
+        : await chatService.addReaction(message.messageId, emoji);
+      setMessages((prev) =>
+        prev.map((msg) => (msg.messageId === message.messageId ? { ...msg, reactions } : msg))
+      );
+    } catch (error: any) {
+      console.error('Reaction error:', error);
+      toast.error(error.response?.data?.error || 'Failed to update reaction');
+    }
+  };
+
+  const handleExport = async (format: ConversationExportFormat) => {
+    setShowExportMenu(false);
+    const conversationId =
+      groupId ?? (user && otherUserId ? getDirectConversationId(user.userId, otherUserId) : null);
+    if (!conversationId) return;
+
+    try {
+      const blob = await chatService.exportConversation(conversationId, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${title || 'conversation'}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('Failed to export conversation');
+    }
+  };
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString('en-US', {
@@ -189,6 +412,8 @@ export default function ChatWindow({ otherUser, onClose }: ChatWindowProps) {
 
   const renderMessage = (message: Message, index: number) => {
     const isSender = message.senderId === user?.userId;
+    const isEditing = editingMessageId === message.messageId;
+    const senderName = groupId ? message.sender?.name ?? 'Unknown' : otherUser?.name ?? '';
     const showDate =
       index === 0 ||
       formatDate(messages[index - 1].createdAt) !== formatDate(message.createdAt);
@@ -204,36 +429,188 @@ export default function ChatWindow({ otherUser, onClose }: ChatWindowProps) {
         )}
         <div className={`flex mb-4 ${isSender ? 'justify-end' : 'justify-start'}`}>
           {!isSender && (
-            <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-semibold mr-2 flex-shrink-0">
-              {otherUser.name.charAt(0).toUpperCase()}
+            <div
+              className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-semibold mr-2 flex-shrink-0"
+              title={senderName}
+            >
+              {senderName.charAt(0).toUpperCase()}
             </div>
           )}
           <div
-            className={`max-w-[70%] rounded-lg px-4 py-2 ${
-              isSender
-                ? 'bg-blue-600 text-white'
-                : 'bg-gray-100 text-gray-900'
+            className={`group relative max-w-[70%] flex flex-col ${
+              isSender ? 'items-end' : 'items-start'
             }`}
           >
-            <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
             <div
-              className={`flex items-center gap-1 mt-1 text-xs ${
-                isSender ? 'text-blue-100' : 'text-gray-500'
+              className={`rounded-lg px-4 py-2 ${
+                isSender
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-900'
               }`}
             >
-              <span>{formatTime(message.createdAt)}</span>
-              {isSender && (
-                <>
-                  {message.isRead ? (
-                    <CheckCheck className="w-3 h-3" />
-                  ) : message.isDelivered ? (
-                    <CheckCheck className="w-3 h-3 opacity-60" />
-                  ) : (
-                    <Check className="w-3 h-3 opacity-60" />
-                  )}
-                </>
+              {groupId && !isSender && (
+                <p className="text-xs font-semibold text-blue-700 mb-0.5">{senderName}</p>
               )}
+              {isEditing ? (
+                <div className="flex flex-col gap-2">
+                  <textarea
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        handleSaveEdit(message);
+                      } else if (e.key === 'Escape') {
+                        cancelEditing();
+                      }
+                    }}
+                    className="text-sm text-gray-900 rounded px-2 py-1 resize-none min-w-[12rem]"
+                    rows={2}
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2 text-xs">
+                    <button type="button" onClick={cancelEditing} className="hover:underline">
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleSaveEdit(message)}
+                      disabled={!editText.trim()}
+                      className="font-semibold hover:underline disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+              )}
+              <div
+                className={`flex items-center gap-1 mt-1 text-xs ${
+                  isSender ? 'text-blue-100' : 'text-gray-500'
+                }`}
+              >
+                <span>{formatTime(message.createdAt)}</span>
+                {message.editedAt && (
+                  <button
+                    type="button"
+                    onClick={() => toggleEditHistory(message.messageId)}
+                    className="italic hover:underline"
+                    title={`Edited ${formatTime(message.editedAt)}`}
+                  >
+                    (edited)
+                  </button>
+                )}
+                {isSender && !groupId && (
+                  <>
+                    {message.isRead ? (
+                      <span
+                        className="flex items-center gap-0.5"
+                        title={message.readAt ? `Read ${formatDate(message.readAt)} ${formatTime(message.readAt)}` : 'Read'}
+                      >
+                        <CheckCheck className="w-3 h-3" />
+                        {message.readAt && <span>Read {formatTime(message.readAt)}</span>}
+                      </span>
+                    ) : message.isDelivered ? (
+                      <span
+                        title={message.deliveredAt ? `Delivered ${formatTime(message.deliveredAt)}` : 'Delivered'}
+                      >
+                        <CheckCheck className="w-3 h-3 opacity-60" />
+                      </span>
+                    ) : (
+                      <span title="Sent">
+                        <Check className="w-3 h-3 opacity-60" />
+                      </span>
+                    )}
+                  </>
+                )}
+              </div>
             </div>
+
+            {/* Edit history */}
+            {editHistory?.messageId === message.messageId && (
+              <div className="mt-1 w-full bg-white border rounded-lg p-2 text-xs text-gray-600 shadow-sm">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-semibold">Edit history</span>
+                  <button type="button" onClick={() => setEditHistory(null)}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+                {editHistory.edits.map((edit) => (
+                  <div key={edit.editId} className="py-1 border-t first:border-t-0">
+                    <span className="text-gray-400 mr-2">{formatTime(edit.editedAt)}</span>
+                    <span className="whitespace-pre-wrap break-words">{edit.previousContent}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Reactions */}
+            {message.reactions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {message.reactions.map((reaction) => {
+                  const mine = !!user && reaction.userIds.includes(user.userId);
+                  return (
+                    <button
+                      key={reaction.emoji}
+                      type="button"
+                      onClick={() => handleToggleReaction(message, reaction.emoji)}
+                      className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                        mine
+                          ? 'bg-blue-50 border-blue-300 text-blue-700'
+                          : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {reaction.emoji} {reaction.count}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Actions */}
+            {!isEditing && !message.isDeleted && (
+              <div
+                className={`absolute top-0 ${
+                  isSender ? 'right-full mr-1' : 'left-full ml-1'
+                } hidden group-hover:flex items-center gap-1`}
+              >
+                <button
+                  type="button"
+                  onClick={() =>
+                    setReactionPickerFor(reactionPickerFor === message.messageId ? null : message.messageId)
+                  }
+                  className="p-1 text-gray-400 hover:text-gray-600"
+                  title="React"
+                >
+                  <SmilePlus className="w-4 h-4" />
+                </button>
+                {canEdit(message) && (
+                  <button
+                    type="button"
+                    onClick={() => startEditing(message)}
+                    className="p-1 text-gray-400 hover:text-gray-600"
+                    title="Edit"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            )}
+            {reactionPickerFor === message.messageId && (
+              <div className="flex gap-1 mt-1 bg-white border rounded-full px-2 py-1 shadow-sm">
+                {QUICK_REACTIONS.map((emoji) => (
+                  <button
+                    key={emoji}
+                    type="button"
+                    onClick={() => handleToggleReaction(message, emoji)}
+                    className="text-lg hover:scale-125 transition-transform"
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -247,27 +624,73 @@ export default function ChatWindow({ otherUser, onClose }: ChatWindowProps) {
         <div className="flex items-center gap-3">
           <div className="relative">
             <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-semibold">
-              {otherUser.name.charAt(0).toUpperCase()}
+              {group ? <Users className="w-5 h-5" /> : title.charAt(0).toUpperCase()}
             </div>
-            {isConnected && isUserOnline(otherUser.userId) && (
+            {otherUserId && isConnected && isUserOnline(otherUserId) && (
               <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-white"></div>
             )}
           </div>
           <div>
-            <h3 className="font-semibold text-gray-900">{otherUser.name}</h3>
+            <h3 className="font-semibold text-gray-900">{title}</h3>
             <p className="text-xs text-gray-500">
-              {isConnected && isUserOnline(otherUser.userId) ? 'Online' : 'Offline'}
+              {group ? (
+                <button type="button" onClick={() => setShowMembers(!showMembers)} className="hover:underline">
+                  {group.participants.length} members
+                </button>
+              ) : otherUserId && isConnected && isUserOnline(otherUserId) ? (
+                'Online'
+              ) : (
+                'Offline'
+              )}
             </p>
           </div>
         </div>
-        <button
-          onClick={onClose}
-          className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
-        >
-          <MoreVertical className="w-5 h-5" />
-        </button>
+        <div className="flex items-center">
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+              title="Export conversation"
+            >
+              <Download className="w-5 h-5" />
+            </button>
+            {showExportMenu && (
+              <div className="absolute right-0 mt-1 w-44 bg-white border rounded-lg shadow-lg z-20 text-sm">
+                <button
+                  type="button"
+                  onClick={() => handleExport('html')}
+                  className="block w-full text-left px-3 py-2 hover:bg-gray-50"
+                >
+                  Printable page (HTML)
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleExport('json')}
+                  className="block w-full text-left px-3 py-2 hover:bg-gray-50"
+                >
+                  Data file (JSON)
+                </button>
+              </div>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <MoreVertical className="w-5 h-5" />
+          </button>
+        </div>
       </div>
 
+      {group && showMembers && (
+        <GroupMembersPanel
+          group={group}
+          onChanged={() => chatService.getGroup(group.conversationId).then(setGroup).catch(console.error)}
+          onLeft={() => onClose?.()}
+        />
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-2">
         {isLoading ? (
@@ -285,7 +708,7 @@ export default function ChatWindow({ otherUser, onClose }: ChatWindowProps) {
             {isTyping && (
               <div className="flex items-center gap-2 mb-4">
                 <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-semibold">
-                  {otherUser.name.charAt(0).toUpperCase()}
+                  {title.charAt(0).toUpperCase()}
                 </div>
                 <div className="bg-gray-100 rounded-lg px-4 py-2">
                   <div className="flex gap-1">
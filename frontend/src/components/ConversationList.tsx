@@ -1,14 +1,53 @@
 /**
  * ConversationList Component
- * Shows list of user's conversations with unread counts
+ * Shows list of user's conversations with unread counts, group invites,
+ * group creation and message search. Conversations can be pinned, muted and
+ * archived.
  */
 
 import { useState, useEffect } from 'react';
-import { MessageCircle, Search, Circle } from 'lucide-react';
-import chatService, { Conversation } from '../services/chat.service';
+import {
+  MessageCircle,
+  Search,
+  Circle,
+  Users,
+  Plus,
+  Check,
+  X,
+  Pin,
+  PinOff,
+  Bell,
+  BellOff,
+  Archive,
+  ArchiveRestore,
+  ArrowLeft,
+} from 'lucide-react';
+import chatService, {
+  Conversation,
+  ConversationInvite,
+  ConversationPreferences,
+  MessageSearchResult,
+} from '../services/chat.service';
 import { useSocket } from '../hooks/useSocket';
 import toast from 'react-hot-toast';
 
+// Searching message text starts once the query is this long
+const MIN_MESSAGE_SEARCH_LENGTH = 2;
+
+/**
+ * Render a search snippet, highlighting the parts the server wrapped in <mark>
+ */
+const renderSnippet = (snippet: string) =>
+  snippet.split(/<mark>(.*?)<\/mark>/g).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-yellow-200 rounded px-0.5">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+
 interface ConversationListProps {
   onSelectConversation: (conversation: Conversation) => void;
   selectedConversationId?: string;
@@ -18,31 +57,75 @@ export default function ConversationList({
   onSelectConversation,
   selectedConversationId,
 }: ConversationListProps) {
-  const { isUserOnline, onNewMessage } = useSocket();
+  const {
+    isUserOnline,
+    onNewMessage,
+    onConversationUpdated,
+    onConversationRemoved,
+    onConversationInvite,
+  } = useSocket();
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [invites, setInvites] = useState<ConversationInvite[]>([]);
+  const [showNewGroup, setShowNewGroup] = useState(false);
+  const [newGroupName, setNewGroupName] = useState('');
   const [totalUnread, setTotalUnread] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
+  const [messageResults, setMessageResults] = useState<MessageSearchResult[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Load conversations on mount
+  // Load invites on mount
   useEffect(() => {
-    loadConversations();
+    loadInvites();
   }, []);
 
-  // Subscribe to new messages to update conversation list
+  // Load conversations whenever the archived view is toggled
+  useEffect(() => {
+    loadConversations();
+  }, [showArchived]);
+
+  // Subscribe to new messages and group changes to update conversation list
   useEffect(() => {
     const unsubscribe = onNewMessage((event) => {
       // Reload conversations when new message arrives
       loadConversations();
     });
+    const unsubscribeUpdated = onConversationUpdated(() => loadConversations());
+    const unsubscribeRemoved = onConversationRemoved(() => loadConversations());
+    const unsubscribeInvite = onConversationInvite(() => loadInvites());
 
-    return unsubscribe;
-  }, []);
+    return () => {
+      unsubscribe();
+      unsubscribeUpdated();
+      unsubscribeRemoved();
+      unsubscribeInvite();
+    };
+  }, [showArchived]);
+
+  // Search message text as the user types, once they pause
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < MIN_MESSAGE_SEARCH_LENGTH) {
+      setMessageResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const data = await chatService.searchMessages(query, { limit: 20 });
+        setMessageResults(data.messages);
+      } catch (error) {
+        console.error('Failed to search messages:', error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
   const loadConversations = async () => {
     try {
       setIsLoading(true);
-      const data = await chatService.getConversations();
+      const data = await chatService.getConversations(showArchived);
       setConversations(data.conversations);
       setTotalUnread(data.totalUnread);
     } catch (error) {
@@ -53,6 +136,62 @@ export default function ConversationList({
     }
   };
 
+  const loadInvites = async () => {
+    try {
+      setInvites(await chatService.getInvites());
+    } catch (error) {
+      console.error('Failed to load invites:', error);
+    }
+  };
+
+  const handleInvite = async (invite: ConversationInvite, accept: boolean) => {
+    try {
+      if (accept) {
+        await chatService.acceptInvite(invite.inviteId);
+        toast.success(`Joined "${invite.conversation.name}"`);
+        loadConversations();
+      } else {
+        await chatService.declineInvite(invite.inviteId);
+      }
+      setInvites((prev) => prev.filter((i) => i.inviteId !== invite.inviteId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to answer invite');
+    }
+  };
+
+  const handlePreferences = async (
+    e: React.MouseEvent,
+    conversation: Conversation,
+    preferences: ConversationPreferences
+  ) => {
+    e.stopPropagation();
+
+    try {
+      await chatService.updateConversationPreferences(conversation.conversationId, preferences);
+      loadConversations();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update conversation');
+    }
+  };
+
+  const handleCreateGroup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newGroupName.trim()) return;
+
+    try {
+      await chatService.createGroup({ name: newGroupName.trim() });
+      toast.success('Group created - invite people from its member list');
+      setNewGroupName('');
+      setShowNewGroup(false);
+      loadConversations();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create group');
+    }
+  };
+
+  const getDisplayName = (conversation: Conversation) =>
+    conversation.type === 'DIRECT' ? conversation.otherUser?.name ?? '' : conversation.name ?? '';
+
   const formatLastMessageTime = (dateString?: string) => {
     if (!dateString) return '';
 
@@ -85,25 +224,116 @@ export default function ConversationList({
   };
 
   const filteredConversations = conversations.filter((conv) =>
-    conv.otherUser?.name.toLowerCase().includes(searchQuery.toLowerCase())
+    getDisplayName(conv).toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const handleSelectResult = (result: MessageSearchResult) => {
+    const conversation = conversations.find(
+      (conv) => conv.conversationId === result.conversationId
+    );
+    if (conversation) {
+      onSelectConversation(conversation);
+    }
+  };
+
   return (
     <div className="flex flex-col h-full bg-white rounded-lg shadow">
       {/* Header */}
       <div className="p-4 border-b">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
-            <MessageCircle className="w-6 h-6" />
-            Messages
+            {showArchived ? (
+              <button
+                type="button"
+                onClick={() => setShowArchived(false)}
+                className="text-gray-500 hover:text-blue-600"
+                title="Back to messages"
+              >
+                <ArrowLeft className="w-6 h-6" />
+              </button>
+            ) : (
+              <MessageCircle className="w-6 h-6" />
+            )}
+            {showArchived ? 'Archived' : 'Messages'}
           </h2>
-          {totalUnread > 0 && (
-            <span className="bg-red-500 text-white text-xs font-semibold px-2 py-1 rounded-full">
-              {totalUnread > 99 ? '99+' : totalUnread}
-            </span>
-          )}
+          <div className="flex items-center gap-2">
+            {totalUnread > 0 && (
+              <span className="bg-red-500 text-white text-xs font-semibold px-2 py-1 rounded-full">
+                {totalUnread > 99 ? '99+' : totalUnread}
+              </span>
+            )}
+            {!showArchived && (
+              <button
+                type="button"
+                onClick={() => setShowArchived(true)}
+                className="p-1 text-gray-500 hover:text-blue-600"
+                title="Archived conversations"
+              >
+                <Archive className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setShowNewGroup(!showNewGroup)}
+              className="p-1 text-gray-500 hover:text-blue-600"
+              title="New group"
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
+        {showNewGroup && (
+          <form onSubmit={handleCreateGroup} className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={newGroupName}
+              onChange={(e) => setNewGroupName(e.target.value)}
+              placeholder="Group name"
+              maxLength={100}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              autoFocus
+            />
+            <button
+              type="submit"
+              disabled={!newGroupName.trim()}
+              className="px-3 py-2 bg-blue-600 text-white text-sm rounded-lg disabled:opacity-50"
+            >
+              Create
+            </button>
+          </form>
+        )}
+
+        {/* Invites */}
+        {invites.map((invite) => (
+          <div
+            key={invite.inviteId}
+            className="flex items-center gap-2 mb-3 p-2 bg-blue-50 rounded-lg text-sm"
+          >
+            <Users className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <span className="flex-1 min-w-0 truncate">
+              <span className="font-medium">{invite.inviter.name}</span> invited you to{' '}
+              <span className="font-medium">{invite.conversation.name}</span>
+            </span>
+            <button
+              type="button"
+              onClick={() => handleInvite(invite, true)}
+              className="p-1 text-green-600 hover:bg-green-100 rounded"
+              title="Join"
+            >
+              <Check className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => handleInvite(invite, false)}
+              className="p-1 text-gray-500 hover:bg-gray-200 rounded"
+              title="Decline"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
         {/* Search */}
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
@@ -111,7 +341,7 @@ export default function ConversationList({
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search conversations..."
+            placeholder="Search conversations and messages..."
             className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           />
         </div>
@@ -123,11 +353,15 @@ export default function ConversationList({
           <div className="flex items-center justify-center h-full">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
           </div>
-        ) : filteredConversations.length === 0 ? (
+        ) : filteredConversations.length === 0 && messageResults.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-gray-500 p-8">
             <MessageCircle className="w-16 h-16 mb-4 text-gray-300" />
             <p className="text-lg font-medium">
-              {searchQuery ? 'No conversations found' : 'No messages yet'}
+              {searchQuery
+                ? 'No conversations found'
+                : showArchived
+                  ? 'No archived conversations'
+                  : 'No messages yet'}
             </p>
             <p className="text-sm mt-1">
               {searchQuery
@@ -141,7 +375,7 @@ export default function ConversationList({
               <div
                 key={conversation.conversationId}
                 onClick={() => onSelectConversation(conversation)}
-                className={`p-4 hover:bg-gray-50 cursor-pointer transition-colors ${
+                className={`group p-4 hover:bg-gray-50 cursor-pointer transition-colors ${
                   selectedConversationId === conversation.conversationId
                     ? 'bg-blue-50 border-l-4 border-blue-600'
                     : ''
@@ -151,7 +385,11 @@ export default function ConversationList({
                   {/* Avatar with online status */}
                   <div className="relative flex-shrink-0">
                     <div className="w-12 h-12 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-semibold text-lg">
-                      {conversation.otherUser?.name.charAt(0).toUpperCase()}
+                      {conversation.type === 'DIRECT' ? (
+                        getDisplayName(conversation).charAt(0).toUpperCase()
+                      ) : (
+                        <Users className="w-6 h-6" />
+                      )}
                     </div>
                     {isUserOnline(conversation.otherUser?.userId || '') && (
                       <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-white"></div>
@@ -168,7 +406,18 @@ export default function ConversationList({
                             : 'text-gray-700'
                         }`}
                       >
-                        {conversation.otherUser?.name}
+                        {getDisplayName(conversation)}
+                        {conversation.participantCount !== undefined && (
+                          <span className="ml-1 text-xs font-normal text-gray-500">
+                            ({conversation.participantCount})
+                          </span>
+                        )}
+                        {conversation.isPinned && (
+                          <Pin className="inline w-3 h-3 ml-1 text-gray-400" />
+                        )}
+                        {conversation.isMuted && (
+                          <BellOff className="inline w-3 h-3 ml-1 text-gray-400" />
+                        )}
                       </h3>
                       <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
                         {formatLastMessageTime(
@@ -190,7 +439,11 @@ export default function ConversationList({
                           : 'No messages yet'}
                       </p>
                       {conversation.unreadCount > 0 && (
-                        <span className="bg-blue-600 text-white text-xs font-semibold px-2 py-0.5 rounded-full ml-2 flex-shrink-0">
+                        <span
+                          className={`${
+                            conversation.isMuted ? 'bg-gray-400' : 'bg-blue-600'
+                          } text-white text-xs font-semibold px-2 py-0.5 rounded-full ml-2 flex-shrink-0`}
+                        >
                           {conversation.unreadCount > 9
                             ? '9+'
                             : conversation.unreadCount}
@@ -198,6 +451,46 @@ export default function ConversationList({
                       )}
                     </div>
 
+                    {/* Pin, mute and archive */}
+                    <div className="hidden group-hover:flex items-center gap-1 mt-1">
+                      {!conversation.isArchived && (
+                        <button
+                          type="button"
+                          onClick={(e) =>
+                            handlePreferences(e, conversation, { pinned: !conversation.isPinned })
+                          }
+                          className="p-1 text-gray-400 hover:text-blue-600"
+                          title={conversation.isPinned ? 'Unpin' : 'Pin'}
+                        >
+                          {conversation.isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={(e) =>
+                          handlePreferences(e, conversation, { muted: !conversation.isMuted })
+                        }
+                        className="p-1 text-gray-400 hover:text-blue-600"
+                        title={conversation.isMuted ? 'Unmute' : 'Mute'}
+                      >
+                        {conversation.isMuted ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) =>
+                          handlePreferences(e, conversation, { archived: !conversation.isArchived })
+                        }
+                        className="p-1 text-gray-400 hover:text-blue-600"
+                        title={conversation.isArchived ? 'Unarchive' : 'Archive'}
+                      >
+                        {conversation.isArchived ? (
+                          <ArchiveRestore className="w-4 h-4" />
+                        ) : (
+                          <Archive className="w-4 h-4" />
+                        )}
+                      </button>
+                    </div>
+
                     {/* Online status text */}
                     {isUserOnline(conversation.otherUser?.userId || '') && (
                       <div className="flex items-center gap-1 mt-1">
@@ -209,6 +502,39 @@ export default function ConversationList({
                 </div>
               </div>
             ))}
+
+            {/* Message search results */}
+            {messageResults.length > 0 && (
+              <div>
+                <h4 className="px-4 pt-4 pb-2 text-xs font-semibold text-gray-500 uppercase">
+                  Messages
+                </h4>
+                {messageResults.map((result) => (
+                  <div
+                    key={result.messageId}
+                    onClick={() => handleSelectResult(result)}
+                    className="px-4 py-3 hover:bg-gray-50 cursor-pointer"
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm font-semibold text-gray-900 truncate">
+                        {result.conversation.type === 'DIRECT'
+                          ? result.conversation.otherUser?.name
+                          : result.conversation.name}
+                      </span>
+                      <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                        {formatLastMessageTime(result.createdAt)}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 line-clamp-2">
+                      {result.conversation.type !== 'DIRECT' && result.sender && (
+                        <span className="font-medium">{result.sender.name}: </span>
+                      )}
+                      {renderSnippet(result.snippet)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
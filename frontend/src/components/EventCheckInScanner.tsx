@@ -0,0 +1,190 @@
+/**
+ * EventCheckInScanner Component
+ * Organizer view for checking attendees in by scanning or typing their code
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { Camera, CameraOff, Check, Loader2, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { checkInAttendee, getEventCheckIns, CheckInSheet } from '../services/event.service';
+
+interface EventCheckInScannerProps {
+  eventId: string;
+}
+
+const SCAN_INTERVAL_MS = 500;
+// Ignore the same code while it stays in front of the camera
+const RESCAN_COOLDOWN_MS = 3000;
+
+export default function EventCheckInScanner({ eventId }: EventCheckInScannerProps) {
+  const [sheet, setSheet] = useState<CheckInSheet | null>(null);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+
+  // BarcodeDetector is not available in every browser; manual entry always works
+  const canScan = typeof window !== 'undefined' && 'BarcodeDetector' in window;
+
+  useEffect(() => {
+    loadSheet();
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!isScanning) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const detector = new (window as any).BarcodeDetector({ formats: ['qr_code'] });
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+        });
+        if (!videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        timer = setInterval(async () => {
+          if (!videoRef.current) return;
+          const [barcode] = await detector.detect(videoRef.current);
+          const last = lastScanRef.current;
+          if (
+            barcode?.rawValue &&
+            !(last && last.code === barcode.rawValue && Date.now() - last.at < RESCAN_COOLDOWN_MS)
+          ) {
+            lastScanRef.current = { code: barcode.rawValue, at: Date.now() };
+            submitCode(barcode.rawValue);
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error('Failed to start camera:', error);
+        toast.error('Could not access the camera');
+        setIsScanning(false);
+      }
+    };
+
+    start();
+
+    return () => {
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [isScanning]);
+
+  const loadSheet = async () => {
+    try {
+      const data = await getEventCheckIns(eventId);
+      setSheet(data);
+    } catch (error) {
+      console.error('Failed to load check-ins:', error);
+    }
+  };
+
+  const submitCode = async (value: string) => {
+    try {
+      setIsSubmitting(true);
+      const result = await checkInAttendee(eventId, value.trim());
+      if (result.alreadyCheckedIn) {
+        toast(`${result.name} is already checked in`);
+      } else {
+        toast.success(`${result.name} checked in`);
+      }
+      setCode('');
+      await loadSheet();
+    } catch (error: any) {
+      console.error('Failed to check in:', error);
+      toast.error(error.response?.data?.message || 'Failed to check in attendee');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) submitCode(code);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900">Check-in</h2>
+        {sheet && (
+          <span className="text-sm text-gray-600">
+            {sheet.summary.attended} / {sheet.summary.registered} checked in
+            {sheet.summary.noShow > 0 && ` · ${sheet.summary.noShow} no-show`}
+          </span>
+        )}
+      </div>
+
+      {canScan && (
+        <div className="mb-4">
+          {isScanning && (
+            <video ref={videoRef} className="w-full rounded-lg bg-black mb-3" muted playsInline />
+          )}
+          <button
+            onClick={() => setIsScanning(!isScanning)}
+            className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
+          >
+            {isScanning ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+            {isScanning ? 'Stop scanning' : 'Scan QR codes'}
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Enter check-in code"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting || !code.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+          Check in
+        </button>
+      </form>
+
+      {sheet && sheet.attendees.length > 0 && (
+        <div className="space-y-2">
+          {sheet.attendees.map((attendee) => (
+            <div
+              key={attendee.userId}
+              className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg"
+            >
+              {attendee.avatar ? (
+                <img src={attendee.avatar} alt={attendee.name} className="w-8 h-8 rounded-full" />
+              ) : (
+                <div className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center">
+                  <Users className="w-4 h-4 text-gray-600" />
+                </div>
+              )}
+              <p className="flex-1 font-medium text-gray-900">{attendee.name}</p>
+              {attendee.attendanceStatus === 'ATTENDED' ? (
+                <span className="text-xs text-green-700">
+                  {attendee.selfCheckIn ? 'Joined online' : 'Checked in'}
+                  {attendee.checkedInAt &&
+                    ` · ${new Date(attendee.checkedInAt).toLocaleTimeString([], {
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}`}
+                </span>
+              ) : attendee.attendanceStatus === 'NO_SHOW' ? (
+                <span className="text-xs text-red-600">No-show</span>
+              ) : (
+                <span className="text-xs text-gray-500">Not checked in</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -30,6 +30,7 @@ import {
   getEventTypeIcon,
 } from '../services/event.service';
 import skillsService from '../services/skills.service';
+import { uploadFile } from '../services/upload.service';
 
 interface EventFormProps {
   event?: Event;
@@ -63,6 +64,7 @@ export default function EventForm({ event, onSuccess, onCancel }: EventFormProps
 
   const [skills, setSkills] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isUploadingImage, setIsUploadingImage] = useState(false);
   const [isLoadingSkills, setIsLoadingSkills] = useState(true);
 
   // Load skills for dropdown
@@ -99,6 +101,23 @@ export default function EventForm({ event, onSuccess, onCancel }: EventFormProps
     }
   };
 
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setIsUploadingImage(true);
+      const upload = await uploadFile(file, 'EVENT_IMAGE');
+      setFormData((prev) => ({ ...prev, imageUrl: upload.url }));
+    } catch (error: any) {
+      console.error('Failed to upload image:', error);
+      toast.error(error.response?.data?.message || 'Failed to upload image');
+    } finally {
+      setIsUploadingImage(false);
+      e.target.value = '';
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -139,7 +158,9 @@ export default function EventForm({ event, onSuccess, onCancel }: EventFormProps
       const params: CreateEventParams = {
         title: formData.title,
         description: formData.description,
-        imageUrl: formData.imageUrl || undefined,
+        // Only send the image when it changed; it must be a fresh upload
+        imageUrl:
+          formData.imageUrl && formData.imageUrl !== event?.imageUrl ? formData.imageUrl : undefined,
         eventType: formData.eventType,
         startTime: new Date(formData.startTime),
         endTime: new Date(formData.endTime),
@@ -431,16 +452,16 @@ export default function EventForm({ event, onSuccess, onCancel }: EventFormProps
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             <ImageIcon className="w-4 h-4 inline mr-2" />
-            Event Image URL (Optional)
+            Event Image (Optional)
           </label>
           <input
-            type="url"
-            name="imageUrl"
-            value={formData.imageUrl}
-            onChange={handleChange}
+            type="file"
+            accept="image/jpeg,image/png,image/gif,image/webp"
+            onChange={handleImageChange}
+            disabled={isUploadingImage}
             className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            placeholder="https://example.com/image.jpg"
           />
+          {isUploadingImage && <p className="mt-1 text-sm text-gray-500">Uploading...</p>}
           {formData.imageUrl && (
             <img
               src={formData.imageUrl}
@@ -468,7 +489,7 @@ export default function EventForm({ event, onSuccess, onCancel }: EventFormProps
           <button
             type="submit"
             className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            disabled={isLoading}
+            disabled={isLoading || isUploadingImage}
           >
             <Save className="w-5 h-5" />
             {isLoading ? 'Saving...' : isEditing ? 'Update Event' : 'Create Event'}
@@ -0,0 +1,197 @@
+/**
+ * GroupMembersPanel Component
+ * Members of a group or event chat with invites, roles and leave/remove
+ */
+
+import { useState } from 'react';
+import { Crown, Shield, UserPlus, UserMinus, LogOut, Search } from 'lucide-react';
+import chatService, { GroupConversation, ConversationRole } from '../services/chat.service';
+import { searchUsers, ConnectionUser } from '../services/connection.service';
+import { useAuthStore } from '../stores/authStore';
+import toast from 'react-hot-toast';
+
+interface GroupMembersPanelProps {
+  group: GroupConversation;
+  onChanged: () => void;
+  onLeft: () => void;
+}
+
+const ROLE_LABELS: Record<ConversationRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  MEMBER: 'Member',
+};
+
+export default function GroupMembersPanel({ group, onChanged, onLeft }: GroupMembersPanelProps) {
+  const { user } = useAuthStore();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ConnectionUser[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const myRole = group.participants.find((p) => p.userId === user?.userId)?.role;
+  const isManager = myRole === 'OWNER' || myRole === 'ADMIN';
+  const isEventChat = group.type === 'EVENT';
+  const memberIds = new Set(group.participants.map((p) => p.userId));
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchQuery.trim()) return;
+
+    try {
+      setIsSearching(true);
+      const users = await searchUsers(searchQuery.trim(), { limit: 5 });
+      setSearchResults(users.filter((u) => !memberIds.has(u.userId)));
+    } catch (error) {
+      console.error('User search error:', error);
+      toast.error('Failed to search users');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleInvite = async (invitee: ConnectionUser) => {
+    try {
+      await chatService.inviteToGroup(group.conversationId, invitee.userId);
+      toast.success(`Invited ${invitee.name}`);
+      setSearchResults((prev) => prev.filter((u) => u.userId !== invitee.userId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send invite');
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: ConversationRole) => {
+    if (role === 'OWNER' && !confirm('Transfer ownership? You will become an admin.')) return;
+
+    try {
+      await chatService.updateParticipantRole(group.conversationId, userId, role);
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update role');
+    }
+  };
+
+  const handleRemove = async (userId: string, name: string) => {
+    if (!confirm(`Remove ${name} from the group?`)) return;
+
+    try {
+      await chatService.removeParticipant(group.conversationId, userId);
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to remove participant');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!confirm(`Leave "${group.name}"?`)) return;
+
+    try {
+      await chatService.leaveGroup(group.conversationId);
+      toast.success('You left the group');
+      onLeft();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to leave group');
+    }
+  };
+
+  const canRemove = (role: ConversationRole) =>
+    role !== 'OWNER' && (myRole === 'OWNER' || (myRole === 'ADMIN' && role === 'MEMBER'));
+
+  return (
+    <div className="border-b bg-gray-50 p-4 max-h-80 overflow-y-auto">
+      {group.description && <p className="text-sm text-gray-600 mb-3">{group.description}</p>}
+
+      <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">
+        Members ({group.participants.length})
+      </h4>
+      <div className="space-y-2">
+        {group.participants.map((participant) => (
+          <div key={participant.participantId} className="flex items-center gap-2">
+            <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-semibold text-sm">
+              {participant.user.name.charAt(0).toUpperCase()}
+            </div>
+            <span className="flex-1 text-sm text-gray-900 truncate">
+              {participant.user.name}
+              {participant.userId === user?.userId && ' (you)'}
+            </span>
+            <span className="flex items-center gap-1 text-xs text-gray-500">
+              {participant.role === 'OWNER' && <Crown className="w-3 h-3 text-yellow-500" />}
+              {participant.role === 'ADMIN' && <Shield className="w-3 h-3 text-blue-500" />}
+              {ROLE_LABELS[participant.role]}
+            </span>
+            {myRole === 'OWNER' && participant.userId !== user?.userId && (
+              <select
+                value={participant.role}
+                onChange={(e) => handleRoleChange(participant.userId, e.target.value as ConversationRole)}
+                className="text-xs border border-gray-300 rounded px-1 py-0.5"
+              >
+                <option value="MEMBER">Member</option>
+                <option value="ADMIN">Admin</option>
+                {!isEventChat && <option value="OWNER">Owner</option>}
+              </select>
+            )}
+            {participant.userId !== user?.userId && canRemove(participant.role) && (
+              <button
+                type="button"
+                onClick={() => handleRemove(participant.userId, participant.user.name)}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove"
+              >
+                <UserMinus className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Invite */}
+      {isManager && (
+        <div className="mt-4">
+          <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">Invite people</h4>
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder={isEventChat ? 'Search registered attendees...' : 'Search users...'}
+                className="w-full pl-8 pr-2 py-1.5 text-sm border border-gray-300 rounded-lg"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSearching || !searchQuery.trim()}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg disabled:opacity-50"
+            >
+              Search
+            </button>
+          </form>
+          {searchResults.map((result) => (
+            <div key={result.userId} className="flex items-center justify-between mt-2 text-sm">
+              <span className="text-gray-900">{result.name}</span>
+              <button
+                type="button"
+                onClick={() => handleInvite(result)}
+                className="flex items-center gap-1 text-blue-600 hover:underline"
+              >
+                <UserPlus className="w-4 h-4" />
+                Invite
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!(isEventChat && myRole === 'OWNER') && (
+        <button
+          type="button"
+          onClick={handleLeave}
+          className="mt-4 flex items-center gap-1 text-sm text-red-600 hover:underline"
+        >
+          <LogOut className="w-4 h-4" />
+          Leave {isEventChat ? 'event chat' : 'group'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -14,11 +14,19 @@ import {
   BookOpen,
   Clock,
 } from 'lucide-react';
-import gamificationService, { LeaderboardEntry, RankData } from '../services/gamification.service';
+import gamificationService, {
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  RankData,
+  Season,
+  WINDOWED_METRICS,
+} from '../services/gamification.service';
 import { useAuthStore } from '../stores/authStore';
 import toast from 'react-hot-toast';
 
-type MetricType = 'level' | 'coins' | 'rating' | 'swaps' | 'hoursTaught';
+type MetricType = LeaderboardMetric;
+type AreaType = 'global' | 'state' | 'city';
 
 interface LeaderboardProps {
   defaultMetric?: MetricType;
@@ -36,20 +44,46 @@ export default function Leaderboard({
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [userRank, setUserRank] = useState<RankData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [selectedPeriod, setSelectedPeriod] = useState<LeaderboardPeriod>('all');
+  const [selectedArea, setSelectedArea] = useState<AreaType>('global');
+  const [activeSeason, setActiveSeason] = useState<Season | null>(null);
+
+  // Weekly, monthly and season boards only rank activity metrics
+  const isWindowedMetric = WINDOWED_METRICS.includes(selectedMetric);
+  const period: LeaderboardPeriod = isWindowedMetric ? selectedPeriod : 'all';
+
+  useEffect(() => {
+    gamificationService
+      .getSeasons()
+      .then((seasons) => setActiveSeason(seasons.find((s) => s.status === 'ACTIVE') ?? null))
+      .catch(() => setActiveSeason(null));
+  }, []);
 
   useEffect(() => {
     loadLeaderboard();
-  }, [selectedMetric]);
+  }, [selectedMetric, period, selectedArea]);
 
   const loadLeaderboard = async () => {
     try {
       setIsLoading(true);
-      const data = await gamificationService.getLeaderboard(selectedMetric, limit);
+      const area =
+        selectedArea === 'global' || !user?.state
+          ? {}
+          : selectedArea === 'city' && user.city
+          ? { state: user.state, city: user.city }
+          : { state: user.state };
+      const data = await gamificationService.getLeaderboard(selectedMetric, limit, {
+        period,
+        ...area,
+      });
       setLeaderboard(data);
 
       // Load user's rank if logged in
       if (showUserRank && user) {
-        const rankData = await gamificationService.getUserRank(selectedMetric);
+        const rankData = await gamificationService.getUserRank(selectedMetric, undefined, {
+          period,
+          scope: selectedArea,
+        });
         setUserRank(rankData);
       }
     } catch (error) {
@@ -100,6 +134,21 @@ export default function Leaderboard({
 
   const selectedMetricData = metrics.find((m) => m.key === selectedMetric);
 
+  const periods: Array<{ key: LeaderboardPeriod; label: string }> = [
+    { key: 'all', label: 'All time' },
+    { key: 'week', label: 'This week' },
+    { key: 'month', label: 'This month' },
+    ...(activeSeason && WINDOWED_METRICS.includes(activeSeason.metric)
+      ? [{ key: 'season' as LeaderboardPeriod, label: activeSeason.name }]
+      : []),
+  ];
+
+  const areas: Array<{ key: AreaType; label: string; available: boolean }> = [
+    { key: 'global', label: 'Everywhere', available: true },
+    { key: 'state', label: user?.state || 'My state', available: !!user?.state },
+    { key: 'city', label: user?.city || 'My city', available: !!(user?.state && user?.city) },
+  ];
+
   const getRankBadge = (rank: number) => {
     if (rank === 1) return { icon: '🥇', color: 'text-yellow-500', label: '1st' };
     if (rank === 2) return { icon: '🥈', color: 'text-gray-400', label: '2nd' };
@@ -107,14 +156,21 @@ export default function Leaderboard({
     return { icon: `#${rank}`, color: 'text-gray-600', label: `${rank}th` };
   };
 
+  const formatScore = (score: number) =>
+    selectedMetric === 'swaps' ? `${score} swaps` : `${score}h taught`;
+
   const getMetricValue = (entry: LeaderboardEntry) => {
+    if (period !== 'all' && entry.score !== undefined) {
+      return formatScore(entry.score);
+    }
+
     switch (selectedMetric) {
       case 'level':
         return `Level ${entry.level}`;
       case 'coins':
         return gamificationService.formatCoins(entry.coins);
       case 'rating':
-        return `${entry.rating.toFixed(1)} ⭐`;
+        return `${entry.rating.toFixed(1)} ⭐ (${entry.ratingLow.toFixed(1)}–${entry.ratingHigh.toFixed(1)})`;
       case 'swaps':
         return `${entry.completedSwaps} swaps`;
       case 'hoursTaught':
@@ -162,6 +218,46 @@ export default function Leaderboard({
         </div>
       </div>
 
+      {/* Period and Area Filters */}
+      <div className="border-b px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          {periods.map((p) => (
+            <button
+              key={p.key}
+              onClick={() => setSelectedPeriod(p.key)}
+              disabled={p.key !== 'all' && !isWindowedMetric}
+              title={
+                p.key !== 'all' && !isWindowedMetric
+                  ? 'Only swaps and teaching hours are ranked per week, month or season'
+                  : undefined
+              }
+              className={`px-3 py-1 rounded-full text-sm font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                period === p.key
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        {user && (
+          <select
+            value={selectedArea}
+            onChange={(e) => setSelectedArea(e.target.value as AreaType)}
+            className="text-sm border border-gray-300 rounded-lg px-2 py-1"
+          >
+            {areas
+              .filter((a) => a.available)
+              .map((a) => (
+                <option key={a.key} value={a.key}>
+                  {a.label}
+                </option>
+              ))}
+          </select>
+        )}
+      </div>
+
       {/* User's Rank Card */}
       {showUserRank && userRank && user && (
         <div className="p-4 bg-gradient-to-r from-blue-50 to-purple-50 border-b">
@@ -173,18 +269,27 @@ export default function Leaderboard({
               <div>
                 <p className="text-sm text-gray-600">Your Rank</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {getRankBadge(userRank.rank).icon} {getRankBadge(userRank.rank).label}
+                  {userRank.rank === null
+                    ? 'Unranked'
+                    : `${getRankBadge(userRank.rank).icon} ${getRankBadge(userRank.rank).label}`}
                 </p>
               </div>
             </div>
             <div className="text-right">
               <p className="text-sm text-gray-600">{selectedMetricData?.label}</p>
               <p className="text-xl font-bold text-blue-600">
-                {selectedMetric === 'level' && `Level ${userRank.metricValue}`}
-                {selectedMetric === 'coins' && gamificationService.formatCoins(userRank.metricValue)}
-                {selectedMetric === 'rating' && `${userRank.metricValue.toFixed(1)} ⭐`}
-                {selectedMetric === 'swaps' && `${userRank.metricValue} swaps`}
-                {selectedMetric === 'hoursTaught' && `${userRank.metricValue}h`}
+                {period !== 'all' && formatScore(userRank.metricValue)}
+                {period === 'all' && selectedMetric === 'level' && `Level ${userRank.metricValue}`}
+                {period === 'all' &&
+                  selectedMetric === 'coins' &&
+                  gamificationService.formatCoins(userRank.metricValue)}
+                {period === 'all' &&
+                  selectedMetric === 'rating' &&
+                  `${userRank.metricValue.toFixed(1)} ⭐`}
+                {period === 'all' && selectedMetric === 'swaps' && `${userRank.metricValue} swaps`}
+                {period === 'all' &&
+                  selectedMetric === 'hoursTaught' &&
+                  `${userRank.metricValue}h`}
               </p>
             </div>
           </div>
@@ -0,0 +1,138 @@
+/**
+ * PrivacySettingsPanel Component
+ * Who can see the profile, how much location and which personal details
+ * it shows, and whether the user appears in search and matches
+ */
+
+import { useState, useEffect } from 'react';
+import { Lock } from 'lucide-react';
+import userService, { PrivacySettings } from '../services/user.service';
+import toast from 'react-hot-toast';
+
+const FIELD_OPTIONS = [
+  { value: 'EVERYONE', label: 'Everyone who can see my profile' },
+  { value: 'CONNECTIONS', label: 'Connections only' },
+  { value: 'NOBODY', label: 'Nobody' },
+];
+
+export default function PrivacySettingsPanel() {
+  const [settings, setSettings] = useState<PrivacySettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    userService
+      .getPrivacySettings()
+      .then((response) => setSettings(response.data))
+      .catch((error) => {
+        console.error('Failed to load privacy settings:', error);
+        toast.error('Failed to load privacy settings');
+      });
+  }, []);
+
+  const handleChange = async (updates: Partial<PrivacySettings>) => {
+    if (!settings) return;
+
+    const previous = settings;
+    setSettings({ ...settings, ...updates });
+    setIsSaving(true);
+
+    try {
+      const response = await userService.updatePrivacySettings(updates);
+      setSettings(response.data);
+      toast.success('Privacy settings updated');
+    } catch (error: any) {
+      setSettings(previous);
+      toast.error(error.response?.data?.message || 'Failed to update privacy settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!settings) return null;
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg p-6 mt-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+        <Lock className="w-5 h-5 text-gray-500" />
+        Privacy
+      </h2>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Who can see my profile</label>
+          <select
+            value={settings.profileVisibility}
+            onChange={(e) =>
+              handleChange({ profileVisibility: e.target.value as PrivacySettings['profileVisibility'] })
+            }
+            disabled={isSaving}
+            className="input w-full"
+          >
+            <option value="PUBLIC">Anyone, including people who are not signed in</option>
+            <option value="LOGGED_IN">Signed-in members</option>
+            <option value="CONNECTIONS">Connections only</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">How much of my location to show</label>
+          <select
+            value={settings.locationPrecision}
+            onChange={(e) =>
+              handleChange({ locationPrecision: e.target.value as PrivacySettings['locationPrecision'] })
+            }
+            disabled={isSaving}
+            className="input w-full"
+          >
+            <option value="EXACT">Exact (distances to the nearest 100 m)</option>
+            <option value="CITY">City and state</option>
+            <option value="STATE">State only</option>
+            <option value="HIDDEN">Hidden</option>
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(
+            [
+              { key: 'ageVisibility', label: 'My age' },
+              { key: 'phoneVisibility', label: 'My phone number' },
+              { key: 'reviewsVisibility', label: 'Reviews I received' },
+            ] as const
+          ).map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+              <select
+                value={settings[key]}
+                onChange={(e) => handleChange({ [key]: e.target.value })}
+                disabled={isSaving}
+                className="input w-full"
+              >
+                {FIELD_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <label className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            checked={settings.hideFromSearch}
+            onChange={(e) => handleChange({ hideFromSearch: e.target.checked })}
+            disabled={isSaving}
+            className="mt-1"
+          />
+          <span className="text-sm text-gray-700">
+            Hide me from search, matches and suggestions
+            <span className="block text-gray-500">
+              People you already know can still open your profile.
+            </span>
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+}
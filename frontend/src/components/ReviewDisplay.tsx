@@ -4,7 +4,7 @@
  */
 
 import { useState, useEffect } from 'react';
-import { Star, ThumbsUp, Calendar, Edit2, Trash2 } from 'lucide-react';
+import { Star, ThumbsUp, Calendar, Edit2, Trash2, MessageSquare, Flag } from 'lucide-react';
 import reviewsService, { Review, RatingStats } from '../services/reviews.service';
 import toast from 'react-hot-toast';
 import { useAuthStore } from '../stores/authStore';
@@ -26,6 +26,8 @@ export default function ReviewDisplay({
   const [commonTags, setCommonTags] = useState<Array<{ tag: string; count: number }>>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [filterRating, setFilterRating] = useState<number | undefined>(undefined);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
 
   useEffect(() => {
     fetchReviews();
@@ -74,6 +76,53 @@ export default function ReviewDisplay({
     }
   };
 
+  const startReply = (review: Review) => {
+    setReplyingTo(review.reviewId);
+    setReplyText(review.reply || '');
+  };
+
+  const handleReply = async (reviewId: string) => {
+    if (!replyText.trim()) return;
+
+    try {
+      await reviewsService.replyToReview(reviewId, replyText.trim());
+      toast.success('Reply posted');
+      setReplyingTo(null);
+      fetchReviews();
+    } catch (error: any) {
+      console.error('Reply error:', error);
+      toast.error(error.response?.data?.error || 'Failed to post reply');
+    }
+  };
+
+  const handleDeleteReply = async (reviewId: string) => {
+    if (!confirm('Remove your reply to this review?')) return;
+
+    try {
+      await reviewsService.deleteReviewReply(reviewId);
+      toast.success('Reply removed');
+      fetchReviews();
+    } catch (error: any) {
+      console.error('Delete reply error:', error);
+      toast.error(error.response?.data?.error || 'Failed to remove reply');
+    }
+  };
+
+  const handleDispute = async (reviewId: string) => {
+    const reason = prompt(
+      'Why is this review unfair? A moderator will look at it together with the swap sessions.'
+    );
+    if (!reason?.trim()) return;
+
+    try {
+      await reviewsService.disputeReview(reviewId, { reason: reason.trim() });
+      toast.success('Dispute submitted. You will be notified of the outcome.');
+    } catch (error: any) {
+      console.error('Dispute error:', error);
+      toast.error(error.response?.data?.error || 'Failed to submit dispute');
+    }
+  };
+
   const renderStars = (rating: number, size: 'sm' | 'md' | 'lg' = 'md') => {
     const sizeClasses = {
       sm: 'w-4 h-4',
@@ -133,6 +182,12 @@ export default function ReviewDisplay({
                   {renderStars(Math.round(stats.overall), 'lg')}
                   <p className="text-sm text-gray-600 mt-1">
                     Based on {stats.totalReviews} reviews
+                    {stats.confidence && (
+                      <span className="block text-xs">
+                        Likely between {stats.confidence.low.toFixed(1)} and{' '}
+                        {stats.confidence.high.toFixed(1)}
+                      </span>
+                    )}
                   </p>
                 </div>
               </div>
@@ -215,6 +270,26 @@ export default function ReviewDisplay({
                 )}
               </div>
 
+              {/* Per-skill Ratings */}
+              {stats.skills?.length > 0 && (
+                <div className="mt-6">
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                    Ratings by Skill
+                  </h4>
+                  <div className="space-y-1">
+                    {stats.skills.map((skill) => (
+                      <div key={skill.userSkillId} className="flex justify-between text-sm">
+                        <span className="text-gray-600">{skill.skillName}</span>
+                        <span className="font-semibold">
+                          {skill.rating.toFixed(1)}/5
+                          <span className="text-gray-500 font-normal"> ({skill.reviewCount})</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Common Tags */}
               {commonTags.length > 0 && (
                 <div className="mt-6">
@@ -303,6 +378,11 @@ export default function ReviewDisplay({
                       {review.isEdited && (
                         <span className="text-xs text-gray-500">(edited)</span>
                       )}
+                      {review.userSkill && (
+                        <span className="text-xs bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full">
+                          {review.userSkill.skill.name}
+                        </span>
+                      )}
                     </div>
 
                     {/* Comment */}
@@ -324,6 +404,41 @@ export default function ReviewDisplay({
                       </div>
                     )}
 
+                    {/* Reply from the reviewed user */}
+                    {review.reply && replyingTo !== review.reviewId && (
+                      <div className="mb-3 pl-3 border-l-2 border-blue-200">
+                        <p className="text-xs font-semibold text-gray-600 mb-1">Response</p>
+                        <p className="text-sm text-gray-700">{review.reply}</p>
+                      </div>
+                    )}
+
+                    {replyingTo === review.reviewId && (
+                      <div className="mb-3 space-y-2">
+                        <textarea
+                          value={replyText}
+                          onChange={(e) => setReplyText(e.target.value)}
+                          maxLength={1000}
+                          rows={3}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="Write a public reply..."
+                        />
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleReply(review.reviewId)}
+                            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                          >
+                            Post reply
+                          </button>
+                          <button
+                            onClick={() => setReplyingTo(null)}
+                            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
                     {/* Footer */}
                     <div className="flex items-center gap-4 text-sm text-gray-500">
                       <div className="flex items-center gap-1">
@@ -337,6 +452,32 @@ export default function ReviewDisplay({
                         <ThumbsUp className="w-4 h-4" />
                         Helpful ({review.helpfulCount})
                       </button>
+                      {user && review.teacherId === user.userId && (
+                        <>
+                          <button
+                            onClick={() => startReply(review)}
+                            className="flex items-center gap-1 hover:text-blue-600 transition-colors"
+                          >
+                            <MessageSquare className="w-4 h-4" />
+                            {review.reply ? 'Edit reply' : 'Reply'}
+                          </button>
+                          {review.reply && (
+                            <button
+                              onClick={() => handleDeleteReply(review.reviewId)}
+                              className="hover:text-red-600 transition-colors"
+                            >
+                              Remove reply
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDispute(review.reviewId)}
+                            className="flex items-center gap-1 hover:text-red-600 transition-colors"
+                          >
+                            <Flag className="w-4 h-4" />
+                            Dispute
+                          </button>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -89,7 +89,7 @@ export default function ReviewModal({
         toast.success('Review updated successfully!');
       } else {
         // Submit new review
-        await reviewsService.submitReview({
+        const result = await reviewsService.submitReview({
           swapId,
           teacherId,
           rating,
@@ -100,7 +100,11 @@ export default function ReviewModal({
           tags: selectedTags,
           isPublic,
         });
-        toast.success('Review submitted successfully!');
+        toast.success(
+          result.review?.isRevealed
+            ? 'Review submitted! Both reviews are now visible.'
+            : 'Review submitted! It stays hidden until they review you too.'
+        );
       }
 
       onReviewSubmitted?.();
@@ -199,6 +203,10 @@ export default function ReviewModal({
             <p className="text-sm text-gray-600 mt-1">
               Share your experience with {teacherName}
             </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Reviews stay hidden until you both review each other or 14 days pass, and can't be
+              edited once revealed.
+            </p>
           </div>
           <button
             onClick={onClose}
@@ -14,9 +14,11 @@ import {
   Shield,
   UserCog,
   Flag,
+  Award,
   ChevronLeft,
   ChevronRight,
   Menu,
+  Rss,
   X,
   Moon,
   Sun,
@@ -88,6 +90,7 @@ export default function Sidebar() {
         { name: 'Find Matches', path: '/matches', icon: Target },
         { name: 'My Swaps', path: '/swaps', icon: Repeat },
         { name: 'Connections', path: '/connections', icon: Users },
+        { name: 'Feed', path: '/feed', icon: Rss },
       ],
     },
     {
@@ -112,6 +115,7 @@ export default function Sidebar() {
         { name: 'Admin Dashboard', path: '/admin', icon: Shield },
         { name: 'Manage Users', path: '/admin/users', icon: UserCog },
         { name: 'Moderation', path: '/admin/moderation', icon: Flag },
+        { name: 'Badges', path: '/admin/badges', icon: Award },
       ],
     },
   ];
@@ -5,10 +5,24 @@
 
 import { useState, useEffect } from 'react';
 import { Coins, TrendingUp, TrendingDown, History, Wallet } from 'lucide-react';
-import gamificationService from '../services/gamification.service';
+import gamificationService, {
+  CoinTransaction,
+  CoinTransactionHistory,
+} from '../services/gamification.service';
 import { useAuthStore } from '../stores/authStore';
 import toast from 'react-hot-toast';
 
+const SOURCE_LABELS: Record<CoinTransaction['sourceType'], string> = {
+  SWAP: 'Skill swap',
+  BADGE: 'Badge reward',
+  EVENT: 'Event',
+  REVIEW: 'Review',
+  LEVEL: 'Level up',
+  ADMIN: 'Admin adjustment',
+  SEASON: 'Season reward',
+  SYSTEM: 'System',
+};
+
 interface SkillCoinsWalletProps {
   userId?: string;
   compact?: boolean; // Compact view for dashboard
@@ -20,7 +34,12 @@ export default function SkillCoinsWallet({
 }: SkillCoinsWalletProps) {
   const { user } = useAuthStore();
   const [coins, setCoins] = useState(0);
-  const [transactions, setTransactions] = useState<any[]>([]);
+  const [transactions, setTransactions] = useState<CoinTransaction[]>([]);
+  const [summary, setSummary] = useState<CoinTransactionHistory['summary']>({
+    earnedThisWeek: 0,
+    spentThisWeek: 0,
+  });
+  const [totalTransactions, setTotalTransactions] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const targetUserId = userId || user?.userId;
 
@@ -39,7 +58,9 @@ export default function SkillCoinsWallet({
       ]);
 
       setCoins(stats.coins);
-      setTransactions(transactionData);
+      setTransactions(transactionData.transactions);
+      setSummary(transactionData.summary);
+      setTotalTransactions(transactionData.pagination.total);
     } catch (error) {
       console.error('Failed to load wallet data:', error);
       toast.error('Failed to load wallet data');
@@ -111,21 +132,21 @@ export default function SkillCoinsWallet({
         <div className="text-center">
           <div className="flex items-center justify-center gap-1 text-green-600 mb-1">
             <TrendingUp className="w-4 h-4" />
-            <p className="text-2xl font-bold">0</p>
+            <p className="text-2xl font-bold">{summary.earnedThisWeek.toLocaleString()}</p>
           </div>
           <p className="text-xs text-gray-600">Earned This Week</p>
         </div>
         <div className="text-center">
           <div className="flex items-center justify-center gap-1 text-red-600 mb-1">
             <TrendingDown className="w-4 h-4" />
-            <p className="text-2xl font-bold">0</p>
+            <p className="text-2xl font-bold">{summary.spentThisWeek.toLocaleString()}</p>
           </div>
           <p className="text-xs text-gray-600">Spent This Week</p>
         </div>
         <div className="text-center">
           <div className="flex items-center justify-center gap-1 text-blue-600 mb-1">
             <History className="w-4 h-4" />
-            <p className="text-2xl font-bold">{transactions.length}</p>
+            <p className="text-2xl font-bold">{totalTransactions}</p>
           </div>
           <p className="text-xs text-gray-600">Total Transactions</p>
         </div>
@@ -194,40 +215,50 @@ export default function SkillCoinsWallet({
           </div>
         ) : (
           <div className="space-y-3">
-            {transactions.map((transaction, index) => (
-              <div
-                key={index}
-                className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-              >
-                <div className="flex items-center gap-3">
-                  <div
-                    className={`p-2 rounded-full ${
-                      transaction.type === 'earned'
-                        ? 'bg-green-100 text-green-600'
-                        : 'bg-red-100 text-red-600'
-                    }`}
-                  >
-                    {transaction.type === 'earned' ? (
-                      <TrendingUp className="w-5 h-5" />
-                    ) : (
-                      <TrendingDown className="w-5 h-5" />
-                    )}
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">{transaction.description}</p>
-                    <p className="text-xs text-gray-500">{transaction.date}</p>
-                  </div>
-                </div>
+            {transactions.map((transaction) => {
+              const isCredit = transaction.amount > 0;
+
+              return (
                 <div
-                  className={`font-bold text-lg ${
-                    transaction.type === 'earned' ? 'text-green-600' : 'text-red-600'
-                  }`}
+                  key={transaction.transactionId}
+                  className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
                 >
-                  {transaction.type === 'earned' ? '+' : '-'}
-                  {transaction.amount.toLocaleString()}
+                  <div className="flex items-center gap-3">
+                    <div
+                      className={`p-2 rounded-full ${
+                        isCredit ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'
+                      }`}
+                    >
+                      {isCredit ? (
+                        <TrendingUp className="w-5 h-5" />
+                      ) : (
+                        <TrendingDown className="w-5 h-5" />
+                      )}
+                    </div>
+                    <div>
+                      <p className="font-medium text-gray-900">{transaction.reason}</p>
+                      <p className="text-xs text-gray-500">
+                        {SOURCE_LABELS[transaction.sourceType]}
+                        {transaction.actor ? ` · by ${transaction.actor.name}` : ''}
+                        {' · '}
+                        {new Date(transaction.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div
+                      className={`font-bold text-lg ${isCredit ? 'text-green-600' : 'text-red-600'}`}
+                    >
+                      {isCredit ? '+' : '-'}
+                      {Math.abs(transaction.amount).toLocaleString()}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Balance {transaction.balanceAfter.toLocaleString()}
+                    </p>
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
@@ -6,7 +6,7 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useAuthStore } from '../stores/authStore';
-import { Message } from '../services/chat.service';
+import { Message, ReactionSummary } from '../services/chat.service';
 
 interface TypingEvent {
   userId: string;
@@ -28,22 +28,52 @@ interface MessagesReadEvent {
   readBy: string;
   readAt: Date;
   count: number;
+  messageIds: string[];
+}
+
+interface MessageReadEvent {
+  messageId: string;
+  conversationId: string;
+  readBy: string;
+  readAt: Date;
+}
+
+interface MessageDeliveredEvent {
+  messageId: string;
+  conversationId: string;
+  deliveredAt: Date;
+}
+
+interface ConversationEvent {
+  conversationId: string;
+}
+
+interface ConversationInviteEvent {
+  conversationId: string;
+  inviteId: string;
+}
+
+interface MessageReactionEvent {
+  messageId: string;
+  conversationId: string;
+  reactions: ReactionSummary[];
 }
 
 export function useSocket() {
-  const { user } = useAuthStore();
+  const { user, token } = useAuthStore();
   const socketRef = useRef<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [onlineUsers, setOnlineUsers] = useState<Set<string>>(new Set());
 
   // Initialize socket connection
   useEffect(() => {
-    if (!user) return;
+    if (!user || !token) return;
 
-    // Create socket connection
+    // Create socket connection - the server verifies the token during the
+    // handshake, and the callback re-reads it so reconnects use a fresh one
     const socket = io(import.meta.env.VITE_SOCKET_URL || 'http://localhost:5000', {
-      auth: {
-        token: localStorage.getItem('accessToken'),
+      auth: (cb) => {
+        cb({ token: useAuthStore.getState().token || localStorage.getItem('token') });
       },
       transports: ['websocket', 'polling'],
     });
@@ -54,9 +84,6 @@ export function useSocket() {
     socket.on('connect', () => {
       console.log('Socket connected:', socket.id);
       setIsConnected(true);
-
-      // Identify user to server
-      socket.emit('auth:identify', { userId: user.userId });
     });
 
     socket.on('auth:identified', (data: { userId: string }) => {
@@ -90,7 +117,7 @@ export function useSocket() {
     return () => {
       socket.disconnect();
     };
-  }, [user]);
+  }, [user, token]);
 
   // Join a conversation
   const joinConversation = useCallback((otherUserId: string) => {
@@ -127,6 +154,13 @@ export function useSocket() {
     }
   }, []);
 
+  // Mark message as read
+  const markRead = useCallback((messageId: string) => {
+    if (socketRef.current) {
+      socketRef.current.emit('message:read', { messageId });
+    }
+  }, []);
+
   // Subscribe to new messages
   const onNewMessage = useCallback((callback: (event: MessageEvent) => void) => {
     if (!socketRef.current) return () => {};
@@ -182,6 +216,83 @@ export function useSocket() {
     };
   }, []);
 
+  // Subscribe to delivery receipts for your messages
+  const onMessageDelivered = useCallback((callback: (event: MessageDeliveredEvent) => void) => {
+    if (!socketRef.current) return () => {};
+
+    socketRef.current.on('message:delivered', callback);
+
+    return () => {
+      socketRef.current?.off('message:delivered', callback);
+    };
+  }, []);
+
+  // Subscribe to read receipts for single messages
+  const onMessageRead = useCallback((callback: (event: MessageReadEvent) => void) => {
+    if (!socketRef.current) return () => {};
+
+    socketRef.current.on('message:read', callback);
+
+    return () => {
+      socketRef.current?.off('message:read', callback);
+    };
+  }, []);
+
+  // Subscribe to message edited events
+  const onMessageEdited = useCallback((callback: (event: MessageEvent) => void) => {
+    if (!socketRef.current) return () => {};
+
+    socketRef.current.on('message:edited', callback);
+
+    return () => {
+      socketRef.current?.off('message:edited', callback);
+    };
+  }, []);
+
+  // Subscribe to reaction changes
+  const onMessageReaction = useCallback((callback: (event: MessageReactionEvent) => void) => {
+    if (!socketRef.current) return () => {};
+
+    socketRef.current.on('message:reaction', callback);
+
+    return () => {
+      socketRef.current?.off('message:reaction', callback);
+    };
+  }, []);
+
+  // Subscribe to group detail and membership changes
+  const onConversationUpdated = useCallback((callback: (event: ConversationEvent) => void) => {
+    if (!socketRef.current) return () => {};
+
+    socketRef.current.on('conversation:updated', callback);
+
+    return () => {
+      socketRef.current?.off('conversation:updated', callback);
+    };
+  }, []);
+
+  // Subscribe to being removed from a group
+  const onConversationRemoved = useCallback((callback: (event: ConversationEvent) => void) => {
+    if (!socketRef.current) return () => {};
+
+    socketRef.current.on('conversation:removed', callback);
+
+    return () => {
+      socketRef.current?.off('conversation:removed', callback);
+    };
+  }, []);
+
+  // Subscribe to group invites
+  const onConversationInvite = useCallback((callback: (event: ConversationInviteEvent) => void) => {
+    if (!socketRef.current) return () => {};
+
+    socketRef.current.on('conversation:invite', callback);
+
+    return () => {
+      socketRef.current?.off('conversation:invite', callback);
+    };
+  }, []);
+
   // Check if user is online
   const isUserOnline = useCallback((userId: string) => {
     return onlineUsers.has(userId);
@@ -197,11 +308,19 @@ export function useSocket() {
     startTyping,
     stopTyping,
     markDelivered,
+    markRead,
     onNewMessage,
     onMessageSent,
     onTyping,
     onMessagesRead,
     onMessageDeleted,
+    onMessageDelivered,
+    onMessageRead,
+    onMessageEdited,
+    onMessageReaction,
+    onConversationUpdated,
+    onConversationRemoved,
+    onConversationInvite,
   };
 }
 
@@ -0,0 +1,300 @@
+/**
+ * Admin Badges Page
+ * Author badge rules, preview how many users a rule would award, and turn
+ * badges on or off. A badge created without a rule is only granted, e.g. as a
+ * season reward.
+ */
+
+import { useState, useEffect } from 'react';
+import { Award, Play, Plus, RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  getBadges,
+  createBadge,
+  updateBadge,
+  dryRunBadgeRule,
+  AdminBadge,
+  BadgeMetricInfo,
+  BadgeDryRunResult,
+  BadgeRule,
+} from '../services/admin.service';
+
+const EXAMPLE_RULE = {
+  combinator: 'AND',
+  conditions: [
+    { metric: 'SWAPS_COMPLETED', aggregation: 'count', windowDays: 30, operator: 'gte', value: 5 },
+    { metric: 'RATING', aggregation: 'value', operator: 'gte', value: 4 },
+  ],
+};
+
+export default function AdminBadges() {
+  const [badges, setBadges] = useState<AdminBadge[]>([]);
+  const [metrics, setMetrics] = useState<BadgeMetricInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Editor
+  const [editingBadgeId, setEditingBadgeId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [icon, setIcon] = useState('🏅');
+  const [ruleText, setRuleText] = useState(JSON.stringify(EXAMPLE_RULE, null, 2));
+  const [dryRun, setDryRun] = useState<BadgeDryRunResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadBadges();
+  }, []);
+
+  const loadBadges = async () => {
+    try {
+      setLoading(true);
+      const data = await getBadges();
+      setBadges(data.badges);
+      setMetrics(data.metrics);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load badges');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const parseRule = (): BadgeRule | null => {
+    try {
+      return JSON.parse(ruleText);
+    } catch {
+      toast.error('The rule is not valid JSON');
+      return null;
+    }
+  };
+
+  const handleDryRun = async () => {
+    const rule = parseRule();
+    if (!rule) return;
+
+    try {
+      setIsRunning(true);
+      setDryRun(await dryRunBadgeRule(rule));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to evaluate rule');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleEdit = (badge: AdminBadge) => {
+    setEditingBadgeId(badge.badgeId);
+    setName(badge.name);
+    setDescription(badge.description);
+    setIcon(badge.icon);
+    setRuleText(JSON.stringify(badge.rule ?? EXAMPLE_RULE, null, 2));
+    setDryRun(null);
+  };
+
+  const resetEditor = () => {
+    setEditingBadgeId(null);
+    setName('');
+    setDescription('');
+    setIcon('🏅');
+    setRuleText(JSON.stringify(EXAMPLE_RULE, null, 2));
+    setDryRun(null);
+  };
+
+  const handleSave = async () => {
+    const isGranted = !editingBadgeId && !ruleText.trim();
+    const rule = isGranted ? undefined : parseRule() ?? undefined;
+    if (!isGranted && !rule) return;
+
+    if (!name.trim() || !description.trim() || !icon.trim()) {
+      toast.error('Name, description and icon are required');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const data = { name: name.trim(), description: description.trim(), icon: icon.trim(), rule };
+      if (editingBadgeId) {
+        await updateBadge(editingBadgeId, data);
+        toast.success('Badge updated');
+      } else {
+        await createBadge(data);
+        toast.success('Badge created');
+      }
+      resetEditor();
+      loadBadges();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save badge');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (badge: AdminBadge) => {
+    try {
+      await updateBadge(badge.badgeId, { isActive: !badge.isActive });
+      setBadges((prev) =>
+        prev.map((b) => (b.badgeId === badge.badgeId ? { ...b, isActive: !b.isActive } : b))
+      );
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update badge');
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+          <Award className="w-8 h-8 text-blue-600" />
+          Badges
+        </h1>
+        <button
+          onClick={loadBadges}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Badge list */}
+        <div className="bg-white rounded-lg shadow-md divide-y">
+          {badges.length === 0 ? (
+            <p className="p-6 text-gray-500 text-center">No badges yet</p>
+          ) : (
+            badges.map((badge) => (
+              <div key={badge.badgeId} className="p-4 flex items-start gap-3">
+                <span className="text-2xl">{badge.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-gray-900">{badge.name}</h3>
+                    {!badge.isActive && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                        Inactive
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600">{badge.description}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Earned by {badge.earnedCount} {badge.earnedCount === 1 ? 'user' : 'users'}
+                    {badge.triggers.length > 0 && ` · checked on ${badge.triggers.join(', ')}`}
+                    {!badge.rule && ` · legacy criteria ${badge.criteria} ≥ ${badge.threshold}`}
+                  </p>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <button
+                    onClick={() => handleEdit(badge)}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleToggleActive(badge)}
+                    className="text-sm text-gray-600 hover:underline"
+                  >
+                    {badge.isActive ? 'Deactivate' : 'Activate'}
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Rule editor */}
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h2 className="text-xl font-bold text-gray-900">
+            {editingBadgeId ? 'Edit badge' : 'New badge'}
+          </h2>
+
+          <div className="grid grid-cols-4 gap-3">
+            <input
+              value={icon}
+              onChange={(e) => setIcon(e.target.value)}
+              placeholder="Icon"
+              className="input col-span-1"
+            />
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              className="input col-span-3"
+            />
+          </div>
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description"
+            className="input w-full"
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Rule</label>
+            <textarea
+              value={ruleText}
+              onChange={(e) => {
+                setRuleText(e.target.value);
+                setDryRun(null);
+              }}
+              rows={12}
+              className="input w-full font-mono text-sm"
+            />
+            {!editingBadgeId && (
+              <p className="text-xs text-gray-500 mt-1">
+                Leave empty for a badge that is only granted, e.g. as a season reward.
+              </p>
+            )}
+          </div>
+
+          {dryRun && (
+            <div className="p-3 rounded-lg bg-blue-50 text-sm text-blue-900">
+              {dryRun.qualifying} of {dryRun.evaluated} active users would qualify now. New
+              qualifiers are checked on {dryRun.triggers.join(', ')}.
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleDryRun}
+              disabled={isRunning}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Play className="w-4 h-4" />
+              {isRunning ? 'Checking...' : 'Dry run'}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              {editingBadgeId ? 'Save badge' : 'Create badge'}
+            </button>
+            {editingBadgeId && (
+              <button onClick={resetEditor} className="px-4 py-2 text-gray-600 hover:underline">
+                Cancel
+              </button>
+            )}
+          </div>
+
+          {/* Metric reference */}
+          <details className="text-sm text-gray-700">
+            <summary className="cursor-pointer font-medium">Metrics</summary>
+            <ul className="mt-2 space-y-2">
+              {metrics.map((m) => (
+                <li key={m.metric}>
+                  <code className="font-semibold">{m.metric}</code> — {m.description}
+                  <div className="text-xs text-gray-500">
+                    aggregations: {m.aggregations.join(', ')}
+                    {m.fields.length > 0 && ` · distinct fields: ${m.fields.join(', ')}`}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </details>
+        </div>
+      </div>
+    </div>
+  );
+}
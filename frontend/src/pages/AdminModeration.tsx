@@ -16,6 +16,7 @@ import {
   updateReportStatus,
   executeModeratorAction,
   getModerationStats,
+  resolveReviewDispute,
   Report,
 } from '../services/admin.service';
 import { toast } from 'react-hot-toast';
@@ -87,6 +88,21 @@ const AdminModeration: React.FC = () => {
     }
   };
 
+  const handleResolveDispute = async (
+    reportId: string,
+    outcome: 'UPHOLD' | 'HIDE' | 'REMOVE',
+    notes?: string
+  ) => {
+    try {
+      await resolveReviewDispute(reportId, outcome, notes);
+      toast.success('Dispute resolved');
+      loadData();
+      setShowDetailModal(false);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to resolve dispute');
+    }
+  };
+
   const handleTakeAction = (report: any) => {
     setSelectedReport(report);
     setShowActionModal(true);
@@ -210,6 +226,7 @@ const AdminModeration: React.FC = () => {
                 <option value="">All Types</option>
                 <option value="USER">User</option>
                 <option value="REVIEW">Review</option>
+                <option value="REVIEW_DISPUTE">Review Dispute</option>
                 <option value="MESSAGE">Message</option>
                 <option value="EVENT">Event</option>
                 <option value="SPAM">Spam</option>
@@ -368,6 +385,7 @@ const AdminModeration: React.FC = () => {
           report={selectedReport}
           onClose={() => setShowDetailModal(false)}
           onUpdateStatus={handleUpdateStatus}
+          onResolveDispute={handleResolveDispute}
         />
       )}
 
@@ -420,8 +438,16 @@ const ReportDetailModal: React.FC<{
   report: any;
   onClose: () => void;
   onUpdateStatus: (reportId: string, status: string, resolution?: string) => void;
-}> = ({ report, onClose, onUpdateStatus }) => {
+  onResolveDispute: (
+    reportId: string,
+    outcome: 'UPHOLD' | 'HIDE' | 'REMOVE',
+    notes?: string
+  ) => void;
+}> = ({ report, onClose, onUpdateStatus, onResolveDispute }) => {
   const [resolution, setResolution] = useState('');
+  const isDispute = report.type === 'REVIEW_DISPUTE';
+  const isOpen = report.status === 'PENDING' || report.status === 'UNDER_REVIEW';
+  const swap = report.context?.swap;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -486,7 +512,50 @@ const ReportDetailModal: React.FC<{
             </div>
           )}
 
-          {report.status === 'PENDING' && (
+          {isDispute && swap && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Swap Evidence</h3>
+              <div className="text-sm text-gray-700 space-y-1 mb-4">
+                <div>Status: {swap.status}</div>
+                {swap.completedAt && (
+                  <div>Completed: {new Date(swap.completedAt).toLocaleString()}</div>
+                )}
+              </div>
+              <div className="text-sm font-medium text-gray-900 mb-2">
+                Sessions ({swap.sessions?.length || 0})
+              </div>
+              <ul className="text-sm text-gray-700 space-y-1 mb-4">
+                {swap.sessions?.map((session: any) => (
+                  <li key={session.sessionId}>
+                    {new Date(session.startTime).toLocaleString()}
+                    {session.duration ? ` · ${session.duration} min` : ''}
+                    {session.notes ? ` · ${session.notes}` : ''}
+                  </li>
+                ))}
+              </ul>
+              <div className="text-sm font-medium text-gray-900 mb-2">Reviews in this swap</div>
+              <div className="space-y-2">
+                {swap.reviews?.map((review: any) => (
+                  <div
+                    key={review.reviewId}
+                    className={`p-3 rounded-lg text-sm ${
+                      review.reviewId === report.reviewId ? 'bg-red-50' : 'bg-gray-50'
+                    }`}
+                  >
+                    <div className="font-medium">
+                      {review.rating}★{review.reviewId === report.reviewId && ' (disputed)'}
+                    </div>
+                    {review.comment && <div className="text-gray-700">{review.comment}</div>}
+                    {review.reply && (
+                      <div className="text-gray-500 mt-1">Reply: {review.reply}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(report.status === 'PENDING' || (isDispute && isOpen)) && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Resolution Notes
@@ -503,7 +572,29 @@ const ReportDetailModal: React.FC<{
         </div>
 
         <div className="p-6 border-t border-gray-200 flex justify-end space-x-3">
-          {report.status === 'PENDING' && (
+          {isDispute && isOpen && (
+            <>
+              <button
+                onClick={() => onResolveDispute(report.reportId, 'UPHOLD', resolution)}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+              >
+                Uphold Review
+              </button>
+              <button
+                onClick={() => onResolveDispute(report.reportId, 'HIDE', resolution)}
+                className="px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600"
+              >
+                Hide Review
+              </button>
+              <button
+                onClick={() => onResolveDispute(report.reportId, 'REMOVE', resolution)}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+              >
+                Remove Review
+              </button>
+            </>
+          )}
+          {!isDispute && report.status === 'PENDING' && (
             <>
               <button
                 onClick={() => onUpdateStatus(report.reportId, 'DISMISSED', resolution)}
@@ -17,6 +17,11 @@ import {
   Award,
   RefreshCw,
   UserCheck,
+  Ban,
+  HeartHandshake,
+  Inbox,
+  Check,
+  X,
 } from 'lucide-react';
 import {
   getUserConnections,
@@ -26,15 +31,33 @@ import {
   connectToUser,
   disconnectFromUser,
   getConnectionStats,
+  sendConnectionRequest,
+  getIncomingRequests,
+  getSentRequests,
+  acceptConnectionRequest,
+  declineConnectionRequest,
+  cancelConnectionRequest,
+  getAcceptedConnections,
+  removeAcceptedConnection,
   ConnectionUser,
   UserConnection,
   ConnectionStats,
+  ConnectionRequest,
+  AcceptedConnection,
   formatConnectionDate,
   getUserLocation,
 } from '../services/connection.service';
+import userService, { BlockedUser } from '../services/user.service';
 import { useAuthStore } from '../stores/authStore';
 
-type TabType = 'following' | 'followers' | 'suggestions' | 'search';
+type TabType =
+  | 'connected'
+  | 'requests'
+  | 'following'
+  | 'followers'
+  | 'suggestions'
+  | 'search'
+  | 'blocked';
 
 export default function Connections() {
   const navigate = useNavigate();
@@ -45,6 +68,11 @@ export default function Connections() {
   const [followers, setFollowers] = useState<UserConnection[]>([]);
   const [suggestions, setSuggestions] = useState<ConnectionUser[]>([]);
   const [searchResults, setSearchResults] = useState<ConnectionUser[]>([]);
+  const [blocked, setBlocked] = useState<BlockedUser[]>([]);
+  const [accepted, setAccepted] = useState<AcceptedConnection[]>([]);
+  const [incomingRequests, setIncomingRequests] = useState<ConnectionRequest[]>([]);
+  const [sentRequests, setSentRequests] = useState<ConnectionRequest[]>([]);
+  const [requestedIds, setRequestedIds] = useState<Set<string>>(new Set());
   const [stats, setStats] = useState<ConnectionStats>({ following: 0, followers: 0, mutual: 0 });
 
   const [isLoading, setIsLoading] = useState(false);
@@ -73,6 +101,20 @@ export default function Connections() {
       setIsLoading(true);
 
       switch (activeTab) {
+        case 'connected': {
+          const acceptedData = await getAcceptedConnections();
+          setAccepted(acceptedData);
+          break;
+        }
+        case 'requests': {
+          const [incomingData, sentData] = await Promise.all([
+            getIncomingRequests(),
+            getSentRequests(),
+          ]);
+          setIncomingRequests(incomingData);
+          setSentRequests(sentData);
+          break;
+        }
         case 'following':
           const followingData = await getUserConnections();
           setFollowing(followingData);
@@ -88,6 +130,11 @@ export default function Connections() {
         case 'search':
           // Search is handled separately
           break;
+        case 'blocked': {
+          const blockedData = await userService.getBlockedUsers();
+          setBlocked(blockedData.data);
+          break;
+        }
       }
     } catch (error) {
       console.error('Failed to load data:', error);
@@ -120,7 +167,7 @@ export default function Connections() {
   const handleConnect = async (userId: string) => {
     try {
       await connectToUser(userId);
-      toast.success('Successfully connected!');
+      toast.success('Now following');
 
       // Refresh data and stats
       await loadStats();
@@ -135,18 +182,18 @@ export default function Connections() {
         );
       }
     } catch (error: any) {
-      console.error('Failed to connect:', error);
-      toast.error(error.response?.data?.message || 'Failed to connect');
+      console.error('Failed to follow:', error);
+      toast.error(error.response?.data?.message || 'Failed to follow');
     }
   };
 
   const handleDisconnect = async (userId: string) => {
-    const confirmed = window.confirm('Are you sure you want to disconnect from this user?');
+    const confirmed = window.confirm('Are you sure you want to unfollow this user?');
     if (!confirmed) return;
 
     try {
       await disconnectFromUser(userId);
-      toast.success('Successfully disconnected');
+      toast.success('Unfollowed');
 
       // Refresh data and stats
       await loadStats();
@@ -161,8 +208,98 @@ export default function Connections() {
         );
       }
     } catch (error: any) {
-      console.error('Failed to disconnect:', error);
-      toast.error(error.response?.data?.message || 'Failed to disconnect');
+      console.error('Failed to unfollow:', error);
+      toast.error(error.response?.data?.message || 'Failed to unfollow');
+    }
+  };
+
+  const handleSendRequest = async (userId: string) => {
+    try {
+      const request = await sendConnectionRequest(userId);
+      toast.success(request.status === 'ACCEPTED' ? 'You are now connected' : 'Connection request sent');
+      setRequestedIds((prev) => new Set(prev).add(userId));
+    } catch (error: any) {
+      console.error('Failed to send connection request:', error);
+      toast.error(error.response?.data?.message || 'Failed to send connection request');
+    }
+  };
+
+  const handleAcceptRequest = async (requestId: string) => {
+    try {
+      await acceptConnectionRequest(requestId);
+      toast.success('Connection accepted');
+      setIncomingRequests((prev) => prev.filter((r) => r.requestId !== requestId));
+      await loadStats();
+    } catch (error: any) {
+      console.error('Failed to accept request:', error);
+      toast.error(error.response?.data?.message || 'Failed to accept request');
+    }
+  };
+
+  const handleDeclineRequest = async (requestId: string) => {
+    try {
+      await declineConnectionRequest(requestId);
+      setIncomingRequests((prev) => prev.filter((r) => r.requestId !== requestId));
+    } catch (error: any) {
+      console.error('Failed to decline request:', error);
+      toast.error(error.response?.data?.message || 'Failed to decline request');
+    }
+  };
+
+  const handleCancelRequest = async (requestId: string) => {
+    try {
+      await cancelConnectionRequest(requestId);
+      setSentRequests((prev) => prev.filter((r) => r.requestId !== requestId));
+    } catch (error: any) {
+      console.error('Failed to cancel request:', error);
+      toast.error(error.response?.data?.message || 'Failed to cancel request');
+    }
+  };
+
+  const handleRemoveConnection = async (userId: string) => {
+    const confirmed = window.confirm(
+      'Remove this connection? You will also stop following each other.'
+    );
+    if (!confirmed) return;
+
+    try {
+      await removeAcceptedConnection(userId);
+      toast.success('Connection removed');
+      setAccepted((prev) => prev.filter((c) => c.user.userId !== userId));
+      await loadStats();
+    } catch (error: any) {
+      console.error('Failed to remove connection:', error);
+      toast.error(error.response?.data?.message || 'Failed to remove connection');
+    }
+  };
+
+  const handleBlock = async (userId: string) => {
+    const confirmed = window.confirm(
+      'Block this user? Neither of you will be able to message, follow or request swaps with the other.'
+    );
+    if (!confirmed) return;
+
+    try {
+      await userService.blockUser(userId);
+      toast.success('User blocked');
+
+      await loadStats();
+      await loadTabData();
+      setSearchResults((prev) => prev.filter((u) => u.userId !== userId));
+    } catch (error: any) {
+      console.error('Failed to block user:', error);
+      toast.error(error.response?.data?.message || 'Failed to block user');
+    }
+  };
+
+  const handleUnblock = async (userId: string) => {
+    try {
+      await userService.unblockUser(userId);
+      toast.success('User unblocked');
+      setBlocked((prev) => prev.filter((b) => b.blockedId !== userId));
+    } catch (error: any) {
+      console.error('Failed to unblock user:', error);
+      toast.error(error.response?.data?.message || 'Failed to unblock user');
     }
   };
 
@@ -241,14 +378,14 @@ export default function Connections() {
 
           {/* Action Button */}
           {!isOwnProfile && showConnectButton && (
-            <div className="flex-shrink-0">
+            <div className="flex-shrink-0 flex items-center gap-2">
               {user.isConnected ? (
                 <button
                   onClick={() => handleDisconnect(user.userId)}
                   className="flex items-center gap-2 px-4 py-2 border border-red-600 text-red-600 rounded-lg hover:bg-red-50 transition-colors text-sm"
                 >
                   <UserMinus className="w-4 h-4" />
-                  Disconnect
+                  Unfollow
                 </button>
               ) : (
                 <button
@@ -256,9 +393,27 @@ export default function Connections() {
                   className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
                 >
                   <UserPlus className="w-4 h-4" />
-                  Connect
+                  Follow
+                </button>
+              )}
+              {!connectedAt && (
+                <button
+                  onClick={() => handleSendRequest(user.userId)}
+                  disabled={requestedIds.has(user.userId)}
+                  title="Send connection request"
+                  className="flex items-center gap-2 px-4 py-2 border border-green-600 text-green-600 rounded-lg hover:bg-green-50 transition-colors text-sm disabled:opacity-50"
+                >
+                  <HeartHandshake className="w-4 h-4" />
+                  {requestedIds.has(user.userId) ? 'Requested' : 'Connect'}
                 </button>
               )}
+              <button
+                onClick={() => handleBlock(user.userId)}
+                title="Block user"
+                className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+              >
+                <Ban className="w-4 h-4" />
+              </button>
             </div>
           )}
         </div>
@@ -309,6 +464,30 @@ export default function Connections() {
       {/* Tabs */}
       <div className="bg-white rounded-lg shadow-md mb-6">
         <div className="flex border-b overflow-x-auto">
+          <button
+            onClick={() => setActiveTab('connected')}
+            className={`flex items-center gap-2 px-6 py-4 font-medium transition-colors border-b-2 ${
+              activeTab === 'connected'
+                ? 'border-blue-600 text-blue-600'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <HeartHandshake className="w-5 h-5" />
+            Connected
+          </button>
+
+          <button
+            onClick={() => setActiveTab('requests')}
+            className={`flex items-center gap-2 px-6 py-4 font-medium transition-colors border-b-2 ${
+              activeTab === 'requests'
+                ? 'border-blue-600 text-blue-600'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <Inbox className="w-5 h-5" />
+            Requests
+          </button>
+
           <button
             onClick={() => setActiveTab('following')}
             className={`flex items-center gap-2 px-6 py-4 font-medium transition-colors border-b-2 ${
@@ -356,6 +535,18 @@ export default function Connections() {
             <Search className="w-5 h-5" />
             Search
           </button>
+
+          <button
+            onClick={() => setActiveTab('blocked')}
+            className={`flex items-center gap-2 px-6 py-4 font-medium transition-colors border-b-2 ${
+              activeTab === 'blocked'
+                ? 'border-blue-600 text-blue-600'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <Ban className="w-5 h-5" />
+            Blocked
+          </button>
         </div>
 
         {/* Search Form */}
@@ -392,6 +583,104 @@ export default function Connections() {
           </div>
         ) : (
           <>
+            {/* Connected Tab */}
+            {activeTab === 'connected' && (
+              <div className="space-y-4">
+                {accepted.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-12 text-center">
+                    <HeartHandshake className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                      No connections yet
+                    </h3>
+                    <p className="text-gray-600">
+                      Send a connection request and it will show here once accepted
+                    </p>
+                  </div>
+                ) : (
+                  accepted.map((connection) => (
+                    <div key={connection.requestId} className="relative">
+                      <UserCard
+                        user={connection.user}
+                        connectedAt={connection.connectedAt}
+                        showConnectButton={false}
+                      />
+                      <button
+                        onClick={() => handleRemoveConnection(connection.user.userId)}
+                        className="absolute top-4 right-4 flex items-center gap-2 px-4 py-2 border border-red-600 text-red-600 rounded-lg hover:bg-red-50 transition-colors text-sm"
+                      >
+                        <UserMinus className="w-4 h-4" />
+                        Remove
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            {/* Requests Tab */}
+            {activeTab === 'requests' && (
+              <div className="space-y-6">
+                <div className="space-y-4">
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    Received ({incomingRequests.length})
+                  </h2>
+                  {incomingRequests.length === 0 ? (
+                    <p className="text-gray-600">No pending requests</p>
+                  ) : (
+                    incomingRequests.map((request) => (
+                      <div key={request.requestId} className="relative">
+                        {request.sender && (
+                          <UserCard user={request.sender} showConnectButton={false} />
+                        )}
+                        {request.message && (
+                          <p className="mt-1 px-4 text-sm text-gray-600 italic">"{request.message}"</p>
+                        )}
+                        <div className="absolute top-4 right-4 flex items-center gap-2">
+                          <button
+                            onClick={() => handleAcceptRequest(request.requestId)}
+                            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
+                          >
+                            <Check className="w-4 h-4" />
+                            Accept
+                          </button>
+                          <button
+                            onClick={() => handleDeclineRequest(request.requestId)}
+                            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+                          >
+                            <X className="w-4 h-4" />
+                            Decline
+                          </button>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                <div className="space-y-4">
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    Sent ({sentRequests.length})
+                  </h2>
+                  {sentRequests.length === 0 ? (
+                    <p className="text-gray-600">No pending requests</p>
+                  ) : (
+                    sentRequests.map((request) => (
+                      <div key={request.requestId} className="relative">
+                        {request.receiver && (
+                          <UserCard user={request.receiver} showConnectButton={false} />
+                        )}
+                        <button
+                          onClick={() => handleCancelRequest(request.requestId)}
+                          className="absolute top-4 right-4 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Following Tab */}
             {activeTab === 'following' && (
               <div className="space-y-4">
@@ -399,10 +688,10 @@ export default function Connections() {
                   <div className="bg-white rounded-lg shadow-md p-12 text-center">
                     <Users className="w-16 h-16 text-gray-300 mx-auto mb-4" />
                     <h3 className="text-xl font-semibold text-gray-900 mb-2">
-                      No connections yet
+                      Not following anyone yet
                     </h3>
                     <p className="text-gray-600 mb-4">
-                      Start connecting with people who share your interests
+                      Follow people who share your interests
                     </p>
                     <button
                       onClick={() => setActiveTab('suggestions')}
@@ -488,6 +777,54 @@ export default function Connections() {
                 )}
               </div>
             )}
+
+            {/* Blocked Tab */}
+            {activeTab === 'blocked' && (
+              <div className="space-y-4">
+                {blocked.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-12 text-center">
+                    <Ban className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                      No blocked users
+                    </h3>
+                    <p className="text-gray-600">
+                      People you block can't message you, follow you or send swap requests
+                    </p>
+                  </div>
+                ) : (
+                  blocked.map((block) => (
+                    <div
+                      key={block.blockId}
+                      className="bg-white rounded-lg shadow-md p-4 flex items-center gap-4"
+                    >
+                      {block.blocked.avatar ? (
+                        <img
+                          src={block.blocked.avatar}
+                          alt={block.blocked.name}
+                          className="w-12 h-12 rounded-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-12 h-12 rounded-full bg-gray-300 flex items-center justify-center">
+                          <Users className="w-6 h-6 text-white" />
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="font-semibold text-gray-900">{block.blocked.name}</p>
+                        <p className="text-xs text-gray-500">
+                          Blocked on {new Date(block.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleUnblock(block.blockedId)}
+                        className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+                      >
+                        Unblock
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
           </>
         )}
       </div>
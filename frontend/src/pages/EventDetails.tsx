@@ -23,6 +23,8 @@ import {
   BookmarkPlus,
   RefreshCw,
   Tag,
+  QrCode,
+  MessageCircle,
 } from 'lucide-react';
 import {
   getEventById,
@@ -32,8 +34,11 @@ import {
   cancelEvent,
   deleteEvent,
   getEventAttendees,
+  getCheckInCode,
+  selfCheckIn,
   Event,
   EventAttendee,
+  CheckInCode,
   getEventTypeLabel,
   getEventTypeIcon,
   getEventStatusColor,
@@ -43,6 +48,9 @@ import {
   isPast,
 } from '../services/event.service';
 import { useAuthStore } from '../stores/authStore';
+import EventCheckInScanner from '../components/EventCheckInScanner';
+import ChatWindow from '../components/ChatWindow';
+import chatService, { GroupConversation } from '../services/chat.service';
 
 export default function EventDetails() {
   const { eventId } = useParams<{ eventId: string }>();
@@ -55,6 +63,9 @@ export default function EventDetails() {
   const [isLoadingAttendees, setIsLoadingAttendees] = useState(false);
   const [isRegistering, setIsRegistering] = useState(false);
   const [showAttendees, setShowAttendees] = useState(false);
+  const [checkInCode, setCheckInCode] = useState<CheckInCode | null>(null);
+  const [eventChat, setEventChat] = useState<GroupConversation | null>(null);
+  const [isLoadingChat, setIsLoadingChat] = useState(false);
 
   useEffect(() => {
     if (eventId) {
@@ -62,6 +73,16 @@ export default function EventDetails() {
     }
   }, [eventId]);
 
+  useEffect(() => {
+    if (eventId && event?.isRegistered && event.status !== 'CANCELLED') {
+      getCheckInCode(eventId)
+        .then(setCheckInCode)
+        .catch((error) => console.error('Failed to load check-in code:', error));
+    } else {
+      setCheckInCode(null);
+    }
+  }, [eventId, event?.isRegistered, event?.status, event?.attendanceStatus]);
+
   const loadEvent = async () => {
     try {
       setIsLoading(true);
@@ -94,6 +115,20 @@ export default function EventDetails() {
     }
   };
 
+  const openEventChat = async () => {
+    try {
+      setIsLoadingChat(true);
+      if (!eventId) return;
+
+      setEventChat(await chatService.getEventChat(eventId));
+    } catch (error: any) {
+      console.error('Failed to load event chat:', error);
+      toast.error(error.response?.data?.error || 'Failed to load event chat');
+    } finally {
+      setIsLoadingChat(false);
+    }
+  };
+
   const handleRegister = async () => {
     if (!user) {
       toast.error('Please login to register for events');
@@ -105,8 +140,12 @@ export default function EventDetails() {
 
     try {
       setIsRegistering(true);
-      await registerForEvent(eventId);
-      toast.success('Successfully registered for the event!');
+      const registration = await registerForEvent(eventId);
+      if (registration.status === 'WAITLISTED') {
+        toast.success(`Event is full - you are #${registration.waitlistPosition} on the waitlist`);
+      } else {
+        toast.success('Successfully registered for the event!');
+      }
       await loadEvent();
     } catch (error: any) {
       console.error('Failed to register:', error);
@@ -186,6 +225,20 @@ export default function EventDetails() {
     }
   };
 
+  // Opening the meeting link doubles as check-in for online events
+  const handleJoinMeeting = async () => {
+    if (!eventId || event?.attendanceStatus === 'ATTENDED') return;
+
+    try {
+      await selfCheckIn(eventId);
+      toast.success('Checked in - enjoy the event!');
+      await loadEvent();
+    } catch (error: any) {
+      console.error('Failed to check in:', error);
+      toast.error(error.response?.data?.message || 'Failed to check in');
+    }
+  };
+
   const handleShare = () => {
     const url = window.location.href;
     if (navigator.share) {
@@ -219,13 +272,19 @@ export default function EventDetails() {
   const isOrganizer = user?.userId === event.organizerId;
   const eventIsFull = isFull(event);
   const eventIsPast = isPast(event);
+  const isWaitlisted = !!event.waitlistPosition;
   const canRegister =
     !isOrganizer &&
     !event.isRegistered &&
-    !eventIsFull &&
+    !isWaitlisted &&
     !eventIsPast &&
     event.status === 'PUBLISHED';
-  const canUnregister = event.isRegistered && !eventIsPast;
+  const attendanceRecorded =
+    event.attendanceStatus === 'ATTENDED' || event.attendanceStatus === 'NO_SHOW';
+  const canUnregister =
+    (event.isRegistered || isWaitlisted) && !eventIsPast && !attendanceRecorded;
+  const canManageCheckIn = isOrganizer && event.status !== 'DRAFT' && event.status !== 'CANCELLED';
+  const canUseChat = (isOrganizer || event.isRegistered) && event.status !== 'DRAFT';
 
   return (
     <div className="max-w-5xl mx-auto p-6">
@@ -352,9 +411,18 @@ export default function EventDetails() {
                     className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
                   >
                     <Check className="w-5 h-5" />
-                    {isRegistering ? 'Registering...' : 'Register for Event'}
+                    {isRegistering
+                      ? 'Registering...'
+                      : eventIsFull
+                        ? 'Join Waitlist'
+                        : 'Register for Event'}
                   </button>
                 )}
+                {isWaitlisted && (
+                  <span className="flex items-center px-4 py-3 bg-yellow-50 text-yellow-800 rounded-lg">
+                    #{event.waitlistPosition} on the waitlist
+                  </span>
+                )}
                 {canUnregister && (
                   <button
                     onClick={handleUnregister}
@@ -362,7 +430,7 @@ export default function EventDetails() {
                     className="flex items-center gap-2 px-6 py-3 border border-red-600 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
                   >
                     <X className="w-5 h-5" />
-                    {isRegistering ? 'Unregistering...' : 'Unregister'}
+                    {isRegistering ? 'Unregistering...' : isWaitlisted ? 'Leave Waitlist' : 'Unregister'}
                   </button>
                 )}
               </>
@@ -388,6 +456,35 @@ export default function EventDetails() {
             <p className="text-gray-700 whitespace-pre-line">{event.description}</p>
           </div>
 
+          {/* Event chat (organizer and registered attendees) */}
+          {canUseChat && (
+            <div className="bg-white rounded-lg shadow-md p-6">
+              {eventChat ? (
+                <div className="h-[32rem]">
+                  <ChatWindow group={eventChat} onClose={() => setEventChat(null)} />
+                </div>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Event chat</h2>
+                    <p className="text-sm text-gray-600">Talk with the organizer and other attendees</p>
+                  </div>
+                  <button
+                    onClick={openEventChat}
+                    disabled={isLoadingChat}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <MessageCircle className="w-4 h-4" />
+                    {isLoadingChat ? 'Opening...' : 'Open chat'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Check-in (organizer) */}
+          {canManageCheckIn && eventId && <EventCheckInScanner eventId={eventId} />}
+
           {/* Attendees */}
           <div className="bg-white rounded-lg shadow-md p-6">
             <div className="flex items-center justify-between mb-4">
@@ -499,6 +596,7 @@ export default function EventDetails() {
                     href={event.meetingLink}
                     target="_blank"
                     rel="noopener noreferrer"
+                    onClick={handleJoinMeeting}
                     className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors"
                   >
                     <Globe className="w-4 h-4" />
@@ -526,6 +624,47 @@ export default function EventDetails() {
             )}
           </div>
 
+          {/* Check-in Code */}
+          {checkInCode && (
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h3 className="flex items-center gap-2 font-bold text-gray-900 mb-4">
+                <QrCode className="w-5 h-5" />
+                Your Check-in
+              </h3>
+              {checkInCode.status === 'ATTENDED' ? (
+                <div className="flex items-center gap-2 px-3 py-2 bg-green-50 text-green-700 rounded-lg">
+                  <Check className="w-4 h-4" />
+                  <span className="font-medium">
+                    Checked in
+                    {checkInCode.checkedInAt &&
+                      ` at ${new Date(checkInCode.checkedInAt).toLocaleTimeString([], {
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}`}
+                  </span>
+                </div>
+              ) : checkInCode.status === 'NO_SHOW' ? (
+                <p className="text-sm text-gray-600">You were marked as a no-show.</p>
+              ) : (
+                <>
+                  <img
+                    src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(checkInCode.qrSvg)}`}
+                    alt="Check-in QR code"
+                    className="w-full max-w-[220px] mx-auto"
+                  />
+                  <p className="mt-3 text-sm text-gray-600 text-center">
+                    {event.isOnline
+                      ? 'You are checked in automatically when you join the meeting.'
+                      : 'Show this code to the organizer when you arrive.'}
+                  </p>
+                  <p className="mt-2 text-xs text-gray-500 font-mono break-all text-center select-all">
+                    {checkInCode.code}
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Related Skill */}
           {event.skill && (
             <div className="bg-white rounded-lg shadow-md p-6">
@@ -0,0 +1,277 @@
+/**
+ * Feed Page
+ * Recent activity of the people you follow, and who sees your own activity
+ */
+
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import {
+  Rss,
+  BookOpen,
+  Repeat,
+  Award,
+  Calendar,
+  Star,
+  Settings,
+  RefreshCw,
+  Users,
+} from 'lucide-react';
+import {
+  getFeed,
+  getActivitySettings,
+  updateActivitySettings,
+  describeActivity,
+  formatActivityTime,
+  Activity,
+  ActivityType,
+  ActivitySettings,
+  ActivityVisibility,
+} from '../services/feed.service';
+
+const PAGE_SIZE = 20;
+
+const TYPE_FILTERS: { type?: ActivityType; label: string }[] = [
+  { label: 'All' },
+  { type: 'SKILL_ADDED', label: 'Skills' },
+  { type: 'SWAP_COMPLETED', label: 'Swaps' },
+  { type: 'BADGE_EARNED', label: 'Badges' },
+  { type: 'EVENT_PUBLISHED', label: 'Events' },
+  { type: 'REVIEW_POSTED', label: 'Reviews' },
+];
+
+const TYPE_ICONS: Record<ActivityType, typeof Rss> = {
+  SKILL_ADDED: BookOpen,
+  SWAP_COMPLETED: Repeat,
+  BADGE_EARNED: Award,
+  EVENT_PUBLISHED: Calendar,
+  REVIEW_POSTED: Star,
+};
+
+const SETTING_LABELS: { key: keyof ActivitySettings; label: string }[] = [
+  { key: 'skills', label: 'Skills I add' },
+  { key: 'swaps', label: 'Swaps I complete' },
+  { key: 'badges', label: 'Badges I earn' },
+  { key: 'events', label: 'Events I publish' },
+  { key: 'reviews', label: 'Public reviews I leave' },
+];
+
+export default function Feed() {
+  const navigate = useNavigate();
+
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<ActivityType | undefined>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const [showSettings, setShowSettings] = useState(false);
+  const [settings, setSettings] = useState<ActivitySettings | null>(null);
+
+  useEffect(() => {
+    loadFeed();
+  }, [typeFilter]);
+
+  const loadFeed = async () => {
+    try {
+      setIsLoading(true);
+      const page = await getFeed({ limit: PAGE_SIZE, type: typeFilter });
+      setActivities(page.activities);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load feed:', error);
+      toast.error('Failed to load feed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+
+    try {
+      setIsLoadingMore(true);
+      const page = await getFeed({ cursor: nextCursor, limit: PAGE_SIZE, type: typeFilter });
+      setActivities((prev) => [...prev, ...page.activities]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more activity:', error);
+      toast.error('Failed to load more activity');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const toggleSettings = async () => {
+    if (!showSettings && !settings) {
+      try {
+        setSettings(await getActivitySettings());
+      } catch (error) {
+        console.error('Failed to load activity settings:', error);
+        toast.error('Failed to load activity settings');
+        return;
+      }
+    }
+    setShowSettings(!showSettings);
+  };
+
+  const handleSettingChange = async (key: keyof ActivitySettings, value: ActivityVisibility) => {
+    try {
+      const updated = await updateActivitySettings({ [key]: value });
+      setSettings(updated);
+      toast.success('Activity settings updated');
+    } catch (error: any) {
+      console.error('Failed to update activity settings:', error);
+      toast.error(error.response?.data?.message || 'Failed to update activity settings');
+    }
+  };
+
+  const activityLink = (activity: Activity): string | null => {
+    switch (activity.type) {
+      case 'EVENT_PUBLISHED':
+        return `/events/${activity.entityId}`;
+      case 'REVIEW_POSTED':
+        return activity.data?.teacherId ? `/profile/${activity.data.teacherId}` : null;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+          <Rss className="w-8 h-8 text-blue-600" />
+          Feed
+        </h1>
+        <button
+          onClick={toggleSettings}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+        >
+          <Settings className="w-4 h-4" />
+          Who sees my activity
+        </button>
+      </div>
+
+      {/* Privacy settings */}
+      {showSettings && settings && (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6 space-y-3">
+          {SETTING_LABELS.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <span className="text-sm text-gray-700">{label}</span>
+              <select
+                value={settings[key]}
+                onChange={(e) => handleSettingChange(key, e.target.value as ActivityVisibility)}
+                className="text-sm border border-gray-300 rounded-lg px-2 py-1"
+              >
+                <option value="FOLLOWERS">Followers</option>
+                <option value="CONNECTIONS">Connections only</option>
+                <option value="NOBODY">Nobody</option>
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Type filters */}
+      <div className="flex gap-2 mb-6 overflow-x-auto">
+        {TYPE_FILTERS.map(({ type, label }) => (
+          <button
+            key={label}
+            onClick={() => setTypeFilter(type)}
+            className={`px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${
+              typeFilter === type
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Activities */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <RefreshCw className="w-8 h-8 text-blue-600 animate-spin" />
+        </div>
+      ) : activities.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-12 text-center">
+          <Users className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">Nothing here yet</h3>
+          <p className="text-gray-600 mb-4">
+            Follow people to see their new skills, swaps, badges and events
+          </p>
+          <button
+            onClick={() => navigate('/connections')}
+            className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Users className="w-5 h-5" />
+            Find people
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {activities.map((activity) => {
+            const Icon = TYPE_ICONS[activity.type];
+            const link = activityLink(activity);
+
+            return (
+              <div
+                key={activity.activityId}
+                className="bg-white rounded-lg shadow-sm p-4 flex items-start gap-3"
+              >
+                {activity.actor.avatar ? (
+                  <img
+                    src={activity.actor.avatar}
+                    alt={activity.actor.name}
+                    className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+                  />
+                ) : (
+                  <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-semibold flex-shrink-0">
+                    {activity.actor.name.charAt(0).toUpperCase()}
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900">
+                    <Link
+                      to={`/profile/${activity.actor.userId}`}
+                      className="font-semibold hover:text-blue-600"
+                    >
+                      {activity.actor.name}
+                    </Link>{' '}
+                    {link ? (
+                      <Link to={link} className="hover:underline">
+                        {describeActivity(activity)}
+                      </Link>
+                    ) : (
+                      describeActivity(activity)
+                    )}
+                  </p>
+                  {activity.type === 'REVIEW_POSTED' && activity.data?.comment && (
+                    <p className="text-sm text-gray-600 italic mt-1 line-clamp-2">
+                      "{activity.data.comment}"
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">{formatActivityTime(activity.createdAt)}</p>
+                </div>
+                <Icon className="w-5 h-5 text-gray-400 flex-shrink-0" />
+              </div>
+            );
+          })}
+
+          {nextCursor && (
+            <button
+              onClick={loadMore}
+              disabled={isLoadingMore}
+              className="w-full py-3 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isLoadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
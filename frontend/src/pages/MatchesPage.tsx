@@ -79,6 +79,7 @@ export default function MatchesPage() {
                     <h3 className="text-lg font-semibold text-gray-900">{match.name}</h3>
                     <p className="text-sm text-gray-500">
                       {match.city && match.state ? `${match.city}, ${match.state}` : 'Location not specified'}
+                      {match.distance != null && ` · ${match.distance < 1 ? '<1' : Math.round(match.distance)} km away`}
                     </p>
                   </div>
                   <div className="bg-blue-100 text-blue-800 px-2 py-1 rounded text-sm font-medium">
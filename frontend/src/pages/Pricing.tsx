@@ -152,6 +152,10 @@ export default function Pricing() {
         label: tier.features.maxConnections === -1 ? 'Unlimited Connections' : `${tier.features.maxConnections} Connections`,
         included: true,
       },
+      {
+        label: `${tier.features.maxUploadSizeMb} MB File Uploads`,
+        included: true,
+      },
       {
         label: 'Create & Join Events',
         included: tier.features.canCreateEvents,
@@ -1,18 +1,23 @@
 import { useState } from 'react';
-import { useAuthStore } from '../stores/authStore';
+import { useAuthStore, MessagePermission, FieldVisibility } from '../stores/authStore';
 import userService from '../services/user.service';
+import { uploadFile } from '../services/upload.service';
+import PrivacySettingsPanel from '../components/PrivacySettingsPanel';
 import toast from 'react-hot-toast';
 
 export default function ProfilePage() {
   const { user, updateUser } = useAuthStore();
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
   const [formData, setFormData] = useState({
     name: user?.name || '',
     phone: user?.phone || '',
     bio: user?.bio || '',
     city: user?.city || '',
     state: user?.state || '',
+    messagePermission: user?.messagePermission || ('EVERYONE' as MessagePermission),
+    contactVisibility: user?.contactVisibility || ('NOBODY' as FieldVisibility),
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -33,6 +38,26 @@ export default function ProfilePage() {
     }
   };
 
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploadingAvatar(true);
+    try {
+      const upload = await uploadFile(file, 'AVATAR');
+      const response = await userService.updateProfile({ avatar: upload.url });
+      if (response.success) {
+        updateUser(response.data.user);
+        toast.success('Profile photo updated!');
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update profile photo');
+    } finally {
+      setIsUploadingAvatar(false);
+      e.target.value = '';
+    }
+  };
+
   return (
     <div className="max-w-3xl mx-auto">
         <div className="bg-white shadow-sm rounded-lg p-6">
@@ -66,6 +91,27 @@ export default function ProfilePage() {
             </div>
           </div>
 
+          {/* Profile Photo */}
+          <div className="flex items-center gap-4 mb-8">
+            {user?.avatar ? (
+              <img src={user.avatar} alt={user.name} className="w-20 h-20 rounded-full object-cover" />
+            ) : (
+              <div className="w-20 h-20 rounded-full bg-gray-200 flex items-center justify-center text-2xl font-bold text-gray-500">
+                {user?.name?.charAt(0).toUpperCase()}
+              </div>
+            )}
+            <label className="text-blue-600 hover:text-blue-700 font-medium cursor-pointer">
+              {isUploadingAvatar ? 'Uploading...' : 'Change photo'}
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/gif,image/webp"
+                onChange={handleAvatarChange}
+                disabled={isUploadingAvatar}
+                className="hidden"
+              />
+            </label>
+          </div>
+
           {/* Profile Form */}
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
@@ -148,6 +194,43 @@ export default function ProfilePage() {
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Who can message me
+                </label>
+                <select
+                  value={formData.messagePermission}
+                  onChange={(e) =>
+                    setFormData({ ...formData, messagePermission: e.target.value as MessagePermission })
+                  }
+                  disabled={!isEditing}
+                  className="input w-full"
+                >
+                  <option value="EVERYONE">Everyone</option>
+                  <option value="CONNECTIONS">Connections only</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Who can see my email and phone
+                </label>
+                <select
+                  value={formData.contactVisibility}
+                  onChange={(e) =>
+                    setFormData({ ...formData, contactVisibility: e.target.value as FieldVisibility })
+                  }
+                  disabled={!isEditing}
+                  className="input w-full"
+                >
+                  <option value="NOBODY">Nobody</option>
+                  <option value="CONNECTIONS">Connections only</option>
+                  <option value="EVERYONE">Everyone</option>
+                </select>
+              </div>
+            </div>
+
             {isEditing && (
               <button
                 type="submit"
@@ -159,6 +242,8 @@ export default function ProfilePage() {
             )}
           </form>
         </div>
+
+        <PrivacySettingsPanel />
       </div>
    
   );
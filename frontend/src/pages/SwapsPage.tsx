@@ -166,6 +166,14 @@ export default function SwapsPage() {
                   </div>
                 </div>
 
+                {swap.stakeAmount > 0 && (
+                  <p className="text-sm text-yellow-700 bg-yellow-50 rounded p-2 mb-4">
+                    🪙 {swap.stakeAmount} SkillCoin stake from each party
+                    {swap.status === 'PENDING' && ' (locked when accepted)'}
+                    {swap.status === 'ACCEPTED' && ' (held until completion)'}
+                  </p>
+                )}
+
                 {swap.status === 'PENDING' && (
                   <div className="flex gap-2">
                     <button
@@ -121,6 +121,8 @@ export interface Report {
   reason: string;
   description?: string;
   evidence?: string[];
+  reviewId?: string;
+  context?: Record<string, any> | null; // e.g. the swap and its sessions for review disputes
   reporter: {
     userId: string;
     name: string;
@@ -137,6 +139,52 @@ export interface Report {
   createdAt: string;
 }
 
+// Declarative badge criteria; see the metric catalog for metrics, fields and events
+export interface BadgeCondition {
+  metric: string;
+  aggregation: 'count' | 'distinct' | 'sum' | 'avg' | 'value';
+  field?: string;
+  windowDays?: number;
+  operator: 'gte' | 'gt' | 'eq' | 'lte' | 'lt';
+  value: number;
+}
+
+export interface BadgeRuleGroup {
+  combinator: 'AND' | 'OR';
+  conditions: BadgeRule[];
+}
+
+export type BadgeRule = BadgeCondition | BadgeRuleGroup;
+
+export interface AdminBadge {
+  badgeId: string;
+  name: string;
+  description: string;
+  icon: string;
+  criteria: string;
+  threshold: number;
+  rule: BadgeRule | null;
+  triggers: string[];
+  isActive: boolean;
+  earnedCount: number;
+  createdAt: string;
+}
+
+export interface BadgeMetricInfo {
+  metric: string;
+  description: string;
+  aggregations: string[];
+  fields: string[];
+  events: string[];
+}
+
+export interface BadgeDryRunResult {
+  evaluated: number;
+  qualifying: number;
+  sampleUserIds: string[];
+  triggers: string[];
+}
+
 export interface GrowthData {
   date: string;
   count: number;
@@ -307,6 +355,62 @@ export async function executeModeratorAction(data: {
   return response.data.data;
 }
 
+/**
+ * Resolve a review dispute: keep the review, hide it or remove it
+ */
+export async function resolveReviewDispute(
+  reportId: string,
+  outcome: 'UPHOLD' | 'HIDE' | 'REMOVE',
+  notes?: string
+) {
+  const response = await api.post(`/moderation/disputes/${reportId}/resolve`, {
+    outcome,
+    notes,
+  });
+  return response.data.data;
+}
+
+/**
+ * Get all badges and the metrics rules can use
+ */
+export async function getBadges(): Promise<{ badges: AdminBadge[]; metrics: BadgeMetricInfo[] }> {
+  const response = await api.get('/admin/badges');
+  return response.data.data;
+}
+
+/**
+ * Create a badge from a rule
+ */
+export async function createBadge(data: {
+  name: string;
+  description: string;
+  icon: string;
+  rule?: BadgeRule; // Omit for a badge that is only granted
+  isActive?: boolean;
+}) {
+  const response = await api.post('/admin/badges', data);
+  return response.data.data;
+}
+
+/**
+ * Update a badge's details, rule or active state
+ */
+export async function updateBadge(
+  badgeId: string,
+  updates: Partial<{ name: string; description: string; icon: string; rule: BadgeRule; isActive: boolean }>
+) {
+  const response = await api.put(`/admin/badges/${badgeId}`, updates);
+  return response.data.data;
+}
+
+/**
+ * Count how many users a rule would award, without awarding
+ */
+export async function dryRunBadgeRule(rule: BadgeRule): Promise<BadgeDryRunResult> {
+  const response = await api.post('/admin/badges/dry-run', { rule });
+  return response.data.data;
+}
+
 /**
  * Get moderation statistics
  */
@@ -39,6 +39,16 @@ export interface ResetPasswordData {
   newPassword: string;
 }
 
+export interface UserSession {
+  sessionId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
 export const authService = {
   // Register new user
   async register(data: RegisterData): Promise<AuthResponse> {
@@ -76,12 +86,32 @@ export const authService = {
     return response.data;
   },
 
-  // Refresh token
-  async refreshToken(refreshToken: string): Promise<{ success: boolean; data: { accessToken: string } }> {
+  // Refresh token (the refresh token is rotated; store the new one)
+  async refreshToken(
+    refreshToken: string
+  ): Promise<{ success: boolean; data: { accessToken: string; refreshToken: string } }> {
     const response = await api.post('/auth/refresh', { refreshToken });
     return response.data;
   },
 
+  // List signed-in devices
+  async getSessions(): Promise<{ success: boolean; data: { sessions: UserSession[] } }> {
+    const response = await api.get('/auth/sessions');
+    return response.data;
+  },
+
+  // Sign out a single device
+  async revokeSession(sessionId: string) {
+    const response = await api.delete(`/auth/sessions/${sessionId}`);
+    return response.data;
+  },
+
+  // Sign out all devices, optionally keeping this one
+  async revokeAllSessions(keepCurrent = false) {
+    const response = await api.delete('/auth/sessions', { params: { keepCurrent } });
+    return response.data;
+  },
+
   // Forgot password
   async forgotPassword(data: ForgotPasswordData) {
     const response = await api.post('/auth/forgot-password', data);
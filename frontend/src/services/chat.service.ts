@@ -5,11 +5,30 @@
 
 import api from './api';
 
+// Matches the server's edit window
+export const EDIT_WINDOW_MINUTES = 15;
+
+export type ConversationType = 'DIRECT' | 'GROUP' | 'EVENT';
+export type ConversationRole = 'OWNER' | 'ADMIN' | 'MEMBER';
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+export interface MessageEdit {
+  editId: string;
+  messageId: string;
+  previousContent: string;
+  editedAt: string;
+}
+
 export interface Message {
   messageId: string;
   conversationId: string;
   senderId: string;
-  receiverId: string;
+  receiverId: string | null; // Null in group and event conversations
   content: string;
   messageType: 'TEXT' | 'IMAGE' | 'FILE' | 'SYSTEM';
   imageUrl?: string;
@@ -23,8 +42,10 @@ export interface Message {
   replyToId?: string;
   isDeleted: boolean;
   deletedAt?: string;
+  editedAt?: string;
   createdAt: string;
   updatedAt: string;
+  reactions: ReactionSummary[];
   sender?: {
     userId: string;
     name: string;
@@ -39,6 +60,11 @@ export interface Message {
 
 export interface Conversation {
   conversationId: string;
+  type: ConversationType;
+  name?: string; // Group and event conversations
+  eventId?: string | null;
+  role?: ConversationRole;
+  participantCount?: number;
   otherUser?: {
     userId: string;
     name: string;
@@ -48,10 +74,113 @@ export interface Conversation {
   latestMessage?: Message;
   unreadCount: number;
   isOnline: boolean;
+  isArchived: boolean;
+  isPinned: boolean;
+  isMuted: boolean;
+  mutedUntil?: string | null;
+}
+
+export interface ConversationPreferences {
+  archived?: boolean;
+  pinned?: boolean;
+  muted?: boolean;
+  mutedUntil?: string | null; // With muted; omit to mute until unmuted
+}
+
+export type ConversationExportFormat = 'json' | 'html';
+
+export interface MessageSearchFilters {
+  otherUserId?: string;
+  conversationId?: string;
+  from?: string;
+  to?: string;
+  messageType?: 'TEXT' | 'IMAGE' | 'FILE';
+  limit?: number;
+  offset?: number;
+}
+
+export interface MessageSearchContext {
+  messageId: string;
+  senderId: string;
+  content: string;
+  createdAt: string;
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  messageType: Message['messageType'];
+  fileName?: string | null;
+  createdAt: string;
+  rank: number;
+  snippet: string;
+  sender: { userId: string; name: string; avatar?: string } | null;
+  conversation: {
+    conversationId: string;
+    type: ConversationType;
+    name?: string | null;
+    otherUser?: { userId: string; name: string; avatar?: string } | null;
+  };
+  context: {
+    previous: MessageSearchContext | null;
+    next: MessageSearchContext | null;
+  };
+}
+
+export interface ConversationParticipant {
+  participantId: string;
+  userId: string;
+  role: ConversationRole;
+  joinedAt: string;
+  user: {
+    userId: string;
+    name: string;
+    avatar?: string;
+  };
+}
+
+export interface GroupConversation {
+  conversationId: string;
+  type: ConversationType;
+  name: string;
+  description?: string;
+  eventId?: string | null;
+  participants: ConversationParticipant[];
+  event?: {
+    eventId: string;
+    title: string;
+    startTime: string;
+  } | null;
+}
+
+export interface ConversationInvite {
+  inviteId: string;
+  conversationId: string;
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED';
+  createdAt: string;
+  conversation: {
+    conversationId: string;
+    type: ConversationType;
+    name: string;
+    description?: string;
+    _count: { participants: number };
+  };
+  inviter: {
+    userId: string;
+    name: string;
+    avatar?: string;
+  };
+}
+
+export interface ConversationPresence {
+  isOnline: boolean;
+  lastSeen: string | null;
+  isTyping: boolean;
 }
 
 export interface SendMessageData {
-  receiverId: string;
+  receiverId?: string;
+  conversationId?: string; // Group or event conversation
   content: string;
   messageType?: 'TEXT' | 'IMAGE' | 'FILE';
   imageUrl?: string;
@@ -73,11 +202,46 @@ export const sendMessage = async (data: SendMessageData) => {
 /**
  * Get user's conversations list
  */
-export const getConversations = async (): Promise<{
+export const getConversations = async (
+  archived: boolean = false
+): Promise<{
   conversations: Conversation[];
   totalUnread: number;
 }> => {
-  const response = await api.get('/chat/conversations');
+  const response = await api.get('/chat/conversations', {
+    params: archived ? { archived: true } : undefined,
+  });
+  return response.data;
+};
+
+/**
+ * Id of a 1:1 conversation (the two user ids, sorted)
+ */
+export const getDirectConversationId = (userId1: string, userId2: string) =>
+  [userId1, userId2].sort().join('_');
+
+/**
+ * Archive, pin or mute a conversation for yourself
+ */
+export const updateConversationPreferences = async (
+  conversationId: string,
+  preferences: ConversationPreferences
+) => {
+  const response = await api.put(`/chat/conversations/${conversationId}/preferences`, preferences);
+  return response.data.data;
+};
+
+/**
+ * Download a conversation as JSON or printable HTML
+ */
+export const exportConversation = async (
+  conversationId: string,
+  format: ConversationExportFormat
+): Promise<Blob> => {
+  const response = await api.get(`/chat/conversations/${conversationId}/export`, {
+    params: { format },
+    responseType: 'blob',
+  });
   return response.data;
 };
 
@@ -93,6 +257,7 @@ export const getConversationMessages = async (
 ): Promise<{
   messages: Message[];
   conversationId: string;
+  presence: ConversationPresence;
 }> => {
   const response = await api.get(`/chat/conversations/${userId}`, { params });
   return response.data;
@@ -115,15 +280,15 @@ export const deleteMessage = async (messageId: string) => {
 };
 
 /**
- * Search messages in a conversation
+ * Search your conversations. Matched terms in `snippet` are wrapped in
+ * <mark></mark>; everything else is plain text.
  */
 export const searchMessages = async (
-  otherUserId: string,
   query: string,
-  limit?: number
-) => {
+  filters: MessageSearchFilters = {}
+): Promise<{ messages: MessageSearchResult[]; total: number }> => {
   const response = await api.get('/chat/search', {
-    params: { otherUserId, query, limit },
+    params: { query, ...filters },
   });
   return response.data;
 };
@@ -152,10 +317,175 @@ export const markMessageDelivered = async (messageId: string) => {
   return response.data;
 };
 
+/**
+ * Mark a single message as read
+ */
+export const markMessageRead = async (messageId: string) => {
+  const response = await api.post(`/chat/messages/${messageId}/read`);
+  return response.data;
+};
+
+/**
+ * Edit one of your messages
+ */
+export const editMessage = async (messageId: string, content: string): Promise<Message> => {
+  const response = await api.put(`/chat/messages/${messageId}`, { content });
+  return response.data.data;
+};
+
+/**
+ * Get the edit history of a message, oldest first
+ */
+export const getMessageEdits = async (messageId: string): Promise<MessageEdit[]> => {
+  const response = await api.get(`/chat/messages/${messageId}/edits`);
+  return response.data.edits;
+};
+
+/**
+ * React to a message with an emoji
+ */
+export const addReaction = async (messageId: string, emoji: string): Promise<ReactionSummary[]> => {
+  const response = await api.post(`/chat/messages/${messageId}/reactions`, { emoji });
+  return response.data.reactions;
+};
+
+/**
+ * Remove your emoji reaction from a message
+ */
+export const removeReaction = async (messageId: string, emoji: string): Promise<ReactionSummary[]> => {
+  const response = await api.delete(
+    `/chat/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`
+  );
+  return response.data.reactions;
+};
+
+/**
+ * Create a group and invite people to it
+ */
+export const createGroup = async (data: {
+  name: string;
+  description?: string;
+  inviteeIds?: string[];
+}): Promise<GroupConversation> => {
+  const response = await api.post('/chat/groups', data);
+  return response.data.data;
+};
+
+/**
+ * Get a group with its participants
+ */
+export const getGroup = async (conversationId: string): Promise<GroupConversation> => {
+  const response = await api.get(`/chat/groups/${conversationId}`);
+  return response.data.data;
+};
+
+/**
+ * Rename a group or change its description
+ */
+export const updateGroup = async (
+  conversationId: string,
+  data: { name?: string; description?: string }
+): Promise<GroupConversation> => {
+  const response = await api.put(`/chat/groups/${conversationId}`, data);
+  return response.data.data;
+};
+
+/**
+ * Get messages of a group
+ */
+export const getGroupMessages = async (
+  conversationId: string,
+  params?: {
+    limit?: number;
+    offset?: number;
+  }
+): Promise<{ messages: Message[]; conversationId: string }> => {
+  const response = await api.get(`/chat/groups/${conversationId}/messages`, { params });
+  return response.data;
+};
+
+/**
+ * Reset your unread count for a group
+ */
+export const markGroupAsRead = async (conversationId: string) => {
+  const response = await api.put(`/chat/groups/${conversationId}/read`);
+  return response.data;
+};
+
+/**
+ * Invite a user to a group
+ */
+export const inviteToGroup = async (conversationId: string, userId: string) => {
+  const response = await api.post(`/chat/groups/${conversationId}/invites`, { userId });
+  return response.data;
+};
+
+/**
+ * Leave a group
+ */
+export const leaveGroup = async (conversationId: string) => {
+  const response = await api.post(`/chat/groups/${conversationId}/leave`);
+  return response.data;
+};
+
+/**
+ * Remove someone from a group
+ */
+export const removeParticipant = async (conversationId: string, userId: string) => {
+  const response = await api.delete(`/chat/groups/${conversationId}/participants/${userId}`);
+  return response.data;
+};
+
+/**
+ * Change a participant's role. Making someone OWNER transfers ownership.
+ */
+export const updateParticipantRole = async (
+  conversationId: string,
+  userId: string,
+  role: ConversationRole
+): Promise<GroupConversation> => {
+  const response = await api.put(`/chat/groups/${conversationId}/participants/${userId}`, { role });
+  return response.data.data;
+};
+
+/**
+ * Get your pending group invites
+ */
+export const getInvites = async (): Promise<ConversationInvite[]> => {
+  const response = await api.get('/chat/invites');
+  return response.data.invites;
+};
+
+/**
+ * Accept a group invite
+ */
+export const acceptInvite = async (inviteId: string) => {
+  const response = await api.post(`/chat/invites/${inviteId}/accept`);
+  return response.data;
+};
+
+/**
+ * Decline a group invite
+ */
+export const declineInvite = async (inviteId: string) => {
+  const response = await api.post(`/chat/invites/${inviteId}/decline`);
+  return response.data;
+};
+
+/**
+ * Get the chat of an event you organize or are registered for
+ */
+export const getEventChat = async (eventId: string): Promise<GroupConversation> => {
+  const response = await api.get(`/chat/events/${eventId}`);
+  return response.data.data;
+};
+
 // Export all functions as a service object
 const chatService = {
   sendMessage,
   getConversations,
+  updateConversationPreferences,
+  exportConversation,
   getConversationMessages,
   markConversationAsRead,
   deleteMessage,
@@ -163,6 +493,24 @@ const chatService = {
   getUnreadCount,
   getOnlineUsers,
   markMessageDelivered,
+  markMessageRead,
+  editMessage,
+  getMessageEdits,
+  addReaction,
+  removeReaction,
+  createGroup,
+  getGroup,
+  updateGroup,
+  getGroupMessages,
+  markGroupAsRead,
+  inviteToGroup,
+  leaveGroup,
+  removeParticipant,
+  updateParticipantRole,
+  getInvites,
+  acceptInvite,
+  declineInvite,
+  getEventChat,
 };
 
 export default chatService;
@@ -39,6 +39,33 @@ export interface ConnectionStatus {
   isMutual: boolean;
 }
 
+export type ConnectionRequestStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED';
+
+export interface ConnectionRequest {
+  requestId: string;
+  senderId: string;
+  receiverId: string;
+  status: ConnectionRequestStatus;
+  message?: string | null;
+  createdAt: string;
+  respondedAt?: string | null;
+  sender?: ConnectionUser;
+  receiver?: ConnectionUser;
+}
+
+export interface AcceptedConnection {
+  requestId: string;
+  connectedAt: string;
+  user: ConnectionUser;
+}
+
+export type ConnectionRelationship =
+  | 'SELF'
+  | 'CONNECTED'
+  | 'REQUEST_SENT'
+  | 'REQUEST_RECEIVED'
+  | 'NONE';
+
 /**
  * Follow a user
  */
@@ -131,6 +158,70 @@ export async function searchUsers(
   return response.data.data;
 }
 
+/**
+ * Send a connection request, with an optional note
+ */
+export async function sendConnectionRequest(
+  userId: string,
+  message?: string
+): Promise<ConnectionRequest> {
+  const response = await api.post(`/connections/requests/${userId}`, { message });
+  return response.data.data;
+}
+
+/**
+ * Get pending requests sent to the current user
+ */
+export async function getIncomingRequests(): Promise<ConnectionRequest[]> {
+  const response = await api.get('/connections/requests');
+  return response.data.data;
+}
+
+/**
+ * Get pending requests the current user has sent
+ */
+export async function getSentRequests(): Promise<ConnectionRequest[]> {
+  const response = await api.get('/connections/requests/sent');
+  return response.data.data;
+}
+
+/**
+ * Accept a connection request
+ */
+export async function acceptConnectionRequest(requestId: string): Promise<ConnectionRequest> {
+  const response = await api.post(`/connections/requests/${requestId}/accept`);
+  return response.data.data;
+}
+
+/**
+ * Decline a connection request
+ */
+export async function declineConnectionRequest(requestId: string): Promise<void> {
+  await api.post(`/connections/requests/${requestId}/decline`);
+}
+
+/**
+ * Withdraw a pending request the current user sent
+ */
+export async function cancelConnectionRequest(requestId: string): Promise<void> {
+  await api.delete(`/connections/requests/${requestId}`);
+}
+
+/**
+ * Get the current user's accepted connections
+ */
+export async function getAcceptedConnections(): Promise<AcceptedConnection[]> {
+  const response = await api.get('/connections/accepted');
+  return response.data.data;
+}
+
+/**
+ * Remove an accepted connection
+ */
+export async function removeAcceptedConnection(userId: string): Promise<void> {
+  await api.delete(`/connections/accepted/${userId}`);
+}
+
 // Utility functions
 
 /**
@@ -42,6 +42,54 @@ export interface Event {
     attendees: number;
   };
   isRegistered?: boolean;
+  waitlistPosition?: number | null; // Set while the current user is waitlisted
+  attendanceStatus?: AttendanceStatus;
+}
+
+export type AttendanceStatus = 'REGISTERED' | 'WAITLISTED' | 'ATTENDED' | 'NO_SHOW';
+
+export interface EventRegistration {
+  attendanceId: string;
+  eventId: string;
+  userId: string;
+  status: AttendanceStatus;
+  waitlistPosition: number | null;
+  registeredAt: string;
+}
+
+export interface WaitlistEntry extends EventAttendee {
+  waitlistPosition: number;
+}
+
+export interface CheckInCode {
+  code: string;
+  qrSvg: string;
+  status: AttendanceStatus;
+  checkedInAt: string | null;
+}
+
+export interface CheckInResult {
+  userId: string;
+  name: string;
+  avatar?: string;
+  alreadyCheckedIn: boolean;
+  checkedInAt: string;
+}
+
+export interface CheckInSheet {
+  summary: {
+    registered: number;
+    attended: number;
+    noShow: number;
+  };
+  attendees: Array<{
+    userId: string;
+    name: string;
+    avatar?: string;
+    attendanceStatus: AttendanceStatus;
+    checkedInAt: string | null;
+    selfCheckIn: boolean;
+  }>;
 }
 
 export interface EventAttendee {
@@ -51,6 +99,7 @@ export interface EventAttendee {
   city?: string;
   state?: string;
   registeredAt: string;
+  attendanceStatus?: AttendanceStatus;
 }
 
 export type EventType =
@@ -220,8 +269,9 @@ export async function getAttendingEvents(): Promise<Event[]> {
 /**
  * Register for an event
  */
-export async function registerForEvent(eventId: string): Promise<void> {
-  await api.post(`/events/${eventId}/register`);
+export async function registerForEvent(eventId: string): Promise<EventRegistration> {
+  const response = await api.post(`/events/${eventId}/register`);
+  return response.data.data;
 }
 
 /**
@@ -239,6 +289,66 @@ export async function getEventAttendees(eventId: string): Promise<EventAttendee[
   return response.data.data;
 }
 
+/**
+ * Get event waitlist (organizer only)
+ */
+export async function getEventWaitlist(eventId: string): Promise<WaitlistEntry[]> {
+  const response = await api.get(`/events/${eventId}/waitlist`);
+  return response.data.data;
+}
+
+/**
+ * Move a waitlisted user to a new position (organizer only)
+ */
+export async function moveWaitlistEntry(
+  eventId: string,
+  userId: string,
+  position: number
+): Promise<WaitlistEntry[]> {
+  const response = await api.put(`/events/${eventId}/waitlist/${userId}`, { position });
+  return response.data.data;
+}
+
+/**
+ * Get the current user's check-in code and QR code
+ */
+export async function getCheckInCode(eventId: string): Promise<CheckInCode> {
+  const response = await api.get(`/events/${eventId}/check-in-code`);
+  return response.data.data;
+}
+
+/**
+ * Check an attendee in with their code (organizer only)
+ */
+export async function checkInAttendee(eventId: string, code: string): Promise<CheckInResult> {
+  const response = await api.post(`/events/${eventId}/check-in`, { code });
+  return response.data.data;
+}
+
+/**
+ * Check in when joining an online event; returns the meeting link
+ */
+export async function selfCheckIn(eventId: string): Promise<{ meetingLink: string | null }> {
+  const response = await api.post(`/events/${eventId}/self-check-in`);
+  return response.data.data;
+}
+
+/**
+ * Get the attendance sheet (organizer only)
+ */
+export async function getEventCheckIns(eventId: string): Promise<CheckInSheet> {
+  const response = await api.get(`/events/${eventId}/check-ins`);
+  return response.data.data;
+}
+
+/**
+ * Download an event as an .ics file
+ */
+export async function downloadEventCalendar(eventId: string): Promise<Blob> {
+  const response = await api.get(`/events/${eventId}/ics`, { responseType: 'blob' });
+  return response.data;
+}
+
 // Utility functions
 
 /**
@@ -0,0 +1,125 @@
+/**
+ * Feed Service
+ * Frontend API integration for the activity feed of followed users
+ */
+
+import api from './api';
+
+// Types
+export type ActivityType =
+  | 'SKILL_ADDED'
+  | 'SWAP_COMPLETED'
+  | 'BADGE_EARNED'
+  | 'EVENT_PUBLISHED'
+  | 'REVIEW_POSTED';
+
+export type ActivityVisibility = 'FOLLOWERS' | 'CONNECTIONS' | 'NOBODY';
+
+export interface Activity {
+  activityId: string;
+  actorId: string;
+  type: ActivityType;
+  entityId: string;
+  data: Record<string, any> | null;
+  createdAt: string;
+  actor: {
+    userId: string;
+    name: string;
+    avatar?: string | null;
+  };
+}
+
+export interface FeedPage {
+  activities: Activity[];
+  nextCursor: string | null;
+}
+
+export interface ActivitySettings {
+  skills: ActivityVisibility;
+  swaps: ActivityVisibility;
+  badges: ActivityVisibility;
+  events: ActivityVisibility;
+  reviews: ActivityVisibility;
+}
+
+/**
+ * Get a page of the feed. Pass the previous page's nextCursor to continue.
+ */
+export async function getFeed(params?: {
+  cursor?: string;
+  limit?: number;
+  type?: ActivityType;
+}): Promise<FeedPage> {
+  const searchParams = new URLSearchParams();
+
+  if (params) {
+    if (params.cursor) searchParams.append('cursor', params.cursor);
+    if (params.limit) searchParams.append('limit', String(params.limit));
+    if (params.type) searchParams.append('type', params.type);
+  }
+
+  const response = await api.get(`/feed?${searchParams.toString()}`);
+  return response.data.data;
+}
+
+/**
+ * Get who can see each kind of your activity
+ */
+export async function getActivitySettings(): Promise<ActivitySettings> {
+  const response = await api.get('/feed/settings');
+  return response.data.data;
+}
+
+/**
+ * Change who can see each kind of your activity
+ */
+export async function updateActivitySettings(
+  updates: Partial<ActivitySettings>
+): Promise<ActivitySettings> {
+  const response = await api.put('/feed/settings', updates);
+  return response.data.data;
+}
+
+// Utility functions
+
+/**
+ * One-line description of an activity, without the actor's name
+ */
+export function describeActivity(activity: Activity): string {
+  const data = activity.data || {};
+
+  switch (activity.type) {
+    case 'SKILL_ADDED':
+      return data.skillType === 'LEARN'
+        ? `wants to learn ${data.skillName}`
+        : `can now teach ${data.skillName}`;
+    case 'SWAP_COMPLETED':
+      return data.taughtSkill && data.learnedSkill
+        ? `completed a swap with ${data.partnerName}, trading ${data.taughtSkill} for ${data.learnedSkill}`
+        : `completed a swap with ${data.partnerName}`;
+    case 'BADGE_EARNED':
+      return `earned the ${data.badgeName} badge`;
+    case 'EVENT_PUBLISHED':
+      return `is hosting ${data.title}`;
+    case 'REVIEW_POSTED':
+      return `gave ${data.teacherName} a ${data.rating}-star review`;
+    default:
+      return 'did something new';
+  }
+}
+
+/**
+ * Short relative time, e.g. "5m ago"
+ */
+export function formatActivityTime(dateString: string): string {
+  const diffMs = Date.now() - new Date(dateString).getTime();
+  const minutes = Math.floor(diffMs / 60000);
+
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(dateString).toLocaleDateString();
+}
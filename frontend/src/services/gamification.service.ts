@@ -36,18 +36,61 @@ export interface LeaderboardEntry {
   level: number;
   coins: number;
   rating: number;
+  ratingLow: number; // 95% confidence interval of the rating
+  ratingHigh: number;
   completedSwaps: number;
   totalHoursTaught: number;
   totalHoursLearned: number;
   experiencePoints: number;
   city: string | null;
   state: string | null;
+  score?: number; // Activity within the window for week, month and season boards
+}
+
+export type LeaderboardMetric = 'level' | 'coins' | 'rating' | 'swaps' | 'hoursTaught';
+export type LeaderboardPeriod = 'all' | 'week' | 'month' | 'season';
+
+// Weekly, monthly and season boards rank activity, so only these metrics apply
+export const WINDOWED_METRICS: LeaderboardMetric[] = ['swaps', 'hoursTaught'];
+
+export interface LeaderboardOptions {
+  period?: LeaderboardPeriod;
+  city?: string;
+  state?: string;
+  categoryId?: string;
+  seasonId?: string;
 }
 
 export interface RankData {
-  rank: number;
+  rank: number | null; // null when the user has no activity in the window
   metricValue: number;
   metric: string;
+  period?: LeaderboardPeriod;
+  windowStart?: string;
+  windowEnd?: string;
+}
+
+export type SeasonStatus = 'UPCOMING' | 'ACTIVE' | 'ENDED';
+
+export interface Season {
+  seasonId: string;
+  name: string;
+  metric: LeaderboardMetric;
+  startsAt: string;
+  endsAt: string;
+  rewards: Array<{ fromRank: number; toRank: number; coins?: number; badgeId?: string }>;
+  finalizedAt: string | null;
+  status: SeasonStatus;
+}
+
+export interface SeasonStanding {
+  standingId: string;
+  userId: string;
+  rank: number;
+  score: number;
+  rewardCoins: number;
+  rewardBadgeId: string | null;
+  user: { userId: string; name: string; avatar: string | null };
 }
 
 export interface LevelInfo {
@@ -65,6 +108,57 @@ export interface AwardXPResponse {
 export interface AwardCoinsResponse {
   amount: number;
   reason: string;
+  balance: number;
+  transactionId: string;
+}
+
+export type CoinTransactionSource =
+  | 'SWAP'
+  | 'BADGE'
+  | 'EVENT'
+  | 'REVIEW'
+  | 'LEVEL'
+  | 'ADMIN'
+  | 'SEASON'
+  | 'SYSTEM';
+
+export interface CoinTransaction {
+  transactionId: string;
+  userId: string;
+  amount: number; // Positive for credits, negative for debits
+  balanceAfter: number;
+  reason: string;
+  sourceType: CoinTransactionSource;
+  sourceId: string | null;
+  actorId: string | null;
+  actor: { userId: string; name: string; avatar: string | null } | null;
+  metadata: Record<string, any> | null;
+  createdAt: string;
+}
+
+export interface CoinTransactionHistory {
+  transactions: CoinTransaction[];
+  summary: {
+    earnedThisWeek: number;
+    spentThisWeek: number;
+  };
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+export interface CoinTransactionFilters {
+  page?: number;
+  limit?: number;
+  type?: 'earned' | 'spent';
+  sourceType?: CoinTransactionSource;
+  startDate?: string;
+  endDate?: string;
 }
 
 export interface CheckBadgesResponse {
@@ -89,14 +183,15 @@ export async function getUserStats(userId?: string): Promise<UserStats> {
 }
 
 /**
- * Get leaderboard by metric
+ * Get leaderboard by metric, all time or for the current week, month or season
  */
 export async function getLeaderboard(
-  metric: 'level' | 'coins' | 'rating' | 'swaps' | 'hoursTaught',
-  limit: number = 10
+  metric: LeaderboardMetric,
+  limit: number = 10,
+  options: LeaderboardOptions = {}
 ): Promise<LeaderboardEntry[]> {
   const response = await api.get(`/gamification/leaderboard/${metric}`, {
-    params: { limit },
+    params: { limit, ...options },
   });
   return response.data.data.leaderboard;
 }
@@ -105,13 +200,41 @@ export async function getLeaderboard(
  * Get user's rank in a specific leaderboard
  */
 export async function getUserRank(
-  metric: 'level' | 'coins' | 'rating' | 'swaps' | 'hoursTaught',
-  userId?: string
+  metric: LeaderboardMetric,
+  userId?: string,
+  options: {
+    period?: LeaderboardPeriod;
+    scope?: 'global' | 'state' | 'city' | 'category';
+    categoryId?: string;
+    seasonId?: string;
+  } = {}
 ): Promise<RankData> {
   const url = userId
     ? `/gamification/rank/${metric}/${userId}`
     : `/gamification/rank/${metric}`;
-  const response = await api.get(url);
+  const response = await api.get(url, { params: options });
+  return response.data.data;
+}
+
+/**
+ * Get all seasons, newest first
+ */
+export async function getSeasons(): Promise<Season[]> {
+  const response = await api.get('/gamification/seasons');
+  return response.data.data;
+}
+
+/**
+ * Get the archived final standings of a season
+ */
+export async function getSeasonStandings(
+  seasonId: string,
+  limit: number = 50,
+  offset: number = 0
+): Promise<{ season: Season; standings: SeasonStanding[]; total: number }> {
+  const response = await api.get(`/gamification/seasons/${seasonId}/standings`, {
+    params: { limit, offset },
+  });
   return response.data.data;
 }
 
@@ -182,14 +305,17 @@ export async function deductCoins(
 }
 
 /**
- * Get coin transaction history
+ * Get coin transaction history (paginated ledger)
  */
-export async function getCoinTransactions(userId?: string): Promise<any[]> {
+export async function getCoinTransactions(
+  userId?: string,
+  filters: CoinTransactionFilters = {}
+): Promise<CoinTransactionHistory> {
   const url = userId
     ? `/gamification/transactions/${userId}`
     : '/gamification/transactions';
-  const response = await api.get(url);
-  return response.data.data.transactions;
+  const response = await api.get(url, { params: filters });
+  return response.data.data;
 }
 
 /**
@@ -244,6 +370,8 @@ const gamificationService = {
   getUserStats,
   getLeaderboard,
   getUserRank,
+  getSeasons,
+  getSeasonStandings,
   checkAndAwardBadges,
   getLevelsInfo,
   awardXP,
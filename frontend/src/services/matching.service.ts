@@ -5,6 +5,8 @@ export interface MatchFilters {
   city?: string;
   state?: string;
   minRating?: number;
+  maxDistanceKm?: number;
+  sortBy?: 'score' | 'distance';
   remoteOnly?: boolean;
   limit?: number;
 }
@@ -19,6 +21,7 @@ export interface Match {
   rating: number;
   completedSwaps: number;
   matchScore: number;
+  distance: number | null; // km, null when either user has no location set
   matchedSkills: Array<{
     skillId: string;
     skillName: string;
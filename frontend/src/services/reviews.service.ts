@@ -7,7 +7,7 @@ import api from './api';
 
 export interface ReviewSubmission {
   swapId: string;
-  teacherId: string;
+  teacherId?: string; // Defaults to the other party of the swap
   rating: number;
   comment?: string;
   teachingQuality?: number;
@@ -32,6 +32,7 @@ export interface Review {
   swapId: string;
   studentId: string;
   teacherId: string;
+  userSkillId?: string | null;
   rating: number;
   comment?: string;
   teachingQuality?: number;
@@ -41,6 +42,9 @@ export interface Review {
   isPublic: boolean;
   helpfulCount: number;
   isEdited: boolean;
+  isRevealed: boolean; // False until both parties reviewed or the review window closed
+  reply?: string | null; // The reviewed user's public response
+  repliedAt?: string | null;
   createdAt: string;
   updatedAt: string;
   student?: {
@@ -59,6 +63,13 @@ export interface Review {
     swapId: string;
     completedAt?: string;
   };
+  userSkill?: {
+    userSkillId: string;
+    skill: {
+      skillId: string;
+      name: string;
+    };
+  } | null;
   votes?: Array<{
     voteId: string;
     userId: string;
@@ -79,6 +90,19 @@ export interface RatingStats {
   teachingQuality: number;
   communication: number;
   punctuality: number;
+  confidence: {
+    low: number;
+    high: number;
+  };
+  skills: SkillRating[];
+}
+
+export interface SkillRating {
+  userSkillId: string;
+  skillId: string;
+  skillName: string;
+  rating: number;
+  reviewCount: number;
 }
 
 export interface UserReviewsResponse {
@@ -112,6 +136,7 @@ export const getUserReviews = async (
     limit?: number;
     offset?: number;
     minRating?: number;
+    userSkillId?: string;
   }
 ): Promise<UserReviewsResponse> => {
   const response = await api.get(`/reviews/user/${userId}`, { params });
@@ -135,7 +160,7 @@ export const getReviewById = async (reviewId: string) => {
 };
 
 /**
- * Edit a review (within 24 hours)
+ * Edit a review (within 24 hours, until it is revealed)
  */
 export const editReview = async (reviewId: string, data: ReviewEdit) => {
   const response = await api.put(`/reviews/${reviewId}`, data);
@@ -158,6 +183,33 @@ export const voteOnReview = async (reviewId: string, isHelpful: boolean) => {
   return response.data;
 };
 
+/**
+ * Add or change your public reply to a review about you
+ */
+export const replyToReview = async (reviewId: string, reply: string) => {
+  const response = await api.put(`/reviews/${reviewId}/reply`, { reply });
+  return response.data;
+};
+
+/**
+ * Remove your reply to a review
+ */
+export const deleteReviewReply = async (reviewId: string) => {
+  const response = await api.delete(`/reviews/${reviewId}/reply`);
+  return response.data;
+};
+
+/**
+ * Dispute a review about you; a moderator will uphold, hide or remove it
+ */
+export const disputeReview = async (
+  reviewId: string,
+  data: { reason: string; description?: string; evidence?: string[] }
+) => {
+  const response = await api.post(`/reviews/${reviewId}/dispute`, data);
+  return response.data;
+};
+
 /**
  * Get detailed rating statistics for a user
  */
@@ -175,6 +227,9 @@ const reviewsService = {
   editReview,
   deleteReview,
   voteOnReview,
+  replyToReview,
+  deleteReviewReply,
+  disputeReview,
   getUserStats,
 };
 
@@ -28,6 +28,7 @@ export interface SubscriptionTierConfig {
     adFree: boolean;
     supportPriority: 'standard' | 'priority' | 'vip';
     maxConnections: number;
+    maxUploadSizeMb: number;
     monetization?: boolean;
     corporateFeatures?: boolean;
   };
@@ -11,6 +11,7 @@ export interface Swap {
   status: SwapStatus;
   completedAt: string | null;
   duration: number | null;
+  stakeAmount: number; // SkillCoins each party locks on accept
   createdAt: string;
   updatedAt: string;
   initiator: {
@@ -47,6 +48,7 @@ export interface CreateSwapData {
   receiverId: string;
   initiatorSkillId: string;
   receiverSkillId: string;
+  stakeAmount?: number;
 }
 
 export interface CreateSessionData {
@@ -60,6 +62,25 @@ export interface UpdateSessionData {
   notes?: string;
 }
 
+export interface TimeSlot {
+  startTime: string;
+  endTime: string;
+}
+
+export interface SwapTimeProposal extends TimeSlot {
+  proposalId: string;
+  swapId: string;
+  proposedById: string;
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'SUPERSEDED';
+  respondedAt: string | null;
+  createdAt: string;
+}
+
+export interface SuggestedTimes {
+  slots: TimeSlot[];
+  missingAvailability: string[]; // users who have not set availability yet
+}
+
 export const swapsService = {
   // Create swap request
   async createSwap(data: CreateSwapData) {
@@ -126,6 +147,36 @@ export const swapsService = {
     return response.data;
   },
 
+  // Get mutually free times
+  async getSuggestedTimes(
+    swapId: string,
+    params?: { duration?: number; days?: number; limit?: number }
+  ): Promise<{ success: boolean; data: SuggestedTimes }> {
+    const response = await api.get(`/swaps/${swapId}/suggested-times`, { params });
+    return response.data;
+  },
+
+  // Propose times (omit times to propose the best suggestions)
+  async proposeTimes(
+    swapId: string,
+    data: { times?: TimeSlot[]; duration?: number }
+  ): Promise<{ success: boolean; data: { proposals: SwapTimeProposal[] } }> {
+    const response = await api.post(`/swaps/${swapId}/propose-times`, data);
+    return response.data;
+  },
+
+  // Accept a proposed time
+  async acceptTime(swapId: string, proposalId: string) {
+    const response = await api.post(`/swaps/${swapId}/accept-time`, { proposalId });
+    return response.data;
+  },
+
+  // Download the swap schedule as an .ics file
+  async downloadCalendar(swapId: string): Promise<Blob> {
+    const response = await api.get(`/swaps/${swapId}/ics`, { responseType: 'blob' });
+    return response.data;
+  },
+
   // Get swap statistics
   async getSwapStats() {
     const response = await api.get('/swaps/stats');
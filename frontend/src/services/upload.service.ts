@@ -0,0 +1,64 @@
+/**
+ * Upload Service
+ * Frontend API integration for file uploads
+ */
+
+import api from './api';
+
+export type UploadPurpose = 'AVATAR' | 'CHAT_ATTACHMENT' | 'EVENT_IMAGE';
+
+export interface UploadedFile {
+  uploadId: string;
+  url: string; // Reference to send with profiles, messages and events
+  purpose: UploadPurpose;
+  mimeType: string;
+  originalName: string;
+  size: number;
+  hasThumbnail: boolean;
+}
+
+export interface SignedUploadUrl {
+  url: string;
+  expiresAt: string;
+}
+
+/**
+ * Upload a file. Size limits depend on the subscription plan.
+ */
+export async function uploadFile(
+  file: File,
+  purpose: UploadPurpose,
+  onProgress?: (percent: number) => void
+): Promise<UploadedFile> {
+  const formData = new FormData();
+  formData.append('purpose', purpose);
+  formData.append('file', file);
+
+  const response = await api.post('/uploads', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+    onUploadProgress: (event) => {
+      if (onProgress && event.total) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    },
+  });
+  return response.data.data;
+}
+
+/**
+ * Get a short-lived download URL, e.g. for a private chat attachment
+ */
+export async function getUploadUrl(
+  uploadId: string,
+  variant: 'original' | 'thumbnail' = 'original'
+): Promise<SignedUploadUrl> {
+  const response = await api.get(`/uploads/${uploadId}/url`, { params: { variant } });
+  return response.data.data;
+}
+
+/**
+ * Delete one of your uploads
+ */
+export async function deleteUpload(uploadId: string): Promise<void> {
+  await api.delete(`/uploads/${uploadId}`);
+}
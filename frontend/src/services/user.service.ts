@@ -1,4 +1,5 @@
 import api from './api';
+import { MessagePermission, FieldVisibility } from '../stores/authStore';
 
 export interface UpdateProfileData {
   name?: string;
@@ -6,6 +7,9 @@ export interface UpdateProfileData {
   bio?: string;
   city?: string;
   state?: string;
+  avatar?: string | null; // Upload reference from uploadFile(..., 'AVATAR')
+  messagePermission?: MessagePermission;
+  contactVisibility?: FieldVisibility;
 }
 
 export interface UserStats {
@@ -18,7 +22,65 @@ export interface UserStats {
   skillCoins: number;
 }
 
+export interface AvailabilityWindow {
+  dayOfWeek: number; // 0 = Sunday
+  startMinute: number; // minutes from local midnight
+  endMinute: number;
+}
+
+export interface BlockedUser {
+  blockId: string;
+  blockedId: string;
+  createdAt: string;
+  blocked: {
+    userId: string;
+    name: string;
+    avatar: string | null;
+  };
+}
+
+export interface Availability {
+  timezone: string;
+  windows: AvailabilityWindow[];
+}
+
+export type ProfileVisibility = 'PUBLIC' | 'LOGGED_IN' | 'CONNECTIONS';
+export type LocationPrecision = 'EXACT' | 'CITY' | 'STATE' | 'HIDDEN';
+
+export interface PrivacySettings {
+  profileVisibility: ProfileVisibility;
+  locationPrecision: LocationPrecision;
+  ageVisibility: FieldVisibility;
+  phoneVisibility: FieldVisibility;
+  reviewsVisibility: FieldVisibility;
+  hideFromSearch: boolean;
+}
+
 export const userService = {
+  // Get weekly availability (own, or another user's)
+  async getAvailability(userId?: string): Promise<{ success: boolean; data: Availability }> {
+    const response = await api.get(userId ? `/users/${userId}/availability` : '/users/availability');
+    return response.data;
+  },
+
+  // Replace own weekly availability
+  async updateAvailability(data: Availability): Promise<{ success: boolean; data: Availability }> {
+    const response = await api.put('/users/availability', data);
+    return response.data;
+  },
+
+  // Get private calendar feed URL (subscribe from Google/Apple/Outlook calendar)
+  async getCalendarFeed(): Promise<{ success: boolean; data: { url: string } }> {
+    const response = await api.get('/calendar/feed');
+    return response.data;
+  },
+
+  // Replace the calendar feed URL, revoking the old one
+  async resetCalendarFeed(): Promise<{ success: boolean; data: { url: string } }> {
+    const response = await api.post('/calendar/feed/reset');
+    return response.data;
+  },
+
   // Get user profile
   async getProfile() {
     const response = await api.get('/users/profile');
@@ -31,6 +93,20 @@ export const userService = {
     return response.data;
   },
 
+  // Get own privacy settings
+  async getPrivacySettings(): Promise<{ success: boolean; data: PrivacySettings }> {
+    const response = await api.get('/users/privacy');
+    return response.data;
+  },
+
+  // Update own privacy settings
+  async updatePrivacySettings(
+    data: Partial<PrivacySettings>
+  ): Promise<{ success: boolean; data: PrivacySettings }> {
+    const response = await api.put('/users/privacy', data);
+    return response.data;
+  },
+
   // Get public user profile
   async getPublicProfile(userId: string) {
     const response = await api.get(`/users/${userId}`);
@@ -62,6 +138,24 @@ export const userService = {
     return response.data;
   },
 
+  // List users you have blocked
+  async getBlockedUsers(): Promise<{ success: boolean; data: BlockedUser[] }> {
+    const response = await api.get('/users/blocked');
+    return response.data;
+  },
+
+  // Block a user: hides them from you and you from them everywhere
+  async blockUser(userId: string) {
+    const response = await api.post(`/users/${userId}/block`);
+    return response.data;
+  },
+
+  // Unblock a user
+  async unblockUser(userId: string) {
+    const response = await api.delete(`/users/${userId}/block`);
+    return response.data;
+  },
+
   // Get user badges
   async getBadges(userId: string) {
     const response = await api.get(`/users/${userId}/badges`);
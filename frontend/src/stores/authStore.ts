@@ -1,6 +1,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
+export type MessagePermission = 'EVERYONE' | 'CONNECTIONS';
+export type FieldVisibility = 'EVERYONE' | 'CONNECTIONS' | 'NOBODY';
+
 export interface User {
   userId: string;
   email: string;
@@ -10,6 +13,8 @@ export interface User {
   bio: string | null;
   city: string | null;
   state: string | null;
+  messagePermission?: MessagePermission;
+  contactVisibility?: FieldVisibility;
   level: number;
   experiencePoints: number;
   skillCoins: number;